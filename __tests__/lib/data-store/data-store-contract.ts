@@ -0,0 +1,669 @@
+import crypto from 'crypto'
+import { Keypair } from '@stellar/stellar-sdk'
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+  DuplicateRecordError,
+  RecordNotFoundError,
+  type DataStore,
+  type NewStellarWallet,
+} from '@/lib/data-store'
+
+/**
+ * Behaviour every DataStore must share, run against each implementation
+ *
+ * Every test works on fresh users, keys and hashes, so the suite can
+ * run against a database that already holds rows (and other runs').
+ */
+export function describeDataStoreContract(
+  name: string,
+  createStore: () => Promise<DataStore>
+) {
+  describe(`${name} data store contract`, () => {
+    let store: DataStore
+
+    beforeAll(async () => {
+      store = await createStore()
+    })
+
+    const userId = () => `user-${crypto.randomUUID()}`
+    const publicKey = () => Keypair.random().publicKey()
+    const contract = () => Keypair.random().publicKey().replace(/^G/, 'C')
+    const txHash = () => crypto.randomBytes(32).toString('hex')
+
+    function newWallet(overrides: Partial<NewStellarWallet> = {}): NewStellarWallet {
+      return {
+        userId: userId(),
+        stellarPublicKey: publicKey(),
+        encryptedSecretKey: 'ciphertext',
+        encryptionIv: 'iv',
+        encryptionTag: 'tag',
+        wrappedDataKey: 'wrapped',
+        encryptionKeyId: 'local-1',
+        ...overrides,
+      }
+    }
+
+    // ========================================
+    // WALLETS
+    // ========================================
+
+    describe('wallets', () => {
+      it('creates a wallet and finds it by user and public key', async () => {
+        const wallet = await store.wallets.create(newWallet())
+
+        expect(wallet.id).toBeTruthy()
+        expect(wallet.activatedAt).toBeNull()
+        expect(wallet.archivedAt).toBeNull()
+        expect(await store.wallets.findByUserId(wallet.userId)).toMatchObject({ id: wallet.id })
+        expect(await store.wallets.findByPublicKey(wallet.stellarPublicKey)).toMatchObject({
+          id: wallet.id,
+        })
+        expect(await store.wallets.findByUserId(userId())).toBeNull()
+      })
+
+      it('rejects a second wallet for the same user or public key', async () => {
+        const wallet = await store.wallets.create(newWallet())
+
+        await expect(
+          store.wallets.create(newWallet({ userId: wallet.userId }))
+        ).rejects.toBeInstanceOf(DuplicateRecordError)
+        await expect(
+          store.wallets.create(newWallet({ stellarPublicKey: wallet.stellarPublicKey }))
+        ).rejects.toBeInstanceOf(DuplicateRecordError)
+      })
+
+      it('keeps the first activation, archival and migration', async () => {
+        const wallet = await store.wallets.create(newWallet())
+        const first = new Date('2025-01-01T00:00:00Z')
+        const later = new Date('2025-02-01T00:00:00Z')
+        const target = publicKey()
+
+        await store.wallets.markActivated(wallet.id, first, 'tx-1')
+        const activated = await store.wallets.markActivated(wallet.id, later, 'tx-2')
+        expect(activated.activatedAt).toEqual(first)
+        expect(activated.activationTx).toBe('tx-1')
+
+        await store.wallets.markMigrated(wallet.id, target, first)
+        const migrated = await store.wallets.markMigrated(wallet.id, publicKey(), later)
+        expect(migrated.migratedTo).toBe(target)
+        expect(migrated.archivedAt).toEqual(first)
+
+        expect((await store.wallets.archive(wallet.id, later)).archivedAt).toEqual(first)
+      })
+
+      it('wipes the encrypted secret', async () => {
+        const wallet = await store.wallets.create(newWallet())
+        const at = new Date()
+
+        const wiped = await store.wallets.wipeSecret(wallet.id, at)
+
+        expect(wiped.secretWipedAt).toEqual(at)
+        expect(wiped.encryptedSecretKey).toBe('')
+        expect(wiped.wrappedDataKey).toBeNull()
+      })
+
+      it('throws RecordNotFoundError for a missing wallet', async () => {
+        await expect(
+          store.wallets.archive(crypto.randomUUID(), new Date())
+        ).rejects.toBeInstanceOf(RecordNotFoundError)
+      })
+
+      it('replaces the secret only while it is under the expected key', async () => {
+        const wallet = await store.wallets.create(newWallet({ encryptionKeyId: 'local-old' }))
+        const rewrapped = {
+          encryptedSecretKey: 'ciphertext-2',
+          encryptionIv: 'iv-2',
+          encryptionTag: 'tag-2',
+          wrappedDataKey: 'wrapped-2',
+          encryptionKeyId: 'local-new',
+        }
+
+        const updated = await store.wallets.updateSecretIfEncryptionKey(
+          wallet.id,
+          'local-old',
+          rewrapped
+        )
+        expect(updated).toMatchObject(rewrapped)
+
+        // Already moved to local-new: a second rotation from local-old loses
+        expect(
+          await store.wallets.updateSecretIfEncryptionKey(wallet.id, 'local-old', rewrapped)
+        ).toBeNull()
+      })
+
+      it('lists wallets not on a key, by id, skipping wiped secrets', async () => {
+        const keyId = `key-${crypto.randomUUID()}`
+        const onKey = await store.wallets.create(newWallet({ encryptionKeyId: keyId }))
+        const offKey = await store.wallets.create(newWallet())
+        const wiped = await store.wallets.create(newWallet())
+        await store.wallets.wipeSecret(wiped.id, new Date())
+
+        const ids: string[] = []
+        let afterId: string | undefined
+        for (;;) {
+          const page = await store.wallets.listNotOnEncryptionKey(keyId, { afterId, limit: 50 })
+          if (page.length === 0) break
+          ids.push(...page.map((wallet) => wallet.id))
+          afterId = page[page.length - 1].id
+        }
+
+        expect(ids).toContain(offKey.id)
+        expect(ids).not.toContain(onKey.id)
+        expect(ids).not.toContain(wiped.id)
+        expect([...ids].sort()).toEqual(ids)
+      })
+    })
+
+    // ========================================
+    // CROSSMINT WALLETS
+    // ========================================
+
+    describe('crossmintWallets', () => {
+      it('finds the oldest wallet for an email', async () => {
+        const email = `${crypto.randomUUID()}@example.com`
+        const newCrossmintWallet = () => ({
+          userId: userId(),
+          stellarAddress: contract(),
+          email,
+          crossmintOwnerLocator: `email:${email}`,
+          walletAlias: null,
+        })
+
+        const first = await store.crossmintWallets.create(newCrossmintWallet())
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        await store.crossmintWallets.create(newCrossmintWallet())
+
+        expect(await store.crossmintWallets.findByEmail(email)).toMatchObject({ id: first.id })
+        expect(await store.crossmintWallets.findByAddress(first.stellarAddress)).toMatchObject({
+          id: first.id,
+        })
+        await expect(
+          store.crossmintWallets.create({ ...newCrossmintWallet(), userId: first.userId })
+        ).rejects.toBeInstanceOf(DuplicateRecordError)
+      })
+    })
+
+    describe('emailVerifications', () => {
+      it('keeps one verification per user and caps its attempts', async () => {
+        const user = userId()
+        const verification = (email: string) => ({
+          userId: user,
+          email,
+          codeHash: txHash(),
+          expiresAt: new Date(Date.now() + 60_000),
+        })
+
+        expect(await store.emailVerifications.recordAttempt(user, 2)).toBeNull()
+
+        await store.emailVerifications.replace(verification('first@example.com'))
+        expect((await store.emailVerifications.recordAttempt(user, 2))?.attempts).toBe(1)
+        expect((await store.emailVerifications.recordAttempt(user, 2))?.attempts).toBe(2)
+        expect(await store.emailVerifications.recordAttempt(user, 2)).toBeNull()
+
+        const replaced = await store.emailVerifications.replace(verification('second@example.com'))
+        expect(replaced).toMatchObject({ email: 'second@example.com', attempts: 0 })
+        expect(await store.emailVerifications.findByUserId(user)).toMatchObject({
+          email: 'second@example.com',
+        })
+      })
+    })
+
+    // ========================================
+    // DEPOSITS AND WITHDRAWALS
+    // ========================================
+
+    describe('deposits', () => {
+      async function newDeposit(user = userId()) {
+        return store.deposits.create({
+          userId: user,
+          stellarWalletId: null,
+          stellarPublicKey: publicKey(),
+          vaultAddress: contract(),
+          amountUsdc: BigInt(1_000_000_000),
+          slippageBps: 50,
+          defindexDepositTx: txHash(),
+        })
+      }
+
+      it('creates a deposit with defaults and finds it by hash', async () => {
+        const deposit = await newDeposit()
+
+        expect(deposit.bridgeStatus).toBe('INITIATED')
+        expect(deposit.amountUsdc).toBe(BigInt(1_000_000_000))
+        expect(await store.deposits.findById(deposit.id)).toMatchObject({ id: deposit.id })
+        expect(
+          await store.deposits.findByTransactionHash(deposit.defindexDepositTx!)
+        ).toMatchObject({ id: deposit.id })
+      })
+
+      it('rejects a deposit transaction recorded twice', async () => {
+        const deposit = await newDeposit()
+
+        await expect(
+          store.deposits.create({
+            userId: deposit.userId,
+            stellarWalletId: null,
+            stellarPublicKey: deposit.stellarPublicKey,
+            vaultAddress: deposit.vaultAddress,
+            amountUsdc: BigInt(1),
+            slippageBps: 50,
+            defindexDepositTx: deposit.defindexDepositTx,
+          })
+        ).rejects.toBeInstanceOf(DuplicateRecordError)
+      })
+
+      it("lists a user's deposits newest first", async () => {
+        const user = userId()
+        const older = await newDeposit(user)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        const newer = await newDeposit(user)
+
+        const deposits = await store.deposits.listByUser(user)
+
+        expect(deposits.map((deposit) => deposit.id)).toEqual([newer.id, older.id])
+      })
+
+      it('updates only while the status is the expected one', async () => {
+        const deposit = await newDeposit()
+
+        const completed = await store.deposits.updateIfStatus(deposit.id, 'INITIATED', {
+          bridgeStatus: 'COMPLETED',
+          vaultShares: BigInt(42),
+        })
+        expect(completed).toMatchObject({ bridgeStatus: 'COMPLETED', vaultShares: BigInt(42) })
+
+        expect(
+          await store.deposits.updateIfStatus(deposit.id, 'INITIATED', { bridgeStatus: 'FAILED' })
+        ).toBeNull()
+        expect((await store.deposits.findById(deposit.id))?.bridgeStatus).toBe('COMPLETED')
+      })
+
+      it('throws RecordNotFoundError when updating a missing deposit', async () => {
+        await expect(
+          store.deposits.update(crypto.randomUUID(), { bridgeStatus: 'FAILED' })
+        ).rejects.toBeInstanceOf(RecordNotFoundError)
+      })
+    })
+
+    describe('withdrawals', () => {
+      it('creates, finds and updates a withdrawal only from the expected status', async () => {
+        const withdrawal = await store.withdrawals.create({
+          userId: userId(),
+          stellarWalletId: null,
+          stellarPublicKey: publicKey(),
+          vaultAddress: contract(),
+          amountUsdc: BigInt(500),
+          vaultShares: BigInt(400),
+          slippageBps: 50,
+          defindexWithdrawTx: txHash(),
+        })
+        expect(withdrawal.status).toBe('INITIATED')
+        expect(
+          await store.withdrawals.findByTransactionHash(withdrawal.defindexWithdrawTx!)
+        ).toMatchObject({ id: withdrawal.id })
+
+        const withdrawn = await store.withdrawals.updateIfStatus(withdrawal.id, 'INITIATED', {
+          status: 'WITHDRAWN',
+        })
+        expect(withdrawn?.status).toBe('WITHDRAWN')
+        expect(
+          await store.withdrawals.updateIfStatus(withdrawal.id, 'INITIATED', { status: 'FAILED' })
+        ).toBeNull()
+      })
+    })
+
+    // ========================================
+    // VAULT BALANCES
+    // ========================================
+
+    describe('vaultBalances', () => {
+      async function walletKey(vaultAddress = contract()) {
+        const wallet = await store.wallets.create(newWallet())
+        return { userId: wallet.userId, stellarWalletId: wallet.id, vaultAddress }
+      }
+
+      it('creates a balance at zero on the first adjustment', async () => {
+        const key = await walletKey()
+
+        const balance = await store.vaultBalances.adjust(key, {
+          deposited: BigInt(100),
+          shares: BigInt(90),
+        })
+
+        expect(balance).toMatchObject({
+          ...key,
+          totalDeposited: BigInt(100),
+          vaultShares: BigInt(90),
+          estimatedYield: BigInt(0),
+        })
+      })
+
+      it('keeps one balance per vault', async () => {
+        const key = await walletKey()
+        const otherVault = { ...key, vaultAddress: contract() }
+
+        await store.vaultBalances.adjust(key, { deposited: BigInt(100), shares: BigInt(100) })
+        await store.vaultBalances.adjust(otherVault, { deposited: BigInt(7), shares: BigInt(7) })
+        await store.vaultBalances.adjust(key, { deposited: BigInt(-40), shares: BigInt(-40) })
+
+        expect((await store.vaultBalances.find(key.userId, key.vaultAddress))?.vaultShares).toBe(
+          BigInt(60)
+        )
+        expect(
+          (await store.vaultBalances.find(key.userId, otherVault.vaultAddress))?.vaultShares
+        ).toBe(BigInt(7))
+        expect(
+          (await store.vaultBalances.listByUser(key.userId)).map((balance) => balance.vaultAddress)
+        ).toEqual([key.vaultAddress, otherVault.vaultAddress])
+      })
+
+      it('never loses concurrent adjustments', async () => {
+        const key = await walletKey()
+
+        await Promise.all(
+          Array.from({ length: 10 }, () =>
+            store.vaultBalances.adjust(key, { deposited: BigInt(1), shares: BigInt(2) })
+          )
+        )
+
+        expect(await store.vaultBalances.find(key.userId, key.vaultAddress)).toMatchObject({
+          totalDeposited: BigInt(10),
+          vaultShares: BigInt(20),
+        })
+      })
+
+      it('overwrites the chain-derived fields on sync', async () => {
+        const key = await walletKey()
+        const checkedAt = new Date()
+        await store.vaultBalances.adjust(key, { deposited: BigInt(100), shares: BigInt(100) })
+
+        const synced = await store.vaultBalances.sync(key, {
+          vaultShares: BigInt(95),
+          estimatedYield: BigInt(5),
+          lastYieldCheck: checkedAt,
+        })
+
+        expect(synced).toMatchObject({
+          totalDeposited: BigInt(100),
+          vaultShares: BigInt(95),
+          estimatedYield: BigInt(5),
+          lastYieldCheck: checkedAt,
+        })
+      })
+
+      it('records yield only for an existing balance', async () => {
+        const key = await walletKey()
+        const checkedAt = new Date()
+
+        expect(
+          await store.vaultBalances.recordYield(key.userId, key.vaultAddress, BigInt(3), checkedAt)
+        ).toBe(false)
+
+        await store.vaultBalances.adjust(key, { deposited: BigInt(10), shares: BigInt(10) })
+        expect(
+          await store.vaultBalances.recordYield(key.userId, key.vaultAddress, BigInt(3), checkedAt)
+        ).toBe(true)
+        expect(
+          (await store.vaultBalances.find(key.userId, key.vaultAddress))?.estimatedYield
+        ).toBe(BigInt(3))
+      })
+    })
+
+    // ========================================
+    // DRIFTS AND SNAPSHOTS
+    // ========================================
+
+    describe('vaultBalanceDrifts', () => {
+      it('filters drifts and marks them reviewed', async () => {
+        const runId = crypto.randomUUID()
+        const drift = (flagged: boolean) =>
+          store.vaultBalanceDrifts.create({
+            runId,
+            userId: userId(),
+            stellarPublicKey: publicKey(),
+            vaultAddress: contract(),
+            storedShares: BigInt(100),
+            onChainShares: BigInt(90),
+            driftShares: BigInt(-10),
+            driftAssets: BigInt(10),
+            flagged,
+          })
+        const flagged = await drift(true)
+        await drift(false)
+
+        expect(await store.vaultBalanceDrifts.list({ runId })).toHaveLength(2)
+        expect(
+          (await store.vaultBalanceDrifts.list({ runId, flagged: true })).map((d) => d.id)
+        ).toEqual([flagged.id])
+
+        const reviewed = await store.vaultBalanceDrifts.markReviewed(
+          flagged.id,
+          'admin@example.com',
+          new Date(),
+          'Known fee rounding'
+        )
+        expect(reviewed).toMatchObject({
+          reviewedBy: 'admin@example.com',
+          reviewNote: 'Known fee rounding',
+        })
+        expect(await store.vaultBalanceDrifts.list({ runId, reviewed: false })).toHaveLength(1)
+      })
+    })
+
+    describe('portfolioSnapshots', () => {
+      it('replaces the snapshot of the same vault and day', async () => {
+        const user = userId()
+        const vaultAddress = contract()
+        const day = new Date('2025-03-01T00:00:00Z')
+        const snapshot = (shares: number) => ({
+          userId: user,
+          vaultAddress,
+          snapshotDate: day,
+          shares: BigInt(shares),
+          pricePerShare: 1.05,
+          value: BigInt(Math.round(shares * 1.05)),
+        })
+
+        await store.portfolioSnapshots.upsert(snapshot(100))
+        await store.portfolioSnapshots.upsert(snapshot(200))
+        await store.portfolioSnapshots.upsert({
+          ...snapshot(50),
+          snapshotDate: new Date('2025-03-02T00:00:00Z'),
+        })
+
+        const snapshots = await store.portfolioSnapshots.listByUser(user, vaultAddress, day)
+        expect(snapshots.map((s) => s.shares)).toEqual([BigInt(200), BigInt(50)])
+        expect(
+          await store.portfolioSnapshots.listByUser(user, vaultAddress, new Date('2025-03-02T00:00:00Z'))
+        ).toHaveLength(1)
+      })
+    })
+
+    // ========================================
+    // IDEMPOTENCY AND FEES
+    // ========================================
+
+    describe('idempotencyKeys', () => {
+      it('stores a key once per scope and updates or deletes it', async () => {
+        const key = crypto.randomUUID()
+        const record = {
+          key,
+          scope: 'demo/deposit',
+          requestHash: txHash(),
+          expiresAt: new Date(Date.now() + 60_000),
+        }
+
+        expect((await store.idempotencyKeys.create(record)).status).toBe('IN_PROGRESS')
+        await expect(store.idempotencyKeys.create(record)).rejects.toBeInstanceOf(
+          DuplicateRecordError
+        )
+        await store.idempotencyKeys.create({ ...record, scope: 'demo/withdraw' })
+
+        const completed = await store.idempotencyKeys.update('demo/deposit', key, {
+          status: 'COMPLETED',
+          responseStatus: 202,
+          responseBody: { success: true },
+        })
+        expect(completed).toMatchObject({ responseStatus: 202, responseBody: { success: true } })
+
+        await store.idempotencyKeys.delete('demo/deposit', key)
+        expect(await store.idempotencyKeys.find('demo/deposit', key)).toBeNull()
+        await expect(store.idempotencyKeys.delete('demo/deposit', key)).rejects.toBeInstanceOf(
+          RecordNotFoundError
+        )
+      })
+    })
+
+    describe('feeSponsorships', () => {
+      it('records a sponsorship once and settles it', async () => {
+        const sponsorship = {
+          userId: userId(),
+          transactionHash: txHash(),
+          innerTransactionHash: txHash(),
+          sponsorPublicKey: publicKey(),
+          maxFee: BigInt(10_000),
+        }
+
+        const first = await store.feeSponsorships.createIfAbsent(sponsorship)
+        const again = await store.feeSponsorships.createIfAbsent({
+          ...sponsorship,
+          maxFee: BigInt(1),
+        })
+        expect(again).toMatchObject({ id: first.id, maxFee: BigInt(10_000) })
+
+        expect(
+          await store.feeSponsorships.settle(sponsorship.transactionHash, BigInt(120), new Date())
+        ).toBe(true)
+        expect(await store.feeSponsorships.settle(txHash(), BigInt(1), new Date())).toBe(false)
+        expect(await store.feeSponsorships.listByUser(sponsorship.userId)).toMatchObject([
+          { feeCharged: BigInt(120) },
+        ])
+      })
+    })
+
+    // ========================================
+    // SIGNING AUDIT LOG
+    // ========================================
+
+    describe('signingAuditLog', () => {
+      it('appends entries in sequence and rejects a taken sequence', async () => {
+        const user = userId()
+        const entry = (sequence: number) => ({
+          sequence,
+          userId: user,
+          stellarPublicKey: publicKey(),
+          action: 'KEY_ACCESS' as const,
+          operation: 'test.contract',
+          contractAddress: null,
+          functionName: null,
+          amounts: [],
+          transactionHash: null,
+          createdAt: new Date(),
+          previousHash: txHash(),
+          entryHash: txHash(),
+        })
+
+        const start = ((await store.signingAuditLog.findLatest())?.sequence ?? 0) + 1
+        await store.signingAuditLog.append(entry(start))
+        await store.signingAuditLog.append(entry(start + 1))
+
+        await expect(store.signingAuditLog.append(entry(start + 1))).rejects.toBeInstanceOf(
+          DuplicateRecordError
+        )
+        expect((await store.signingAuditLog.findLatest())?.sequence).toBeGreaterThanOrEqual(
+          start + 1
+        )
+        expect(
+          (await store.signingAuditLog.listAfter(start - 1, 2)).map((e) => e.sequence)
+        ).toEqual([start, start + 1])
+        expect(
+          (await store.signingAuditLog.list({ userId: user })).map((e) => e.sequence)
+        ).toEqual([start + 1, start])
+      })
+    })
+
+    // ========================================
+    // CLOSURES AND MIGRATIONS
+    // ========================================
+
+    describe('accountClosures', () => {
+      it('creates one closure per user and updates it', async () => {
+        const user = userId()
+        const closure = await store.accountClosures.create({
+          userId: user,
+          stellarWalletId: null,
+          crossmintWalletId: null,
+          destinationAddress: null,
+        })
+        expect(closure).toMatchObject({ status: 'IN_PROGRESS', transferredAmounts: {} })
+
+        await expect(
+          store.accountClosures.create({
+            userId: user,
+            stellarWalletId: null,
+            crossmintWalletId: null,
+            destinationAddress: null,
+          })
+        ).rejects.toBeInstanceOf(DuplicateRecordError)
+
+        const asset = contract()
+        const updated = await store.accountClosures.update(closure.id, {
+          step: 'ARCHIVE',
+          transferredAmounts: { [asset]: '1000' },
+        })
+        expect(updated).toMatchObject({ step: 'ARCHIVE', transferredAmounts: { [asset]: '1000' } })
+        expect(await store.accountClosures.findByUserId(user)).toMatchObject({ step: 'ARCHIVE' })
+      })
+    })
+
+    describe('walletMigrations', () => {
+      it('moves a migration on only from the expected status', async () => {
+        const wallet = await store.wallets.create(newWallet())
+        const migration = await store.walletMigrations.create({
+          userId: wallet.userId,
+          stellarWalletId: wallet.id,
+          fromAddress: wallet.stellarPublicKey,
+          targetType: 'SELF_CUSTODY',
+          targetAddress: publicKey(),
+          method: 'TRANSFER_SHARES',
+          challenge: 'Sign me',
+        })
+        expect(migration).toMatchObject({
+          status: 'AWAITING_PROOF',
+          step: 'MOVE_SHARES',
+          sharesMoved: {},
+          assetsMoved: {},
+        })
+
+        const proved = await store.walletMigrations.updateIfStatus(migration.id, 'AWAITING_PROOF', {
+          status: 'IN_PROGRESS',
+          provedAt: new Date(),
+        })
+        expect(proved?.status).toBe('IN_PROGRESS')
+        expect(
+          await store.walletMigrations.updateIfStatus(migration.id, 'AWAITING_PROOF', {
+            status: 'IN_PROGRESS',
+          })
+        ).toBeNull()
+
+        const vault = contract()
+        const moved = await store.walletMigrations.update(migration.id, {
+          sharesMoved: { [vault]: '500' },
+        })
+        expect(moved.sharesMoved).toEqual({ [vault]: '500' })
+      })
+    })
+
+    // ========================================
+    // ISOLATION
+    // ========================================
+
+    it('returns copies, not the stored records', async () => {
+      const wallet = await store.wallets.create(newWallet())
+
+      wallet.archivedAt = new Date()
+
+      expect((await store.wallets.findByUserId(wallet.userId))?.archivedAt).toBeNull()
+    })
+  })
+}
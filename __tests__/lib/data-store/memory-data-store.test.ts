@@ -0,0 +1,5 @@
+// @vitest-environment node
+import { InMemoryDataStore } from '@/lib/data-store'
+import { describeDataStoreContract } from './data-store-contract'
+
+describeDataStoreContract('InMemoryDataStore', async () => new InMemoryDataStore())
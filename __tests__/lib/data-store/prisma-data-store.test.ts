@@ -0,0 +1,23 @@
+// @vitest-environment node
+import { afterAll, describe } from 'vitest'
+import { PrismaDataStore } from '@/lib/data-store'
+import { describeDataStoreContract } from './data-store-contract'
+
+// Needs a migrated PostgreSQL database (npx prisma migrate deploy), e.g.
+// TEST_DATABASE_URL=postgresql://localhost:5432/juby_test npm test
+const databaseUrl = process.env.TEST_DATABASE_URL
+
+describe.skipIf(!databaseUrl)('PrismaDataStore', () => {
+  let disconnect: (() => Promise<void>) | undefined
+
+  describeDataStoreContract('PrismaDataStore', async () => {
+    const { PrismaClient } = await import('@prisma/client')
+    const client = new PrismaClient({ datasourceUrl: databaseUrl })
+    disconnect = () => client.$disconnect()
+    return new PrismaDataStore(client)
+  })
+
+  afterAll(async () => {
+    await disconnect?.()
+  })
+})
@@ -0,0 +1,70 @@
+// @vitest-environment node
+import crypto from 'crypto'
+import { Keypair } from '@stellar/stellar-sdk'
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  KeyUnavailableError,
+  LocalFileKeyProvider,
+  openSecret,
+  rewrapSecret,
+  sealSecret,
+} from '@/lib/kms'
+
+const SECRET = Keypair.random().secret()
+
+describe('envelope encryption', () => {
+  const keys = {
+    'local-1': crypto.randomBytes(32).toString('hex'),
+    'local-2': crypto.randomBytes(32).toString('hex'),
+  }
+  let provider: LocalFileKeyProvider
+
+  beforeEach(() => {
+    provider = new LocalFileKeyProvider({ activeKeyId: 'local-1', keys })
+  })
+
+  it('opens what it sealed, with a new data key every time', async () => {
+    const first = await sealSecret(provider, SECRET)
+    const second = await sealSecret(provider, SECRET)
+
+    expect(first.keyId).toBe('local-1')
+    expect(first.encrypted).not.toContain(Buffer.from(SECRET).toString('hex'))
+    expect(first.wrappedDataKey).not.toBe(second.wrappedDataKey)
+    expect(await openSecret(provider, first)).toBe(SECRET)
+    expect(await openSecret(provider, second)).toBe(SECRET)
+  })
+
+  it('refuses a sealed secret relabelled with another key id', async () => {
+    const sealed = await sealSecret(provider, SECRET)
+
+    await expect(openSecret(provider, { ...sealed, keyId: 'local-2' })).rejects.toBeInstanceOf(
+      KeyUnavailableError
+    )
+  })
+
+  it('refuses a tampered ciphertext', async () => {
+    const sealed = await sealSecret(provider, SECRET)
+    const encrypted = Buffer.from(sealed.encrypted, 'hex')
+    encrypted[0] ^= 1
+
+    await expect(
+      openSecret(provider, { ...sealed, encrypted: encrypted.toString('hex') })
+    ).rejects.toThrow()
+  })
+
+  it('re-wraps the data key under the active key, leaving the ciphertext as it was', async () => {
+    const sealed = await sealSecret(provider, SECRET)
+    const rotated = new LocalFileKeyProvider({ activeKeyId: 'local-2', keys })
+
+    const rewrapped = await rewrapSecret(rotated, sealed)
+
+    expect(rewrapped).toMatchObject({
+      encrypted: sealed.encrypted,
+      iv: sealed.iv,
+      tag: sealed.tag,
+      keyId: 'local-2',
+    })
+    expect(rewrapped.wrappedDataKey).not.toBe(sealed.wrappedDataKey)
+    expect(await openSecret(rotated, rewrapped)).toBe(SECRET)
+  })
+})
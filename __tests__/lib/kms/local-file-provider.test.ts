@@ -0,0 +1,100 @@
+// @vitest-environment node
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { KeyUnavailableError, LocalFileKeyProvider } from '@/lib/kms'
+
+const randomKeyHex = () => crypto.randomBytes(32).toString('hex')
+
+describe('LocalFileKeyProvider', () => {
+  let provider: LocalFileKeyProvider
+  let dataKey: Buffer
+
+  beforeEach(() => {
+    provider = new LocalFileKeyProvider({
+      activeKeyId: 'local-2',
+      keys: { 'local-1': randomKeyHex(), 'local-2': randomKeyHex() },
+    })
+    dataKey = crypto.randomBytes(32)
+  })
+
+  it('unwraps what it wrapped, under the active key', async () => {
+    const wrapped = await provider.wrapKey(dataKey)
+
+    expect(wrapped.keyId).toBe('local-2')
+    expect(Buffer.from(wrapped.wrappedKey, 'base64').includes(dataKey)).toBe(false)
+    expect((await provider.unwrapKey(wrapped)).equals(dataKey)).toBe(true)
+  })
+
+  it('rejects a wrapped key relabelled with another key id', async () => {
+    const wrapped = await provider.wrapKey(dataKey)
+
+    await expect(provider.unwrapKey({ ...wrapped, keyId: 'local-1' })).rejects.toThrow(
+      'does not authenticate'
+    )
+  })
+
+  it('rejects a tampered wrapped key and a key id it does not hold', async () => {
+    const wrapped = await provider.wrapKey(dataKey)
+    const bytes = Buffer.from(wrapped.wrappedKey, 'base64')
+    bytes[bytes.length - 1] ^= 1
+
+    await expect(
+      provider.unwrapKey({ ...wrapped, wrappedKey: bytes.toString('base64') })
+    ).rejects.toBeInstanceOf(KeyUnavailableError)
+    await expect(provider.unwrapKey({ ...wrapped, keyId: 'local-9' })).rejects.toThrow(
+      'not in the local key file'
+    )
+  })
+
+  it('refuses malformed keys and a missing active key', () => {
+    expect(
+      () => new LocalFileKeyProvider({ activeKeyId: 'local-1', keys: { 'local-1': 'abc' } })
+    ).toThrow('64 hex characters')
+    expect(
+      () => new LocalFileKeyProvider({ activeKeyId: 'local-2', keys: { 'local-1': randomKeyHex() } })
+    ).toThrow('not in the key file')
+  })
+
+  // ========================================
+  // KEY FILE
+  // ========================================
+
+  describe('key file', () => {
+    let directory: string
+    let keyFile: string
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'local-kms-'))
+      keyFile = path.join(directory, 'keys', 'local-kms.json')
+    })
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    it('refuses a missing file unless asked to create it', () => {
+      expect(() => LocalFileKeyProvider.load(keyFile)).toThrow('not found')
+
+      const created = LocalFileKeyProvider.load(keyFile, { createIfMissing: true })
+
+      expect(created.getActiveKeyId()).toBe('local-1')
+      expect(fs.statSync(keyFile).mode & 0o777).toBe(0o600)
+    })
+
+    it('keeps unwrapping with older keys after a new one is added', async () => {
+      const before = LocalFileKeyProvider.load(keyFile, { createIfMissing: true })
+      const wrapped = await before.wrapKey(dataKey)
+
+      expect(LocalFileKeyProvider.addKey(keyFile)).toBe('local-2')
+      const after = LocalFileKeyProvider.load(keyFile)
+
+      expect(after.getActiveKeyId()).toBe('local-2')
+      expect((await after.unwrapKey(wrapped)).equals(dataKey)).toBe(true)
+      expect((await after.wrapKey(dataKey)).keyId).toBe('local-2')
+    })
+  })
+})
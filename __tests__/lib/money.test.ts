@@ -0,0 +1,149 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import { Money, MoneyParseError } from '@/lib/money'
+
+describe('Money', () => {
+  // ========================================
+  // PARSE
+  // ========================================
+
+  describe('parse', () => {
+    it('reads decimal strings exactly', () => {
+      expect(Money.parse('100.5', 7).units).toBe(BigInt(1_005_000_000))
+      expect(Money.parse(' 0.0000001 ', 7).units).toBe(BigInt(1))
+      expect(Money.parse('-3', 7).units).toBe(BigInt(-30_000_000))
+      expect(Money.parse('12', 0).units).toBe(BigInt(12))
+    })
+
+    it('accepts up to the asset precision and refuses anything finer', () => {
+      expect(Money.parse('1.1234567', 7).units).toBe(BigInt(11_234_567))
+      expect(() => Money.parse('1.12345678', 7)).toThrow('at most 7 decimal places')
+      expect(() => Money.parse('1.5', 0)).toThrow('at most 0 decimal places')
+      // Trailing zeros still count as precision
+      expect(() => Money.parse('1.00000000', 7)).toThrow(MoneyParseError)
+    })
+
+    it('refuses malformed strings', () => {
+      for (const value of ['', '1,5', '.5', '5.', '+5', '1e3', 'abc', '--1']) {
+        expect(() => Money.parse(value, 7)).toThrow(MoneyParseError)
+      }
+    })
+
+    it('reads numbers through their shortest decimal form', () => {
+      expect(Money.parse(100.5, 7).units).toBe(BigInt(1_005_000_000))
+      expect(Money.parse(0.3, 7).units).toBe(BigInt(3_000_000))
+      expect(() => Money.parse(0.1 + 0.2, 7)).toThrow(MoneyParseError)
+    })
+
+    it('expands numbers JavaScript prints in exponent notation', () => {
+      expect(Money.parse(1e-7, 7).units).toBe(BigInt(1))
+      expect(Money.parse(-2.5e-6, 7).units).toBe(BigInt(-25))
+      expect(Money.parse(1.5e21, 7).units).toBe(BigInt('15000000000000000000000000000'))
+      expect(() => Money.parse(1e-8, 7)).toThrow('at most 7 decimal places')
+    })
+
+    it('refuses values that are not strings or finite numbers', () => {
+      for (const value of [true, {}, [], null, undefined, BigInt(5)]) {
+        expect(() => Money.parse(value as unknown as string, 7)).toThrow(
+          'expected a decimal string or number'
+        )
+      }
+      expect(() => Money.parse(NaN, 7)).toThrow('not a finite number')
+      expect(() => Money.parse(Infinity, 7)).toThrow('not a finite number')
+    })
+  })
+
+  // ========================================
+  // FORMAT
+  // ========================================
+
+  describe('format', () => {
+    it('prints the exact amount without trailing zeros', () => {
+      expect(Money.fromUnits(BigInt(1_005_000_000), 7).toString()).toBe('100.5')
+      expect(Money.fromUnits(BigInt(1), 7).toString()).toBe('0.0000001')
+      expect(Money.fromUnits(BigInt(-1), 7).toString()).toBe('-0.0000001')
+      expect(Money.zero(7).toString()).toBe('0')
+    })
+
+    it('pads and truncates the fraction of negative amounts', () => {
+      const amount = Money.parse('-1.2345678', 7)
+
+      expect(amount.format({ minFractionDigits: 9 })).toBe('-1.234567800')
+      expect(amount.format({ maxFractionDigits: 2 })).toBe('-1.23')
+      expect(amount.format({ maxFractionDigits: 0 })).toBe('-1')
+      expect(Money.parse('-5', 7).format({ minFractionDigits: 2 })).toBe('-5.00')
+    })
+
+    it('truncates toward zero, leaving no trailing zeros or negative zero', () => {
+      const dust = Money.parse('-0.004', 7)
+
+      expect(dust.format({ maxFractionDigits: 2 })).toBe('0')
+      expect(dust.format({ minFractionDigits: 2, maxFractionDigits: 2 })).toBe('0.00')
+      expect(Money.parse('-0.05', 7).format({ maxFractionDigits: 1 })).toBe('0')
+      expect(Money.parse('1.2049', 7).format({ maxFractionDigits: 2 })).toBe('1.2')
+    })
+  })
+
+  // ========================================
+  // UNITS AND NUMBERS
+  // ========================================
+
+  describe('fromUnits', () => {
+    it('accepts bigints, integer strings and safe integers', () => {
+      expect(Money.fromUnits(BigInt('123456789012345678901'), 7).units).toBe(
+        BigInt('123456789012345678901')
+      )
+      expect(Money.fromUnits(' -42 ', 7).units).toBe(BigInt(-42))
+      expect(Money.fromUnits(Number.MAX_SAFE_INTEGER, 7).units).toBe(
+        BigInt(Number.MAX_SAFE_INTEGER)
+      )
+    })
+
+    it('refuses fractions and numbers beyond the safe range', () => {
+      expect(() => Money.fromUnits('1.5', 7)).toThrow('units must be an integer')
+      expect(() => Money.fromUnits(1.5, 7)).toThrow('units must be a safe integer')
+      expect(() => Money.fromUnits(Number.MAX_SAFE_INTEGER + 1, 7)).toThrow(
+        'units must be a safe integer'
+      )
+    })
+
+    it('refuses decimals outside 0 to 38', () => {
+      expect(() => Money.fromUnits(BigInt(1), -1)).toThrow('Invalid asset decimals')
+      expect(() => Money.fromUnits(BigInt(1), 39)).toThrow('Invalid asset decimals')
+    })
+  })
+
+  describe('toSafeNumber', () => {
+    it('passes units within the safe integer range', () => {
+      expect(Money.fromUnits(BigInt(Number.MAX_SAFE_INTEGER), 7).toSafeNumber()).toBe(
+        Number.MAX_SAFE_INTEGER
+      )
+      expect(Money.fromUnits(BigInt(Number.MIN_SAFE_INTEGER), 7).toSafeNumber()).toBe(
+        Number.MIN_SAFE_INTEGER
+      )
+    })
+
+    it('refuses units a number would round', () => {
+      const max = BigInt(Number.MAX_SAFE_INTEGER)
+
+      expect(() => Money.fromUnits(max + BigInt(1), 7).toSafeNumber()).toThrow('too large')
+      expect(() => Money.fromUnits(-max - BigInt(1), 7).toSafeNumber()).toThrow('too large')
+    })
+  })
+
+  // ========================================
+  // ARITHMETIC
+  // ========================================
+
+  it('adds without floating point error', () => {
+    const sum = Money.parse('0.1', 7).plus(Money.parse('0.2', 7))
+
+    expect(sum.equals(Money.parse('0.3', 7))).toBe(true)
+  })
+
+  it('refuses to combine assets with different decimals', () => {
+    expect(() => Money.parse('1', 7).compare(Money.parse('1', 6))).toThrow(
+      'Cannot combine amounts with 7 and 6 decimals'
+    )
+  })
+})
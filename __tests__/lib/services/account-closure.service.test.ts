@@ -0,0 +1,137 @@
+// @vitest-environment node
+import crypto from 'crypto'
+import { Keypair } from '@stellar/stellar-sdk'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getDataStore, InMemoryDataStore, setDataStore } from '@/lib/data-store'
+import { LocalFileKeyProvider } from '@/lib/kms'
+import { AccountClosureService } from '@/lib/services/account-closure.service'
+import type { Statement } from '@/lib/services/statement.service'
+import { getStellarWalletService } from '@/lib/services/stellar-wallet.service'
+import { FakeCustodialFunds, VAULT } from './fake-custodial-funds'
+
+function emptyStatement(userId: string, from: Date, to: Date): Statement {
+  const position = (date: Date) => ({
+    date,
+    shares: BigInt(0),
+    costBasis: BigInt(0),
+    value: null,
+    pricePerShare: null,
+  })
+  return {
+    userId,
+    stellarPublicKey: null,
+    vaultId: VAULT.id,
+    vaultAddress: VAULT.address,
+    assetSymbol: VAULT.assetSymbol,
+    decimals: VAULT.decimals,
+    from,
+    to,
+    generatedAt: to,
+    opening: position(from),
+    closing: position(to),
+    lines: [],
+    totals: {
+      deposited: BigInt(0),
+      withdrawn: BigInt(0),
+      realizedYield: BigInt(0),
+      periodYield: BigInt(0),
+    },
+  }
+}
+
+describe('AccountClosureService', () => {
+  const destination = Keypair.random().publicKey()
+
+  let funds: FakeCustodialFunds
+  let service: AccountClosureService
+  let userId: string
+  let walletAddress: string
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    setDataStore(new InMemoryDataStore())
+    // An in-memory key, so no key file is written; only retireSecretKey is used
+    getStellarWalletService(
+      new LocalFileKeyProvider({
+        activeKeyId: 'local-1',
+        keys: { 'local-1': crypto.randomBytes(32).toString('hex') },
+      })
+    )
+
+    funds = new FakeCustodialFunds()
+    service = new AccountClosureService(funds, {
+      generate: async (user, from, to) => emptyStatement(user, from, to),
+    })
+
+    userId = `user-${crypto.randomUUID()}`
+    walletAddress = Keypair.random().publicKey()
+    await getDataStore().wallets.create({
+      userId,
+      stellarPublicKey: walletAddress,
+      encryptedSecretKey: 'ciphertext',
+      encryptionIv: 'iv',
+      encryptionTag: 'tag',
+      wrappedDataKey: 'wrapped',
+      encryptionKeyId: 'local-1',
+    })
+    funds.shares.set(walletAddress, BigInt(500_000_000))
+    funds.assets.set(walletAddress, BigInt(100_000_000))
+  })
+
+  async function expectClosed() {
+    const wallet = await getDataStore().wallets.findByUserId(userId)
+    expect(wallet?.archivedAt).not.toBeNull()
+    expect(wallet?.secretWipedAt).not.toBeNull()
+    expect(funds.shares.get(walletAddress)).toBe(BigInt(0))
+    expect(funds.assets.get(walletAddress)).toBe(BigInt(0))
+    expect(funds.assets.get(destination)).toBe(BigInt(600_000_000))
+  }
+
+  it('resumes a withdrawal that had not settled, without sending it again', async () => {
+    funds.stall('withdraw')
+
+    const failed = await service.close(userId, { destinationAddress: destination })
+
+    expect(failed).toMatchObject({ status: 'FAILED', step: 'WITHDRAW' })
+    expect(failed.lastError).toContain('has not settled yet')
+    expect(failed.withdrawalTx).not.toBeNull()
+
+    const closed = await service.close(userId)
+
+    expect(closed).toMatchObject({ status: 'COMPLETED', step: 'STATEMENT', lastError: null })
+    expect(closed.closingStatement).toHaveLength(1)
+    expect(funds.submitted.map(({ type }) => type)).toEqual(['withdraw', 'asset'])
+    await expectClosed()
+  })
+
+  it('resumes a transfer that had not settled, counting the amount once', async () => {
+    funds.stall('asset')
+
+    const failed = await service.close(userId, { destinationAddress: destination })
+
+    expect(failed).toMatchObject({ status: 'FAILED', step: 'TRANSFER' })
+    expect(funds.assets.get(destination)).toBeUndefined()
+
+    const closed = await service.close(userId)
+
+    expect(closed.status).toBe('COMPLETED')
+    expect(closed.transferredAmounts).toEqual({ [VAULT.assetAddress]: '600000000' })
+    expect(funds.submitted.map(({ type }) => type)).toEqual(['withdraw', 'asset'])
+    await expectClosed()
+  })
+
+  it('keeps the key while funds remain, and goes on once given a destination', async () => {
+    const failed = await service.close(userId)
+
+    expect(failed).toMatchObject({ status: 'FAILED', step: 'TRANSFER' })
+    expect(failed.lastError).toContain('give a destinationAddress')
+    expect((await getDataStore().wallets.findByUserId(userId))?.secretWipedAt).toBeNull()
+
+    const closed = await service.close(userId, { destinationAddress: destination })
+
+    expect(closed.status).toBe('COMPLETED')
+    expect(funds.submitted.map(({ type }) => type)).toEqual(['withdraw', 'asset'])
+    await expectClosed()
+  })
+})
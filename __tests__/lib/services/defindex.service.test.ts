@@ -0,0 +1,253 @@
+// @vitest-environment node
+import crypto from 'crypto'
+import { SupportedNetworks } from '@defindex/sdk'
+import {
+  Account,
+  BASE_FEE,
+  Contract,
+  FeeBumpTransaction,
+  Keypair,
+  Networks,
+  StrKey,
+  Transaction,
+  TransactionBuilder,
+  rpc,
+  xdr,
+} from '@stellar/stellar-sdk'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { InMemoryDataStore, setDataStore } from '@/lib/data-store'
+import { LocalFileKeyProvider } from '@/lib/kms'
+import {
+  DefindexService,
+  type DefindexRpcClient,
+  type SubmitTransactionResponse,
+} from '@/lib/services/defindex.service'
+import { getFeeSponsorService } from '@/lib/services/fee-sponsor.service'
+import type { SigningOperation } from '@/lib/services/signing-policy.service'
+import { getStellarWalletService } from '@/lib/services/stellar-wallet.service'
+import type { VaultDefinition } from '@/lib/services/vault-registry.service'
+
+const VAULT: VaultDefinition = {
+  id: 'xlm-test',
+  address: StrKey.encodeContract(crypto.randomBytes(32)),
+  displayName: 'Test vault',
+  riskLabel: 'low',
+  assetSymbol: 'XLM',
+  assetAddress: StrKey.encodeContract(crypto.randomBytes(32)),
+  decimals: 7,
+  defaultSlippageBps: 50,
+  autoInvest: true,
+}
+
+/**
+ * An empty TransactionResult with the given code, as Soroban RPC
+ * returns for a rejected submission
+ */
+function transactionResult(code: xdr.TransactionResultResult): xdr.TransactionResult {
+  return new xdr.TransactionResult({
+    feeCharged: xdr.Int64.fromString('0'),
+    result: code,
+    ext: xdr.TransactionResultExt.fromXDR(Buffer.alloc(4)), // v0: no extension
+  })
+}
+
+/**
+ * Local stand-in for a Soroban RPC node: accepts submissions unless
+ * told to reject the next ones, and settles everything it accepts
+ */
+class FakeSubmitRpc {
+  // Sequence number the wallet's next transaction must use
+  sequence = BigInt(100)
+  rejections: string[] = []
+  submitted: { sequence: string; accepted: boolean }[] = []
+
+  async sendTransaction(
+    transaction: Transaction | FeeBumpTransaction
+  ): Promise<rpc.Api.SendTransactionResponse> {
+    const inner = transaction instanceof FeeBumpTransaction ? transaction.innerTransaction : transaction
+    const hash = transaction.hash().toString('hex')
+    const rejection = this.rejections.shift()
+    this.submitted.push({ sequence: inner.sequence, accepted: !rejection })
+
+    if (rejection) {
+      if (rejection === 'txBadSeq') {
+        // Another transaction from the wallet took this sequence number
+        this.sequence++
+      }
+      return {
+        status: 'ERROR',
+        hash,
+        latestLedger: 1,
+        latestLedgerCloseTime: 0,
+        errorResult: transactionResult(
+          (xdr.TransactionResultResult as unknown as Record<string, () => xdr.TransactionResultResult>)[rejection]()
+        ),
+      }
+    }
+
+    this.sequence = BigInt(inner.sequence)
+    return { status: 'PENDING', hash, latestLedger: 1, latestLedgerCloseTime: 0 }
+  }
+
+  async getTransaction(): Promise<rpc.Api.GetTransactionResponse> {
+    return {
+      status: rpc.Api.GetTransactionStatus.SUCCESS,
+      ledger: 2,
+      resultXdr: transactionResult(xdr.TransactionResultResult.txSuccess([])),
+    } as unknown as rpc.Api.GetTransactionResponse
+  }
+}
+
+type SignAndSubmit = (
+  userId: string,
+  walletKey: string,
+  operation: SigningOperation,
+  build: () => Promise<{ xdr: string }>,
+  onSettled: () => void
+) => Promise<{ submitResponse: SubmitTransactionResponse; built: { xdr: string } }>
+
+describe('DefindexService custodial submission', () => {
+  const wallet = Keypair.random()
+
+  let fakeRpc: FakeSubmitRpc
+  let service: DefindexService
+  let signAndSubmit: SignAndSubmit
+  let builds: number
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    setDataStore(new InMemoryDataStore())
+    getFeeSponsorService(Keypair.random().secret())
+
+    // Signs with the wallet's keypair; the policy and audit log have their own tests
+    const walletService = getStellarWalletService(
+      new LocalFileKeyProvider({
+        activeKeyId: 'local-1',
+        keys: { 'local-1': crypto.randomBytes(32).toString('hex') },
+      })
+    )
+    vi.spyOn(walletService, 'signTransactionForUser').mockImplementation(async (_userId, unsignedXdr) => {
+      const transaction = TransactionBuilder.fromXDR(unsignedXdr, Networks.TESTNET) as Transaction
+      transaction.sign(wallet)
+      return transaction.toXDR()
+    })
+
+    fakeRpc = new FakeSubmitRpc()
+    service = new DefindexService(
+      { vaults: [VAULT], network: SupportedNetworks.TESTNET },
+      fakeRpc as unknown as DefindexRpcClient
+    )
+    const internals = service as unknown as { signAndSubmitForUser: SignAndSubmit }
+    signAndSubmit = internals.signAndSubmitForUser.bind(service)
+    builds = 0
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  /**
+   * Builds a deposit call against the wallet's current sequence number,
+   * valid for `timeoutSeconds`
+   */
+  function build(timeoutSeconds = 30) {
+    return async () => {
+      builds++
+      const transaction = new TransactionBuilder(new Account(wallet.publicKey(), fakeRpc.sequence.toString()), {
+        fee: BASE_FEE,
+        networkPassphrase: Networks.TESTNET,
+      })
+        .addOperation(new Contract(VAULT.address).call('deposit'))
+        .setTimeout(timeoutSeconds)
+        .build()
+      return { xdr: transaction.toXDR() }
+    }
+  }
+
+  /**
+   * Submit with fake timers, so the retry back-off does not slow the test
+   */
+  async function submit(buildTransaction = build()) {
+    vi.useFakeTimers({ toFake: ['setTimeout'] })
+    const result = signAndSubmit('user-1', wallet.publicKey(), 'defindex.deposit', buildTransaction, () => {})
+    await vi.runAllTimersAsync()
+    return result
+  }
+
+  it.each(['txBadSeq', 'txTooLate'])('rebuilds and resubmits after %s', async (code) => {
+    fakeRpc.rejections = [code]
+
+    const { submitResponse } = await submit()
+
+    expect(submitResponse.success).toBe(true)
+    expect(builds).toBe(2)
+    expect(fakeRpc.submitted[0]).toEqual({ sequence: '101', accepted: false })
+    // The rebuild picks up the wallet's current sequence number
+    expect(fakeRpc.submitted[1]).toEqual({
+      sequence: code === 'txBadSeq' ? '102' : '101',
+      accepted: true,
+    })
+  })
+
+  it('gives up after three rejected attempts', async () => {
+    fakeRpc.rejections = ['txBadSeq', 'txBadSeq', 'txBadSeq', 'txBadSeq']
+
+    const { submitResponse } = await submit()
+
+    expect(submitResponse).toMatchObject({ success: false, errorCode: 'txBadSeq' })
+    expect(fakeRpc.submitted).toHaveLength(3)
+  })
+
+  it('does not retry a rejection a rebuild cannot fix', async () => {
+    fakeRpc.rejections = ['txInsufficientBalance']
+
+    const { submitResponse } = await submit()
+
+    expect(submitResponse).toMatchObject({ success: false, errorCode: 'txInsufficientBalance' })
+    expect(builds).toBe(1)
+  })
+
+  it('rebuilds a transaction about to expire before signing it', async () => {
+    let attempt = 0
+    const { submitResponse } = await submit(() => build(++attempt === 1 ? 5 : 30)())
+
+    expect(submitResponse.success).toBe(true)
+    expect(builds).toBe(2)
+    expect(fakeRpc.submitted).toHaveLength(1)
+  })
+
+  it("waits for the wallet's previous transaction before building the next", async () => {
+    const events: string[] = []
+    const first = signAndSubmit(
+      'user-1',
+      wallet.publicKey(),
+      'defindex.deposit',
+      async () => {
+        events.push('first:build')
+        const built = await build()()
+        events.push('first:built')
+        return built
+      },
+      () => {}
+    )
+    const second = signAndSubmit(
+      'user-1',
+      wallet.publicKey(),
+      'defindex.deposit',
+      async () => {
+        events.push('second:build')
+        return build()()
+      },
+      () => {}
+    )
+
+    const results = await Promise.all([first, second])
+
+    expect(results.map(({ submitResponse }) => submitResponse.success)).toEqual([true, true])
+    expect(events).toEqual(['first:build', 'first:built', 'second:build'])
+    // Each built against the sequence the previous one consumed
+    expect(fakeRpc.submitted.map(({ sequence }) => sequence)).toEqual(['101', '102'])
+  })
+})
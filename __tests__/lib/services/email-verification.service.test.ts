@@ -0,0 +1,123 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { InMemoryDataStore, setDataStore } from '@/lib/data-store'
+import {
+  EmailNotVerifiedError,
+  EmailVerificationService,
+  InvalidEmailError,
+  VerificationCooldownError,
+  type EmailMessage,
+  type EmailSender,
+} from '@/lib/services/email-verification.service'
+
+/**
+ * Keeps sent emails, so tests can read the code
+ */
+class FakeEmailSender implements EmailSender {
+  sent: EmailMessage[] = []
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push(message)
+  }
+
+  lastCode(): string {
+    const match = this.sent[this.sent.length - 1]?.text.match(/\d{6}/)
+    if (!match) throw new Error('No code was sent')
+    return match[0]
+  }
+}
+
+describe('EmailVerificationService', () => {
+  let sender: FakeEmailSender
+  let service: EmailVerificationService
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    setDataStore(new InMemoryDataStore())
+    sender = new FakeEmailSender()
+    service = new EmailVerificationService(sender)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('confirms the code sent to the address', async () => {
+    const sent = await service.sendCode('user-1', ' Alice@Example.com ')
+
+    expect(sent.email).toBe('alice@example.com')
+    expect(sender.sent[0].to).toBe('alice@example.com')
+    expect(await service.confirm('user-1', 'alice@example.com', sender.lastCode())).toBe(
+      'alice@example.com'
+    )
+  })
+
+  it('rejects a wrong code, another address and another user', async () => {
+    await service.sendCode('user-1', 'alice@example.com')
+    const code = sender.lastCode()
+    const wrong = code === '000000' ? '111111' : '000000'
+
+    await expect(service.confirm('user-1', 'alice@example.com', wrong)).rejects.toBeInstanceOf(
+      EmailNotVerifiedError
+    )
+    await expect(service.confirm('user-1', 'bob@example.com', code)).rejects.toBeInstanceOf(
+      EmailNotVerifiedError
+    )
+    await expect(service.confirm('user-2', 'alice@example.com', code)).rejects.toBeInstanceOf(
+      EmailNotVerifiedError
+    )
+  })
+
+  it('stops accepting even the right code after five attempts', async () => {
+    await service.sendCode('user-1', 'alice@example.com')
+    const code = sender.lastCode()
+    const wrong = code === '000000' ? '111111' : '000000'
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(service.confirm('user-1', 'alice@example.com', wrong)).rejects.toThrow()
+    }
+
+    await expect(service.confirm('user-1', 'alice@example.com', code)).rejects.toThrow(
+      'no attempts left'
+    )
+  })
+
+  it('rejects an expired code', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    await service.sendCode('user-1', 'alice@example.com')
+
+    vi.advanceTimersByTime(10 * 60 * 1000 + 1)
+
+    await expect(
+      service.confirm('user-1', 'alice@example.com', sender.lastCode())
+    ).rejects.toThrow('expired')
+  })
+
+  it('sends a new code at most once a minute, and only the newest one counts', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    await service.sendCode('user-1', 'alice@example.com')
+    const first = sender.lastCode()
+
+    await expect(service.sendCode('user-1', 'alice@example.com')).rejects.toBeInstanceOf(
+      VerificationCooldownError
+    )
+
+    vi.advanceTimersByTime(60 * 1000)
+    await service.sendCode('user-1', 'alice@example.com')
+    const second = sender.lastCode()
+
+    if (first !== second) {
+      await expect(service.confirm('user-1', 'alice@example.com', first)).rejects.toThrow(
+        'incorrect'
+      )
+    }
+    expect(await service.confirm('user-1', 'alice@example.com', second)).toBe('alice@example.com')
+  })
+
+  it('refuses a malformed address', async () => {
+    await expect(service.sendCode('user-1', 'not-an-email')).rejects.toBeInstanceOf(
+      InvalidEmailError
+    )
+    expect(sender.sent).toEqual([])
+  })
+})
@@ -0,0 +1,139 @@
+import crypto from 'crypto'
+import { Keypair } from '@stellar/stellar-sdk'
+import { getDataStore } from '@/lib/data-store'
+import type { CustodialFundsClient, CustodialToken } from '@/lib/services/custodial-funds.service'
+import type {
+  CustodialTransferOptions,
+  SubmitTransactionResponse,
+  TransferForUserResponse,
+  VaultBalanceResponse,
+  WithdrawForUserResponse,
+} from '@/lib/services/defindex.service'
+import type { VaultDefinition } from '@/lib/services/vault-registry.service'
+
+export const VAULT: VaultDefinition = {
+  id: 'xlm-test',
+  address: Keypair.random().publicKey().replace(/^G/, 'C'),
+  displayName: 'Test vault',
+  riskLabel: 'low',
+  assetSymbol: 'XLM',
+  assetAddress: Keypair.random().publicKey().replace(/^G/, 'C'),
+  decimals: 7,
+  defaultSlippageBps: 50,
+  autoInvest: true,
+}
+
+// A withdrawal, or a transfer of the vault's asset or shares
+type FundsTransaction = 'withdraw' | CustodialToken
+
+/**
+ * Stand-in for DefindexService's custodial calls, over one vault held
+ * in memory. A submitted transaction moves nothing until it settles,
+ * and stall() makes the next wait for one time out, so a flow can be
+ * failed partway and resumed.
+ */
+export class FakeCustodialFunds implements CustodialFundsClient {
+  shares = new Map<string, bigint>()
+  assets = new Map<string, bigint>()
+  submitted: { type: FundsTransaction; amount: bigint }[] = []
+  private pending = new Map<string, () => void>()
+  private stalled = new Set<FundsTransaction>()
+  private types = new Map<string, FundsTransaction>()
+
+  /**
+   * Let the next wait for a transaction of this type time out once
+   */
+  stall(type: FundsTransaction): void {
+    this.stalled.add(type)
+  }
+
+  getVaults(): VaultDefinition[] {
+    return [VAULT]
+  }
+
+  async getVaultBalance(userPublicKey: string): Promise<VaultBalanceResponse> {
+    return {
+      success: true,
+      userPublicKey,
+      vaultId: VAULT.id,
+      vaultAddress: VAULT.address,
+      vaultShares: (this.shares.get(userPublicKey) ?? BigInt(0)).toString(),
+    }
+  }
+
+  async getUserVaultBalance(userId: string): Promise<VaultBalanceResponse> {
+    return this.getVaultBalance(await this.address(userId))
+  }
+
+  async getAssetBalance(stellarPublicKey: string): Promise<bigint> {
+    return this.assets.get(stellarPublicKey) ?? BigInt(0)
+  }
+
+  async getUserAssetBalance(userId: string): Promise<bigint> {
+    return this.getAssetBalance(await this.address(userId))
+  }
+
+  /**
+   * Burns every share for the same amount of the asset
+   */
+  async withdrawForUser(userId: string): Promise<WithdrawForUserResponse> {
+    const account = await this.address(userId)
+    const shares = this.shares.get(account) ?? BigInt(0)
+
+    const transactionHash = this.submit('withdraw', shares, () => {
+      this.shares.set(account, BigInt(0))
+      this.assets.set(account, (this.assets.get(account) ?? BigInt(0)) + shares)
+    })
+    return { success: true, transactionHash, status: 'PENDING', shares: shares.toString() }
+  }
+
+  async transferForUser(
+    userId: string,
+    destination: string,
+    options: CustodialTransferOptions = {}
+  ): Promise<TransferForUserResponse> {
+    const account = await this.address(userId)
+    const token = options.token ?? 'asset'
+    const balances = token === 'shares' ? this.shares : this.assets
+    const amount = balances.get(account) ?? BigInt(0)
+
+    const transactionHash = this.submit(token, amount, () => {
+      balances.set(account, (balances.get(account) ?? BigInt(0)) - amount)
+      balances.set(destination, (balances.get(destination) ?? BigInt(0)) + amount)
+    })
+    return { success: true, transactionHash, status: 'PENDING', amount: amount.toString() }
+  }
+
+  async getTransactionStatus(hash: string): Promise<SubmitTransactionResponse | null> {
+    return {
+      success: true,
+      transactionHash: hash,
+      status: this.pending.has(hash) ? 'PENDING' : 'SUCCESS',
+    }
+  }
+
+  async waitForTransaction(hash: string): Promise<SubmitTransactionResponse> {
+    const type = this.types.get(hash)!
+    if (this.stalled.delete(type)) {
+      return { success: true, transactionHash: hash, status: 'TIMEOUT' }
+    }
+
+    this.pending.get(hash)?.()
+    this.pending.delete(hash)
+    return { success: true, transactionHash: hash, status: 'SUCCESS' }
+  }
+
+  private submit(type: FundsTransaction, amount: bigint, settle: () => void): string {
+    const hash = crypto.randomBytes(32).toString('hex')
+    this.submitted.push({ type, amount })
+    this.types.set(hash, type)
+    this.pending.set(hash, settle)
+    return hash
+  }
+
+  private async address(userId: string): Promise<string> {
+    const wallet = await getDataStore().wallets.findByUserId(userId)
+    if (!wallet) throw new Error(`No Stellar wallet found for user: ${userId}`)
+    return wallet.stellarPublicKey
+  }
+}
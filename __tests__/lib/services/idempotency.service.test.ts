@@ -0,0 +1,171 @@
+// @vitest-environment node
+import { NextRequest, NextResponse } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { InMemoryDataStore, getDataStore, setDataStore } from '@/lib/data-store'
+import {
+  IDEMPOTENT_REPLAY_HEADER,
+  IdempotencyConflictError,
+  IdempotencyService,
+  withIdempotencyKey,
+  type RequestBody,
+} from '@/lib/services/idempotency.service'
+
+const SCOPE = 'demo/deposit'
+
+function post(body: unknown, key?: string): NextRequest {
+  return new NextRequest('http://localhost/api/demo/deposit', {
+    method: 'POST',
+    headers: key === undefined ? {} : { 'Idempotency-Key': key },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+}
+
+describe('withIdempotencyKey', () => {
+  // Stands in for a route that builds, signs and submits a transaction
+  let signed: RequestBody[]
+  let handler: (body: RequestBody) => Promise<NextResponse>
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    setDataStore(new InMemoryDataStore())
+    signed = []
+    handler = async (body) => {
+      signed.push(body)
+      return NextResponse.json(
+        { success: true, transactionHash: `hash-${signed.length}` },
+        { status: 202 }
+      )
+    }
+  })
+
+  it('replays the first response without signing a second transaction', async () => {
+    const first = await withIdempotencyKey(post({ amount: '10' }, 'key-1'), SCOPE, handler)
+    const retry = await withIdempotencyKey(post({ amount: '10' }, 'key-1'), SCOPE, handler)
+
+    expect(signed).toHaveLength(1)
+    expect(first.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBeNull()
+    expect(retry.status).toBe(202)
+    expect(retry.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBe('true')
+    expect(await retry.json()).toEqual({ success: true, transactionHash: 'hash-1' })
+  })
+
+  it('replays a failure as well, so only a new key tries again', async () => {
+    handler = async (body) => {
+      signed.push(body)
+      return NextResponse.json({ success: false, error: 'Deposit failed' }, { status: 500 })
+    }
+
+    await withIdempotencyKey(post({ amount: '10' }, 'key-1'), SCOPE, handler)
+    const retry = await withIdempotencyKey(post({ amount: '10' }, 'key-1'), SCOPE, handler)
+    await withIdempotencyKey(post({ amount: '10' }, 'key-2'), SCOPE, handler)
+
+    expect(retry.status).toBe(500)
+    expect(signed).toHaveLength(2)
+  })
+
+  it('matches bodies regardless of key order', async () => {
+    await withIdempotencyKey(post({ amount: '10', vaultId: 'xlm' }, 'key-1'), SCOPE, handler)
+    const retry = await withIdempotencyKey(
+      post({ vaultId: 'xlm', amount: '10' }, 'key-1'),
+      SCOPE,
+      handler
+    )
+
+    expect(retry.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBe('true')
+    expect(signed).toHaveLength(1)
+  })
+
+  it('refuses a key reused for a different request', async () => {
+    await withIdempotencyKey(post({ amount: '10' }, 'key-1'), SCOPE, handler)
+    const reused = await withIdempotencyKey(post({ amount: '99' }, 'key-1'), SCOPE, handler)
+
+    expect(reused.status).toBe(422)
+    expect(signed).toHaveLength(1)
+  })
+
+  it('refuses a retry while the first request is still running', async () => {
+    let finish!: () => void
+    const running = new Promise<void>((resolve) => (finish = resolve))
+    const slowHandler = async (body: RequestBody) => {
+      await running
+      return handler(body)
+    }
+
+    const first = withIdempotencyKey(post({ amount: '10' }, 'key-1'), SCOPE, slowHandler)
+    // Let the first request claim the key
+    await vi.waitFor(async () =>
+      expect(await getDataStore().idempotencyKeys.find(SCOPE, 'key-1')).not.toBeNull()
+    )
+    const retry = await withIdempotencyKey(post({ amount: '10' }, 'key-1'), SCOPE, slowHandler)
+
+    expect(retry.status).toBe(409)
+
+    finish()
+    expect((await first).status).toBe(202)
+    expect(signed).toHaveLength(1)
+  })
+
+  it('releases the key when the handler throws, so the same key can retry', async () => {
+    const crashing = async () => {
+      throw new Error('RPC unavailable')
+    }
+
+    await expect(
+      withIdempotencyKey(post({ amount: '10' }, 'key-1'), SCOPE, crashing)
+    ).rejects.toThrow('RPC unavailable')
+    expect(await getDataStore().idempotencyKeys.find(SCOPE, 'key-1')).toBeNull()
+
+    const retry = await withIdempotencyKey(post({ amount: '10' }, 'key-1'), SCOPE, handler)
+
+    expect(retry.status).toBe(202)
+    expect(signed).toHaveLength(1)
+  })
+
+  it('keeps keys apart by route', async () => {
+    await withIdempotencyKey(post({ amount: '10' }, 'key-1'), SCOPE, handler)
+    await withIdempotencyKey(post({ amount: '10' }, 'key-1'), 'defindex/withdraw', handler)
+
+    expect(signed).toHaveLength(2)
+  })
+
+  it('runs every request that has no key', async () => {
+    await withIdempotencyKey(post({ amount: '10' }), SCOPE, handler)
+    await withIdempotencyKey(post({ amount: '10' }), SCOPE, handler)
+
+    expect(signed).toHaveLength(2)
+  })
+
+  it('rejects an empty key and a body that is not JSON, running nothing', async () => {
+    const emptyKey = await withIdempotencyKey(post({ amount: '10' }, ' '), SCOPE, handler)
+    const notJson = await withIdempotencyKey(post('{amount', 'key-1'), SCOPE, handler)
+
+    expect(emptyKey.status).toBe(400)
+    expect(notJson.status).toBe(400)
+    expect(signed).toHaveLength(0)
+  })
+})
+
+describe('IdempotencyService', () => {
+  beforeEach(() => {
+    setDataStore(new InMemoryDataStore())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('forgets a key once it expires', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const service = new IdempotencyService(60_000)
+
+    expect(await service.begin(SCOPE, 'key-1', { amount: '10' })).toBeNull()
+    await expect(service.begin(SCOPE, 'key-1', { amount: '10' })).rejects.toBeInstanceOf(
+      IdempotencyConflictError
+    )
+
+    vi.advanceTimersByTime(60_000)
+
+    expect(await service.begin(SCOPE, 'key-1', { amount: '99' })).toBeNull()
+  })
+})
@@ -0,0 +1,201 @@
+// @vitest-environment node
+import crypto from 'crypto'
+import { Keypair } from '@stellar/stellar-sdk'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { InMemoryDataStore, setDataStore } from '@/lib/data-store'
+import { LegacyKeyring } from '@/lib/keyring'
+import { LocalFileKeyProvider, openSecret, sealSecret } from '@/lib/kms'
+import { encryptAesGcm } from '@/lib/kms/aes-gcm'
+import { KeyRotationService } from '@/lib/services/key-rotation.service'
+import type { StellarWallet } from '@/lib/types/database.types'
+
+const KEYS = {
+  'local-1': crypto.randomBytes(32).toString('hex'),
+  'local-2': crypto.randomBytes(32).toString('hex'),
+}
+const MASTER_KEY = crypto.randomBytes(32)
+
+describe('KeyRotationService', () => {
+  const oldProvider = new LocalFileKeyProvider({ activeKeyId: 'local-1', keys: KEYS })
+
+  let store: InMemoryDataStore
+  let provider: LocalFileKeyProvider
+  let service: KeyRotationService
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    store = new InMemoryDataStore()
+    setDataStore(store)
+    provider = new LocalFileKeyProvider({ activeKeyId: 'local-2', keys: KEYS })
+    service = new KeyRotationService(provider, new LegacyKeyring({ 1: MASTER_KEY.toString('hex') }))
+  })
+
+  /**
+   * A wallet whose secret is sealed under local-1
+   */
+  async function createWallet(keypair = Keypair.random(), publicKey = keypair.publicKey()) {
+    const sealed = await sealSecret(oldProvider, keypair.secret())
+    const wallet = await store.wallets.create({
+      userId: `user-${crypto.randomUUID()}`,
+      stellarPublicKey: publicKey,
+      encryptedSecretKey: sealed.encrypted,
+      encryptionIv: sealed.iv,
+      encryptionTag: sealed.tag,
+      wrappedDataKey: sealed.wrappedDataKey,
+      encryptionKeyId: sealed.keyId,
+    })
+    return { wallet, secret: keypair.secret() }
+  }
+
+  /**
+   * A wallet encrypted directly with master key version 1, before envelope encryption
+   */
+  async function createLegacyWallet() {
+    const { wallet, secret } = await createWallet()
+    const { ciphertext, iv, tag } = encryptAesGcm(MASTER_KEY, Buffer.from(secret, 'utf8'))
+    const legacy = await store.wallets.updateSecretIfEncryptionKey(wallet.id, 'local-1', {
+      encryptedSecretKey: ciphertext.toString('hex'),
+      encryptionIv: iv.toString('hex'),
+      encryptionTag: tag.toString('hex'),
+      wrappedDataKey: null,
+      encryptionKeyId: null,
+    })
+    return { wallet: legacy!, secret }
+  }
+
+  async function storedSecret(wallet: StellarWallet) {
+    const row = (await store.wallets.findByUserId(wallet.userId))!
+    return {
+      row,
+      secret: await openSecret(provider, {
+        encrypted: row.encryptedSecretKey,
+        iv: row.encryptionIv,
+        tag: row.encryptionTag,
+        wrappedDataKey: row.wrappedDataKey!,
+        keyId: row.encryptionKeyId!,
+      }),
+    }
+  }
+
+  it('re-wraps every data key under the active key, in batches', async () => {
+    const wallets = await Promise.all([createWallet(), createWallet(), createWallet()])
+    const batches: number[] = []
+
+    const report = await service.rotate({
+      batchSize: 2,
+      onBatch: ({ results }) => {
+        batches.push(results.length)
+      },
+    })
+
+    expect(report).toMatchObject({ activeKeyId: 'local-2', batches: 2, rotated: 3, failed: 0 })
+    expect(batches).toEqual([2, 1])
+    for (const { wallet, secret } of wallets) {
+      const stored = await storedSecret(wallet)
+      expect(stored.row.encryptionKeyId).toBe('local-2')
+      // Only the data key is re-wrapped
+      expect(stored.row.encryptedSecretKey).toBe(wallet.encryptedSecretKey)
+      expect(stored.secret).toBe(secret)
+    }
+
+    // A second run has nothing left to do
+    expect((await service.rotate()).batches).toBe(0)
+  })
+
+  it('moves legacy rows to envelope encryption', async () => {
+    const { wallet, secret } = await createLegacyWallet()
+
+    const report = await service.rotate()
+
+    expect(report).toMatchObject({ migrated: 1, failed: 0 })
+    const stored = await storedSecret(wallet)
+    expect(stored.row.encryptionKeyId).toBe('local-2')
+    expect(stored.secret).toBe(secret)
+  })
+
+  it('reports a legacy row it has no master key for, and carries on', async () => {
+    const legacy = await createLegacyWallet()
+    const { wallet } = await createWallet()
+    service = new KeyRotationService(provider)
+
+    const report = await service.rotate({ batchSize: 1 })
+
+    expect(report).toMatchObject({ rotated: 1, failed: 1 })
+    expect(report.failures[0]).toMatchObject({
+      walletId: legacy.wallet.id,
+      fromKey: 'legacy-v1',
+      error: expect.stringContaining('master key version 1'),
+    })
+    expect((await storedSecret(wallet)).row.encryptionKeyId).toBe('local-2')
+  })
+
+  it('refuses a secret that does not belong to the wallet', async () => {
+    const { wallet } = await createWallet(Keypair.random(), Keypair.random().publicKey())
+
+    const report = await service.rotate()
+
+    expect(report.failures[0]).toMatchObject({
+      walletId: wallet.id,
+      error: expect.stringContaining("does not belong to the wallet's public key"),
+    })
+    expect((await store.wallets.findByUserId(wallet.userId))!.encryptionKeyId).toBe('local-1')
+  })
+
+  it('skips a row that changed while it was being re-wrapped', async () => {
+    const { wallet, secret } = await createWallet()
+    const wrapKey = provider.wrapKey.bind(provider)
+    // Another rotation run stores its result first
+    vi.spyOn(provider, 'wrapKey').mockImplementationOnce(async (dataKey) => {
+      const sealed = await sealSecret(provider, secret)
+      await store.wallets.updateSecretIfEncryptionKey(wallet.id, 'local-1', {
+        encryptedSecretKey: sealed.encrypted,
+        encryptionIv: sealed.iv,
+        encryptionTag: sealed.tag,
+        wrappedDataKey: sealed.wrappedDataKey,
+        encryptionKeyId: sealed.keyId,
+      })
+      return wrapKey(dataKey)
+    })
+
+    const report = await service.rotate()
+
+    expect(report).toMatchObject({ rotated: 0, skipped: 1, failed: 0 })
+    const stored = await storedSecret(wallet)
+    expect(stored.row.encryptedSecretKey).not.toBe(wallet.encryptedSecretKey)
+    expect(stored.secret).toBe(secret)
+  })
+
+  it('restores the previous row when the stored result does not decrypt', async () => {
+    const { wallet, secret } = await createWallet()
+    const update = store.wallets.updateSecretIfEncryptionKey.bind(store.wallets)
+    // The write lands corrupted
+    vi.spyOn(store.wallets, 'updateSecretIfEncryptionKey').mockImplementationOnce(
+      (walletId, expectedKeyId, data) =>
+        update(walletId, expectedKeyId, { ...data, encryptionTag: '00'.repeat(16) })
+    )
+
+    const report = await service.rotate()
+
+    expect(report.failures[0]).toMatchObject({
+      walletId: wallet.id,
+      error: expect.stringContaining('the previous row was restored'),
+    })
+    const row = (await store.wallets.findByUserId(wallet.userId))!
+    expect(row).toMatchObject({
+      encryptedSecretKey: wallet.encryptedSecretKey,
+      encryptionTag: wallet.encryptionTag,
+      wrappedDataKey: wallet.wrappedDataKey,
+      encryptionKeyId: 'local-1',
+    })
+    expect(
+      await openSecret(oldProvider, {
+        encrypted: row.encryptedSecretKey,
+        iv: row.encryptionIv,
+        tag: row.encryptionTag,
+        wrappedDataKey: row.wrappedDataKey!,
+        keyId: row.encryptionKeyId!,
+      })
+    ).toBe(secret)
+  })
+})
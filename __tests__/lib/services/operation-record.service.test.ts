@@ -0,0 +1,216 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getDataStore, InMemoryDataStore, setDataStore } from '@/lib/data-store'
+import {
+  InvalidStatusTransitionError,
+  OperationRecordService,
+} from '@/lib/services/operation-record.service'
+import type { TrackedTransaction } from '@/lib/services/transaction-tracker.service'
+
+const VAULT = 'CVAULTAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA'
+const OTHER_VAULT = 'CVAULTBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB'
+
+function settled(
+  hash: string,
+  status: 'SUCCESS' | 'FAILED',
+  returnValue?: unknown
+): TrackedTransaction {
+  return { hash, status, submittedAt: new Date(), settledAt: new Date(), returnValue }
+}
+
+describe('OperationRecordService', () => {
+  let service: OperationRecordService
+  let walletId: string
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    setDataStore(new InMemoryDataStore())
+    service = new OperationRecordService()
+
+    const wallet = await getDataStore().wallets.create({
+      userId: 'user-1',
+      stellarPublicKey: 'GUSER1',
+      encryptedSecretKey: 'ciphertext',
+      encryptionIv: 'iv',
+      encryptionTag: 'tag',
+      wrappedDataKey: 'wrapped',
+      encryptionKeyId: 'local-1',
+    })
+    walletId = wallet.id
+  })
+
+  function startDeposit(vaultAddress = VAULT) {
+    return service.startDeposit({
+      userId: 'user-1',
+      stellarWalletId: walletId,
+      stellarPublicKey: 'GUSER1',
+      vaultAddress,
+      amount: BigInt(1_000),
+      slippageBps: 50,
+    })
+  }
+
+  function startWithdrawal(shares: bigint) {
+    return service.startWithdrawal({
+      userId: 'user-1',
+      stellarWalletId: walletId,
+      stellarPublicKey: 'GUSER1',
+      vaultAddress: VAULT,
+      shares,
+      expectedAmount: BigInt(500),
+      slippageBps: 50,
+    })
+  }
+
+  // ========================================
+  // TRANSITIONS
+  // ========================================
+
+  describe('deposit transitions', () => {
+    it('follows the CCTP bridge path and stamps completedAt at the end', async () => {
+      const deposit = await startDeposit()
+
+      for (const status of ['ATTESTED', 'MINTED', 'DEPOSITED'] as const) {
+        const moved = await service.transitionDeposit(deposit.id, status)
+        expect(moved.bridgeStatus).toBe(status)
+        expect(moved.completedAt).toBeNull()
+      }
+
+      const completed = await service.transitionDeposit(deposit.id, 'COMPLETED')
+      expect(completed.completedAt).toBeInstanceOf(Date)
+    })
+
+    it('rejects a transition the state machine does not list', async () => {
+      const deposit = await startDeposit()
+
+      await expect(service.transitionDeposit(deposit.id, 'MINTED')).rejects.toBeInstanceOf(
+        InvalidStatusTransitionError
+      )
+      expect((await getDataStore().deposits.findById(deposit.id))?.bridgeStatus).toBe('INITIATED')
+    })
+
+    it('never leaves a final status', async () => {
+      const deposit = await startDeposit()
+      await service.transitionDeposit(deposit.id, 'FAILED')
+
+      await expect(service.transitionDeposit(deposit.id, 'DEPOSITED')).rejects.toBeInstanceOf(
+        InvalidStatusTransitionError
+      )
+    })
+
+    it('treats a move to the current status as a no-op', async () => {
+      const deposit = await startDeposit()
+      await service.transitionDeposit(deposit.id, 'ATTESTED')
+
+      const again = await service.transitionDeposit(deposit.id, 'ATTESTED')
+
+      expect(again.bridgeStatus).toBe('ATTESTED')
+    })
+
+    it('lets only one of two concurrent transitions win', async () => {
+      const deposit = await startDeposit()
+      await service.transitionDeposit(deposit.id, 'DEPOSITED')
+
+      const results = await Promise.allSettled([
+        service.transitionDeposit(deposit.id, 'COMPLETED'),
+        service.transitionDeposit(deposit.id, 'FAILED'),
+      ])
+
+      const winners = results.filter((result) => result.status === 'fulfilled')
+      expect(winners).toHaveLength(1)
+      expect((await getDataStore().deposits.findById(deposit.id))?.bridgeStatus).toBe(
+        winners[0].value.bridgeStatus
+      )
+    })
+  })
+
+  describe('withdrawal transitions', () => {
+    it('allows the Stellar-only path and rejects skipping WITHDRAWN', async () => {
+      const withdrawal = await startWithdrawal(BigInt(10))
+
+      await expect(
+        service.transitionWithdrawal(withdrawal.id, 'COMPLETED')
+      ).rejects.toBeInstanceOf(InvalidStatusTransitionError)
+
+      await service.transitionWithdrawal(withdrawal.id, 'WITHDRAWN')
+      const completed = await service.transitionWithdrawal(withdrawal.id, 'COMPLETED')
+      expect(completed.status).toBe('COMPLETED')
+    })
+  })
+
+  // ========================================
+  // SETTLEMENT
+  // ========================================
+
+  describe('settlement', () => {
+    it('completes a deposit and credits its vault balance exactly once', async () => {
+      const deposit = await startDeposit()
+      const transaction = settled('tx-deposit', 'SUCCESS', [['1000'], '900', []])
+
+      await service.settleDeposit(deposit.id, transaction)
+      const replayed = await service.settleDeposit(deposit.id, transaction)
+
+      expect(replayed).toMatchObject({
+        bridgeStatus: 'COMPLETED',
+        vaultShares: BigInt(900),
+        defindexDepositTx: 'tx-deposit',
+      })
+      expect(await getDataStore().vaultBalances.find('user-1', VAULT)).toMatchObject({
+        totalDeposited: BigInt(1_000),
+        vaultShares: BigInt(900),
+      })
+    })
+
+    it('credits the vault the deposit went to', async () => {
+      const deposit = await startDeposit(OTHER_VAULT)
+
+      await service.settleDeposit(deposit.id, settled('tx-other', 'SUCCESS', [['1000'], '800', []]))
+
+      expect(await getDataStore().vaultBalances.find('user-1', VAULT)).toBeNull()
+      expect((await getDataStore().vaultBalances.find('user-1', OTHER_VAULT))?.vaultShares).toBe(
+        BigInt(800)
+      )
+    })
+
+    it('fails a deposit whose transaction failed, without crediting it', async () => {
+      const deposit = await startDeposit()
+
+      const failed = await service.settleDeposit(deposit.id, settled('tx-failed', 'FAILED'))
+
+      expect(failed.bridgeStatus).toBe('FAILED')
+      expect(await getDataStore().vaultBalances.find('user-1', VAULT)).toBeNull()
+    })
+
+    it('debits the burned shares of a withdrawal exactly once', async () => {
+      const deposit = await startDeposit()
+      await service.settleDeposit(deposit.id, settled('tx-deposit', 'SUCCESS', [['1000'], '900', []]))
+      const withdrawal = await startWithdrawal(BigInt(400))
+      const transaction = settled('tx-withdraw', 'SUCCESS', [['450']])
+
+      await service.settleWithdrawal(withdrawal.id, transaction)
+      const replayed = await service.settleWithdrawal(withdrawal.id, transaction)
+
+      expect(replayed).toMatchObject({ status: 'COMPLETED', amountUsdc: BigInt(450) })
+      expect((await getDataStore().vaultBalances.find('user-1', VAULT))?.vaultShares).toBe(
+        BigInt(500)
+      )
+    })
+
+    it('settles a self-custody deposit found by its transaction hash', async () => {
+      const deposit = await service.startSelfCustodyDeposit({
+        stellarPublicKey: 'GSELFCUSTODY',
+        vaultAddress: VAULT,
+        amount: BigInt(1_000),
+        slippageBps: 50,
+        transactionHash: 'tx-self',
+      })
+      expect(deposit).toMatchObject({ userId: 'GSELFCUSTODY', stellarWalletId: null })
+
+      await service.settleByTransactionHash(settled('tx-self', 'SUCCESS', [['1000'], '950', []]))
+
+      expect((await getDataStore().deposits.findById(deposit.id))?.bridgeStatus).toBe('COMPLETED')
+      // Not a custodial wallet, so there is no cached balance to credit
+      expect(await getDataStore().vaultBalances.listByUser('GSELFCUSTODY')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,123 @@
+// @vitest-environment node
+import crypto from 'crypto'
+import { Keypair } from '@stellar/stellar-sdk'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getDataStore, InMemoryDataStore, setDataStore } from '@/lib/data-store'
+import { PortfolioService, type PortfolioVaultReader } from '@/lib/services/portfolio.service'
+import type { VaultDefinition } from '@/lib/services/vault-registry.service'
+
+const VAULT: VaultDefinition = {
+  id: 'xlm-test',
+  address: Keypair.random().publicKey().replace(/^G/, 'C'),
+  displayName: 'Test vault',
+  riskLabel: 'low',
+  assetSymbol: 'XLM',
+  assetAddress: Keypair.random().publicKey().replace(/^G/, 'C'),
+  decimals: 7,
+  defaultSlippageBps: 50,
+  autoInvest: true,
+}
+
+describe('PortfolioService after a wallet migration', () => {
+  const getVaultBalance = vi.fn()
+  const reader = {
+    getVault: () => VAULT,
+    getVaults: () => [VAULT],
+    getVaultBalance,
+  } as unknown as PortfolioVaultReader
+
+  let service: PortfolioService
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    setDataStore(new InMemoryDataStore())
+    getVaultBalance.mockReset()
+    service = new PortfolioService(reader)
+  })
+
+  /**
+   * A wallet with one completed 100 XLM deposit for 80 shares, of which
+   * a migration moved `movedShares` to the user's own wallet
+   */
+  async function migrateWallet(movedShares: bigint, method: 'TRANSFER_SHARES' | 'WITHDRAW' = 'TRANSFER_SHARES') {
+    const store = getDataStore()
+    const userId = `user-${crypto.randomUUID()}`
+    const wallet = await store.wallets.create({
+      userId,
+      stellarPublicKey: Keypair.random().publicKey(),
+      encryptedSecretKey: 'ciphertext',
+      encryptionIv: 'iv',
+      encryptionTag: 'tag',
+      wrappedDataKey: 'wrapped',
+      encryptionKeyId: 'local-1',
+    })
+
+    const deposit = await store.deposits.create({
+      userId,
+      stellarWalletId: wallet.id,
+      stellarPublicKey: wallet.stellarPublicKey,
+      vaultAddress: VAULT.address,
+      amountUsdc: BigInt(1_000_000_000),
+      slippageBps: 50,
+    })
+    await store.deposits.update(deposit.id, {
+      bridgeStatus: 'COMPLETED',
+      vaultShares: BigInt(800_000_000),
+      completedAt: new Date(Date.now() - 60_000),
+    })
+
+    const migration = await store.walletMigrations.create({
+      userId,
+      stellarWalletId: wallet.id,
+      fromAddress: wallet.stellarPublicKey,
+      targetType: 'SELF_CUSTODY',
+      targetAddress: Keypair.random().publicKey(),
+      method,
+      challenge: 'Sign me',
+    })
+    await store.walletMigrations.update(migration.id, {
+      status: 'COMPLETED',
+      step: 'RETIRE_KEY',
+      sharesTx: 'a'.repeat(64),
+      sharesMoved: { [VAULT.address]: movedShares.toString() },
+      completedAt: new Date(),
+    })
+    await store.wallets.markMigrated(wallet.id, migration.targetAddress, new Date())
+
+    return userId
+  }
+
+  it('does not value the archived wallet, and reports no loss', async () => {
+    const userId = await migrateWallet(BigInt(800_000_000))
+
+    const summary = await service.getSummary(userId)
+
+    expect(getVaultBalance).not.toHaveBeenCalled()
+    expect(summary).toMatchObject({
+      shares: BigInt(0),
+      currentValue: BigInt(0),
+      totalDeposited: BigInt(1_000_000_000),
+      costBasis: BigInt(0),
+      realizedYield: BigInt(0),
+      unrealizedYield: BigInt(0),
+      totalYield: BigInt(0),
+    })
+  })
+
+  it('moves the cost basis of the transferred shares out of the ledger', async () => {
+    const userId = await migrateWallet(BigInt(200_000_000))
+
+    const summary = await service.getSummary(userId)
+
+    // A quarter of the shares left, taking a quarter of the cost with them
+    expect(summary.costBasis).toBe(BigInt(750_000_000))
+  })
+
+  it('leaves WITHDRAW migrations to their withdrawal records', async () => {
+    const userId = await migrateWallet(BigInt(800_000_000), 'WITHDRAW')
+
+    const summary = await service.getSummary(userId)
+
+    expect(summary.costBasis).toBe(BigInt(1_000_000_000))
+  })
+})
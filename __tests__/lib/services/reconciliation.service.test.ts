@@ -0,0 +1,119 @@
+// @vitest-environment node
+import crypto from 'crypto'
+import { Keypair } from '@stellar/stellar-sdk'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getDataStore, InMemoryDataStore, setDataStore } from '@/lib/data-store'
+import type { VaultBalanceResponse } from '@/lib/services/defindex.service'
+import {
+  VaultReconciliationService,
+  type VaultBalanceReader,
+} from '@/lib/services/reconciliation.service'
+import type { VaultDefinition } from '@/lib/services/vault-registry.service'
+import type { StellarWallet } from '@/lib/types/database.types'
+
+const VAULT: VaultDefinition = {
+  id: 'xlm-test',
+  address: Keypair.random().publicKey().replace(/^G/, 'C'),
+  displayName: 'Test vault',
+  riskLabel: 'low',
+  assetSymbol: 'XLM',
+  assetAddress: Keypair.random().publicKey().replace(/^G/, 'C'),
+  decimals: 7,
+  defaultSlippageBps: 50,
+  autoInvest: true,
+}
+
+describe('VaultReconciliationService', () => {
+  const getVaultBalance = vi.fn<(address: string) => Promise<VaultBalanceResponse>>()
+  const reader = {
+    getVault: () => VAULT,
+    getVaults: () => [VAULT],
+    getVaultBalance,
+  } as unknown as VaultBalanceReader
+
+  let service: VaultReconciliationService
+  let wallet: StellarWallet
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setDataStore(new InMemoryDataStore())
+    service = new VaultReconciliationService(reader, BigInt(10_000_000), 60)
+
+    wallet = await getDataStore().wallets.create({
+      userId: `user-${crypto.randomUUID()}`,
+      stellarPublicKey: Keypair.random().publicKey(),
+      encryptedSecretKey: 'ciphertext',
+      encryptionIv: 'iv',
+      encryptionTag: 'tag',
+      wrappedDataKey: 'wrapped',
+      encryptionKeyId: 'local-1',
+    })
+    getVaultBalance.mockReset()
+    getVaultBalance.mockImplementation(async (userPublicKey) => ({
+      success: true,
+      userPublicKey,
+      vaultId: VAULT.id,
+      vaultAddress: VAULT.address,
+      balance: '500000000',
+      vaultShares: '500000000',
+      totalSupply: '10000000000',
+      totalManagedFunds: '10000000000',
+    }))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function startDeposit() {
+    return getDataStore().deposits.create({
+      userId: wallet.userId,
+      stellarWalletId: wallet.id,
+      stellarPublicKey: wallet.stellarPublicKey,
+      vaultAddress: VAULT.address,
+      amountUsdc: BigInt(100_000_000),
+      slippageBps: 50,
+    })
+  }
+
+  it('writes the chain balance when nothing is in flight', async () => {
+    const report = await service.reconcileAll()
+
+    expect(report).toMatchObject({ checked: 1, flagged: 1, skipped: 0, stuck: 0 })
+    expect(
+      (await getDataStore().vaultBalances.find(wallet.userId, VAULT.address))?.vaultShares
+    ).toBe(BigInt(500_000_000))
+  })
+
+  it('reports a skip as stuck once its operation has been in flight too long', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    await startDeposit()
+
+    const fresh = await service.reconcileAll()
+
+    expect(fresh).toMatchObject({ skipped: 1, stuck: 0 })
+    expect(fresh.results[0]).toMatchObject({ outcome: 'skipped', stuck: false })
+    expect(getVaultBalance).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(60 * 60_000)
+    const later = await service.reconcileAll()
+
+    expect(later).toMatchObject({ skipped: 1, stuck: 1 })
+    expect(later.results[0].inFlightSince).toEqual(fresh.results[0].inFlightSince)
+  })
+
+  it('leaves the cache alone when an operation starts while the chain is read', async () => {
+    const read = getVaultBalance.getMockImplementation()!
+    getVaultBalance.mockImplementation(async (userPublicKey) => {
+      await startDeposit()
+      return read(userPublicKey)
+    })
+
+    const report = await service.reconcileAll()
+
+    expect(report.results[0]).toMatchObject({ outcome: 'skipped', stuck: false })
+    expect(await getDataStore().vaultBalances.find(wallet.userId, VAULT.address)).toBeNull()
+    expect(await service.listDrifts()).toEqual([])
+  })
+})
@@ -0,0 +1,137 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { InMemoryDataStore, setDataStore } from '@/lib/data-store'
+import {
+  GENESIS_HASH,
+  SigningAuditService,
+  hashEntry,
+} from '@/lib/services/signing-audit.service'
+import type { SigningAuditEntry } from '@/lib/types/database.types'
+
+describe('SigningAuditService', () => {
+  let store: InMemoryDataStore
+  let service: SigningAuditService
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    store = new InMemoryDataStore()
+    setDataStore(store)
+    service = new SigningAuditService()
+  })
+
+  async function recordUses(count: number) {
+    const entries: SigningAuditEntry[] = []
+    for (let index = 0; index < count; index++) {
+      entries.push(
+        await service.recordKeyUse({
+          userId: `user-${index}`,
+          stellarPublicKey: 'GWALLET',
+          action: 'SIGN_TRANSACTION',
+          operation: 'defindex.deposit',
+          transaction: {
+            contractAddress: 'CVAULT',
+            functionName: 'deposit',
+            amounts: [String(100 * (index + 1))],
+            transactionHash: `tx-${index}`,
+          },
+        })
+      )
+    }
+    return entries
+  }
+
+  /**
+   * Make the store return altered entries, as if rows were edited in the database
+   */
+  function tamper(alter: (entries: SigningAuditEntry[]) => SigningAuditEntry[]) {
+    const listAfter = store.signingAuditLog.listAfter.bind(store.signingAuditLog)
+    store.signingAuditLog.listAfter = async (sequence, limit) =>
+      alter(await listAfter(sequence, limit))
+  }
+
+  // ========================================
+  // APPENDING
+  // ========================================
+
+  it('links each entry to the one before it', async () => {
+    const [first, second] = await recordUses(2)
+
+    expect(first).toMatchObject({ sequence: 1, previousHash: GENESIS_HASH })
+    expect(second).toMatchObject({ sequence: 2, previousHash: first.entryHash })
+    expect(second.entryHash).toBe(hashEntry(second))
+  })
+
+  it('gives concurrent appends distinct sequences on one chain', async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, (_, index) =>
+        service.recordKeyUse({
+          userId: `user-${index}`,
+          stellarPublicKey: 'GWALLET',
+          action: 'KEY_ACCESS',
+          operation: 'test.concurrent',
+        })
+      )
+    )
+
+    const verification = await service.verifyChain()
+    expect(verification).toMatchObject({ valid: true, checked: 5, head: { sequence: 5 } })
+  })
+
+  // ========================================
+  // VERIFYING
+  // ========================================
+
+  it('reports an intact chain and its head', async () => {
+    const entries = await recordUses(3)
+
+    expect(await service.verifyChain()).toEqual({
+      valid: true,
+      checked: 3,
+      head: { sequence: 3, entryHash: entries[2].entryHash },
+    })
+  })
+
+  it('finds an edited entry', async () => {
+    await recordUses(3)
+    tamper((entries) =>
+      entries.map((entry) => (entry.sequence === 2 ? { ...entry, amounts: ['1'] } : entry))
+    )
+
+    expect(await service.verifyChain()).toMatchObject({
+      valid: false,
+      checked: 1,
+      firstInvalidSequence: 2,
+      reason: "entryHash does not match the entry's contents",
+    })
+  })
+
+  it('finds a removed entry', async () => {
+    await recordUses(3)
+    tamper((entries) => entries.filter((entry) => entry.sequence !== 2))
+
+    expect(await service.verifyChain()).toMatchObject({
+      valid: false,
+      firstInvalidSequence: 3,
+      reason: 'expected sequence 2, found 3',
+    })
+  })
+
+  it('finds an entry rewritten with a fresh hash', async () => {
+    await recordUses(3)
+    tamper((entries) =>
+      entries.map((entry) => {
+        if (entry.sequence !== 2) return entry
+        const edited = { ...entry, userId: 'someone-else' }
+        return { ...edited, entryHash: hashEntry(edited) }
+      })
+    )
+
+    // The rewritten entry hashes correctly, but the next one no longer links to it
+    expect(await service.verifyChain()).toMatchObject({
+      valid: false,
+      firstInvalidSequence: 3,
+      reason: 'previousHash does not match the previous entry',
+    })
+  })
+})
@@ -0,0 +1,233 @@
+// @vitest-environment node
+import crypto from 'crypto'
+import {
+  Account,
+  Address,
+  Asset,
+  BASE_FEE,
+  Contract,
+  Keypair,
+  Networks,
+  Operation,
+  StrKey,
+  TransactionBuilder,
+  nativeToScVal,
+  xdr,
+} from '@stellar/stellar-sdk'
+import { describe, expect, it } from 'vitest'
+import {
+  SigningPolicy,
+  SigningPolicyViolationError,
+  type SigningPolicyViolationCode,
+  type SigningRequest,
+} from '@/lib/services/signing-policy.service'
+
+const contractId = () => StrKey.encodeContract(crypto.randomBytes(32))
+
+const VAULT = contractId()
+const ASSET = contractId()
+const wallet = Keypair.random().publicKey()
+const destination = Keypair.random().publicKey()
+
+const policy = new SigningPolicy([{ address: VAULT, assetAddress: ASSET }], Networks.TESTNET, {
+  'defindex.deposit': BigInt(1_000),
+  'asset.transfer': BigInt(1_000),
+})
+
+const i128 = (value: number) => nativeToScVal(BigInt(value), { type: 'i128' })
+const address = (value: string) => new Address(value).toScVal()
+const amounts = (...values: number[]) => xdr.ScVal.scvVec(values.map(i128))
+
+function build(
+  operation: xdr.Operation,
+  options: { source?: string; networkPassphrase?: string } = {}
+): string {
+  return new TransactionBuilder(new Account(options.source ?? wallet, '1'), {
+    fee: BASE_FEE,
+    networkPassphrase: options.networkPassphrase ?? Networks.TESTNET,
+  })
+    .addOperation(operation)
+    .setTimeout(30)
+    .build()
+    .toXDR()
+}
+
+const deposit = (amount: number, from = wallet) =>
+  new Contract(VAULT).call('deposit', amounts(amount), amounts(0), address(from), xdr.ScVal.scvBool(true))
+
+const transfer = (amount: number, to = destination, token = ASSET) =>
+  new Contract(token).call('transfer', address(wallet), address(to), i128(amount))
+
+function request(operation: string, overrides: Partial<SigningRequest> = {}): SigningRequest {
+  return { signer: wallet, operation, networkPassphrase: Networks.TESTNET, ...overrides }
+}
+
+function expectViolation(run: () => unknown, code: SigningPolicyViolationCode) {
+  try {
+    run()
+  } catch (error) {
+    expect(error).toBeInstanceOf(SigningPolicyViolationError)
+    expect((error as SigningPolicyViolationError).code).toBe(code)
+    return
+  }
+  throw new Error(`Expected a ${code} violation`)
+}
+
+describe('SigningPolicy', () => {
+  // ========================================
+  // APPROVED
+  // ========================================
+
+  it('approves a vault deposit from the wallet', () => {
+    const approved = policy.check(build(deposit(600)), request('defindex.deposit'))
+
+    expect(approved).toEqual({
+      operation: 'defindex.deposit',
+      contractAddress: VAULT,
+      functionName: 'deposit',
+      amount: BigInt(600),
+      destination: null,
+    })
+  })
+
+  it('approves an asset transfer to the intended destination', () => {
+    const approved = policy.check(build(transfer(250)), request('asset.transfer', { destination }))
+
+    expect(approved).toMatchObject({ amount: BigInt(250), destination })
+  })
+
+  // ========================================
+  // REFUSED
+  // ========================================
+
+  it('refuses a transaction built for another network', () => {
+    expectViolation(
+      () =>
+        policy.check(
+          build(deposit(600)),
+          request('defindex.deposit', { networkPassphrase: Networks.PUBLIC })
+        ),
+      'NETWORK_MISMATCH'
+    )
+  })
+
+  it('refuses an operation custodial keys may not sign', () => {
+    expectViolation(
+      () => policy.check(build(deposit(600)), request('defindex.rebalance')),
+      'UNAPPROVED_OPERATION'
+    )
+  })
+
+  it('refuses XDR that is not a transaction', () => {
+    expectViolation(
+      () => policy.check('not-xdr', request('defindex.deposit')),
+      'MALFORMED_TRANSACTION'
+    )
+  })
+
+  it('refuses a transaction that is not a single contract invocation', () => {
+    const payment = Operation.payment({
+      destination,
+      asset: Asset.native(),
+      amount: '1',
+    })
+
+    expectViolation(
+      () => policy.check(build(payment), request('defindex.deposit')),
+      'MALFORMED_TRANSACTION'
+    )
+  })
+
+  it('refuses a transaction whose source is another account', () => {
+    expectViolation(
+      () =>
+        policy.check(
+          build(deposit(600), { source: Keypair.random().publicKey() }),
+          request('defindex.deposit')
+        ),
+      'SOURCE_MISMATCH'
+    )
+  })
+
+  it("refuses a deposit of funds that are not the wallet's", () => {
+    expectViolation(
+      () =>
+        policy.check(
+          build(deposit(600, Keypair.random().publicKey())),
+          request('defindex.deposit')
+        ),
+      'SOURCE_MISMATCH'
+    )
+  })
+
+  it('refuses a contract that is not configured', () => {
+    expectViolation(
+      () =>
+        policy.check(
+          build(transfer(250, destination, contractId())),
+          request('asset.transfer', { destination })
+        ),
+      'UNAPPROVED_CONTRACT'
+    )
+  })
+
+  it('refuses a transfer to anyone but the intended destination', () => {
+    expectViolation(
+      () =>
+        policy.check(
+          build(transfer(250, Keypair.random().publicKey())),
+          request('asset.transfer', { destination })
+        ),
+      'DESTINATION_MISMATCH'
+    )
+    expectViolation(
+      () => policy.check(build(transfer(250)), request('asset.transfer')),
+      'DESTINATION_MISMATCH'
+    )
+  })
+
+  it('refuses an amount above the ceiling', () => {
+    expectViolation(
+      () => policy.check(build(deposit(1_001)), request('defindex.deposit')),
+      'AMOUNT_ABOVE_CEILING'
+    )
+  })
+
+  it('refuses authorizations from anyone but the wallet', () => {
+    const invoke = deposit(600)
+    const body = invoke.body().invokeHostFunctionOp()
+    const auth = new xdr.SorobanAuthorizationEntry({
+      credentials: xdr.SorobanCredentials.sorobanCredentialsAddress(
+        new xdr.SorobanAddressCredentials({
+          address: new Address(Keypair.random().publicKey()).toScAddress(),
+          nonce: xdr.Int64.fromString('1'),
+          signatureExpirationLedger: 100,
+          signature: xdr.ScVal.scvVoid(),
+        })
+      ),
+      rootInvocation: new xdr.SorobanAuthorizedInvocation({
+        function: xdr.SorobanAuthorizedFunction.sorobanAuthorizedFunctionTypeContractFn(
+          body.hostFunction().invokeContract()
+        ),
+        subInvocations: [],
+      }),
+    })
+
+    expectViolation(
+      () =>
+        policy.check(
+          build(Operation.invokeHostFunction({ func: body.hostFunction(), auth: [auth] })),
+          request('defindex.deposit')
+        ),
+      'UNAPPROVED_AUTHORIZATION'
+    )
+  })
+
+  it('rejects a ceiling that is not positive', () => {
+    expect(
+      () => new SigningPolicy([{ address: VAULT, assetAddress: ASSET }], Networks.TESTNET, {
+        'defindex.withdraw': BigInt(0),
+      })
+    ).toThrow('SIGNING_MAX_WITHDRAW_STROOPS')
+  })
+})
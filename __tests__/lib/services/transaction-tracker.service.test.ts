@@ -0,0 +1,84 @@
+// @vitest-environment node
+import { rpc, xdr } from '@stellar/stellar-sdk'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  TransactionTracker,
+  type TransactionRpcClient,
+} from '@/lib/services/transaction-tracker.service'
+
+/**
+ * Local stand-in for a Soroban RPC node: settles the hashes it was
+ * given, and has never seen any other
+ */
+class FakeTrackerRpc {
+  settled = new Set<string>()
+  lookups: string[] = []
+
+  async getTransaction(hash: string): Promise<rpc.Api.GetTransactionResponse> {
+    this.lookups.push(hash)
+    if (!this.settled.has(hash)) {
+      return { status: rpc.Api.GetTransactionStatus.NOT_FOUND } as rpc.Api.GetTransactionResponse
+    }
+    return {
+      status: rpc.Api.GetTransactionStatus.SUCCESS,
+      ledger: 2,
+      resultXdr: new xdr.TransactionResult({
+        feeCharged: xdr.Int64.fromString('100'),
+        result: xdr.TransactionResultResult.txSuccess([]),
+        ext: xdr.TransactionResultExt.fromXDR(Buffer.alloc(4)), // v0: no extension
+      }),
+    } as unknown as rpc.Api.GetTransactionResponse
+  }
+}
+
+describe('TransactionTracker', () => {
+  let fakeRpc: FakeTrackerRpc
+  let tracker: TransactionTracker
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    fakeRpc = new FakeTrackerRpc()
+    tracker = new TransactionTracker(fakeRpc as unknown as TransactionRpcClient)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('fires the settlement callback once, then forgets the transaction after a while', async () => {
+    fakeRpc.settled.add('tx-1')
+    const onSettled = vi.fn()
+
+    tracker.track('tx-1', { onSettled })
+    await vi.waitFor(() => expect(onSettled).toHaveBeenCalledTimes(1))
+    expect(onSettled.mock.calls[0][0]).toMatchObject({ status: 'SUCCESS', feeCharged: BigInt(100) })
+
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const lookups = fakeRpc.lookups.length
+
+    // Still answered from memory for status polls
+    expect(await tracker.getStatus('tx-1')).toMatchObject({ status: 'SUCCESS' })
+    expect(fakeRpc.lookups).toHaveLength(lookups)
+
+    vi.advanceTimersByTime(10 * 60_000)
+
+    // Gone from memory, so the network is asked again
+    expect(await tracker.getStatus('tx-1')).toMatchObject({ status: 'SUCCESS' })
+    expect(fakeRpc.lookups).toHaveLength(lookups + 1)
+    expect(onSettled).toHaveBeenCalledTimes(1)
+  })
+
+  it('forgets a transaction that never settled once it can no longer land', async () => {
+    const timedOut = await tracker.waitForConfirmation('tx-lost', { timeoutMs: 5, intervalMs: 1 })
+    expect(timedOut.status).toBe('TIMEOUT')
+
+    vi.useFakeTimers({ toFake: ['Date'] })
+
+    expect(await tracker.getStatus('tx-lost')).toMatchObject({ status: 'TIMEOUT' })
+
+    vi.advanceTimersByTime(60 * 60_000)
+
+    expect(await tracker.getStatus('tx-lost')).toBeNull()
+  })
+})
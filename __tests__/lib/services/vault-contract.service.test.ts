@@ -0,0 +1,396 @@
+// @vitest-environment node
+import crypto from 'crypto'
+import { SupportedNetworks } from '@defindex/sdk'
+import {
+  Account,
+  Address,
+  Asset,
+  BASE_FEE,
+  Contract,
+  FeeBumpTransaction,
+  Keypair,
+  Networks,
+  Operation,
+  StrKey,
+  Transaction,
+  TransactionBuilder,
+  nativeToScVal,
+  rpc,
+  scValToNative,
+  xdr,
+} from '@stellar/stellar-sdk'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { DefindexService, type DefindexRpcClient } from '@/lib/services/defindex.service'
+import { PriceMovedError } from '@/lib/services/slippage.service'
+import {
+  VaultContractService,
+  type VaultRpcClient,
+  type VaultState,
+} from '@/lib/services/vault-contract.service'
+import type { VaultDefinition } from '@/lib/services/vault-registry.service'
+
+const VAULT = StrKey.encodeContract(crypto.randomBytes(32))
+const ASSET = StrKey.encodeContract(crypto.randomBytes(32))
+
+const i128 = (value: bigint) => nativeToScVal(value, { type: 'i128' })
+
+/**
+ * Local stand-in for a Soroban RPC node: answers simulations of the
+ * vault's read functions from in-memory state
+ */
+class FakeVaultRpc implements VaultRpcClient {
+  // Answers `balance` on any contract: vault shares, token and XLM balances
+  balances = new Map<string, bigint>()
+  totalSupply = BigInt(0)
+  managedFunds = BigInt(0)
+  failWith: string | null = null
+  subentries = 0
+  calls: { contract: string; method: string; args: unknown[] }[] = []
+
+  async simulateTransaction(
+    transaction: Transaction | FeeBumpTransaction
+  ): Promise<rpc.Api.SimulateTransactionResponse> {
+    const invoke = (transaction as Transaction).operations[0] as Operation.InvokeHostFunction
+    const call = invoke.func.invokeContract()
+    const contract = Address.fromScAddress(call.contractAddress()).toString()
+    const method = call.functionName().toString()
+    const args = call.args().map((arg) => scValToNative(arg))
+    this.calls.push({ contract, method, args })
+
+    if (this.failWith) {
+      return { id: '1', latestLedger: 1, events: [], _parsed: true, error: this.failWith }
+    }
+
+    return {
+      id: '1',
+      latestLedger: 1,
+      events: [],
+      _parsed: true,
+      transactionData: {},
+      minResourceFee: '0',
+      result: { auth: [], retval: this.answer(method, args) },
+    } as unknown as rpc.Api.SimulateTransactionResponse
+  }
+
+  async getAccountEntry(address: string): Promise<xdr.AccountEntry> {
+    return new xdr.AccountEntry({
+      accountId: Keypair.fromPublicKey(address).xdrAccountId(),
+      balance: xdr.Int64.fromString((this.balances.get(address) ?? BigInt(0)).toString()),
+      seqNum: xdr.Int64.fromString('1'),
+      numSubEntries: this.subentries,
+      inflationDest: null,
+      flags: 0,
+      homeDomain: '',
+      thresholds: Buffer.from([1, 0, 0, 0]),
+      signers: [],
+      ext: xdr.AccountEntryExt.fromXDR(Buffer.alloc(4)), // v0: no extension
+    })
+  }
+
+  private answer(method: string, args: unknown[]): xdr.ScVal {
+    switch (method) {
+      case 'balance':
+        return i128(this.balances.get(args[0] as string) ?? BigInt(0))
+      case 'total_supply':
+        return i128(this.totalSupply)
+      case 'fetch_total_managed_funds':
+        return xdr.ScVal.scvVec([
+          xdr.ScVal.scvMap([
+            entry('asset', new Address(ASSET).toScVal()),
+            entry('idle_amount', i128(this.managedFunds / BigInt(4))),
+            entry('invested_amount', i128(this.managedFunds - this.managedFunds / BigInt(4))),
+            entry('total_amount', i128(this.managedFunds)),
+          ]),
+        ])
+      case 'deposit': {
+        // [ [amounts], totalShares, allocations ], at the current share price
+        const [amount] = args[0] as bigint[]
+        const shares = this.totalSupply === BigInt(0) ? amount : (amount * this.totalSupply) / this.managedFunds
+        return xdr.ScVal.scvVec([xdr.ScVal.scvVec([i128(amount)]), i128(shares), xdr.ScVal.scvVec([])])
+      }
+      case 'withdraw': {
+        const shares = args[0] as bigint
+        return xdr.ScVal.scvVec([i128((shares * this.managedFunds) / this.totalSupply)])
+      }
+      default:
+        throw new Error(`FakeVaultRpc cannot simulate ${method}`)
+    }
+  }
+}
+
+function entry(key: string, val: xdr.ScVal) {
+  return new xdr.ScMapEntry({ key: xdr.ScVal.scvSymbol(key), val })
+}
+
+/**
+ * An unsigned vault call, as the Defindex SDK would build it
+ */
+function vaultCall(caller: string, method: string, ...args: xdr.ScVal[]): string {
+  return new TransactionBuilder(new Account(caller, '1'), {
+    fee: BASE_FEE,
+    networkPassphrase: Networks.TESTNET,
+  })
+    .addOperation(new Contract(VAULT).call(method, ...args))
+    .setTimeout(30)
+    .build()
+    .toXDR()
+}
+
+const amounts = (...values: bigint[]) => xdr.ScVal.scvVec(values.map(i128))
+
+const state = (totalSupply: number, totalManagedFunds: number): VaultState => ({
+  vaultAddress: VAULT,
+  totalSupply: BigInt(totalSupply),
+  totalManagedFunds: BigInt(totalManagedFunds),
+  managedFunds: [],
+})
+
+describe('VaultContractService', () => {
+  let fakeRpc: FakeVaultRpc
+  let service: VaultContractService
+  const user = Keypair.random().publicKey()
+
+  beforeEach(() => {
+    fakeRpc = new FakeVaultRpc()
+    service = new VaultContractService(fakeRpc, Networks.TESTNET)
+  })
+
+  it("reads an account's share balance from the vault contract", async () => {
+    fakeRpc.balances.set(user, BigInt(1_234_567))
+
+    expect(await service.getShareBalance(VAULT, user)).toBe(BigInt(1_234_567))
+    expect(fakeRpc.calls).toEqual([{ contract: VAULT, method: 'balance', args: [user] }])
+  })
+
+  it('reads share supply and managed funds together', async () => {
+    fakeRpc.totalSupply = BigInt(1_000)
+    fakeRpc.managedFunds = BigInt(1_100)
+
+    const vaultState = await service.getVaultState(VAULT)
+
+    expect(vaultState).toMatchObject({
+      totalSupply: BigInt(1_000),
+      totalManagedFunds: BigInt(1_100),
+      managedFunds: [
+        { asset: ASSET, totalAmount: BigInt(1_100), idleAmount: BigInt(275), investedAmount: BigInt(825) },
+      ],
+    })
+  })
+
+  it('surfaces a failed simulation', async () => {
+    fakeRpc.failWith = 'HostError: contract not found'
+
+    await expect(service.getTotalSupply(VAULT)).rejects.toThrow(
+      'Simulation of total_supply failed: HostError: contract not found'
+    )
+  })
+
+  it('reads the minimum amounts a deposit or withdrawal is signed with', () => {
+    const from = new Address(user).toScVal()
+    const deposit = vaultCall(user, 'deposit', amounts(BigInt(100)), amounts(BigInt(99)), from, xdr.ScVal.scvBool(true))
+    const withdraw = vaultCall(user, 'withdraw', i128(BigInt(50)), amounts(BigInt(48)), from)
+
+    expect(service.minimumAmounts(deposit, 'deposit')).toEqual([BigInt(99)])
+    expect(service.minimumAmounts(withdraw, 'withdraw')).toEqual([BigInt(48)])
+    expect(() => service.minimumAmounts(withdraw, 'deposit')).toThrow('Not a deposit transaction')
+  })
+
+  // ========================================
+  // CONVERSIONS
+  // ========================================
+
+  it('converts shares to assets rounding down', () => {
+    expect(VaultContractService.sharesToAssets(BigInt(10), state(3, 10))).toBe(BigInt(33))
+    expect(VaultContractService.sharesToAssets(BigInt(10), state(0, 0))).toBe(BigInt(0))
+  })
+
+  it('mints shares 1:1 in an empty vault', () => {
+    expect(VaultContractService.assetsToShares(BigInt(500), state(0, 0))).toBe(BigInt(500))
+    expect(VaultContractService.assetsToShares(BigInt(500), state(1_000, 2_000))).toBe(BigInt(250))
+  })
+
+  it('rounds the shares to burn up, so a withdrawal never pays out less', () => {
+    const vaultState = state(3, 10)
+    const shares = VaultContractService.sharesForAssets(BigInt(10), vaultState)
+
+    expect(shares).toBe(BigInt(3))
+    expect(VaultContractService.sharesToAssets(shares, vaultState)).toBeGreaterThanOrEqual(BigInt(10))
+    expect(VaultContractService.sharesForAssets(BigInt(11), vaultState)).toBe(BigInt(4))
+  })
+})
+
+describe('DefindexService.getVaultBalance', () => {
+  const vault: VaultDefinition = {
+    id: 'xlm-test',
+    address: VAULT,
+    displayName: 'Test vault',
+    riskLabel: 'low',
+    assetSymbol: 'XLM',
+    assetAddress: ASSET,
+    decimals: 7,
+    defaultSlippageBps: 50,
+    autoInvest: true,
+  }
+
+  let fakeRpc: FakeVaultRpc
+  let service: DefindexService
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    fakeRpc = new FakeVaultRpc()
+    service = new DefindexService(
+      { vaults: [vault], network: SupportedNetworks.TESTNET },
+      fakeRpc as unknown as DefindexRpcClient
+    )
+  })
+
+  it("values the account's shares at the current share price", async () => {
+    const user = Keypair.random().publicKey()
+    fakeRpc.balances.set(user, BigInt(2_000_000_000))
+    fakeRpc.totalSupply = BigInt(10_000_000_000)
+    fakeRpc.managedFunds = BigInt(12_500_000_000)
+
+    const balance = await service.getVaultBalance(user)
+
+    expect(balance).toMatchObject({
+      success: true,
+      vaultId: 'xlm-test',
+      vaultShares: '2000000000',
+      balance: '2500000000',
+      totalSupply: '10000000000',
+      totalManagedFunds: '12500000000',
+    })
+  })
+
+  it('reports a failed read instead of a zero balance', async () => {
+    fakeRpc.failWith = 'RPC unavailable'
+
+    const balance = await service.getVaultBalance(Keypair.random().publicKey())
+
+    expect(balance.success).toBe(false)
+    expect(balance.error).toContain('RPC unavailable')
+  })
+})
+
+describe('DefindexService.getAssetBalance', () => {
+  const NATIVE = Asset.native().contractId(Networks.TESTNET)
+  const vault = (assetAddress: string): VaultDefinition => ({
+    id: 'test',
+    address: VAULT,
+    displayName: 'Test vault',
+    riskLabel: 'low',
+    assetSymbol: 'XLM',
+    assetAddress,
+    decimals: 7,
+    defaultSlippageBps: 50,
+    autoInvest: true,
+  })
+
+  let fakeRpc: FakeVaultRpc
+
+  beforeEach(() => {
+    fakeRpc = new FakeVaultRpc()
+  })
+
+  function service(assetAddress: string) {
+    return new DefindexService(
+      { vaults: [vault(assetAddress)], network: SupportedNetworks.TESTNET },
+      fakeRpc as unknown as DefindexRpcClient
+    )
+  }
+
+  it('leaves the reserve out of a native XLM balance', async () => {
+    const user = Keypair.random().publicKey()
+    fakeRpc.balances.set(user, BigInt(35_000_000))
+    fakeRpc.subentries = 1
+
+    // 3.5 XLM less 1.5 XLM for two base reserves and one subentry
+    expect(await service(NATIVE).getAssetBalance(user)).toBe(BigInt(20_000_000))
+  })
+
+  it('reports nothing to send when only the reserve is left', async () => {
+    const user = Keypair.random().publicKey()
+    fakeRpc.balances.set(user, BigInt(10_000_000))
+
+    expect(await service(NATIVE).getAssetBalance(user)).toBe(BigInt(0))
+  })
+
+  it('reports the whole balance of any other token', async () => {
+    const user = Keypair.random().publicKey()
+    fakeRpc.balances.set(user, BigInt(10_000_000))
+
+    expect(await service(ASSET).getAssetBalance(user)).toBe(BigInt(10_000_000))
+  })
+})
+
+describe('DefindexService signed minimums', () => {
+  const vault: VaultDefinition = {
+    id: 'xlm-test',
+    address: VAULT,
+    displayName: 'Test vault',
+    riskLabel: 'low',
+    assetSymbol: 'XLM',
+    assetAddress: ASSET,
+    decimals: 7,
+    defaultSlippageBps: 50,
+    autoInvest: true,
+  }
+  const user = Keypair.random().publicKey()
+  const from = new Address(user).toScVal()
+
+  let fakeRpc: FakeVaultRpc
+  let service: DefindexService
+  let sdk: DefindexService['sdk']
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    fakeRpc = new FakeVaultRpc()
+    fakeRpc.totalSupply = BigInt(10_000_000_000)
+    fakeRpc.managedFunds = BigInt(10_000_000_000)
+    fakeRpc.balances.set(user, BigInt(1_000_000_000))
+    service = new DefindexService(
+      { vaults: [vault], network: SupportedNetworks.TESTNET },
+      fakeRpc as unknown as DefindexRpcClient
+    )
+    sdk = (service as unknown as { sdk: DefindexService['sdk'] }).sdk
+  })
+
+  // 100 XLM at 1:1 with the vault's 0.5% tolerance has a minimum of 99.5 XLM
+  function withdrawSignedWith(minimum: bigint) {
+    vi.spyOn(sdk, 'withdrawShares').mockResolvedValue({
+      xdr: vaultCall(user, 'withdraw', i128(BigInt(1_000_000_000)), amounts(minimum), from),
+    } as Awaited<ReturnType<typeof sdk.withdrawShares>>)
+    return service.buildWithdrawTransaction({ userPublicKey: user, shares: BigInt(1_000_000_000) })
+  }
+
+  function depositSignedWith(minimum: bigint) {
+    vi.spyOn(sdk, 'depositToVault').mockResolvedValue({
+      xdr: vaultCall(user, 'deposit', amounts(BigInt(1_000_000_000)), amounts(minimum), from, xdr.ScVal.scvBool(true)),
+    } as Awaited<ReturnType<typeof sdk.depositToVault>>)
+    return service.buildDepositTransaction({ userPublicKey: user, amount: BigInt(1_000_000_000) })
+  }
+
+  it('builds a withdrawal whose min_amounts_out covers the quote', async () => {
+    const response = await withdrawSignedWith(BigInt(995_000_000))
+
+    expect(response.minAssetsOut).toBe('995000000')
+  })
+
+  it('refuses a withdrawal signed with a lower min_amounts_out than quoted', async () => {
+    // The simulation pays out in full, but the signed bound would accept 90 XLM
+    await expect(withdrawSignedWith(BigInt(900_000_000))).rejects.toBeInstanceOf(PriceMovedError)
+  })
+
+  it('builds a deposit whose amounts_min is within the tolerance', async () => {
+    const response = await depositSignedWith(BigInt(995_000_000))
+
+    expect(response.minSharesOut).toBe('995000000')
+  })
+
+  it('refuses a deposit signed with a looser amounts_min', async () => {
+    await expect(depositSignedWith(BigInt(0))).rejects.toBeInstanceOf(PriceMovedError)
+  })
+})
@@ -0,0 +1,127 @@
+// @vitest-environment node
+import crypto from 'crypto'
+import { Keypair } from '@stellar/stellar-sdk'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getDataStore, InMemoryDataStore, setDataStore } from '@/lib/data-store'
+import { LocalFileKeyProvider } from '@/lib/kms'
+import { getStellarWalletService } from '@/lib/services/stellar-wallet.service'
+import {
+  OwnershipProofError,
+  WalletMigrationService,
+} from '@/lib/services/wallet-migration.service'
+import { FakeCustodialFunds, VAULT } from './fake-custodial-funds'
+
+describe('WalletMigrationService', () => {
+  const target = Keypair.random()
+
+  let funds: FakeCustodialFunds
+  let service: WalletMigrationService
+  let userId: string
+  let walletAddress: string
+  let signature: string
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    setDataStore(new InMemoryDataStore())
+    // An in-memory key, so no key file is written; only retireSecretKey is used
+    getStellarWalletService(
+      new LocalFileKeyProvider({
+        activeKeyId: 'local-1',
+        keys: { 'local-1': crypto.randomBytes(32).toString('hex') },
+      })
+    )
+
+    funds = new FakeCustodialFunds()
+    service = new WalletMigrationService(funds)
+
+    userId = `user-${crypto.randomUUID()}`
+    walletAddress = Keypair.random().publicKey()
+    await getDataStore().wallets.create({
+      userId,
+      stellarPublicKey: walletAddress,
+      encryptedSecretKey: 'ciphertext',
+      encryptionIv: 'iv',
+      encryptionTag: 'tag',
+      wrappedDataKey: 'wrapped',
+      encryptionKeyId: 'local-1',
+    })
+    funds.shares.set(walletAddress, BigInt(500_000_000))
+    funds.assets.set(walletAddress, BigInt(100_000_000))
+
+    const migration = await service.start(userId, { targetAddress: target.publicKey() })
+    signature = target.sign(Buffer.from(migration.challenge, 'utf8')).toString('base64')
+  })
+
+  async function expectMigrated() {
+    const wallet = await getDataStore().wallets.findByUserId(userId)
+    expect(wallet).toMatchObject({ migratedTo: target.publicKey() })
+    expect(wallet?.secretWipedAt).not.toBeNull()
+    expect(funds.shares.get(target.publicKey())).toBe(BigInt(500_000_000))
+    expect(funds.assets.get(target.publicKey())).toBe(BigInt(100_000_000))
+  }
+
+  it('moves nothing until the target is proven', async () => {
+    await expect(service.migrate(userId)).rejects.toBeInstanceOf(OwnershipProofError)
+    await expect(
+      service.migrate(userId, { signature: Keypair.random().sign(Buffer.from('x')).toString('base64') })
+    ).rejects.toBeInstanceOf(OwnershipProofError)
+
+    expect(funds.submitted).toEqual([])
+  })
+
+  it('resumes a share transfer that had not settled, without sending it again', async () => {
+    funds.stall('shares')
+
+    const failed = await service.migrate(userId, { signature })
+
+    expect(failed).toMatchObject({ status: 'FAILED', step: 'MOVE_SHARES' })
+    expect(failed.lastError).toContain('has not settled yet')
+    expect(failed.sharesTx).not.toBeNull()
+
+    // The proof was kept, so no signature is needed again
+    const migrated = await service.migrate(userId)
+
+    expect(migrated).toMatchObject({ status: 'COMPLETED', step: 'RETIRE_KEY', lastError: null })
+    expect(funds.submitted.map(({ type }) => type)).toEqual(['shares', 'asset'])
+    await expectMigrated()
+  })
+
+  it('resumes an asset transfer that had not settled, counting the amount once', async () => {
+    funds.stall('asset')
+
+    const failed = await service.migrate(userId, { signature })
+
+    expect(failed).toMatchObject({ status: 'FAILED', step: 'MOVE_ASSETS' })
+    expect((await getDataStore().wallets.findByUserId(userId))?.migratedTo).toBeNull()
+
+    const migrated = await service.migrate(userId)
+
+    expect(migrated.status).toBe('COMPLETED')
+    expect(migrated.sharesMoved).toEqual({ [VAULT.address]: '500000000' })
+    expect(migrated.assetsMoved).toEqual({ [VAULT.assetAddress]: '100000000' })
+    expect(funds.submitted.map(({ type }) => type)).toEqual(['shares', 'asset'])
+    await expectMigrated()
+  })
+
+  it('withdraws instead of transferring shares with the WITHDRAW method', async () => {
+    const migration = await service.start(userId, {
+      targetAddress: target.publicKey(),
+      method: 'WITHDRAW',
+    })
+    funds.stall('withdraw')
+    const proof = target.sign(Buffer.from(migration.challenge, 'utf8')).toString('base64')
+
+    expect(await service.migrate(userId, { signature: proof })).toMatchObject({
+      status: 'FAILED',
+      step: 'MOVE_SHARES',
+    })
+    const migrated = await service.migrate(userId)
+
+    expect(migrated.status).toBe('COMPLETED')
+    expect(funds.submitted.map(({ type }) => type)).toEqual(['withdraw', 'asset'])
+    // The withdrawn shares reach the target as the asset
+    expect(funds.shares.get(target.publicKey())).toBeUndefined()
+    expect(funds.assets.get(target.publicKey())).toBe(BigInt(600_000_000))
+  })
+})
@@ -0,0 +1,94 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { StaleOperationError, WalletOperationQueue } from '@/lib/services/wallet-queue.service'
+
+/**
+ * A promise the test settles by hand, to hold an operation open
+ */
+function deferred() {
+  let resolve!: () => void
+  const promise = new Promise<void>((res) => (resolve = res))
+  return { promise, resolve }
+}
+
+describe('WalletOperationQueue', () => {
+  let queue: WalletOperationQueue
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    queue = new WalletOperationQueue()
+  })
+
+  it('runs operations for one wallet one after another, in order', async () => {
+    const events: string[] = []
+    const first = deferred()
+
+    const a = queue.run('wallet-1', async () => {
+      events.push('a:start')
+      await first.promise
+      events.push('a:end')
+      return 'a'
+    })
+    const b = queue.run('wallet-1', async () => {
+      events.push('b:start')
+      return 'b'
+    })
+
+    await vi.waitFor(() => expect(events).toEqual(['a:start']))
+    expect(queue.getQueueDepth('wallet-1')).toBe(2)
+
+    first.resolve()
+
+    expect(await Promise.all([a, b])).toEqual(['a', 'b'])
+    expect(events).toEqual(['a:start', 'a:end', 'b:start'])
+    expect(queue.getQueueDepth('wallet-1')).toBe(0)
+  })
+
+  it('runs operations for different wallets side by side', async () => {
+    const events: string[] = []
+    const first = deferred()
+
+    const a = queue.run('wallet-1', async () => {
+      await first.promise
+      events.push('wallet-1')
+    })
+    await queue.run('wallet-2', async () => {
+      events.push('wallet-2')
+    })
+
+    expect(events).toEqual(['wallet-2'])
+
+    first.resolve()
+    await a
+    expect(events).toEqual(['wallet-2', 'wallet-1'])
+  })
+
+  it('moves on to the next operation when one fails', async () => {
+    const failing = queue.run('wallet-1', async () => {
+      throw new Error('tx_failed')
+    })
+    const next = queue.run('wallet-1', async () => 'ran')
+
+    await expect(failing).rejects.toThrow('tx_failed')
+    expect(await next).toBe('ran')
+  })
+
+  it('drops an operation that waited longer than maxWaitMs, without running it', async () => {
+    const first = deferred()
+    const stale = vi.fn(async () => 'ran')
+
+    const a = queue.run('wallet-1', () => first.promise)
+    const b = queue.run('wallet-1', stale, { maxWaitMs: 10 })
+    const c = queue.run('wallet-1', async () => 'ran')
+
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    first.resolve()
+
+    await a
+    await expect(b).rejects.toBeInstanceOf(StaleOperationError)
+    expect(stale).not.toHaveBeenCalled()
+    // The default wait is long enough for the operation behind it
+    expect(await c).toBe('ran')
+    expect(queue.getQueueDepth('wallet-1')).toBe(0)
+  })
+})
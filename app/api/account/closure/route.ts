@@ -0,0 +1,132 @@
+/**
+ * /api/account/closure
+ *
+ * GET: the current user's account closure, with its step, status and,
+ * once completed, the closing statement.
+ *
+ * POST { confirm: true, destinationAddress?: "G..." }: close the
+ * current user's account, or resume a closure that failed partway.
+ * Withdraws every share in every vault, sends the funds to
+ * destinationAddress, archives the wallets, wipes the custodial key
+ * once the wallet is empty and stores closing statements. A step that
+ * fails leaves the closure FAILED (returned with status 502); POST
+ * again to resume it. If funds are left and no destinationAddress was
+ * given, the closure stops at TRANSFER (status 409): POST again with one.
+ *
+ * Amounts are in stroops, as decimal-integer strings.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ClosureDestinationLockedError,
+  InvalidClosureDestinationError,
+  NoAccountToCloseError,
+  getAccountClosureService,
+  toClosureJson,
+} from "@/lib/services/account-closure.service";
+import { StaleOperationError } from "@/lib/services/wallet-queue.service";
+
+// Hardcoded demo user - in production this would come from auth
+const DEMO_USER_ID = "hackathon-demo-user";
+
+export async function GET() {
+  try {
+    const closure = await getAccountClosureService().getClosure(DEMO_USER_ID);
+
+    if (!closure) {
+      return NextResponse.json(
+        { success: false, error: "No account closure has been started" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, closure: toClosureJson(closure) });
+  } catch (error) {
+    console.error("Error in GET /api/account/closure:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (body.confirm !== true) {
+      return NextResponse.json(
+        { success: false, error: "Closing an account cannot be undone; send confirm: true" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.destinationAddress !== undefined &&
+      body.destinationAddress !== null &&
+      typeof body.destinationAddress !== "string"
+    ) {
+      return NextResponse.json(
+        { success: false, error: "destinationAddress must be a Stellar address" },
+        { status: 400 }
+      );
+    }
+
+    const closure = await getAccountClosureService().close(DEMO_USER_ID, {
+      destinationAddress: body.destinationAddress,
+    });
+
+    if (closure.status === "FAILED") {
+      // Stopped before the transfer for want of a destination: the client must send one
+      const needsDestination = closure.step === "TRANSFER" && !closure.destinationAddress;
+      return NextResponse.json(
+        { success: false, error: closure.lastError, closure: toClosureJson(closure) },
+        { status: needsDestination ? 409 : 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, closure: toClosureJson(closure) });
+  } catch (error) {
+    console.error("Error in POST /api/account/closure:", error);
+
+    if (error instanceof InvalidClosureDestinationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof NoAccountToCloseError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof ClosureDestinationLockedError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof StaleOperationError) {
+      return NextResponse.json(
+        { success: false, error: "Account closure already running, try again shortly" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * POST /api/admin/portfolio/snapshots
+ *
+ * Take today's portfolio snapshots now, for schedulers that call HTTP
+ * endpoints instead of running scripts/snapshot-portfolios.ts. Safe to
+ * call more than once a day: the day's snapshots are replaced.
+ *
+ * Requires Authorization: Bearer <ADMIN_API_KEY>.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/admin";
+import { getPortfolioService } from "@/lib/services/portfolio.service";
+
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const report = await getPortfolioService().takeDailySnapshots();
+
+    return NextResponse.json({
+      success: true,
+      ...report,
+      snapshotDate: report.snapshotDate.toISOString().slice(0, 10),
+    });
+  } catch (error) {
+    console.error("Error in /api/admin/portfolio/snapshots:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * POST /api/admin/reconciliation/drifts/[id]/review
+ *
+ * Mark a drift as reviewed, removing it from the review queue.
+ * Body: { reviewedBy, note? }
+ *
+ * Requires Authorization: Bearer <ADMIN_API_KEY>.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/admin";
+import { RecordNotFoundError } from "@/lib/data-store";
+import {
+  getVaultReconciliationService,
+  toDriftJson,
+} from "@/lib/services/reconciliation.service";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const { id } = await params;
+    const { reviewedBy, note } = await request.json();
+
+    // Validate required fields
+    if (!reviewedBy || typeof reviewedBy !== "string") {
+      return NextResponse.json(
+        { success: false, error: "reviewedBy is required" },
+        { status: 400 }
+      );
+    }
+
+    if (note !== undefined && typeof note !== "string") {
+      return NextResponse.json(
+        { success: false, error: "note must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const drift = await getVaultReconciliationService().reviewDrift(
+      id,
+      reviewedBy,
+      note
+    );
+
+    return NextResponse.json({ success: true, drift: toDriftJson(drift) });
+  } catch (error) {
+    console.error("Error in /api/admin/reconciliation/drifts/[id]/review:", error);
+
+    if (error instanceof RecordNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: "Drift not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * GET /api/admin/reconciliation/drifts
+ *
+ * List VaultBalance drift recorded by reconciliation runs, newest first.
+ *
+ * Query: ?flagged=true|false, ?reviewed=true|false, ?runId=, ?userId=
+ * e.g. ?flagged=true&reviewed=false is the admin review queue.
+ *
+ * Requires Authorization: Bearer <ADMIN_API_KEY>.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/admin";
+import {
+  getVaultReconciliationService,
+  toDriftJson,
+} from "@/lib/services/reconciliation.service";
+
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const flagged = parseBooleanParam(searchParams.get("flagged"));
+    const reviewed = parseBooleanParam(searchParams.get("reviewed"));
+    if (flagged === null || reviewed === null) {
+      return NextResponse.json(
+        { success: false, error: "flagged and reviewed must be true or false" },
+        { status: 400 }
+      );
+    }
+
+    const drifts = await getVaultReconciliationService().listDrifts({
+      flagged,
+      reviewed,
+      runId: searchParams.get("runId") ?? undefined,
+      userId: searchParams.get("userId") ?? undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      drifts: drifts.map(toDriftJson),
+    });
+  } catch (error) {
+    console.error("Error in /api/admin/reconciliation/drifts:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Parse an optional "true"/"false" query parameter
+ *
+ * @returns undefined when absent, null when invalid
+ */
+function parseBooleanParam(value: string | null): boolean | undefined | null {
+  if (value === null) return undefined;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return null;
+}
@@ -0,0 +1,41 @@
+/**
+ * POST /api/admin/reconciliation
+ *
+ * Run the VaultBalance reconciliation now and return its report.
+ * Every cached balance is compared with the vault contract and fixed;
+ * drift above RECONCILIATION_DRIFT_THRESHOLD_STROOPS is flagged for review
+ * (see GET /api/admin/reconciliation/drifts). Balances skipped behind an
+ * operation in flight for longer than RECONCILIATION_STUCK_AFTER_MINUTES
+ * are counted and marked as stuck.
+ *
+ * Requires Authorization: Bearer <ADMIN_API_KEY>.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/admin";
+import {
+  getVaultReconciliationService,
+  toReportJson,
+} from "@/lib/services/reconciliation.service";
+
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const report = await getVaultReconciliationService().reconcileAll();
+
+    return NextResponse.json({ success: true, ...toReportJson(report) });
+  } catch (error) {
+    console.error("Error in /api/admin/reconciliation:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * POST /api/admin/scenarios/[name]
+ *
+ * Load a demo scenario (see GET /api/admin/scenarios) into the data store.
+ * Body: { reset? } - with reset: true the in-memory store is emptied
+ * first. Prisma databases are reset with `npx prisma migrate reset`
+ * instead, so reset is rejected there. Refused on mainnet and in
+ * production, where nothing is reset or loaded.
+ *
+ * Requires Authorization: Bearer <ADMIN_API_KEY>.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/admin";
+import { InMemoryDataStore, getDataStoreKind, setDataStore } from "@/lib/data-store";
+import {
+  ScenarioConflictError,
+  ScenarioEnvironmentError,
+  UnknownScenarioError,
+  assertScenariosAllowed,
+  getScenario,
+  getScenarioLoader,
+} from "@/lib/services/scenario.service";
+import { UnknownVaultError } from "@/lib/services/vault-registry.service";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const { name } = await params;
+    const { reset } = await request.json().catch(() => ({}));
+
+    if (reset !== undefined && typeof reset !== "boolean") {
+      return NextResponse.json(
+        { success: false, error: "reset must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    const scenario = getScenario(name);
+    assertScenariosAllowed();
+
+    if (reset) {
+      if (getDataStoreKind() !== "memory") {
+        return NextResponse.json(
+          { success: false, error: "reset is only supported on the in-memory store" },
+          { status: 400 }
+        );
+      }
+      setDataStore(new InMemoryDataStore());
+    }
+
+    const report = await getScenarioLoader().load(scenario);
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Error in /api/admin/scenarios/[name]:", error);
+
+    if (error instanceof UnknownScenarioError || error instanceof UnknownVaultError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof ScenarioEnvironmentError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof ScenarioConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * GET /api/admin/scenarios
+ *
+ * List the demo scenarios that POST /api/admin/scenarios/[name] can load.
+ *
+ * Requires Authorization: Bearer <ADMIN_API_KEY>.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/admin";
+import { listScenarios } from "@/lib/services/scenario.service";
+
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    return NextResponse.json({ success: true, scenarios: listScenarios() });
+  } catch (error) {
+    console.error("Error in /api/admin/scenarios:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * GET /api/admin/signing-audit
+ *
+ * List signing audit entries, newest first.
+ *
+ * Query: ?userId=, ?action=KEY_ACCESS|SIGN_TRANSACTION|KEY_RETIRED, ?operation=,
+ * ?transactionHash=, ?from= and ?to= (ISO dates, from inclusive, to
+ * exclusive), ?limit= (1-1000, default 100)
+ *
+ * Requires Authorization: Bearer <ADMIN_API_KEY>.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/admin";
+import { getSigningAuditService } from "@/lib/services/signing-audit.service";
+import type { SigningAuditAction } from "@/lib/types/database.types";
+
+const ACTIONS: SigningAuditAction[] = ["KEY_ACCESS", "SIGN_TRANSACTION", "KEY_RETIRED"];
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const action = searchParams.get("action") ?? undefined;
+    if (action !== undefined && !ACTIONS.includes(action as SigningAuditAction)) {
+      return NextResponse.json(
+        { success: false, error: `action must be one of ${ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const from = parseDateParam(searchParams.get("from"));
+    const to = parseDateParam(searchParams.get("to"));
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { success: false, error: "from and to must be ISO dates" },
+        { status: 400 }
+      );
+    }
+
+    const limit = Number(searchParams.get("limit") ?? DEFAULT_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { success: false, error: `limit must be an integer from 1 to ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const entries = await getSigningAuditService().list({
+      userId: searchParams.get("userId") ?? undefined,
+      action: action as SigningAuditAction | undefined,
+      operation: searchParams.get("operation") ?? undefined,
+      transactionHash: searchParams.get("transactionHash") ?? undefined,
+      from,
+      to,
+      limit,
+    });
+
+    return NextResponse.json({ success: true, entries });
+  } catch (error) {
+    console.error("Error in /api/admin/signing-audit:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Parse an optional ISO date query parameter
+ *
+ * @returns undefined when absent, null when invalid
+ */
+function parseDateParam(value: string | null): Date | undefined | null {
+  if (value === null) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,39 @@
+/**
+ * GET /api/admin/signing-audit/verify
+ *
+ * Walk the signing audit log's hash chain and report whether it is
+ * intact. When it is not, firstInvalidSequence is the first entry that
+ * was edited, removed or reordered.
+ *
+ * The response's head (last sequence and hash) is worth keeping outside
+ * the database: a later head that is shorter or different means entries
+ * were removed from the end.
+ *
+ * Requires Authorization: Bearer <ADMIN_API_KEY>.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/admin";
+import { getSigningAuditService } from "@/lib/services/signing-audit.service";
+
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const verification = await getSigningAuditService().verifyChain();
+
+    return NextResponse.json({ success: true, ...verification });
+  } catch (error) {
+    console.error("Error in /api/admin/signing-audit/verify:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,20 @@
 /**
- * GET /api/defindex/balance?userPublicKey=GXXX...
+ * GET /api/defindex/balance?userPublicKey=GXXX...&vaultId=usdc-conservative
  *
  * Get user's vault balance and shares.
+ * vaultId is optional and defaults to the default vault.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { initializeDefindexService } from "@/lib/services/defindex.service";
+import { UnknownVaultError } from "@/lib/services/vault-registry.service";
 
 export async function GET(request: NextRequest) {
   try {
     // Get userPublicKey from query parameters
     const { searchParams } = new URL(request.url);
     const userPublicKey = searchParams.get("userPublicKey");
+    const vaultId = searchParams.get("vaultId") || undefined;
 
     // Validate required fields
     if (!userPublicKey) {
@@ -25,7 +28,10 @@ export async function GET(request: NextRequest) {
     const defindexService = initializeDefindexService();
 
     // Get vault balance
-    const balanceResponse = await defindexService.getVaultBalance(userPublicKey);
+    const balanceResponse = await defindexService.getVaultBalance(
+      userPublicKey,
+      vaultId
+    );
 
     if (!balanceResponse.success) {
       return NextResponse.json(balanceResponse, { status: 500 });
@@ -37,6 +43,14 @@ export async function GET(request: NextRequest) {
     return NextResponse.json(balanceResponse);
   } catch (error) {
     console.error("Error in /api/defindex/balance:", error);
+
+    if (error instanceof UnknownVaultError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -3,16 +3,39 @@
  *
  * Build a deposit transaction for the user to sign.
  * Returns unsigned XDR that must be signed via MiniKit.
+ * amount is in stroops, as an integer string (e.g. "1000000000").
+ * vaultId is optional and defaults to the default vault.
+ *
+ * The deposit is recorded as INITIATED and settled once the signed
+ * transaction is submitted and confirmed.
+ *
+ * Send an Idempotency-Key header to make retries safe: a repeated key
+ * replays the original response instead of running the request again.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { initializeDefindexService } from "@/lib/services/defindex.service";
+import { getOperationRecordService } from "@/lib/services/operation-record.service";
+import { UnknownVaultError } from "@/lib/services/vault-registry.service";
+import {
+  PriceMovedError,
+  SlippageLimitError,
+  PRICE_MOVED_ERROR_CODE,
+} from "@/lib/services/slippage.service";
+import { Money, MoneyParseError } from "@/lib/money";
+import {
+  withIdempotencyKey,
+  type RequestBody,
+} from "@/lib/services/idempotency.service";
 
 export async function POST(request: NextRequest) {
+  // Retries with the same Idempotency-Key replay the first response
+  return withIdempotencyKey(request, "defindex/deposit", handleDeposit);
+}
+
+async function handleDeposit(body: RequestBody): Promise<NextResponse> {
   try {
-    // Parse request body
-    const body = await request.json();
-    const { userPublicKey, amount, slippageBps, invest } = body;
+    const { userPublicKey, amount, vaultId, slippageBps, invest } = body;
 
     // Validate required fields
     if (!userPublicKey) {
@@ -22,27 +45,69 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!amount || amount <= 0) {
+    if (amount === undefined) {
       return NextResponse.json(
-        { success: false, error: "amount must be greater than 0" },
+        { success: false, error: "amount is required" },
         { status: 400 }
       );
     }
 
     // Initialize Defindex service
     const defindexService = initializeDefindexService();
+    const vault = defindexService.getVault(vaultId);
+
+    const depositAmount = Money.fromUnits(amount, vault.decimals);
+    if (!depositAmount.isPositive()) {
+      return NextResponse.json(
+        { success: false, error: "amount must be greater than 0" },
+        { status: 400 }
+      );
+    }
 
     // Build deposit transaction
     const depositResponse = await defindexService.buildDepositTransaction({
       userPublicKey,
-      amount,
+      amount: depositAmount.units,
+      vaultId: vault.id,
       slippageBps,
       invest,
     });
 
+    // Settled by /api/defindex/submit, which finds it by transaction hash
+    await getOperationRecordService().startSelfCustodyDeposit({
+      stellarPublicKey: userPublicKey,
+      vaultAddress: depositResponse.vaultAddress,
+      amount: depositAmount.units,
+      slippageBps: depositResponse.slippageBps,
+      transactionHash: depositResponse.transactionHash,
+    });
+
     return NextResponse.json(depositResponse);
   } catch (error) {
     console.error("Error in /api/defindex/deposit:", error);
+
+    if (error instanceof UnknownVaultError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof MoneyParseError || error instanceof SlippageLimitError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    // Quote is stale: the client should preview again and retry
+    if (error instanceof PriceMovedError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errorCode: PRICE_MOVED_ERROR_CODE },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
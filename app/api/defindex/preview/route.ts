@@ -0,0 +1,104 @@
+/**
+ * GET /api/defindex/preview?action=deposit&amount=100000000
+ * GET /api/defindex/preview?action=withdraw&shares=100000000
+ * GET /api/defindex/preview?action=withdraw&amount=100000000
+ *
+ * Preview the shares minted or burned by a deposit or withdrawal
+ * at the vault's current price per share. All amounts are in stroops.
+ * vaultId is optional and defaults to the default vault.
+ * slippageBps is optional; the response includes the minimum shares
+ * (deposit) or assets (withdrawal) a transaction built now would accept.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { initializeDefindexService } from "@/lib/services/defindex.service";
+import { UnknownVaultError } from "@/lib/services/vault-registry.service";
+import { SlippageLimitError } from "@/lib/services/slippage.service";
+import { Money, MoneyParseError } from "@/lib/money";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get preview parameters from query
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get("action");
+    const amount = searchParams.get("amount");
+    const shares = searchParams.get("shares");
+    const vaultId = searchParams.get("vaultId") || undefined;
+    const slippageParam = searchParams.get("slippageBps");
+    const slippageBps = slippageParam !== null ? Number(slippageParam) : undefined;
+
+    // Validate required fields
+    if (action !== "deposit" && action !== "withdraw") {
+      return NextResponse.json(
+        { success: false, error: "action must be 'deposit' or 'withdraw'" },
+        { status: 400 }
+      );
+    }
+
+    const useShares = action === "withdraw" && shares !== null;
+    const requested = useShares ? shares : amount;
+    if (requested === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: action === "deposit" ? "amount is required" : "amount or shares is required",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Initialize Defindex service
+    const defindexService = initializeDefindexService();
+    const vault = defindexService.getVault(vaultId);
+
+    const requestedAmount = Money.fromUnits(requested, vault.decimals);
+    if (!requestedAmount.isPositive()) {
+      return NextResponse.json(
+        { success: false, error: `${useShares ? "shares" : "amount"} must be greater than 0` },
+        { status: 400 }
+      );
+    }
+
+    if (action === "deposit") {
+      return NextResponse.json(
+        await defindexService.previewDeposit(
+          requestedAmount.units,
+          vault.id,
+          slippageBps
+        )
+      );
+    }
+
+    const previewResponse = await defindexService.previewWithdraw(
+      useShares ? { shares: requestedAmount.units } : { amount: requestedAmount.units },
+      vault.id,
+      slippageBps
+    );
+
+    return NextResponse.json(previewResponse);
+  } catch (error) {
+    console.error("Error in /api/defindex/preview:", error);
+
+    if (error instanceof UnknownVaultError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof MoneyParseError || error instanceof SlippageLimitError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
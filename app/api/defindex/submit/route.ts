@@ -2,16 +2,31 @@
  * POST /api/defindex/submit
  *
  * Submit a user-signed transaction to the Stellar network.
- * Returns transaction hash and result.
+ * Returns 202 with a PENDING handle once the network accepts it;
+ * poll statusUrl for the ledger outcome and return value.
+ *
+ * The deposit or withdrawal recorded when the transaction was built
+ * is settled with the outcome, or failed if the network rejects it.
+ *
+ * Send an Idempotency-Key header to make retries safe: a repeated key
+ * replays the original response instead of running the request again.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { initializeDefindexService } from "@/lib/services/defindex.service";
+import { getOperationRecordService } from "@/lib/services/operation-record.service";
+import {
+  withIdempotencyKey,
+  type RequestBody,
+} from "@/lib/services/idempotency.service";
 
 export async function POST(request: NextRequest) {
+  // Retries with the same Idempotency-Key replay the first response
+  return withIdempotencyKey(request, "defindex/submit", handleSubmit);
+}
+
+async function handleSubmit(body: RequestBody): Promise<NextResponse> {
   try {
-    // Parse request body
-    const body = await request.json();
     const { signedXdr } = body;
 
     // Validate required fields
@@ -24,26 +39,25 @@ export async function POST(request: NextRequest) {
 
     // Initialize Defindex service
     const defindexService = initializeDefindexService();
+    const records = getOperationRecordService();
 
     // Submit signed transaction
     const submitResponse = await defindexService.submitTransaction({
       signedXdr,
+      onSettled: (transaction) => records.settleByTransactionHash(transaction),
     });
 
     if (!submitResponse.success) {
+      // A busy network may still accept the same signed transaction later
+      if (submitResponse.transactionHash && submitResponse.errorCode !== "tryAgainLater") {
+        await records.failByTransactionHash(submitResponse.transactionHash);
+      }
       return NextResponse.json(submitResponse, { status: 500 });
     }
 
-    // TODO: Store transaction in database
-    // await storeDeposit({
-    //   userPublicKey: ...,
-    //   amount: ...,
-    //   transactionHash: submitResponse.transactionHash,
-    //   vaultShares: submitResponse.returnValue,
-    //   status: 'confirmed'
-    // });
-
-    return NextResponse.json(submitResponse);
+    return NextResponse.json(submitResponse, {
+      status: submitResponse.status === "PENDING" ? 202 : 200,
+    });
   } catch (error) {
     console.error("Error in /api/defindex/submit:", error);
     return NextResponse.json(
@@ -0,0 +1,52 @@
+/**
+ * GET /api/defindex/transactions/[hash]
+ *
+ * Get the confirmation status of a submitted transaction.
+ * Status is PENDING until the ledger settles it, then SUCCESS or
+ * FAILED with the ledger, fee charged and decoded return value.
+ * TIMEOUT means it was not confirmed in time; polling again
+ * re-checks the network.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { initializeDefindexService } from "@/lib/services/defindex.service";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  try {
+    const { hash } = await params;
+
+    // Validate hash format (64 hex characters)
+    if (!/^[0-9a-f]{64}$/i.test(hash)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid transaction hash" },
+        { status: 400 }
+      );
+    }
+
+    // Initialize Defindex service
+    const defindexService = initializeDefindexService();
+
+    const statusResponse = await defindexService.getTransactionStatus(hash);
+
+    if (!statusResponse) {
+      return NextResponse.json(
+        { success: false, error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(statusResponse);
+  } catch (error) {
+    console.error("Error in /api/defindex/transactions/[hash]:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * GET /api/defindex/vaults
+ *
+ * List the vaults users can deposit into, default vault first.
+ */
+
+import { NextResponse } from "next/server";
+import { initializeDefindexService } from "@/lib/services/defindex.service";
+
+export async function GET() {
+  try {
+    // Initialize Defindex service
+    const defindexService = initializeDefindexService();
+    const defaultVaultId = defindexService.getVault().id;
+
+    const vaults = defindexService.getVaults().map((vault) => ({
+      id: vault.id,
+      address: vault.address,
+      displayName: vault.displayName,
+      riskLabel: vault.riskLabel,
+      assetSymbol: vault.assetSymbol,
+      assetAddress: vault.assetAddress,
+      decimals: vault.decimals,
+      defaultSlippageBps: vault.defaultSlippageBps,
+      autoInvest: vault.autoInvest,
+      isDefault: vault.id === defaultVaultId,
+    }));
+
+    return NextResponse.json({ success: true, vaults });
+  } catch (error) {
+    console.error("Error in /api/defindex/vaults:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
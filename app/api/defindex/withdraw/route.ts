@@ -3,16 +3,45 @@
  *
  * Build a withdrawal transaction for the user to sign.
  * Returns unsigned XDR that must be signed via MiniKit.
+ *
+ * Body: { userPublicKey, vaultId?, slippageBps? } plus one of
+ * - { amount }   Asset amount to receive, in stroops
+ * - { shares }   Exact shares to burn, in stroops
+ * - { all: true } The user's entire share balance
+ *
+ * The withdrawal is recorded as INITIATED and settled once the signed
+ * transaction is submitted and confirmed.
+ *
+ * Send an Idempotency-Key header to make retries safe: a repeated key
+ * replays the original response instead of running the request again.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { initializeDefindexService } from "@/lib/services/defindex.service";
+import {
+  initializeDefindexService,
+  type WithdrawTarget,
+} from "@/lib/services/defindex.service";
+import { getOperationRecordService } from "@/lib/services/operation-record.service";
+import { UnknownVaultError } from "@/lib/services/vault-registry.service";
+import {
+  PriceMovedError,
+  SlippageLimitError,
+  PRICE_MOVED_ERROR_CODE,
+} from "@/lib/services/slippage.service";
+import { Money, MoneyParseError } from "@/lib/money";
+import {
+  withIdempotencyKey,
+  type RequestBody,
+} from "@/lib/services/idempotency.service";
 
 export async function POST(request: NextRequest) {
+  // Retries with the same Idempotency-Key replay the first response
+  return withIdempotencyKey(request, "defindex/withdraw", handleWithdraw);
+}
+
+async function handleWithdraw(body: RequestBody): Promise<NextResponse> {
   try {
-    // Parse request body
-    const body = await request.json();
-    const { userPublicKey, shares, slippageBps } = body;
+    const { userPublicKey, amount, shares, all, vaultId, slippageBps } = body;
 
     // Validate required fields
     if (!userPublicKey) {
@@ -22,26 +51,80 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!shares || shares <= 0) {
+    const modes = [amount !== undefined, shares !== undefined, all === true];
+    if (modes.filter(Boolean).length !== 1) {
       return NextResponse.json(
-        { success: false, error: "shares must be greater than 0" },
+        { success: false, error: "Provide exactly one of amount, shares or all" },
         { status: 400 }
       );
     }
 
     // Initialize Defindex service
     const defindexService = initializeDefindexService();
+    const vault = defindexService.getVault(vaultId);
+
+    const requested =
+      all === true ? null : Money.fromUnits(amount ?? shares, vault.decimals);
+    if (requested && !requested.isPositive()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${amount !== undefined ? "amount" : "shares"} must be greater than 0`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const target: WithdrawTarget = !requested
+      ? { all: true }
+      : shares !== undefined
+        ? { shares: requested.units }
+        : { amount: requested.units };
 
     // Build withdrawal transaction
     const withdrawResponse = await defindexService.buildWithdrawTransaction({
+      ...target,
       userPublicKey,
-      shares,
+      vaultId: vault.id,
       slippageBps,
     });
 
+    // Settled by /api/defindex/submit, which finds it by transaction hash
+    await getOperationRecordService().startSelfCustodyWithdrawal({
+      stellarPublicKey: userPublicKey,
+      vaultAddress: withdrawResponse.vaultAddress,
+      shares: BigInt(withdrawResponse.shares),
+      expectedAmount: BigInt(withdrawResponse.expectedAmount),
+      slippageBps: withdrawResponse.slippageBps,
+      transactionHash: withdrawResponse.transactionHash,
+    });
+
     return NextResponse.json(withdrawResponse);
   } catch (error) {
     console.error("Error in /api/defindex/withdraw:", error);
+
+    if (error instanceof UnknownVaultError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof MoneyParseError || error instanceof SlippageLimitError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    // Quote is stale: the client should preview again and retry
+    if (error instanceof PriceMovedError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errorCode: PRICE_MOVED_ERROR_CODE },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -3,86 +3,159 @@
  *
  * Hackathon demo endpoint: Creates/funds a mock wallet and deposits to Defindex.
  * This is a simplified flow for demonstration purposes.
+ * vaultId is optional and defaults to the default vault.
+ *
+ * Send an Idempotency-Key header to make retries safe: a repeated key
+ * replays the original response instead of running the request again.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { initializeStellarWalletService } from "@/lib/services/stellar-wallet.service";
-import { initializeDefindexService, DefindexService } from "@/lib/services/defindex.service";
+import { initializeDefindexService } from "@/lib/services/defindex.service";
 import { getDemoUsdcFundingService } from "@/lib/services/demo-usdc-funding.service";
+import { UnknownVaultError } from "@/lib/services/vault-registry.service";
+import { PRICE_MOVED_ERROR_CODE } from "@/lib/services/slippage.service";
+import { SIGNING_POLICY_ERROR_CODE } from "@/lib/services/signing-policy.service";
+import { Money, MoneyParseError } from "@/lib/money";
+import {
+  withIdempotencyKey,
+  type RequestBody,
+} from "@/lib/services/idempotency.service";
 
 // Hardcoded demo user - in production this would come from auth
 const DEMO_USER_ID = "hackathon-demo-user";
 
 export async function POST(request: NextRequest) {
+  // Retries with the same Idempotency-Key replay the first response
+  return withIdempotencyKey(request, "demo/deposit", handleDemoDeposit);
+}
+
+async function handleDemoDeposit(body: RequestBody): Promise<NextResponse> {
   try {
-    // Parse request body
-    const body = await request.json();
-    const { amount, invest } = body;
+    const { amount, invest, vaultId } = body;
 
     // Validate amount
-    if (!amount || amount <= 0) {
+    if (amount === undefined || amount === null) {
+      return NextResponse.json(
+        { success: false, error: "Amount is required" },
+        { status: 400 }
+      );
+    }
+
+    // Initialize services
+    const walletService = initializeStellarWalletService();
+    const defindexService = initializeDefindexService();
+    const vault = defindexService.getVault(vaultId);
+
+    // Amount is human-readable, e.g. "100.5"
+    const depositAmount = Money.parse(amount, vault.decimals);
+    if (!depositAmount.isPositive()) {
       return NextResponse.json(
         { success: false, error: "Amount must be greater than 0" },
         { status: 400 }
       );
     }
 
+    // The wallet is funded in XLM, from the fee sponsor's treasury by
+    // default, and anyone can call this endpoint
+    const usdcFundingService = getDemoUsdcFundingService();
+    if (!usdcFundingService.canFund(vault.assetAddress)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `The demo can only fund XLM vaults; ${vault.id} holds ${vault.assetSymbol}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const maxAmount = usdcFundingService.getMaxAmount();
+    if (depositAmount.compare(maxAmount) > 0) {
+      return NextResponse.json(
+        { success: false, error: `Demo deposits are limited to ${maxAmount} XLM` },
+        { status: 400 }
+      );
+    }
+
     // Default to auto-invest if not specified
     const shouldInvest = invest !== undefined ? invest : true;
 
-    console.log(`🎯 Demo deposit request: ${amount} USDC (auto-invest: ${shouldInvest})`);
-
-    // Initialize services
-    const walletService = initializeStellarWalletService();
-    const defindexService = initializeDefindexService();
+    console.log(`🎯 Demo deposit request: ${depositAmount} ${vault.assetSymbol} (auto-invest: ${shouldInvest})`);
 
     // Step 1: Create or get custodial wallet
     console.log("📦 Creating/getting demo wallet...");
     const wallet = await walletService.createWalletForUser(DEMO_USER_ID);
     console.log(`✅ Wallet: ${wallet.stellarPublicKey}`);
 
-    // Step 2: Fund wallet with Soroban testnet airdrop
-    // This automatically provides XLM and sets up the account for Soroban usage
-    console.log("💰 Requesting Soroban testnet airdrop...");
-    const usdcFundingService = getDemoUsdcFundingService();
+    // Step 2: Fund wallet with the XLM to deposit
+    // Step 1 already created the account with the starting balance, so
+    // friendbot would refuse it; the funding account pays the wallet
+    // instead. Network fees are paid by the fee sponsor, so only the
+    // XLM being deposited (the demo vault's asset) is sent
+    console.log("💰 Funding demo wallet from the funding account...");
 
-    const fundingResult = await usdcFundingService.fundWalletWithAirdrop(
-      wallet.stellarPublicKey
+    const fundingResult = await usdcFundingService.fundWallet(
+      wallet.stellarPublicKey,
+      depositAmount
     );
 
     if (!fundingResult.success) {
-      console.error("❌ Airdrop failed:", fundingResult.error);
+      console.error("❌ Funding failed:", fundingResult.error);
 
       return NextResponse.json(
         {
           success: false,
-          error: "Failed to fund wallet with testnet airdrop",
+          error: "Failed to fund demo wallet",
           details: fundingResult.error,
         },
         { status: 500 }
       );
     }
 
-    console.log("✅ Wallet funded with testnet airdrop");
-    console.log(`   TX Hash: ${fundingResult.airdropTxHash}`);
-
-    // Step 3: Convert amount to stroops (Stellar's smallest unit, 7 decimals)
-    const amountStroops = DefindexService.amountToStroops(amount);
+    console.log("✅ Demo wallet funded");
+    console.log(`   TX Hash: ${fundingResult.transactionHash}`);
 
-    // Step 4: Backend signs and deposits to Defindex
+    // Step 3: Backend signs and deposits to Defindex
     // Note: Current vault accepts XLM deposits (shown as "USDC" in UI for demo simplicity)
-    console.log(`🏦 Depositing ${amount} tokens (XLM) to Defindex vault...`);
+    console.log(`🏦 Depositing ${depositAmount} ${vault.assetSymbol} to Defindex vault ${vault.id}...`);
 
     const depositResult = await defindexService.depositForUser(
       DEMO_USER_ID,
-      amountStroops,
-      500,  // 5% slippage
-      shouldInvest  // Pass invest parameter
+      depositAmount.units,
+      {
+        // Slippage uses the vault's default, capped by MAX_SLIPPAGE_BPS
+        vaultId: vault.id,
+        invest: shouldInvest,
+      }
     );
 
     if (!depositResult.success) {
       console.error("❌ Deposit failed:", depositResult.error);
 
+      // A moved price is not a server fault: the client can quote again
+      if (depositResult.errorCode === PRICE_MOVED_ERROR_CODE) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: depositResult.error,
+            errorCode: depositResult.errorCode,
+          },
+          { status: 409 }
+        );
+      }
+
+      // A transaction outside the signing policy is refused, not retried
+      if (depositResult.errorCode === SIGNING_POLICY_ERROR_CODE) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: depositResult.error,
+            errorCode: depositResult.errorCode,
+          },
+          { status: 403 }
+        );
+      }
+
       // Return error with helpful message
       return NextResponse.json(
         {
@@ -94,25 +167,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log("✅ Deposit successful!");
+    console.log("⏳ Deposit submitted, awaiting confirmation");
     console.log(`   TX Hash: ${depositResult.transactionHash}`);
 
-    // Step 5: Get updated balance
-    const balance = await defindexService.getUserVaultBalance(DEMO_USER_ID);
-
-    // Return success response
-    return NextResponse.json({
-      success: true,
-      transactionHash: depositResult.transactionHash,
-      stellarPublicKey: wallet.stellarPublicKey,
-      depositedAmount: amount,
-      vaultShares: depositResult.returnValue,
-      totalBalance: DefindexService.stroopsToAmount(balance.balance || 0),
-      explorerUrl: `https://stellar.expert/explorer/testnet/tx/${depositResult.transactionHash}`,
-    });
+    // Step 4: Return the pending handle; the client polls statusUrl
+    // until the ledger confirms the deposit
+    return NextResponse.json(
+      {
+        success: true,
+        status: depositResult.status,
+        statusUrl: depositResult.statusUrl,
+        transactionHash: depositResult.transactionHash,
+        vaultId: vault.id,
+        stellarPublicKey: wallet.stellarPublicKey,
+        depositedAmount: depositAmount.toString(),
+        explorerUrl: `https://stellar.expert/explorer/testnet/tx/${depositResult.transactionHash}`,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error("❌ Demo deposit error:", error);
 
+    if (error instanceof UnknownVaultError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof MoneyParseError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -3,59 +3,146 @@
  *
  * Demo withdrawal endpoint - backend signs the transaction (custodial)
  * For hackathon demo purposes only
+ *
+ * Body (one of):
+ * - { amount: "25.5" }       Withdraw an asset amount (human-readable decimal)
+ * - { shares: "100000000" }  Burn an exact number of shares (stroops)
+ * - { all: true }           Withdraw everything, leaving no dust
+ *
+ * vaultId is optional and defaults to the default vault.
+ *
+ * Send an Idempotency-Key header to make retries safe: a repeated key
+ * replays the original response instead of running the request again.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { initializeDefindexService, DefindexService } from "@/lib/services/defindex.service";
+import {
+  initializeDefindexService,
+  type WithdrawTarget,
+} from "@/lib/services/defindex.service";
+import { UnknownVaultError } from "@/lib/services/vault-registry.service";
+import { PRICE_MOVED_ERROR_CODE } from "@/lib/services/slippage.service";
+import { SIGNING_POLICY_ERROR_CODE } from "@/lib/services/signing-policy.service";
+import { Money, MoneyParseError } from "@/lib/money";
+import {
+  withIdempotencyKey,
+  type RequestBody,
+} from "@/lib/services/idempotency.service";
 
 // Hardcoded demo user ID for hackathon (must match deposit endpoint)
 const DEMO_USER_ID = "hackathon-demo-user";
 
 export async function POST(request: NextRequest) {
+  // Retries with the same Idempotency-Key replay the first response
+  return withIdempotencyKey(request, "demo/withdraw", handleDemoWithdraw);
+}
+
+async function handleDemoWithdraw(body: RequestBody): Promise<NextResponse> {
   try {
-    // Parse request body
-    const body = await request.json();
-    const { shares } = body;
+    const { amount, shares, all, vaultId } = body;
 
-    // Validate required fields
-    if (!shares || shares <= 0) {
+    // Validate required fields: exactly one withdrawal mode
+    const modes = [amount !== undefined, shares !== undefined, all === true];
+    if (modes.filter(Boolean).length !== 1) {
       return NextResponse.json(
-        { success: false, error: "shares must be greater than 0" },
+        { success: false, error: "Provide exactly one of amount, shares or all" },
         { status: 400 }
       );
     }
 
-    console.log(`🎮 DEMO WITHDRAWAL: ${shares} shares for user ${DEMO_USER_ID}`);
-
     // Initialize Defindex service
     const defindexService = initializeDefindexService();
+    const vault = defindexService.getVault(vaultId);
+
+    // Amounts are human-readable; shares are already in stroops
+    const requested =
+      all === true
+        ? null
+        : shares !== undefined
+          ? Money.fromUnits(shares, vault.decimals)
+          : Money.parse(amount, vault.decimals);
+    if (requested && !requested.isPositive()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${shares !== undefined ? "shares" : "amount"} must be greater than 0`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const target: WithdrawTarget = !requested
+      ? { all: true }
+      : shares !== undefined
+        ? { shares: requested.units }
+        : { amount: requested.units };
+
+    console.log(`🎮 DEMO WITHDRAWAL from ${vault.id} for user ${DEMO_USER_ID}:`, target);
 
     // Perform custodial withdrawal (backend signs)
     const withdrawResult = await defindexService.withdrawForUser(
       DEMO_USER_ID,
-      shares
+      target,
+      { vaultId: vault.id }
     );
 
     if (!withdrawResult.success) {
-      return NextResponse.json(withdrawResult, { status: 500 });
+      // A moved price is not a server fault: the client can quote again.
+      // A transaction outside the signing policy is refused, not retried.
+      const status =
+        withdrawResult.errorCode === PRICE_MOVED_ERROR_CODE
+          ? 409
+          : withdrawResult.errorCode === SIGNING_POLICY_ERROR_CODE
+            ? 403
+            : 500;
+      return NextResponse.json(withdrawResult, { status });
     }
 
-    // Convert shares to approximate amount for display
-    const approximateAmount = DefindexService.stroopsToAmount(shares);
+    // Assets expected back at the share price used to size the withdrawal
+    const approximateAmount = Money.fromUnits(
+      withdrawResult.expectedAmount || "0",
+      vault.decimals
+    ).toString();
+    const minimumAmount = Money.fromUnits(
+      withdrawResult.minAssetsOut || "0",
+      vault.decimals
+    ).toString();
 
-    console.log(`✅ DEMO WITHDRAWAL COMPLETE`);
+    console.log(`⏳ DEMO WITHDRAWAL SUBMITTED`);
     console.log(`   Transaction: ${withdrawResult.transactionHash}`);
-    console.log(`   Shares withdrawn: ${shares}`);
-
-    return NextResponse.json({
-      success: true,
-      transactionHash: withdrawResult.transactionHash,
-      shares,
-      approximateAmount,
-      message: "Withdrawal completed successfully",
-    });
+    console.log(`   Shares withdrawn: ${withdrawResult.shares}`);
+
+    // The client polls statusUrl until the ledger confirms the withdrawal
+    return NextResponse.json(
+      {
+        success: true,
+        status: withdrawResult.status,
+        statusUrl: withdrawResult.statusUrl,
+        transactionHash: withdrawResult.transactionHash,
+        vaultId: vault.id,
+        shares: withdrawResult.shares,
+        approximateAmount,
+        minimumAmount,
+        message: "Withdrawal submitted, awaiting confirmation",
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error("❌ Error in /api/demo/withdraw:", error);
+
+    if (error instanceof UnknownVaultError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof MoneyParseError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       {
         success: false,
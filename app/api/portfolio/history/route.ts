@@ -0,0 +1,58 @@
+/**
+ * GET /api/portfolio/history?range=3M&vaultId=usdc-conservative
+ *
+ * Returns the current user's daily balance snapshots, oldest first.
+ * range is one of 1M, 3M, 6M or 1Y and defaults to 1M.
+ * vaultId is optional and defaults to the default vault.
+ *
+ * Each point has the day (YYYY-MM-DD), shares and value in stroops as
+ * decimal-integer strings, and the price per share for display.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  HISTORY_RANGES,
+  getPortfolioService,
+  isHistoryRange,
+  toHistoryJson,
+} from "@/lib/services/portfolio.service";
+import { UnknownVaultError } from "@/lib/services/vault-registry.service";
+
+// Hardcoded demo user - in production this would come from auth
+const DEMO_USER_ID = "hackathon-demo-user";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const range = searchParams.get("range") || "1M";
+    const vaultId = searchParams.get("vaultId") || undefined;
+
+    if (!isHistoryRange(range)) {
+      return NextResponse.json(
+        { success: false, error: `range must be one of ${HISTORY_RANGES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const history = await getPortfolioService().getHistory(DEMO_USER_ID, range, vaultId);
+
+    return NextResponse.json({ success: true, ...toHistoryJson(history) });
+  } catch (error) {
+    console.error("Error in /api/portfolio/history:", error);
+
+    if (error instanceof UnknownVaultError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * GET /api/portfolio/summary?vaultId=usdc-conservative
+ *
+ * Returns the current user's cost basis, current value and yield in a
+ * vault. vaultId is optional and defaults to the default vault.
+ *
+ * Amounts are in stroops, as decimal-integer strings:
+ * - costBasis: deposited principal still invested
+ * - currentValue: on-chain shares × price per share
+ * - realizedYield: earned on withdrawals so far
+ * - unrealizedYield: currentValue - costBasis
+ * - totalYield: realized + unrealized ("earned so far")
+ * yieldBps is totalYield relative to everything deposited.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getPortfolioService,
+  toSummaryJson,
+} from "@/lib/services/portfolio.service";
+import { UnknownVaultError } from "@/lib/services/vault-registry.service";
+
+// Hardcoded demo user - in production this would come from auth
+const DEMO_USER_ID = "hackathon-demo-user";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const vaultId = searchParams.get("vaultId") || undefined;
+
+    const summary = await getPortfolioService().getSummary(DEMO_USER_ID, vaultId);
+
+    return NextResponse.json({ success: true, ...toSummaryJson(summary) });
+  } catch (error) {
+    console.error("Error in /api/portfolio/summary:", error);
+
+    if (error instanceof UnknownVaultError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * GET /api/statements?from=2026-01-01&to=2026-03-31&format=pdf&vaultId=usdc-conservative
+ *
+ * Returns the current user's account statement for a range of days:
+ * opening and closing position, every completed deposit and withdrawal
+ * with shares, price per share and realized yield, and the totals.
+ *
+ * - from, to: YYYY-MM-DD (UTC), both inclusive. Default to January 1st
+ *   of the current year and today.
+ * - format: json (default), csv or pdf. csv and pdf are sent as file
+ *   downloads.
+ * - vaultId: optional, defaults to the user's vault.
+ *
+ * JSON amounts are in stroops, as decimal-integer strings; CSV and PDF
+ * amounts are decimal strings in the vault asset.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  InvalidStatementRangeError,
+  STATEMENT_FORMATS,
+  getStatementService,
+  isStatementFormat,
+  renderStatementCsv,
+  renderStatementPdf,
+  statementFileName,
+  toStatementJson,
+} from "@/lib/services/statement.service";
+import { UnknownVaultError } from "@/lib/services/vault-registry.service";
+
+// Hardcoded demo user - in production this would come from auth
+const DEMO_USER_ID = "hackathon-demo-user";
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const today = new Date().toISOString().slice(0, 10);
+    const from = searchParams.get("from") || `${today.slice(0, 4)}-01-01`;
+    const to = searchParams.get("to") || today;
+    const format = searchParams.get("format") || "json";
+    const vaultId = searchParams.get("vaultId") || undefined;
+
+    if (!isDay(from) || !isDay(to)) {
+      return NextResponse.json(
+        { success: false, error: "from and to must be dates as YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    if (!isStatementFormat(format)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of ${STATEMENT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const statement = await getStatementService().generate(
+      DEMO_USER_ID,
+      new Date(`${from}T00:00:00Z`),
+      new Date(`${to}T00:00:00Z`),
+      vaultId
+    );
+
+    if (format === "json") {
+      return NextResponse.json({ success: true, statement: toStatementJson(statement) });
+    }
+
+    const [body, contentType] =
+      format === "csv"
+        ? [renderStatementCsv(statement), "text/csv; charset=utf-8"]
+        : [renderStatementPdf(statement), "application/pdf"];
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${statementFileName(statement, format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error in /api/statements:", error);
+
+    if (error instanceof InvalidStatementRangeError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof UnknownVaultError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Whether a query value is a real calendar day as YYYY-MM-DD
+ */
+function isDay(value: string): boolean {
+  if (!DAY_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
@@ -1,11 +1,15 @@
 /**
  * GET /api/wallet/address
  *
- * Returns the current user's Stellar wallet address
+ * Returns the current user's Stellar wallet address: the custodial
+ * wallet, or the wallet they migrated to (with migrated: true)
  */
 
 import { NextResponse } from "next/server";
-import { initializeStellarWalletService } from "@/lib/services/stellar-wallet.service";
+import {
+  WalletMigratedError,
+  initializeStellarWalletService,
+} from "@/lib/services/stellar-wallet.service";
 
 // Hardcoded demo user - in production this would come from auth
 const DEMO_USER_ID = "hackathon-demo-user";
@@ -22,6 +26,14 @@ export async function GET() {
       stellarPublicKey: wallet.stellarPublicKey,
     });
   } catch (error) {
+    if (error instanceof WalletMigratedError) {
+      return NextResponse.json({
+        success: true,
+        stellarPublicKey: error.migratedTo,
+        migrated: true,
+      });
+    }
+
     console.error("Error getting wallet address:", error);
 
     return NextResponse.json(
@@ -1,61 +1,98 @@
 import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import {
+  CrossmintWalletArchivedError,
+  CrossmintWalletConflictError,
+  getCrossmintService,
+} from "@/lib/services/crossmint.service";
+import {
+  EmailNotVerifiedError,
+  InvalidEmailError,
+  getEmailVerificationService,
+} from "@/lib/services/email-verification.service";
+import type { CrossmintWallet } from "@/lib/types/database.types";
 
 /**
  * POST /api/wallet/crossmint/create
  *
+ * Body: { email: string, code: string }
+ *
  * Creates a Crossmint Stellar smart wallet for the authenticated user.
  * Uses email-based signing for non-custodial control.
  *
  * Flow:
  * 1. Verify user is authenticated via World App
- * 2. Get user's email from session
- * 3. Call Crossmint API to create Stellar smart wallet
- * 4. Store wallet address in database
+ * 2. Return the user's stored wallet if they already have one
+ * 3. Confirm the user owns the email: code is the one
+ *    /api/wallet/crossmint/email sent to it (World App sign-in carries
+ *    no email, and an unverified one could claim someone else's
+ *    Crossmint wallet)
+ * 4. Get or create the email's wallet on Crossmint, and store it
  * 5. Return wallet details to frontend
+ *
+ * Calling it again returns the same wallet.
  */
-export async function POST(req: NextRequest) {
+export async function POST(request: NextRequest) {
   try {
-    // DEMO MODE: Mock everything for testing
-    console.log(`🎯 [DEMO] Mock Crossmint wallet creation`);
-
-    // Parse request body to get email if provided
-    const body = await req.json();
-    const { email } = body;
-
-    // Mock user session
-    const mockUserId = "demo-user-" + Date.now();
-    const mockUserEmail = email || "demo@example.com";
-
-    console.log(`📬 [DEMO] Creating Crossmint wallet for user ${mockUserId} (${mockUserEmail})`);
-
-    // Mock wallet data
-    const mockAddress = `G${Math.random().toString(36).substring(2, 15).toUpperCase()}${Math.random().toString(36).substring(2, 15).toUpperCase()}DEMO`;
-
-    const mockWallet = {
-      address: mockAddress,
-      email: mockUserEmail,
-      chainType: "stellar" as const,
-      type: "smart" as const,
-      createdAt: new Date(),
-      signerType: "email" as const,
-    };
-
-    // Store in global mock storage
-    if (!(global as any).__mockCrossmintWallets) {
-      (global as any).__mockCrossmintWallets = new Map();
+    // 1. Verify authentication
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // 2. An existing wallet needs no new verification
+    const crossmint = getCrossmintService();
+    const existing = await crossmint.getWalletForUser(userId);
+    if (existing?.archivedAt) {
+      throw new CrossmintWalletArchivedError(userId);
+    }
+    if (existing) {
+      return NextResponse.json({ success: true, wallet: toWalletJson(existing) });
+    }
+
+    // 3. Verify the email
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.email !== "string" || typeof body.code !== "string") {
+      return NextResponse.json(
+        { error: "email and the verification code sent to it are required" },
+        { status: 400 }
+      );
     }
-    (global as any).__mockCrossmintWallets.set(mockUserId, mockWallet);
+    const email = await getEmailVerificationService().confirm(userId, body.email, body.code);
 
-    console.log(`✅ [DEMO] Created mock Crossmint wallet: ${mockAddress}`);
+    console.log(`📬 Getting Crossmint wallet for user ${userId} (${email})`);
+
+    // 4. Get or create, and store
+    const wallet = await crossmint.getOrCreateStellarWallet({
+      email,
+      userId,
+    });
 
     // 5. Return wallet details
     return NextResponse.json({
       success: true,
-      wallet: mockWallet,
+      wallet: toWalletJson(wallet),
     });
   } catch (error) {
     console.error("Error creating Crossmint wallet:", error);
 
+    if (error instanceof InvalidEmailError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof EmailNotVerifiedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof CrossmintWalletConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof CrossmintWalletArchivedError) {
+      return NextResponse.json({ error: error.message }, { status: 410 });
+    }
+
     return NextResponse.json(
       {
         error: "Failed to create Crossmint wallet",
@@ -69,30 +106,28 @@ export async function POST(req: NextRequest) {
 /**
  * GET /api/wallet/crossmint/create
  *
- * Gets the user's existing Crossmint wallet if it exists.
+ * Gets the authenticated user's existing Crossmint wallet if it exists.
  */
-export async function GET(req: NextRequest) {
+export async function GET() {
   try {
-    // DEMO MODE: Mock retrieval
-    console.log(`🎯 [DEMO] Mock Crossmint wallet retrieval`);
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
-    // Get from mock storage
-    const mockWallets = (global as any).__mockCrossmintWallets as Map<string, any>;
+    const wallet = await getCrossmintService().getWalletForUser(userId);
 
-    if (!mockWallets || mockWallets.size === 0) {
+    if (!wallet) {
       return NextResponse.json(
         { error: "Crossmint wallet not found" },
         { status: 404 }
       );
     }
 
-    // Return first wallet (for demo purposes)
-    const wallet = Array.from(mockWallets.values())[0];
-
-    // 3. Return wallet details
     return NextResponse.json({
       success: true,
-      wallet: wallet,
+      wallet: toWalletJson(wallet),
     });
   } catch (error) {
     console.error("Error fetching Crossmint wallet:", error);
@@ -106,3 +141,18 @@ export async function GET(req: NextRequest) {
     );
   }
 }
+
+function toWalletJson(wallet: CrossmintWallet) {
+  return {
+    address: wallet.stellarAddress,
+    email: wallet.email,
+    owner: wallet.crossmintOwnerLocator,
+    alias: wallet.walletAlias,
+    chainType: "stellar" as const,
+    type: "smart" as const,
+    createdAt: wallet.createdAt,
+    lastUsed: wallet.lastUsed,
+    archivedAt: wallet.archivedAt,
+    signerType: "email" as const,
+  };
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import {
+  InvalidEmailError,
+  VerificationCooldownError,
+  getEmailVerificationService,
+} from "@/lib/services/email-verification.service";
+
+/**
+ * POST /api/wallet/crossmint/email
+ *
+ * Body: { email: string }
+ *
+ * Emails a verification code to the address. The authenticated user
+ * sends it back to /api/wallet/crossmint/create to prove they own the
+ * address before a Crossmint wallet is bound to it. A new code can be
+ * requested once a minute (status 429 with Retry-After before then).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.email !== "string") {
+      return NextResponse.json({ error: "email is required" }, { status: 400 });
+    }
+
+    const sent = await getEmailVerificationService().sendCode(userId, body.email);
+
+    return NextResponse.json({
+      success: true,
+      email: sent.email,
+      expiresAt: sent.expiresAt,
+    });
+  } catch (error) {
+    console.error("Error sending email verification code:", error);
+
+    if (error instanceof InvalidEmailError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof VerificationCooldownError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to send verification code",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * POST /api/wallet/migration/confirm
+ *
+ * Body: { signature?: string }
+ *
+ * Prove ownership of the migration's target and run the migration, or
+ * resume one that failed partway. For a Stellar account target,
+ * signature is the base64 signature of the migration's challenge by
+ * that account's key (raw, or as a SEP-53 signed message); it is not
+ * needed for a Crossmint wallet, nor once ownership was proven.
+ *
+ * Moves the vault shares (or withdraws them) and the asset balance to
+ * the target, points the user at the new wallet and retires the
+ * custodial key. A step that fails leaves the migration FAILED
+ * (returned with status 502); POST again to resume it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  NoMigrationStartedError,
+  OwnershipProofError,
+  getWalletMigrationService,
+  toMigrationJson,
+} from "@/lib/services/wallet-migration.service";
+import { StaleOperationError } from "@/lib/services/wallet-queue.service";
+
+// Hardcoded demo user - in production this would come from auth
+const DEMO_USER_ID = "hackathon-demo-user";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (body.signature !== undefined && typeof body.signature !== "string") {
+      return NextResponse.json(
+        { success: false, error: "signature must be a base64 string" },
+        { status: 400 }
+      );
+    }
+
+    const migration = await getWalletMigrationService().migrate(DEMO_USER_ID, {
+      signature: body.signature,
+    });
+
+    if (migration.status === "FAILED") {
+      return NextResponse.json(
+        { success: false, error: migration.lastError, migration: toMigrationJson(migration) },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, migration: toMigrationJson(migration) });
+  } catch (error) {
+    console.error("Error in POST /api/wallet/migration/confirm:", error);
+
+    if (error instanceof NoMigrationStartedError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof OwnershipProofError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof StaleOperationError) {
+      return NextResponse.json(
+        { success: false, error: "Wallet migration already running, try again shortly" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * /api/wallet/migration
+ *
+ * GET: the current user's wallet migration, with its step and status.
+ *
+ * POST { targetAddress: "G..." | "C...", method?: "TRANSFER_SHARES" | "WITHDRAW" }:
+ * start moving the current user from their custodial wallet to a
+ * wallet they hold the key to: a Stellar account, or their Crossmint
+ * smart wallet. Nothing moves yet; the returned migration holds the
+ * challenge to sign for POST /api/wallet/migration/confirm. Posting a
+ * new target replaces the challenge, until ownership is proven.
+ *
+ * Amounts are in stroops, as decimal-integer strings.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  InvalidMigrationTargetError,
+  MigrationTargetLockedError,
+  NoWalletToMigrateError,
+  getWalletMigrationService,
+  toMigrationJson,
+} from "@/lib/services/wallet-migration.service";
+import { StaleOperationError } from "@/lib/services/wallet-queue.service";
+import type { WalletMigrationMethod } from "@/lib/types/database.types";
+
+// Hardcoded demo user - in production this would come from auth
+const DEMO_USER_ID = "hackathon-demo-user";
+
+const METHODS: WalletMigrationMethod[] = ["TRANSFER_SHARES", "WITHDRAW"];
+
+export async function GET() {
+  try {
+    const migration = await getWalletMigrationService().getMigration(DEMO_USER_ID);
+
+    if (!migration) {
+      return NextResponse.json(
+        { success: false, error: "No wallet migration has been started" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, migration: toMigrationJson(migration) });
+  } catch (error) {
+    console.error("Error in GET /api/wallet/migration:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.targetAddress !== "string") {
+      return NextResponse.json(
+        { success: false, error: "targetAddress must be a Stellar address" },
+        { status: 400 }
+      );
+    }
+
+    if (body.method !== undefined && !METHODS.includes(body.method)) {
+      return NextResponse.json(
+        { success: false, error: `method must be one of ${METHODS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const migration = await getWalletMigrationService().start(DEMO_USER_ID, {
+      targetAddress: body.targetAddress,
+      method: body.method,
+    });
+
+    return NextResponse.json({ success: true, migration: toMigrationJson(migration) });
+  } catch (error) {
+    console.error("Error in POST /api/wallet/migration:", error);
+
+    if (error instanceof InvalidMigrationTargetError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof NoWalletToMigrateError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof MigrationTargetLockedError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof StaleOperationError) {
+      return NextResponse.json(
+        { success: false, error: "Wallet migration already running, try again shortly" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
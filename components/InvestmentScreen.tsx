@@ -1,8 +1,10 @@
 "use client";
 
-import { useState, useTransition } from "react";
+import { useEffect, useRef, useState, useTransition } from "react";
 import { ChevronLeft, Menu } from "lucide-react";
 import { useRouter } from "next/navigation";
+import { waitForTransactionStatus } from "@/lib/transaction-status";
+import { Money } from "@/lib/money";
 
 // Utility function to format currency
 const formatCompact = (value: number): string => {
@@ -21,6 +23,18 @@ const formatCurrency = (value: number): string => {
 	}).format(value);
 };
 
+// Stellar assets (USDC, XLM) use 7 decimals
+const ASSET_DECIMALS = 7;
+
+interface DepositPreview {
+	expectedShares: string; // Stroops
+	minSharesOut: string; // Stroops
+	pricePerShare: number;
+}
+
+const PRICE_MOVED_MESSAGE =
+	'El precio de la bóveda cambió. Revisa la nueva cotización e inténtalo de nuevo.';
+
 // Custom Slider Component
 const CustomSlider = ({
 	value,
@@ -182,6 +196,13 @@ export default function InvestmentScreen() {
 	const [autoInvest, setAutoInvest] = useState(true);
 	const [isLoading, setIsLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
+	const [preview, setPreview] = useState<DepositPreview | null>(null);
+	const [quoteVersion, setQuoteVersion] = useState(0);
+
+	// Guards against double taps and keeps one Idempotency-Key per deposit,
+	// so retrying after a lost response replays it instead of depositing twice
+	const isSubmitting = useRef(false);
+	const idempotencyKey = useRef<string | null>(null);
 
 	const router = useRouter();
 	const [isPending, startTransition] = useTransition();
@@ -200,7 +221,40 @@ export default function InvestmentScreen() {
 		setInvestAmount(Math.min(Math.max(newAmount, 0), 15000));
 	};
 
+	// Quote shares at the current price per share, debounced while sliding
+	useEffect(() => {
+		if (investAmount <= 0) {
+			setPreview(null);
+			return;
+		}
+
+		const timeout = setTimeout(async () => {
+			try {
+				const response = await fetch(
+					`/api/defindex/preview?action=deposit&amount=${Money.parse(investAmount, ASSET_DECIMALS).toUnitsString()}`
+				);
+				const data = await response.json();
+				setPreview(data.success ? data : null);
+			} catch {
+				setPreview(null);
+			}
+		}, 300);
+
+		return () => clearTimeout(timeout);
+	}, [investAmount, quoteVersion]);
+
+	// A different amount is a different deposit
+	useEffect(() => {
+		idempotencyKey.current = null;
+	}, [investAmount, autoInvest]);
+
 	const handleInvest = async () => {
+		if (isSubmitting.current) {
+			return;
+		}
+		isSubmitting.current = true;
+		idempotencyKey.current ??= crypto.randomUUID();
+
 		setIsLoading(true);
 		setError(null);
 
@@ -210,19 +264,41 @@ export default function InvestmentScreen() {
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
+					'Idempotency-Key': idempotencyKey.current,
 				},
 				body: JSON.stringify({
-					amount: investAmount,
+					amount: String(investAmount),
 					invest: autoInvest,
 				}),
 			});
 
 			const data = await response.json();
 
+			// The server answered; the next tap is a new deposit
+			idempotencyKey.current = null;
+
+			if (data.errorCode === 'priceMoved') {
+				// Show the user the new quote before they try again
+				setQuoteVersion((version) => version + 1);
+				throw new Error(PRICE_MOVED_MESSAGE);
+			}
+
 			if (!response.ok || !data.success) {
 				throw new Error(data.error || 'Deposit failed');
 			}
 
+			// Submission only means the network accepted it; wait for the ledger
+			if (data.status === 'PENDING' && data.statusUrl) {
+				const settled = await waitForTransactionStatus(data.statusUrl);
+				if (settled.status !== 'SUCCESS') {
+					throw new Error(
+						settled.status === 'TIMEOUT'
+							? 'El depósito sigue pendiente. Revisa tu saldo en unos minutos.'
+							: settled.error || 'Deposit failed'
+					);
+				}
+			}
+
 			console.log('✅ Deposit successful:', data);
 
 			// Navigate to success page
@@ -231,6 +307,7 @@ export default function InvestmentScreen() {
 			console.error('❌ Deposit error:', err);
 			setError(err instanceof Error ? err.message : 'An error occurred');
 		} finally {
+			isSubmitting.current = false;
 			setIsLoading(false);
 		}
 	};
@@ -300,6 +377,13 @@ export default function InvestmentScreen() {
 					<p className="text-center text-xs text-gray-400 mt-2">
 						Toca para editar
 					</p>
+					{preview && (
+						<p className="text-center text-xs text-gray-500 mt-1">
+							Recibirás ≈ {Money.fromUnits(preview.expectedShares, ASSET_DECIMALS).toNumber().toLocaleString("es-AR", { maximumFractionDigits: 4 })} participaciones
+							(1 participación = ${preview.pricePerShare.toFixed(4)})
+							· mínimo {Money.fromUnits(preview.minSharesOut, ASSET_DECIMALS).toNumber().toLocaleString("es-AR", { maximumFractionDigits: 4 })}
+						</p>
+					)}
 				</div>
 
 				{/* Slider */}
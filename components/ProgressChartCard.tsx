@@ -1,4 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Money } from "@/lib/money";
+
+type HistoryRange = "1M" | "3M" | "6M" | "1Y";
+
+interface HistoryPoint {
+  date: string; // YYYY-MM-DD
+  shares: string; // Stroops
+  pricePerShare: number;
+  value: string; // Stroops
+}
+
+const RANGES: HistoryRange[] = ["1M", "3M", "6M", "1Y"];
+
+// Chart area in px, matching the SVG viewBox
+const CHART_WIDTH = 298;
+const CHART_HEIGHT = 136;
+// Keeps the line and marker clear of the top and bottom grid lines
+const CHART_PADDING = 8;
+
+// Compact value for the tooltip, e.g. "$4K" or "1.2K XLM"
+const formatCompact = (value: number, assetSymbol: string) => {
+  const text = new Intl.NumberFormat("en-US", {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(value);
+  return assetSymbol === "USDC" ? `$${text}` : `${text} ${assetSymbol}`;
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("es-AR", {
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+
 export default function ProgressChartCard() {
+  const [range, setRange] = useState<HistoryRange>("1M");
+  const [points, setPoints] = useState<HistoryPoint[]>([]);
+  const [assetSymbol, setAssetSymbol] = useState("USDC");
+  const [decimals, setDecimals] = useState(7);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/portfolio/history?range=${range}`);
+        const data = await response.json();
+
+        if (!cancelled && data.success) {
+          setPoints(data.points);
+          setAssetSymbol(data.assetSymbol);
+          setDecimals(data.decimals);
+        }
+      } catch (err) {
+        console.error("Error fetching portfolio history:", err);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+          setHoverIndex(null);
+        }
+      }
+    };
+
+    fetchHistory();
+
+    // A slower response for a previous range must not overwrite this one
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
+  // Scale the series into the chart area
+  const values = points.map((point) => Money.fromUnits(point.value, decimals).toNumber());
+  const min = Math.min(...values);
+  const spread = Math.max(...values) - min || 1;
+  const coordinates = values.map((value, index) => ({
+    x: points.length > 1 ? (index / (points.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2,
+    y:
+      CHART_PADDING +
+      (1 - (value - min) / spread) * (CHART_HEIGHT - 2 * CHART_PADDING),
+  }));
+
+  const linePath = coordinates
+    .map(({ x, y }, index) => `${index === 0 ? "M" : "L"} ${x} ${y}`)
+    .join(" ");
+  const areaPath = coordinates.length
+    ? `${linePath} L ${coordinates[coordinates.length - 1].x} ${CHART_HEIGHT} L ${coordinates[0].x} ${CHART_HEIGHT} Z`
+    : "";
+
+  // The tooltip rests on the latest point until the cursor picks another
+  const activeIndex = hoverIndex ?? points.length - 1;
+  const active = points.length ? coordinates[activeIndex] : null;
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (points.length === 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+    setHoverIndex(Math.round(ratio * (points.length - 1)));
+  };
+
   return (
     <div className="relative h-[253px] w-full max-w-[358px] overflow-hidden rounded-[19px] bg-white">
       {/* Title */}
@@ -6,8 +112,13 @@ export default function ProgressChartCard() {
         Tu progreso en Juby
       </h3>
 
-      {/* Chart area with placeholder */}
-      <div className="absolute left-[29px] top-[64px] h-[136.5px] w-[298px]">
+      {/* Chart area */}
+      <div
+        className="absolute left-[29px] top-[64px] h-[136.5px] w-[298px] touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerDown={handlePointerMove}
+        onPointerLeave={() => setHoverIndex(null)}
+      >
         {/* Grid lines */}
         <div className="relative h-full w-full">
           {/* Horizontal grid lines */}
@@ -16,66 +127,94 @@ export default function ProgressChartCard() {
           <div className="absolute top-[68px] h-px w-full bg-[#e5e5e5]" />
           <div className="absolute bottom-0 h-px w-full bg-[#e5e5e5]" />
 
-          {/* Chart curve - simplified blue gradient area */}
-          <svg
-            className="absolute inset-0"
-            viewBox="0 0 298 136"
-            fill="none"
-            xmlns="http://www.w3.org/2000/svg"
-          >
-            {/* Gradient definition */}
-            <defs>
-              <linearGradient id="chartGradient" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="0%" stopColor="#4a9eff" stopOpacity="0.3" />
-                <stop offset="100%" stopColor="#4a9eff" stopOpacity="0.05" />
-              </linearGradient>
-            </defs>
-
-            {/* Chart line */}
-            <path
-              d="M 0 100 Q 50 90 75 80 T 150 60 Q 200 45 250 30 L 298 20"
-              stroke="#4a9eff"
-              strokeWidth="3"
+          {points.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <span className="font-manrope text-[13px] font-medium text-[#31353b] opacity-60">
+                {isLoading ? "Cargando..." : "Todavía no hay historial"}
+              </span>
+            </div>
+          )}
+
+          {points.length > 0 && (
+            <svg
+              className="absolute inset-0"
+              viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
               fill="none"
-              strokeLinecap="round"
-            />
-
-            {/* Filled area under curve */}
-            <path
-              d="M 0 100 Q 50 90 75 80 T 150 60 Q 200 45 250 30 L 298 20 L 298 136 L 0 136 Z"
-              fill="url(#chartGradient)"
-            />
-          </svg>
-
-          {/* Data point marker */}
-          <div className="absolute left-[169px] top-[62px] h-2.5 w-2.5 rounded-full bg-white shadow-md ring-2 ring-[#4a9eff]" />
-
-          {/* Vertical line from marker */}
-          <div className="absolute left-[173.5px] top-[72px] h-[61.5px] w-px bg-[#e5e5e5]" />
-
-          {/* Value tooltip */}
-          <div className="absolute left-[149px] top-[89px] flex h-[23px] w-[50px] items-center justify-center rounded-md bg-white shadow-md">
-            <span className="font-manrope text-[14px] font-semibold tracking-[-0.42px] text-[#31353b]">
-              $4K
-            </span>
-          </div>
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              {/* Gradient definition */}
+              <defs>
+                <linearGradient id="chartGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="0%" stopColor="#4a9eff" stopOpacity="0.3" />
+                  <stop offset="100%" stopColor="#4a9eff" stopOpacity="0.05" />
+                </linearGradient>
+              </defs>
+
+              {/* Filled area under the line */}
+              <path d={areaPath} fill="url(#chartGradient)" />
+
+              {/* Chart line */}
+              <path
+                d={linePath}
+                stroke="#4a9eff"
+                strokeWidth="3"
+                fill="none"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          )}
+
+          {active && (
+            <>
+              {/* Vertical line from marker */}
+              <div
+                className="absolute w-px bg-[#e5e5e5]"
+                style={{ left: active.x, top: active.y + 5, bottom: 0 }}
+              />
+
+              {/* Data point marker */}
+              <div
+                className="absolute h-2.5 w-2.5 rounded-full bg-white shadow-md ring-2 ring-[#4a9eff]"
+                style={{ left: active.x - 5, top: active.y - 5 }}
+              />
+
+              {/* Value tooltip: below the marker, or above it near the bottom */}
+              <div
+                className="absolute flex min-w-[50px] -translate-x-1/2 flex-col items-center rounded-md bg-white px-2 py-0.5 shadow-md"
+                style={{
+                  left: Math.min(Math.max(active.x, 30), CHART_WIDTH - 30),
+                  ...(active.y > CHART_HEIGHT - 50
+                    ? { bottom: CHART_HEIGHT - active.y + 14 }
+                    : { top: active.y + 14 }),
+                }}
+              >
+                <span className="font-manrope text-[14px] font-semibold tracking-[-0.42px] text-[#31353b]">
+                  {formatCompact(values[activeIndex], assetSymbol)}
+                </span>
+                <span className="font-manrope text-[10px] font-medium text-[#31353b] opacity-60">
+                  {formatDay(points[activeIndex].date)}
+                </span>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
-      {/* Time period labels */}
+      {/* Time period selector */}
       <div className="absolute bottom-[23px] left-[35px] flex w-[289px] items-center justify-between">
-        <span className="font-manrope text-[14px] font-medium tracking-[-0.42px] text-[#31353b] opacity-60">
-          1M
-        </span>
-        <span className="font-manrope text-[14px] font-medium tracking-[-0.42px] text-[#31353b] opacity-60">
-          3M
-        </span>
-        <span className="font-manrope text-[14px] font-medium tracking-[-0.42px] text-[#31353b] opacity-60">
-          6M
-        </span>
-        <span className="font-manrope text-[14px] font-medium tracking-[-0.42px] text-[#31353b] opacity-60">
-          1Y
-        </span>
+        {RANGES.map((option) => (
+          <button
+            key={option}
+            onClick={() => setRange(option)}
+            disabled={isLoading}
+            className={`font-manrope text-[14px] tracking-[-0.42px] text-[#31353b] cursor-pointer ${
+              option === range ? "font-bold opacity-100" : "font-medium opacity-60"
+            }`}
+          >
+            {option}
+          </button>
+        ))}
       </div>
     </div>
   );
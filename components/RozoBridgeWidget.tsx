@@ -14,7 +14,8 @@ import { useSession } from "next-auth/react";
  *
  * Flow:
  * 1. User authenticates with World App (via session)
- * 2. Backend creates Crossmint Stellar smart wallet with user's email
+ * 2. User verifies their email with a one-time code, then the backend
+ *    creates a Crossmint Stellar smart wallet for it
  * 3. User selects amount to bridge
  * 4. ROZO Intent Pay widget handles:
  *    - World USDC transfer
@@ -40,6 +41,9 @@ export default function RozoBridgeWidget({
   const [amount, setAmount] = useState<string>("0.01");
   const [userEmail, setUserEmail] = useState<string>("");
   const [showEmailPrompt, setShowEmailPrompt] = useState(false);
+  const [verificationCode, setVerificationCode] = useState<string>("");
+  const [showCodePrompt, setShowCodePrompt] = useState(false);
+  const [isSendingCode, setIsSendingCode] = useState(false);
   const [crossmintWallet, setCrossmintWallet] = useState<string | null>(null);
   const [isCreatingWallet, setIsCreatingWallet] = useState(false);
   const [isWidgetReady, setIsWidgetReady] = useState(false);
@@ -49,14 +53,20 @@ export default function RozoBridgeWidget({
 
   // Show email prompt after World App sign-in
   useEffect(() => {
-    if (status === "authenticated" && !crossmintWallet && !stellarAddress && !isCreatingWallet) {
+    if (
+      status === "authenticated" &&
+      !crossmintWallet &&
+      !stellarAddress &&
+      !isCreatingWallet &&
+      !showCodePrompt
+    ) {
       // Always show email prompt for demo
       setShowEmailPrompt(true);
     } else if (stellarAddress) {
       setCrossmintWallet(stellarAddress);
       setIsWidgetReady(true);
     }
-  }, [status, stellarAddress, crossmintWallet, isCreatingWallet]);
+  }, [status, stellarAddress, crossmintWallet, isCreatingWallet, showCodePrompt]);
 
   // Auto-bridge on mount (demo mode) - simulates automatic bridging from World to Stellar
   useEffect(() => {
@@ -78,14 +88,55 @@ export default function RozoBridgeWidget({
       return;
     }
 
-    setShowEmailPrompt(false);
-    await createCrossmintWallet(userEmail);
+    if (demoMode) {
+      setShowEmailPrompt(false);
+      await createCrossmintWallet(userEmail);
+      return;
+    }
+
+    // PRODUCTION MODE: the backend emails a code proving the address is the user's
+    try {
+      setIsSendingCode(true);
+      setError(null);
+
+      const response = await fetch("/api/wallet/crossmint/email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: userEmail }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to send verification code");
+      }
+
+      setVerificationCode("");
+      setShowEmailPrompt(false);
+      setShowCodePrompt(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send verification code");
+    } finally {
+      setIsSendingCode(false);
+    }
+  };
+
+  /**
+   * Handle verification code submission (production mode)
+   */
+  const handleCodeSubmit = async () => {
+    if (!verificationCode.trim()) {
+      setError("Please enter the code we emailed you");
+      return;
+    }
+
+    setShowCodePrompt(false);
+    await createCrossmintWallet(userEmail, verificationCode.trim());
   };
 
   /**
    * Create Crossmint Stellar smart wallet
    */
-  const createCrossmintWallet = async (email?: string) => {
+  const createCrossmintWallet = async (email?: string, code?: string) => {
     try {
       setIsCreatingWallet(true);
       setError(null);
@@ -105,12 +156,11 @@ export default function RozoBridgeWidget({
         setIsWidgetReady(true);
       } else {
         // PRODUCTION MODE: Real Crossmint API call
+        // The route only accepts the email with the code sent to it
         const response = await fetch("/api/wallet/crossmint/create", {
           method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ email }),
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email: email || userEmail, code }),
         });
 
         if (!response.ok) {
@@ -242,10 +292,10 @@ export default function RozoBridgeWidget({
           )}
           <button
             onClick={handleEmailSubmit}
-            disabled={!userEmail}
+            disabled={!userEmail || isSendingCode}
             className="w-full py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold rounded-lg hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
           >
-            Continue with Email Signing
+            {isSendingCode ? "Sending code..." : "Continue with Email Signing"}
           </button>
           <p className="text-xs text-blue-600 mt-3 text-center">
             🔐 Future transactions will be confirmed via email link
@@ -255,6 +305,53 @@ export default function RozoBridgeWidget({
     );
   }
 
+  if (showCodePrompt) {
+    return (
+      <div className="space-y-6">
+        <div className="bg-gradient-to-r from-blue-50 to-purple-50 border-2 border-blue-200 rounded-lg p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <span className="text-2xl">🔢</span>
+            <h3 className="text-lg font-bold text-blue-900">Enter Your Code</h3>
+          </div>
+          <p className="text-sm text-blue-700 mb-4">
+            We emailed a 6-digit code to {userEmail}. Enter it to confirm the address is yours:
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={verificationCode}
+            onChange={(e) => setVerificationCode(e.target.value)}
+            onKeyPress={(e) => e.key === "Enter" && handleCodeSubmit()}
+            placeholder="123456"
+            className="w-full px-4 py-3 border border-blue-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-3"
+            autoFocus
+          />
+          {error && (
+            <p className="text-sm text-red-600 mb-3">{error}</p>
+          )}
+          <button
+            onClick={handleCodeSubmit}
+            disabled={!verificationCode}
+            className="w-full py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold rounded-lg hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            Verify and Create Wallet
+          </button>
+          <button
+            onClick={() => {
+              setError(null);
+              setShowCodePrompt(false);
+              setShowEmailPrompt(true);
+            }}
+            className="w-full mt-2 py-2 text-sm text-blue-700 hover:text-blue-900"
+          >
+            Use a different email or send a new code
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (isCreatingWallet) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -275,7 +372,15 @@ export default function RozoBridgeWidget({
         <h3 className="text-sm font-medium text-red-900 mb-2">Error</h3>
         <p className="text-sm text-red-700">{error}</p>
         <button
-          onClick={() => createCrossmintWallet()}
+          onClick={() => {
+            if (demoMode) {
+              createCrossmintWallet();
+              return;
+            }
+            // A failed code cannot be retried as is: verify again
+            setError(null);
+            setShowCodePrompt(true);
+          }}
           className="mt-4 px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors"
         >
           Retry
@@ -2,12 +2,51 @@
 
 import Image from "next/image";
 import { useRouter } from "next/navigation";
-import { useState, useTransition } from "react";
+import { useEffect, useState, useTransition } from "react";
+import { Money } from "@/lib/money";
+
+interface PortfolioSummary {
+  assetSymbol: string;
+  decimals: number;
+  currentValue: string; // Stroops
+  totalYield: string; // Stroops, realized + unrealized
+  yieldBps: number | null;
+}
+
+// USDC is shown as dollars, anything else with its symbol
+const formatAmount = (amount: Money, assetSymbol: string) => {
+  const text = Number(amount.format({ maxFractionDigits: 2 })).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return assetSymbol === "USDC" ? `$${text}` : `${text} ${assetSymbol}`;
+};
 
 export default function SavingsBalanceCard() {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [navigatingTo, setNavigatingTo] = useState<string | null>(null);
+  const [summary, setSummary] = useState<PortfolioSummary | null>(null);
+
+  useEffect(() => {
+    const fetchSummary = async () => {
+      try {
+        const response = await fetch("/api/portfolio/summary");
+        const data = await response.json();
+        if (data.success) {
+          setSummary(data);
+        }
+      } catch (err) {
+        console.error("Error fetching portfolio summary:", err);
+      }
+    };
+
+    fetchSummary();
+  }, []);
+
+  const balance = summary && Money.fromUnits(summary.currentValue, summary.decimals);
+  const earned = summary && Money.fromUnits(summary.totalYield, summary.decimals);
+  const isLoss = earned?.isNegative() ?? false;
 
   const handleNavigation = (path: string) => {
     setNavigatingTo(path);
@@ -35,23 +74,29 @@ export default function SavingsBalanceCard() {
           Savings Balance
         </p>
         <h2 className="font-manrope text-[30px] font-extrabold tracking-[-0.9px] text-[#31353b] -mt-[10px]">
-          $120,560
+          {balance && summary ? formatAmount(balance, summary.assetSymbol) : "—"}
         </h2>
       </div>
 
-      {/* Growth badge */}
-      <div className="absolute left-[26px] top-[108px] flex h-[28px] w-[143px] items-center justify-center gap-1 rounded-[14px] bg-[#E7F7E8]">
-        <Image
-          src="/assets/icons/arrow-up-green.svg"
-          alt="Growth"
-          width={16}
-          height={11}
-          className="object-contain"
-        />
-        <span className="font-manrope text-[12px] font-bold tracking-[-0.36px] text-[#6e6e6e]">
-          +5% Last month
-        </span>
-      </div>
+      {/* Growth badge: earned so far, realized + unrealized */}
+      {earned && summary && (
+        <div
+          className={`absolute left-[26px] top-[108px] flex h-[28px] min-w-[143px] items-center justify-center gap-1 rounded-[14px] px-3 ${isLoss ? "bg-[#FDECEC]" : "bg-[#E7F7E8]"}`}
+          title={summary.yieldBps !== null ? `${isLoss ? "" : "+"}${(summary.yieldBps / 100).toFixed(2)}%` : undefined}
+        >
+          <Image
+            src="/assets/icons/arrow-up-green.svg"
+            alt={isLoss ? "Loss" : "Growth"}
+            width={16}
+            height={11}
+            className={`object-contain ${isLoss ? "rotate-180" : ""}`}
+          />
+          <span className="font-manrope text-[12px] font-bold tracking-[-0.36px] text-[#6e6e6e]">
+            {isLoss ? "-" : "+"}
+            {formatAmount(isLoss ? Money.zero(summary.decimals).minus(earned) : earned, summary.assetSymbol)} earned
+          </span>
+        </div>
+      )}
 
       {/* Action buttons */}
       <div className="absolute bottom-[20px] right-[30px] flex items-center gap-[16px]">
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { ChevronLeft, ExternalLink, ArrowUpRight, ArrowDownLeft } from "lucide-react";
+import { ChevronLeft, ExternalLink, ArrowUpRight, ArrowDownLeft, FileText } from "lucide-react";
 import { useRouter } from "next/navigation";
 
 interface Transaction {
@@ -13,10 +13,15 @@ interface Transaction {
   successful: boolean;
 }
 
+const STATEMENT_FORMATS = ['pdf', 'csv', 'json'] as const;
+
 export default function TransactionHistoryScreen() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Statement range as YYYY-MM-DD (UTC), from January 1st to today
+  const [statementTo, setStatementTo] = useState(() => new Date().toISOString().slice(0, 10));
+  const [statementFrom, setStatementFrom] = useState(() => `${statementTo.slice(0, 4)}-01-01`);
   const router = useRouter();
 
   useEffect(() => {
@@ -123,6 +128,11 @@ export default function TransactionHistoryScreen() {
     router.back();
   };
 
+  const isStatementRangeValid = Boolean(statementFrom && statementTo && statementFrom <= statementTo);
+
+  const getStatementUrl = (format: typeof STATEMENT_FORMATS[number]) =>
+    `/api/statements?from=${statementFrom}&to=${statementTo}&format=${format}`;
+
   return (
     <div className="min-h-screen bg-linear-to-b from-sky-50 to-blue-50 flex flex-col">
       {/* Header */}
@@ -136,6 +146,53 @@ export default function TransactionHistoryScreen() {
         <h1 className="text-xl font-bold text-gray-800">Historial de Transacciones</h1>
       </header>
 
+      {/* Statement Export */}
+      <section className="px-4 pt-6">
+        <div className="bg-white rounded-lg p-4 shadow-sm">
+          <div className="flex items-center gap-2 mb-3">
+            <FileText className="w-5 h-5 text-blue-500" />
+            <h2 className="text-sm font-semibold text-gray-800">Estado de cuenta</h2>
+          </div>
+          <div className="grid grid-cols-2 gap-3 mb-3">
+            <label className="text-xs text-gray-500">
+              Desde
+              <input
+                type="date"
+                value={statementFrom}
+                max={statementTo}
+                onChange={(e) => setStatementFrom(e.target.value)}
+                className="mt-1 w-full rounded-lg border border-gray-200 px-2 py-1.5 text-sm text-gray-800"
+              />
+            </label>
+            <label className="text-xs text-gray-500">
+              Hasta
+              <input
+                type="date"
+                value={statementTo}
+                min={statementFrom}
+                onChange={(e) => setStatementTo(e.target.value)}
+                className="mt-1 w-full rounded-lg border border-gray-200 px-2 py-1.5 text-sm text-gray-800"
+              />
+            </label>
+          </div>
+          <div className="flex gap-2">
+            {STATEMENT_FORMATS.map((format) => (
+              <a
+                key={format}
+                href={isStatementRangeValid ? getStatementUrl(format) : undefined}
+                download
+                aria-disabled={!isStatementRangeValid}
+                className={`flex-1 py-2 bg-blue-500 text-white rounded-lg text-sm font-semibold text-center hover:bg-blue-600 transition-colors ${
+                  isStatementRangeValid ? '' : 'opacity-50 pointer-events-none'
+                }`}
+              >
+                {format.toUpperCase()}
+              </a>
+            ))}
+          </div>
+        </div>
+      </section>
+
       {/* Main Content */}
       <main className="flex-1 px-4 py-6">
         {isLoading ? (
@@ -1,8 +1,10 @@
 "use client";
 
-import { useState, useTransition } from "react";
+import { useEffect, useRef, useState, useTransition } from "react";
 import { ChevronLeft, Menu } from "lucide-react";
 import { useRouter } from "next/navigation";
+import { waitForTransactionStatus } from "@/lib/transaction-status";
+import { Money } from "@/lib/money";
 
 // Utility function to format currency
 const formatCompact = (value: number): string => {
@@ -21,6 +23,19 @@ const formatCurrency = (value: number): string => {
 	}).format(value);
 };
 
+// Stellar assets (USDC, XLM) use 7 decimals
+const ASSET_DECIMALS = 7;
+
+interface WithdrawPreview {
+	shares: string; // Stroops
+	expectedAmount: string; // Stroops
+	minAssetsOut: string; // Stroops
+	pricePerShare: number;
+}
+
+const PRICE_MOVED_MESSAGE =
+	'El precio de la bóveda cambió. Revisa la nueva cotización e inténtalo de nuevo.';
+
 // Custom Slider Component
 const CustomSlider = ({
 	value,
@@ -142,6 +157,13 @@ export default function WithdrawScreen() {
 	const [withdrawAmount, setWithdrawAmount] = useState(0);
 	const [isLoading, setIsLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
+	const [preview, setPreview] = useState<WithdrawPreview | null>(null);
+	const [quoteVersion, setQuoteVersion] = useState(0);
+
+	// Guards against double taps and keeps one Idempotency-Key per withdrawal,
+	// so retrying after a lost response replays it instead of withdrawing twice
+	const isSubmitting = useRef(false);
+	const idempotencyKey = useRef<string | null>(null);
 
 	const router = useRouter();
 	const [isPending, startTransition] = useTransition();
@@ -162,36 +184,91 @@ export default function WithdrawScreen() {
 		setWithdrawAmount(Math.min(Math.max(newAmount, 0), maxWithdraw));
 	};
 
+	// Quote the shares to burn at the current price per share, debounced while sliding
+	useEffect(() => {
+		if (withdrawAmount <= 0) {
+			setPreview(null);
+			return;
+		}
+
+		const timeout = setTimeout(async () => {
+			try {
+				const response = await fetch(
+					`/api/defindex/preview?action=withdraw&amount=${Money.parse(withdrawAmount, ASSET_DECIMALS).toUnitsString()}`
+				);
+				const data = await response.json();
+				setPreview(data.success ? data : null);
+			} catch {
+				setPreview(null);
+			}
+		}, 300);
+
+		return () => clearTimeout(timeout);
+	}, [withdrawAmount, quoteVersion]);
+
+	// A different amount is a different withdrawal
+	useEffect(() => {
+		idempotencyKey.current = null;
+	}, [withdrawAmount]);
+
 	const handleWithdraw = async () => {
 		if (withdrawAmount <= 0) {
 			setError("Please enter an amount to withdraw");
 			return;
 		}
 
+		if (isSubmitting.current) {
+			return;
+		}
+		isSubmitting.current = true;
+		idempotencyKey.current ??= crypto.randomUUID();
+
 		setIsLoading(true);
 		setError(null);
 
 		try {
-			// TODO: Replace with actual shares calculation
-			// For now, assume 1:1 ratio between amount and shares
-			const sharesToWithdraw = withdrawAmount * 10000000; // Convert to stroops
-
+			// Withdraw by amount; the backend converts it to shares at the
+			// live share price. Withdrawing the full balance burns every share.
 			const response = await fetch('/api/demo/withdraw', {
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
+					'Idempotency-Key': idempotencyKey.current,
 				},
-				body: JSON.stringify({
-					shares: sharesToWithdraw,
-				}),
+				body: JSON.stringify(
+					withdrawAmount >= maxWithdraw
+						? { all: true }
+						: { amount: String(withdrawAmount) }
+				),
 			});
 
 			const data = await response.json();
 
+			// The server answered; the next tap is a new withdrawal
+			idempotencyKey.current = null;
+
+			if (data.errorCode === 'priceMoved') {
+				// Show the user the new quote before they try again
+				setQuoteVersion((version) => version + 1);
+				throw new Error(PRICE_MOVED_MESSAGE);
+			}
+
 			if (!response.ok || !data.success) {
 				throw new Error(data.error || 'Withdrawal failed');
 			}
 
+			// Submission only means the network accepted it; wait for the ledger
+			if (data.status === 'PENDING' && data.statusUrl) {
+				const settled = await waitForTransactionStatus(data.statusUrl);
+				if (settled.status !== 'SUCCESS') {
+					throw new Error(
+						settled.status === 'TIMEOUT'
+							? 'El retiro sigue pendiente. Revisa tu saldo en unos minutos.'
+							: settled.error || 'Withdrawal failed'
+					);
+				}
+			}
+
 			console.log('✅ Withdrawal successful:', data);
 
 			// Navigate to success page
@@ -200,6 +277,7 @@ export default function WithdrawScreen() {
 			console.error('❌ Withdrawal error:', err);
 			setError(err instanceof Error ? err.message : 'An error occurred');
 		} finally {
+			isSubmitting.current = false;
 			setIsLoading(false);
 		}
 	};
@@ -269,6 +347,13 @@ export default function WithdrawScreen() {
 					<p className="text-center text-xs text-gray-400 mt-2">
 						Toca para editar
 					</p>
+					{preview && (
+						<p className="text-center text-xs text-gray-500 mt-1">
+							Se quemarán {Money.fromUnits(preview.shares, ASSET_DECIMALS).toNumber().toLocaleString("es-AR", { maximumFractionDigits: 4 })} participaciones
+							· recibirás ≈ {formatCurrency(Money.fromUnits(preview.expectedAmount, ASSET_DECIMALS).toNumber())}
+							(mínimo {formatCurrency(Money.fromUnits(preview.minAssetsOut, ASSET_DECIMALS).toNumber())})
+						</p>
+					)}
 				</div>
 
 				{/* Slider */}
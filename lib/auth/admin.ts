@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Checks that a request carries the admin API key.
+ *
+ * Admin routes are called by operators and scheduled jobs rather than the
+ * mini app, so they authenticate with a shared secret sent as
+ * `Authorization: Bearer <ADMIN_API_KEY>` instead of a wallet session.
+ * When ADMIN_API_KEY is unset every admin request is refused.
+ *
+ * @param {NextRequest} request - The incoming request.
+ * @returns {NextResponse | null} A 401/503 response to return, or null if the caller is an admin.
+ */
+export const requireAdmin = (request: NextRequest): NextResponse | null => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return NextResponse.json(
+      { success: false, error: 'Admin API is not configured' },
+      { status: 503 },
+    );
+  }
+
+  const header = request.headers.get('authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  // Compare digests so the check takes the same time for any token
+  const expected = crypto.createHash('sha256').update(adminKey).digest();
+  const actual = crypto.createHash('sha256').update(token).digest();
+  if (!token || !crypto.timingSafeEqual(expected, actual)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 },
+    );
+  }
+
+  return null;
+};
@@ -0,0 +1,82 @@
+/**
+ * Data Store
+ *
+ * Entry point for persistence. DATA_STORE selects the implementation:
+ * - "memory" (default): InMemoryDataStore, for demos; data is lost on restart
+ * - "prisma": PrismaDataStore on DATABASE_URL
+ *
+ * The store is cached on globalThis so hot reloads in development
+ * keep the same in-memory data and database connection.
+ */
+
+import { getPrismaClient } from "@/lib/prisma";
+import { InMemoryDataStore } from "./memory-data-store";
+import { PrismaDataStore } from "./prisma-data-store";
+import type { DataStore, DataStoreKind } from "./types";
+
+export * from "./types";
+export { InMemoryDataStore } from "./memory-data-store";
+export { PrismaDataStore } from "./prisma-data-store";
+
+const globalForDataStore = globalThis as unknown as {
+  dataStore: DataStore | undefined;
+};
+
+/**
+ * Read the configured data store kind
+ *
+ * @returns "prisma" or "memory"
+ * @throws Error if DATA_STORE has another value, or prisma is chosen without DATABASE_URL
+ */
+export function getDataStoreKind(): DataStoreKind {
+  const kind = process.env.DATA_STORE || "memory";
+
+  if (kind !== "prisma" && kind !== "memory") {
+    throw new Error(`DATA_STORE must be "prisma" or "memory", got "${kind}"`);
+  }
+
+  if (kind === "prisma" && !process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL environment variable is required when DATA_STORE=prisma");
+  }
+
+  return kind;
+}
+
+/**
+ * Create a data store of the given kind
+ *
+ * @param kind - Implementation to use
+ * @returns New data store
+ */
+export function createDataStore(kind: DataStoreKind): DataStore {
+  return kind === "prisma"
+    ? new PrismaDataStore(getPrismaClient())
+    : new InMemoryDataStore();
+}
+
+/**
+ * Get the singleton data store selected by DATA_STORE
+ *
+ * @returns DataStore instance
+ */
+export function getDataStore(): DataStore {
+  if (!globalForDataStore.dataStore) {
+    const kind = getDataStoreKind();
+    globalForDataStore.dataStore = createDataStore(kind);
+
+    if (kind === "memory") {
+      console.log("⚠️  Using in-memory data store (DATA_STORE=memory)");
+      console.log("   Perfect for demos! Data persists only while server runs.");
+    }
+  }
+  return globalForDataStore.dataStore;
+}
+
+/**
+ * Replace the singleton data store, e.g. with a fresh InMemoryDataStore
+ *
+ * @param dataStore - Store to use from now on
+ */
+export function setDataStore(dataStore: DataStore): void {
+  globalForDataStore.dataStore = dataStore;
+}
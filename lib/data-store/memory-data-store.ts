@@ -0,0 +1,886 @@
+/**
+ * In-Memory Data Store
+ *
+ * DataStore backed by Maps, for demos and local development without
+ * a database. Data lives only as long as the server process.
+ *
+ * Mirrors the Prisma schema's defaults and unique constraints, and
+ * returns copies of records, so callers cannot tell it apart from
+ * PrismaDataStore.
+ */
+
+import crypto from "crypto";
+import type {
+  AccountClosure,
+  BridgeStatus,
+  CrossmintWallet,
+  Deposit,
+  EmailVerification,
+  FeeSponsorship,
+  IdempotencyKey,
+  PortfolioSnapshot,
+  SigningAuditEntry,
+  StellarWallet,
+  VaultBalance,
+  VaultBalanceDrift,
+  WalletMigration,
+  WalletMigrationStatus,
+  Withdrawal,
+  WithdrawalStatus,
+} from "@/lib/types/database.types";
+import {
+  DuplicateRecordError,
+  RecordNotFoundError,
+  type AccountClosureRepository,
+  type AccountClosureUpdate,
+  type CrossmintWalletRepository,
+  type DataStore,
+  type DepositRepository,
+  type DepositUpdate,
+  type EmailVerificationRepository,
+  type EncryptedSecretUpdate,
+  type FeeSponsorshipRepository,
+  type IdempotencyKeyRepository,
+  type IdempotencyKeyUpdate,
+  type EncryptionKeyPage,
+  type NewAccountClosure,
+  type NewCrossmintWallet,
+  type NewDeposit,
+  type NewEmailVerification,
+  type NewFeeSponsorship,
+  type NewIdempotencyKey,
+  type NewPortfolioSnapshot,
+  type NewSigningAuditEntry,
+  type NewStellarWallet,
+  type NewVaultBalanceDrift,
+  type NewWalletMigration,
+  type NewWithdrawal,
+  type PortfolioSnapshotRepository,
+  type SigningAuditFilter,
+  type SigningAuditLogRepository,
+  type VaultBalanceDelta,
+  type VaultBalanceDriftFilter,
+  type VaultBalanceDriftRepository,
+  type VaultBalanceKey,
+  type VaultBalanceRepository,
+  type VaultBalanceSync,
+  type WalletMigrationRepository,
+  type WalletMigrationUpdate,
+  type WalletRepository,
+  type WithdrawalRepository,
+  type WithdrawalUpdate,
+} from "./types";
+
+// ========================================
+// REPOSITORIES
+// ========================================
+
+class InMemoryWalletRepository implements WalletRepository {
+  private wallets: Map<string, StellarWallet> = new Map(); // keyed by id
+
+  async findByUserId(userId: string): Promise<StellarWallet | null> {
+    return copy(this.find((w) => w.userId === userId));
+  }
+
+  async findByPublicKey(stellarPublicKey: string): Promise<StellarWallet | null> {
+    return copy(this.find((w) => w.stellarPublicKey === stellarPublicKey));
+  }
+
+  async create(data: NewStellarWallet): Promise<StellarWallet> {
+    if (this.find((w) => w.userId === data.userId)) {
+      throw new DuplicateRecordError("StellarWallet", ["userId"]);
+    }
+    if (this.find((w) => w.stellarPublicKey === data.stellarPublicKey)) {
+      throw new DuplicateRecordError("StellarWallet", ["stellarPublicKey"]);
+    }
+
+    const wallet: StellarWallet = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date(),
+      encryptionKeyVersion: 1,
+      lastUsed: null,
+      activatedAt: null,
+      activationTx: null,
+      archivedAt: null,
+      migratedTo: null,
+      secretWipedAt: null,
+    };
+    this.wallets.set(wallet.id, wallet);
+    return { ...wallet };
+  }
+
+  async markUsed(walletId: string, at: Date): Promise<void> {
+    const wallet = this.wallets.get(walletId);
+    if (!wallet) {
+      throw new RecordNotFoundError("StellarWallet", walletId);
+    }
+    wallet.lastUsed = at;
+  }
+
+  async list(): Promise<StellarWallet[]> {
+    return Array.from(this.wallets.values()).map((w) => ({ ...w }));
+  }
+
+  async markActivated(
+    walletId: string,
+    at: Date,
+    activationTx: string | null
+  ): Promise<StellarWallet> {
+    const wallet = this.wallets.get(walletId);
+    if (!wallet) {
+      throw new RecordNotFoundError("StellarWallet", walletId);
+    }
+    if (!wallet.activatedAt) {
+      wallet.activatedAt = at;
+      wallet.activationTx = activationTx;
+    }
+    return { ...wallet };
+  }
+
+  async listNotOnEncryptionKey(keyId: string, page: EncryptionKeyPage): Promise<StellarWallet[]> {
+    return Array.from(this.wallets.values())
+      .filter(
+        (w) =>
+          w.encryptionKeyId !== keyId &&
+          !w.secretWipedAt &&
+          (page.afterId === undefined || w.id > page.afterId)
+      )
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, page.limit)
+      .map((w) => ({ ...w }));
+  }
+
+  async updateSecretIfEncryptionKey(
+    walletId: string,
+    expectedKeyId: string | null,
+    data: EncryptedSecretUpdate
+  ): Promise<StellarWallet | null> {
+    const wallet = this.wallets.get(walletId);
+    if (!wallet || wallet.encryptionKeyId !== expectedKeyId || wallet.secretWipedAt) {
+      return null;
+    }
+    Object.assign(wallet, data);
+    return { ...wallet };
+  }
+
+  async archive(walletId: string, at: Date): Promise<StellarWallet> {
+    const wallet = this.wallets.get(walletId);
+    if (!wallet) {
+      throw new RecordNotFoundError("StellarWallet", walletId);
+    }
+    wallet.archivedAt = wallet.archivedAt ?? at;
+    return { ...wallet };
+  }
+
+  async markMigrated(walletId: string, migratedTo: string, at: Date): Promise<StellarWallet> {
+    const wallet = this.wallets.get(walletId);
+    if (!wallet) {
+      throw new RecordNotFoundError("StellarWallet", walletId);
+    }
+    wallet.migratedTo = wallet.migratedTo ?? migratedTo;
+    wallet.archivedAt = wallet.archivedAt ?? at;
+    return { ...wallet };
+  }
+
+  async wipeSecret(walletId: string, at: Date): Promise<StellarWallet> {
+    const wallet = this.wallets.get(walletId);
+    if (!wallet) {
+      throw new RecordNotFoundError("StellarWallet", walletId);
+    }
+    wallet.encryptedSecretKey = "";
+    wallet.encryptionIv = "";
+    wallet.encryptionTag = "";
+    wallet.wrappedDataKey = null;
+    wallet.secretWipedAt = wallet.secretWipedAt ?? at;
+    return { ...wallet };
+  }
+
+  private find(predicate: (wallet: StellarWallet) => boolean): StellarWallet | null {
+    return Array.from(this.wallets.values()).find(predicate) ?? null;
+  }
+}
+
+class InMemoryCrossmintWalletRepository implements CrossmintWalletRepository {
+  private wallets: Map<string, CrossmintWallet> = new Map(); // keyed by id
+
+  async findByUserId(userId: string): Promise<CrossmintWallet | null> {
+    return copy(this.find((w) => w.userId === userId));
+  }
+
+  async findByAddress(stellarAddress: string): Promise<CrossmintWallet | null> {
+    return copy(this.find((w) => w.stellarAddress === stellarAddress));
+  }
+
+  async findByEmail(email: string): Promise<CrossmintWallet | null> {
+    return copy(this.find((w) => w.email === email));
+  }
+
+  async create(data: NewCrossmintWallet): Promise<CrossmintWallet> {
+    if (this.find((w) => w.userId === data.userId)) {
+      throw new DuplicateRecordError("CrossmintWallet", ["userId"]);
+    }
+    if (this.find((w) => w.stellarAddress === data.stellarAddress)) {
+      throw new DuplicateRecordError("CrossmintWallet", ["stellarAddress"]);
+    }
+
+    const wallet: CrossmintWallet = {
+      id: crypto.randomUUID(),
+      ...data,
+      createdAt: new Date(),
+      lastUsed: null,
+      archivedAt: null,
+    };
+    this.wallets.set(wallet.id, wallet);
+    return { ...wallet };
+  }
+
+  async markUsed(walletId: string, at: Date): Promise<void> {
+    const wallet = this.wallets.get(walletId);
+    if (!wallet) {
+      throw new RecordNotFoundError("CrossmintWallet", walletId);
+    }
+    wallet.lastUsed = at;
+  }
+
+  async archive(walletId: string, at: Date): Promise<CrossmintWallet> {
+    const wallet = this.wallets.get(walletId);
+    if (!wallet) {
+      throw new RecordNotFoundError("CrossmintWallet", walletId);
+    }
+    wallet.archivedAt = wallet.archivedAt ?? at;
+    return { ...wallet };
+  }
+
+  // Map iteration follows insertion order, so the first match is the oldest
+  private find(predicate: (wallet: CrossmintWallet) => boolean): CrossmintWallet | null {
+    return Array.from(this.wallets.values()).find(predicate) ?? null;
+  }
+}
+
+class InMemoryEmailVerificationRepository implements EmailVerificationRepository {
+  private verifications: Map<string, EmailVerification> = new Map(); // keyed by userId
+
+  async findByUserId(userId: string): Promise<EmailVerification | null> {
+    return copy(this.verifications.get(userId) ?? null);
+  }
+
+  async replace(data: NewEmailVerification): Promise<EmailVerification> {
+    const verification: EmailVerification = {
+      id: this.verifications.get(data.userId)?.id ?? crypto.randomUUID(),
+      ...data,
+      attempts: 0,
+      createdAt: new Date(),
+    };
+    this.verifications.set(data.userId, verification);
+    return { ...verification };
+  }
+
+  async recordAttempt(userId: string, maxAttempts: number): Promise<EmailVerification | null> {
+    const verification = this.verifications.get(userId);
+    if (!verification || verification.attempts >= maxAttempts) {
+      return null;
+    }
+    verification.attempts += 1;
+    return { ...verification };
+  }
+}
+
+class InMemoryDepositRepository implements DepositRepository {
+  private deposits: Map<string, Deposit> = new Map(); // keyed by id
+
+  async create(data: NewDeposit): Promise<Deposit> {
+    if (
+      data.defindexDepositTx &&
+      this.find((d) => d.defindexDepositTx === data.defindexDepositTx)
+    ) {
+      throw new DuplicateRecordError("Deposit", ["defindexDepositTx"]);
+    }
+
+    const deposit: Deposit = {
+      id: crypto.randomUUID(),
+      userId: data.userId,
+      stellarWalletId: data.stellarWalletId,
+      stellarPublicKey: data.stellarPublicKey,
+      vaultAddress: data.vaultAddress,
+      worldchainTxHash: data.worldchainTxHash ?? null,
+      cctpAttestation: null,
+      bridgeStatus: data.bridgeStatus ?? "INITIATED",
+      stellarMintTx: data.stellarMintTx ?? null,
+      defindexDepositTx: data.defindexDepositTx ?? null,
+      amountUsdc: data.amountUsdc,
+      vaultShares: data.vaultShares ?? null,
+      slippageBps: data.slippageBps,
+      initiatedAt: data.initiatedAt ?? new Date(),
+      completedAt: null,
+    };
+    this.deposits.set(deposit.id, deposit);
+    return { ...deposit };
+  }
+
+  async findById(id: string): Promise<Deposit | null> {
+    return copy(this.deposits.get(id) ?? null);
+  }
+
+  async findByTransactionHash(defindexDepositTx: string): Promise<Deposit | null> {
+    return copy(this.find((d) => d.defindexDepositTx === defindexDepositTx));
+  }
+
+  async listByUser(userId: string): Promise<Deposit[]> {
+    return Array.from(this.deposits.values())
+      .filter((d) => d.userId === userId)
+      .sort((a, b) => b.initiatedAt.getTime() - a.initiatedAt.getTime())
+      .map((d) => ({ ...d }));
+  }
+
+  async update(id: string, data: DepositUpdate): Promise<Deposit> {
+    const deposit = this.deposits.get(id);
+    if (!deposit) {
+      throw new RecordNotFoundError("Deposit", id);
+    }
+
+    if (data.defindexDepositTx && data.defindexDepositTx !== deposit.defindexDepositTx) {
+      if (this.find((d) => d.defindexDepositTx === data.defindexDepositTx)) {
+        throw new DuplicateRecordError("Deposit", ["defindexDepositTx"]);
+      }
+    }
+
+    Object.assign(deposit, withoutUndefined(data));
+    return { ...deposit };
+  }
+
+  async updateIfStatus(
+    id: string,
+    expected: BridgeStatus,
+    data: DepositUpdate
+  ): Promise<Deposit | null> {
+    const deposit = this.deposits.get(id);
+    if (!deposit || deposit.bridgeStatus !== expected) {
+      return null;
+    }
+    return this.update(id, data);
+  }
+
+  private find(predicate: (deposit: Deposit) => boolean): Deposit | null {
+    return Array.from(this.deposits.values()).find(predicate) ?? null;
+  }
+}
+
+class InMemoryWithdrawalRepository implements WithdrawalRepository {
+  private withdrawals: Map<string, Withdrawal> = new Map(); // keyed by id
+
+  async create(data: NewWithdrawal): Promise<Withdrawal> {
+    if (
+      data.defindexWithdrawTx &&
+      this.find((w) => w.defindexWithdrawTx === data.defindexWithdrawTx)
+    ) {
+      throw new DuplicateRecordError("Withdrawal", ["defindexWithdrawTx"]);
+    }
+
+    const withdrawal: Withdrawal = {
+      id: crypto.randomUUID(),
+      userId: data.userId,
+      stellarWalletId: data.stellarWalletId,
+      stellarPublicKey: data.stellarPublicKey,
+      vaultAddress: data.vaultAddress,
+      amountUsdc: data.amountUsdc,
+      vaultShares: data.vaultShares,
+      slippageBps: data.slippageBps,
+      defindexWithdrawTx: data.defindexWithdrawTx ?? null,
+      stellarBurnTx: null,
+      worldchainMintTx: null,
+      status: data.status ?? "INITIATED",
+      initiatedAt: data.initiatedAt ?? new Date(),
+      completedAt: null,
+    };
+    this.withdrawals.set(withdrawal.id, withdrawal);
+    return { ...withdrawal };
+  }
+
+  async findById(id: string): Promise<Withdrawal | null> {
+    return copy(this.withdrawals.get(id) ?? null);
+  }
+
+  async findByTransactionHash(
+    defindexWithdrawTx: string
+  ): Promise<Withdrawal | null> {
+    return copy(this.find((w) => w.defindexWithdrawTx === defindexWithdrawTx));
+  }
+
+  async listByUser(userId: string): Promise<Withdrawal[]> {
+    return Array.from(this.withdrawals.values())
+      .filter((w) => w.userId === userId)
+      .sort((a, b) => b.initiatedAt.getTime() - a.initiatedAt.getTime())
+      .map((w) => ({ ...w }));
+  }
+
+  async update(id: string, data: WithdrawalUpdate): Promise<Withdrawal> {
+    const withdrawal = this.withdrawals.get(id);
+    if (!withdrawal) {
+      throw new RecordNotFoundError("Withdrawal", id);
+    }
+
+    if (
+      data.defindexWithdrawTx &&
+      data.defindexWithdrawTx !== withdrawal.defindexWithdrawTx
+    ) {
+      if (this.find((w) => w.defindexWithdrawTx === data.defindexWithdrawTx)) {
+        throw new DuplicateRecordError("Withdrawal", ["defindexWithdrawTx"]);
+      }
+    }
+
+    Object.assign(withdrawal, withoutUndefined(data));
+    return { ...withdrawal };
+  }
+
+  async updateIfStatus(
+    id: string,
+    expected: WithdrawalStatus,
+    data: WithdrawalUpdate
+  ): Promise<Withdrawal | null> {
+    const withdrawal = this.withdrawals.get(id);
+    if (!withdrawal || withdrawal.status !== expected) {
+      return null;
+    }
+    return this.update(id, data);
+  }
+
+  private find(predicate: (withdrawal: Withdrawal) => boolean): Withdrawal | null {
+    return Array.from(this.withdrawals.values()).find(predicate) ?? null;
+  }
+}
+
+class InMemoryVaultBalanceRepository implements VaultBalanceRepository {
+  private balances: Map<string, VaultBalance> = new Map(); // keyed by `${userId}:${vaultAddress}`
+
+  async find(userId: string, vaultAddress: string): Promise<VaultBalance | null> {
+    return copy(this.balances.get(balanceKey(userId, vaultAddress)) ?? null);
+  }
+
+  async listByUser(userId: string): Promise<VaultBalance[]> {
+    return (await this.list()).filter((b) => b.userId === userId);
+  }
+
+  async list(): Promise<VaultBalance[]> {
+    return Array.from(this.balances.values())
+      .map((b) => ({ ...b }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async adjust(
+    key: VaultBalanceKey,
+    delta: VaultBalanceDelta
+  ): Promise<VaultBalance> {
+    const now = new Date();
+    const balance = this.getOrCreate(key, now);
+
+    balance.totalDeposited += delta.deposited;
+    balance.vaultShares += delta.shares;
+    balance.updatedAt = now;
+    return { ...balance };
+  }
+
+  async sync(key: VaultBalanceKey, data: VaultBalanceSync): Promise<VaultBalance> {
+    const now = new Date();
+    const balance = this.getOrCreate(key, now);
+
+    Object.assign(balance, data);
+    balance.updatedAt = now;
+    return { ...balance };
+  }
+
+  async recordYield(
+    userId: string,
+    vaultAddress: string,
+    estimatedYield: bigint,
+    checkedAt: Date
+  ): Promise<boolean> {
+    const balance = this.balances.get(balanceKey(userId, vaultAddress));
+    if (!balance) {
+      return false;
+    }
+    balance.estimatedYield = estimatedYield;
+    balance.lastYieldCheck = checkedAt;
+    balance.updatedAt = new Date();
+    return true;
+  }
+
+  private getOrCreate(key: VaultBalanceKey, now: Date): VaultBalance {
+    let balance = this.balances.get(balanceKey(key.userId, key.vaultAddress));
+
+    if (!balance) {
+      balance = {
+        id: crypto.randomUUID(),
+        ...key,
+        totalDeposited: BigInt(0),
+        vaultShares: BigInt(0),
+        lastYieldCheck: null,
+        estimatedYield: BigInt(0),
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.balances.set(balanceKey(key.userId, key.vaultAddress), balance);
+    }
+
+    return balance;
+  }
+}
+
+class InMemoryVaultBalanceDriftRepository implements VaultBalanceDriftRepository {
+  private drifts: Map<string, VaultBalanceDrift> = new Map(); // keyed by id
+
+  async create(data: NewVaultBalanceDrift): Promise<VaultBalanceDrift> {
+    const drift: VaultBalanceDrift = {
+      id: crypto.randomUUID(),
+      ...data,
+      reviewedAt: null,
+      reviewedBy: null,
+      reviewNote: null,
+      createdAt: new Date(),
+    };
+    this.drifts.set(drift.id, drift);
+    return { ...drift };
+  }
+
+  async findById(id: string): Promise<VaultBalanceDrift | null> {
+    return copy(this.drifts.get(id) ?? null);
+  }
+
+  async list(filter: VaultBalanceDriftFilter = {}): Promise<VaultBalanceDrift[]> {
+    return Array.from(this.drifts.values())
+      .filter(
+        (d) =>
+          (filter.runId === undefined || d.runId === filter.runId) &&
+          (filter.userId === undefined || d.userId === filter.userId) &&
+          (filter.flagged === undefined || d.flagged === filter.flagged) &&
+          (filter.reviewed === undefined || (d.reviewedAt !== null) === filter.reviewed)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((d) => ({ ...d }));
+  }
+
+  async markReviewed(
+    id: string,
+    reviewedBy: string,
+    reviewedAt: Date,
+    note?: string
+  ): Promise<VaultBalanceDrift> {
+    const drift = this.drifts.get(id);
+    if (!drift) {
+      throw new RecordNotFoundError("VaultBalanceDrift", id);
+    }
+    drift.reviewedAt = reviewedAt;
+    drift.reviewedBy = reviewedBy;
+    drift.reviewNote = note ?? null;
+    return { ...drift };
+  }
+}
+
+class InMemoryPortfolioSnapshotRepository implements PortfolioSnapshotRepository {
+  private snapshots: Map<string, PortfolioSnapshot> = new Map(); // keyed by `${userId}:${vaultAddress}:${day}`
+
+  async upsert(data: NewPortfolioSnapshot): Promise<PortfolioSnapshot> {
+    const key = `${data.userId}:${data.vaultAddress}:${data.snapshotDate.toISOString()}`;
+    const existing = this.snapshots.get(key);
+
+    const snapshot: PortfolioSnapshot = {
+      id: existing?.id ?? crypto.randomUUID(),
+      ...data,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.snapshots.set(key, snapshot);
+    return { ...snapshot };
+  }
+
+  async listByUser(
+    userId: string,
+    vaultAddress: string,
+    from: Date
+  ): Promise<PortfolioSnapshot[]> {
+    return Array.from(this.snapshots.values())
+      .filter(
+        (s) =>
+          s.userId === userId &&
+          s.vaultAddress === vaultAddress &&
+          s.snapshotDate.getTime() >= from.getTime()
+      )
+      .sort((a, b) => a.snapshotDate.getTime() - b.snapshotDate.getTime())
+      .map((s) => ({ ...s }));
+  }
+}
+
+class InMemoryIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  private records: Map<string, IdempotencyKey> = new Map(); // keyed by `${scope}:${key}`
+
+  async find(scope: string, key: string): Promise<IdempotencyKey | null> {
+    return copy(this.records.get(`${scope}:${key}`) ?? null);
+  }
+
+  async create(data: NewIdempotencyKey): Promise<IdempotencyKey> {
+    const compositeKey = `${data.scope}:${data.key}`;
+    if (this.records.has(compositeKey)) {
+      throw new DuplicateRecordError("IdempotencyKey", ["scope", "key"]);
+    }
+
+    const record: IdempotencyKey = {
+      id: crypto.randomUUID(),
+      ...data,
+      status: "IN_PROGRESS",
+      responseStatus: null,
+      responseBody: null,
+      createdAt: new Date(),
+      completedAt: null,
+    };
+    this.records.set(compositeKey, record);
+    return { ...record };
+  }
+
+  async update(
+    scope: string,
+    key: string,
+    data: IdempotencyKeyUpdate
+  ): Promise<IdempotencyKey> {
+    const record = this.records.get(`${scope}:${key}`);
+    if (!record) {
+      throw new RecordNotFoundError("IdempotencyKey", `${scope}:${key}`);
+    }
+    Object.assign(record, withoutUndefined(data));
+    return { ...record };
+  }
+
+  async delete(scope: string, key: string): Promise<void> {
+    if (!this.records.delete(`${scope}:${key}`)) {
+      throw new RecordNotFoundError("IdempotencyKey", `${scope}:${key}`);
+    }
+  }
+}
+
+class InMemoryFeeSponsorshipRepository implements FeeSponsorshipRepository {
+  private sponsorships: Map<string, FeeSponsorship> = new Map(); // keyed by transactionHash
+
+  async createIfAbsent(data: NewFeeSponsorship): Promise<FeeSponsorship> {
+    const existing = this.sponsorships.get(data.transactionHash);
+    if (existing) {
+      return { ...existing };
+    }
+
+    const sponsorship: FeeSponsorship = {
+      id: crypto.randomUUID(),
+      ...data,
+      feeCharged: null,
+      createdAt: new Date(),
+      settledAt: null,
+    };
+    this.sponsorships.set(sponsorship.transactionHash, sponsorship);
+    return { ...sponsorship };
+  }
+
+  async settle(
+    transactionHash: string,
+    feeCharged: bigint,
+    settledAt: Date
+  ): Promise<boolean> {
+    const sponsorship = this.sponsorships.get(transactionHash);
+    if (!sponsorship) {
+      return false;
+    }
+    sponsorship.feeCharged = feeCharged;
+    sponsorship.settledAt = settledAt;
+    return true;
+  }
+
+  async listByUser(userId: string): Promise<FeeSponsorship[]> {
+    return Array.from(this.sponsorships.values())
+      .filter((s) => s.userId === userId)
+      .map((s) => ({ ...s }));
+  }
+}
+
+class InMemorySigningAuditLogRepository implements SigningAuditLogRepository {
+  private entries: SigningAuditEntry[] = []; // sequence order
+
+  async append(data: NewSigningAuditEntry): Promise<SigningAuditEntry> {
+    const latest = this.entries[this.entries.length - 1];
+    if (data.sequence <= (latest?.sequence ?? 0)) {
+      throw new DuplicateRecordError("SigningAuditEntry", ["sequence"]);
+    }
+
+    const entry: SigningAuditEntry = { id: crypto.randomUUID(), ...data };
+    this.entries.push(entry);
+    return copyEntry(entry);
+  }
+
+  async findLatest(): Promise<SigningAuditEntry | null> {
+    const latest = this.entries[this.entries.length - 1];
+    return latest ? copyEntry(latest) : null;
+  }
+
+  async list(filter: SigningAuditFilter = {}): Promise<SigningAuditEntry[]> {
+    return this.entries
+      .filter(
+        (e) =>
+          (filter.userId === undefined || e.userId === filter.userId) &&
+          (filter.action === undefined || e.action === filter.action) &&
+          (filter.operation === undefined || e.operation === filter.operation) &&
+          (filter.transactionHash === undefined || e.transactionHash === filter.transactionHash) &&
+          (filter.from === undefined || e.createdAt >= filter.from) &&
+          (filter.to === undefined || e.createdAt < filter.to)
+      )
+      .reverse()
+      .slice(0, filter.limit)
+      .map(copyEntry);
+  }
+
+  async listAfter(sequence: number, limit: number): Promise<SigningAuditEntry[]> {
+    return this.entries
+      .filter((e) => e.sequence > sequence)
+      .slice(0, limit)
+      .map(copyEntry);
+  }
+}
+
+class InMemoryAccountClosureRepository implements AccountClosureRepository {
+  private closures: Map<string, AccountClosure> = new Map(); // keyed by userId
+
+  async findByUserId(userId: string): Promise<AccountClosure | null> {
+    return copy(this.closures.get(userId) ?? null);
+  }
+
+  async create(data: NewAccountClosure): Promise<AccountClosure> {
+    if (this.closures.has(data.userId)) {
+      throw new DuplicateRecordError("AccountClosure", ["userId"]);
+    }
+
+    const now = new Date();
+    const closure: AccountClosure = {
+      id: crypto.randomUUID(),
+      ...data,
+      status: "IN_PROGRESS",
+      step: "WITHDRAW",
+      lastError: null,
+      withdrawalTx: null,
+      transferTx: null,
+      transferredAmounts: {},
+      closingStatement: null,
+      requestedAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+    this.closures.set(closure.userId, closure);
+    return { ...closure };
+  }
+
+  async update(id: string, data: AccountClosureUpdate): Promise<AccountClosure> {
+    const closure = Array.from(this.closures.values()).find((c) => c.id === id);
+    if (!closure) {
+      throw new RecordNotFoundError("AccountClosure", id);
+    }
+    Object.assign(closure, withoutUndefined(data), { updatedAt: new Date() });
+    return { ...closure };
+  }
+}
+
+class InMemoryWalletMigrationRepository implements WalletMigrationRepository {
+  private migrations: Map<string, WalletMigration> = new Map(); // keyed by userId
+
+  async findByUserId(userId: string): Promise<WalletMigration | null> {
+    return copy(this.migrations.get(userId) ?? null);
+  }
+
+  async create(data: NewWalletMigration): Promise<WalletMigration> {
+    if (this.migrations.has(data.userId)) {
+      throw new DuplicateRecordError("WalletMigration", ["userId"]);
+    }
+
+    const now = new Date();
+    const migration: WalletMigration = {
+      id: crypto.randomUUID(),
+      ...data,
+      proofSignature: null,
+      provedAt: null,
+      status: "AWAITING_PROOF",
+      step: "MOVE_SHARES",
+      lastError: null,
+      sharesTx: null,
+      sharesMoved: {},
+      assetsTx: null,
+      assetsMoved: {},
+      requestedAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+    this.migrations.set(migration.userId, migration);
+    return { ...migration };
+  }
+
+  async update(id: string, data: WalletMigrationUpdate): Promise<WalletMigration> {
+    const migration = this.find(id);
+    if (!migration) {
+      throw new RecordNotFoundError("WalletMigration", id);
+    }
+    Object.assign(migration, withoutUndefined(data), { updatedAt: new Date() });
+    return { ...migration };
+  }
+
+  async updateIfStatus(
+    id: string,
+    expected: WalletMigrationStatus,
+    data: WalletMigrationUpdate
+  ): Promise<WalletMigration | null> {
+    const migration = this.find(id);
+    if (!migration || migration.status !== expected) {
+      return null;
+    }
+    return this.update(id, data);
+  }
+
+  private find(id: string): WalletMigration | undefined {
+    return Array.from(this.migrations.values()).find((m) => m.id === id);
+  }
+}
+
+// ========================================
+// IN-MEMORY DATA STORE
+// ========================================
+
+export class InMemoryDataStore implements DataStore {
+  readonly kind = "memory" as const;
+  wallets: WalletRepository = new InMemoryWalletRepository();
+  crossmintWallets: CrossmintWalletRepository = new InMemoryCrossmintWalletRepository();
+  emailVerifications: EmailVerificationRepository = new InMemoryEmailVerificationRepository();
+  deposits: DepositRepository = new InMemoryDepositRepository();
+  withdrawals: WithdrawalRepository = new InMemoryWithdrawalRepository();
+  vaultBalances: VaultBalanceRepository = new InMemoryVaultBalanceRepository();
+  vaultBalanceDrifts: VaultBalanceDriftRepository = new InMemoryVaultBalanceDriftRepository();
+  portfolioSnapshots: PortfolioSnapshotRepository = new InMemoryPortfolioSnapshotRepository();
+  idempotencyKeys: IdempotencyKeyRepository = new InMemoryIdempotencyKeyRepository();
+  feeSponsorships: FeeSponsorshipRepository = new InMemoryFeeSponsorshipRepository();
+  signingAuditLog: SigningAuditLogRepository = new InMemorySigningAuditLogRepository();
+  accountClosures: AccountClosureRepository = new InMemoryAccountClosureRepository();
+  walletMigrations: WalletMigrationRepository = new InMemoryWalletMigrationRepository();
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+function copy<T extends object>(record: T | null): T | null {
+  return record ? { ...record } : null;
+}
+
+function balanceKey(userId: string, vaultAddress: string): string {
+  return `${userId}:${vaultAddress}`;
+}
+
+function copyEntry(entry: SigningAuditEntry): SigningAuditEntry {
+  return { ...entry, amounts: [...entry.amounts] };
+}
+
+/**
+ * Drop undefined fields, which Prisma treats as "leave unchanged"
+ */
+function withoutUndefined<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,760 @@
+/**
+ * Prisma Data Store
+ *
+ * DataStore backed by PostgreSQL through Prisma Client. Prisma's
+ * unique-constraint (P2002) and record-not-found (P2025) errors are
+ * translated to DuplicateRecordError and RecordNotFoundError, so
+ * callers handle both stores the same way.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import type { InputJsonValue } from "@prisma/client/runtime/library";
+import type {
+  AccountClosure,
+  BridgeStatus,
+  CrossmintWallet,
+  Deposit,
+  EmailVerification,
+  FeeSponsorship,
+  IdempotencyKey,
+  PortfolioSnapshot,
+  SigningAuditEntry,
+  StellarWallet,
+  VaultBalance,
+  VaultBalanceDrift,
+  WalletMigration,
+  WalletMigrationStatus,
+  Withdrawal,
+  WithdrawalStatus,
+} from "@/lib/types/database.types";
+import {
+  DuplicateRecordError,
+  RecordNotFoundError,
+  type AccountClosureRepository,
+  type AccountClosureUpdate,
+  type CrossmintWalletRepository,
+  type DataStore,
+  type DepositRepository,
+  type DepositUpdate,
+  type EmailVerificationRepository,
+  type EncryptedSecretUpdate,
+  type FeeSponsorshipRepository,
+  type IdempotencyKeyRepository,
+  type IdempotencyKeyUpdate,
+  type EncryptionKeyPage,
+  type NewAccountClosure,
+  type NewCrossmintWallet,
+  type NewDeposit,
+  type NewEmailVerification,
+  type NewFeeSponsorship,
+  type NewIdempotencyKey,
+  type NewPortfolioSnapshot,
+  type NewSigningAuditEntry,
+  type NewStellarWallet,
+  type NewVaultBalanceDrift,
+  type NewWalletMigration,
+  type NewWithdrawal,
+  type PortfolioSnapshotRepository,
+  type SigningAuditFilter,
+  type SigningAuditLogRepository,
+  type VaultBalanceDelta,
+  type VaultBalanceDriftFilter,
+  type VaultBalanceDriftRepository,
+  type VaultBalanceKey,
+  type VaultBalanceRepository,
+  type VaultBalanceSync,
+  type WalletMigrationRepository,
+  type WalletMigrationUpdate,
+  type WalletRepository,
+  type WithdrawalRepository,
+  type WithdrawalUpdate,
+} from "./types";
+
+// ========================================
+// REPOSITORIES
+// ========================================
+
+class PrismaWalletRepository implements WalletRepository {
+  constructor(private client: PrismaClient) {}
+
+  async findByUserId(userId: string): Promise<StellarWallet | null> {
+    return this.client.stellarWallet.findUnique({ where: { userId } });
+  }
+
+  async findByPublicKey(stellarPublicKey: string): Promise<StellarWallet | null> {
+    return this.client.stellarWallet.findUnique({ where: { stellarPublicKey } });
+  }
+
+  async create(data: NewStellarWallet): Promise<StellarWallet> {
+    return translateErrors("StellarWallet", data.userId, () =>
+      this.client.stellarWallet.create({ data })
+    );
+  }
+
+  async markUsed(walletId: string, at: Date): Promise<void> {
+    await translateErrors("StellarWallet", walletId, () =>
+      this.client.stellarWallet.update({
+        where: { id: walletId },
+        data: { lastUsed: at },
+      })
+    );
+  }
+
+  async list(): Promise<StellarWallet[]> {
+    return this.client.stellarWallet.findMany({ orderBy: { createdAt: "asc" } });
+  }
+
+  async markActivated(
+    walletId: string,
+    at: Date,
+    activationTx: string | null
+  ): Promise<StellarWallet> {
+    // Only the first activation is kept
+    await this.client.stellarWallet.updateMany({
+      where: { id: walletId, activatedAt: null },
+      data: { activatedAt: at, activationTx },
+    });
+    return this.findOrThrow(walletId);
+  }
+
+  async listNotOnEncryptionKey(keyId: string, page: EncryptionKeyPage): Promise<StellarWallet[]> {
+    return this.client.stellarWallet.findMany({
+      where: {
+        // not: excludes nulls in SQL, so legacy rows are asked for explicitly
+        OR: [{ encryptionKeyId: { not: keyId } }, { encryptionKeyId: null }],
+        secretWipedAt: null,
+        ...(page.afterId !== undefined ? { id: { gt: page.afterId } } : {}),
+      },
+      orderBy: { id: "asc" },
+      take: page.limit,
+    });
+  }
+
+  async updateSecretIfEncryptionKey(
+    walletId: string,
+    expectedKeyId: string | null,
+    data: EncryptedSecretUpdate
+  ): Promise<StellarWallet | null> {
+    const { count } = await this.client.stellarWallet.updateMany({
+      where: { id: walletId, encryptionKeyId: expectedKeyId, secretWipedAt: null },
+      data,
+    });
+    return count > 0 ? this.client.stellarWallet.findUnique({ where: { id: walletId } }) : null;
+  }
+
+  async archive(walletId: string, at: Date): Promise<StellarWallet> {
+    // Only the first archival time is kept
+    await this.client.stellarWallet.updateMany({
+      where: { id: walletId, archivedAt: null },
+      data: { archivedAt: at },
+    });
+    return this.findOrThrow(walletId);
+  }
+
+  async markMigrated(walletId: string, migratedTo: string, at: Date): Promise<StellarWallet> {
+    // Only the first migration is kept
+    await this.client.stellarWallet.updateMany({
+      where: { id: walletId, migratedTo: null },
+      data: { migratedTo },
+    });
+    return this.archive(walletId, at);
+  }
+
+  async wipeSecret(walletId: string, at: Date): Promise<StellarWallet> {
+    await translateErrors("StellarWallet", walletId, () =>
+      this.client.stellarWallet.update({
+        where: { id: walletId },
+        data: { encryptedSecretKey: "", encryptionIv: "", encryptionTag: "", wrappedDataKey: null },
+      })
+    );
+    // Only the first wipe time is kept
+    await this.client.stellarWallet.updateMany({
+      where: { id: walletId, secretWipedAt: null },
+      data: { secretWipedAt: at },
+    });
+    return this.findOrThrow(walletId);
+  }
+
+  private async findOrThrow(walletId: string): Promise<StellarWallet> {
+    const wallet = await this.client.stellarWallet.findUnique({ where: { id: walletId } });
+    if (!wallet) {
+      throw new RecordNotFoundError("StellarWallet", walletId);
+    }
+    return wallet;
+  }
+}
+
+class PrismaCrossmintWalletRepository implements CrossmintWalletRepository {
+  constructor(private client: PrismaClient) {}
+
+  async findByUserId(userId: string): Promise<CrossmintWallet | null> {
+    return this.client.crossmintWallet.findUnique({ where: { userId } });
+  }
+
+  async findByAddress(stellarAddress: string): Promise<CrossmintWallet | null> {
+    return this.client.crossmintWallet.findUnique({ where: { stellarAddress } });
+  }
+
+  async findByEmail(email: string): Promise<CrossmintWallet | null> {
+    return this.client.crossmintWallet.findFirst({
+      where: { email },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async create(data: NewCrossmintWallet): Promise<CrossmintWallet> {
+    return translateErrors("CrossmintWallet", data.userId, () =>
+      this.client.crossmintWallet.create({ data })
+    );
+  }
+
+  async markUsed(walletId: string, at: Date): Promise<void> {
+    await translateErrors("CrossmintWallet", walletId, () =>
+      this.client.crossmintWallet.update({
+        where: { id: walletId },
+        data: { lastUsed: at },
+      })
+    );
+  }
+
+  async archive(walletId: string, at: Date): Promise<CrossmintWallet> {
+    // Only the first archival time is kept
+    await this.client.crossmintWallet.updateMany({
+      where: { id: walletId, archivedAt: null },
+      data: { archivedAt: at },
+    });
+    const wallet = await this.client.crossmintWallet.findUnique({ where: { id: walletId } });
+    if (!wallet) {
+      throw new RecordNotFoundError("CrossmintWallet", walletId);
+    }
+    return wallet;
+  }
+}
+
+class PrismaEmailVerificationRepository implements EmailVerificationRepository {
+  constructor(private client: PrismaClient) {}
+
+  async findByUserId(userId: string): Promise<EmailVerification | null> {
+    return this.client.emailVerification.findUnique({ where: { userId } });
+  }
+
+  async replace(data: NewEmailVerification): Promise<EmailVerification> {
+    const { userId, ...fields } = data;
+    return upsertWithRetry(() =>
+      this.client.emailVerification.upsert({
+        where: { userId },
+        create: data,
+        update: { ...fields, attempts: 0, createdAt: new Date() },
+      })
+    );
+  }
+
+  async recordAttempt(userId: string, maxAttempts: number): Promise<EmailVerification | null> {
+    const { count } = await this.client.emailVerification.updateMany({
+      where: { userId, attempts: { lt: maxAttempts } },
+      data: { attempts: { increment: 1 } },
+    });
+    return count > 0 ? this.client.emailVerification.findUnique({ where: { userId } }) : null;
+  }
+}
+
+class PrismaDepositRepository implements DepositRepository {
+  constructor(private client: PrismaClient) {}
+
+  async create(data: NewDeposit): Promise<Deposit> {
+    return translateErrors("Deposit", data.userId, () =>
+      this.client.deposit.create({ data })
+    );
+  }
+
+  async findById(id: string): Promise<Deposit | null> {
+    return this.client.deposit.findUnique({ where: { id } });
+  }
+
+  async findByTransactionHash(defindexDepositTx: string): Promise<Deposit | null> {
+    return this.client.deposit.findUnique({ where: { defindexDepositTx } });
+  }
+
+  async listByUser(userId: string): Promise<Deposit[]> {
+    return this.client.deposit.findMany({
+      where: { userId },
+      orderBy: { initiatedAt: "desc" },
+    });
+  }
+
+  async update(id: string, data: DepositUpdate): Promise<Deposit> {
+    return translateErrors("Deposit", id, () =>
+      this.client.deposit.update({ where: { id }, data })
+    );
+  }
+
+  async updateIfStatus(
+    id: string,
+    expected: BridgeStatus,
+    data: DepositUpdate
+  ): Promise<Deposit | null> {
+    const { count } = await translateErrors<{ count: number }>("Deposit", id, () =>
+      this.client.deposit.updateMany({
+        where: { id, bridgeStatus: expected },
+        data,
+      })
+    );
+    return count > 0 ? this.findById(id) : null;
+  }
+}
+
+class PrismaWithdrawalRepository implements WithdrawalRepository {
+  constructor(private client: PrismaClient) {}
+
+  async create(data: NewWithdrawal): Promise<Withdrawal> {
+    return translateErrors("Withdrawal", data.userId, () =>
+      this.client.withdrawal.create({ data })
+    );
+  }
+
+  async findById(id: string): Promise<Withdrawal | null> {
+    return this.client.withdrawal.findUnique({ where: { id } });
+  }
+
+  async findByTransactionHash(
+    defindexWithdrawTx: string
+  ): Promise<Withdrawal | null> {
+    return this.client.withdrawal.findUnique({ where: { defindexWithdrawTx } });
+  }
+
+  async listByUser(userId: string): Promise<Withdrawal[]> {
+    return this.client.withdrawal.findMany({
+      where: { userId },
+      orderBy: { initiatedAt: "desc" },
+    });
+  }
+
+  async update(id: string, data: WithdrawalUpdate): Promise<Withdrawal> {
+    return translateErrors("Withdrawal", id, () =>
+      this.client.withdrawal.update({ where: { id }, data })
+    );
+  }
+
+  async updateIfStatus(
+    id: string,
+    expected: WithdrawalStatus,
+    data: WithdrawalUpdate
+  ): Promise<Withdrawal | null> {
+    const { count } = await translateErrors<{ count: number }>("Withdrawal", id, () =>
+      this.client.withdrawal.updateMany({
+        where: { id, status: expected },
+        data,
+      })
+    );
+    return count > 0 ? this.findById(id) : null;
+  }
+}
+
+class PrismaVaultBalanceRepository implements VaultBalanceRepository {
+  constructor(private client: PrismaClient) {}
+
+  async find(userId: string, vaultAddress: string): Promise<VaultBalance | null> {
+    return this.client.vaultBalance.findUnique({
+      where: { userId_vaultAddress: { userId, vaultAddress } },
+    });
+  }
+
+  async listByUser(userId: string): Promise<VaultBalance[]> {
+    return this.client.vaultBalance.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async list(): Promise<VaultBalance[]> {
+    return this.client.vaultBalance.findMany({ orderBy: { createdAt: "asc" } });
+  }
+
+  async adjust(
+    key: VaultBalanceKey,
+    delta: VaultBalanceDelta
+  ): Promise<VaultBalance> {
+    return upsertWithRetry(() =>
+      this.client.vaultBalance.upsert({
+        where: { userId_vaultAddress: { userId: key.userId, vaultAddress: key.vaultAddress } },
+        create: {
+          ...key,
+          totalDeposited: delta.deposited,
+          vaultShares: delta.shares,
+        },
+        update: {
+          totalDeposited: { increment: delta.deposited },
+          vaultShares: { increment: delta.shares },
+        },
+      })
+    );
+  }
+
+  async sync(key: VaultBalanceKey, data: VaultBalanceSync): Promise<VaultBalance> {
+    return upsertWithRetry(() =>
+      this.client.vaultBalance.upsert({
+        where: { userId_vaultAddress: { userId: key.userId, vaultAddress: key.vaultAddress } },
+        create: { ...key, ...data },
+        update: data,
+      })
+    );
+  }
+
+  async recordYield(
+    userId: string,
+    vaultAddress: string,
+    estimatedYield: bigint,
+    checkedAt: Date
+  ): Promise<boolean> {
+    const { count } = await this.client.vaultBalance.updateMany({
+      where: { userId, vaultAddress },
+      data: { estimatedYield, lastYieldCheck: checkedAt },
+    });
+    return count > 0;
+  }
+}
+
+class PrismaVaultBalanceDriftRepository implements VaultBalanceDriftRepository {
+  constructor(private client: PrismaClient) {}
+
+  async create(data: NewVaultBalanceDrift): Promise<VaultBalanceDrift> {
+    return this.client.vaultBalanceDrift.create({ data });
+  }
+
+  async findById(id: string): Promise<VaultBalanceDrift | null> {
+    return this.client.vaultBalanceDrift.findUnique({ where: { id } });
+  }
+
+  async list(filter: VaultBalanceDriftFilter = {}): Promise<VaultBalanceDrift[]> {
+    const { reviewed, ...where } = filter;
+    return this.client.vaultBalanceDrift.findMany({
+      where: {
+        ...where,
+        ...(reviewed !== undefined && {
+          reviewedAt: reviewed ? { not: null } : null,
+        }),
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  async markReviewed(
+    id: string,
+    reviewedBy: string,
+    reviewedAt: Date,
+    note?: string
+  ): Promise<VaultBalanceDrift> {
+    return translateErrors("VaultBalanceDrift", id, () =>
+      this.client.vaultBalanceDrift.update({
+        where: { id },
+        data: { reviewedBy, reviewedAt, reviewNote: note ?? null },
+      })
+    );
+  }
+}
+
+class PrismaPortfolioSnapshotRepository implements PortfolioSnapshotRepository {
+  constructor(private client: PrismaClient) {}
+
+  async upsert(data: NewPortfolioSnapshot): Promise<PortfolioSnapshot> {
+    const { userId, vaultAddress, snapshotDate, ...values } = data;
+    return upsertWithRetry(() =>
+      this.client.portfolioSnapshot.upsert({
+        where: {
+          userId_vaultAddress_snapshotDate: { userId, vaultAddress, snapshotDate },
+        },
+        create: data,
+        update: values,
+      })
+    );
+  }
+
+  async listByUser(
+    userId: string,
+    vaultAddress: string,
+    from: Date
+  ): Promise<PortfolioSnapshot[]> {
+    return this.client.portfolioSnapshot.findMany({
+      where: { userId, vaultAddress, snapshotDate: { gte: from } },
+      orderBy: { snapshotDate: "asc" },
+    });
+  }
+}
+
+class PrismaIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  constructor(private client: PrismaClient) {}
+
+  async find(scope: string, key: string): Promise<IdempotencyKey | null> {
+    return this.client.idempotencyKey.findUnique({
+      where: { scope_key: { scope, key } },
+    });
+  }
+
+  async create(data: NewIdempotencyKey): Promise<IdempotencyKey> {
+    return translateErrors("IdempotencyKey", `${data.scope}:${data.key}`, () =>
+      this.client.idempotencyKey.create({ data })
+    );
+  }
+
+  async update(
+    scope: string,
+    key: string,
+    data: IdempotencyKeyUpdate
+  ): Promise<IdempotencyKey> {
+    const { responseBody, ...rest } = data;
+    return translateErrors("IdempotencyKey", `${scope}:${key}`, () =>
+      this.client.idempotencyKey.update({
+        where: { scope_key: { scope, key } },
+        data: {
+          ...rest,
+          // Stored bodies come from response.json(), so they are valid JSON
+          ...(responseBody !== undefined && {
+            responseBody: responseBody as InputJsonValue,
+          }),
+        },
+      })
+    );
+  }
+
+  async delete(scope: string, key: string): Promise<void> {
+    await translateErrors("IdempotencyKey", `${scope}:${key}`, () =>
+      this.client.idempotencyKey.delete({
+        where: { scope_key: { scope, key } },
+      })
+    );
+  }
+}
+
+class PrismaFeeSponsorshipRepository implements FeeSponsorshipRepository {
+  constructor(private client: PrismaClient) {}
+
+  async createIfAbsent(data: NewFeeSponsorship): Promise<FeeSponsorship> {
+    return this.client.feeSponsorship.upsert({
+      where: { transactionHash: data.transactionHash },
+      create: data,
+      update: {},
+    });
+  }
+
+  async settle(
+    transactionHash: string,
+    feeCharged: bigint,
+    settledAt: Date
+  ): Promise<boolean> {
+    const { count } = await this.client.feeSponsorship.updateMany({
+      where: { transactionHash },
+      data: { feeCharged, settledAt },
+    });
+    return count > 0;
+  }
+
+  async listByUser(userId: string): Promise<FeeSponsorship[]> {
+    return this.client.feeSponsorship.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+}
+
+class PrismaSigningAuditLogRepository implements SigningAuditLogRepository {
+  constructor(private client: PrismaClient) {}
+
+  async append(data: NewSigningAuditEntry): Promise<SigningAuditEntry> {
+    return translateErrors("SigningAuditEntry", String(data.sequence), () =>
+      this.client.signingAuditEntry.create({ data })
+    );
+  }
+
+  async findLatest(): Promise<SigningAuditEntry | null> {
+    return this.client.signingAuditEntry.findFirst({ orderBy: { sequence: "desc" } });
+  }
+
+  async list(filter: SigningAuditFilter = {}): Promise<SigningAuditEntry[]> {
+    const { from, to, limit, ...where } = filter;
+    return this.client.signingAuditEntry.findMany({
+      where: {
+        ...where,
+        ...((from || to) && {
+          createdAt: {
+            ...(from && { gte: from }),
+            ...(to && { lt: to }),
+          },
+        }),
+      },
+      orderBy: { sequence: "desc" },
+      take: limit,
+    });
+  }
+
+  async listAfter(sequence: number, limit: number): Promise<SigningAuditEntry[]> {
+    return this.client.signingAuditEntry.findMany({
+      where: { sequence: { gt: sequence } },
+      orderBy: { sequence: "asc" },
+      take: limit,
+    });
+  }
+}
+
+class PrismaAccountClosureRepository implements AccountClosureRepository {
+  constructor(private client: PrismaClient) {}
+
+  async findByUserId(userId: string): Promise<AccountClosure | null> {
+    return this.client.accountClosure.findUnique({ where: { userId } });
+  }
+
+  async create(data: NewAccountClosure): Promise<AccountClosure> {
+    return translateErrors("AccountClosure", data.userId, () =>
+      this.client.accountClosure.create({ data })
+    );
+  }
+
+  async update(id: string, data: AccountClosureUpdate): Promise<AccountClosure> {
+    const { closingStatement, transferredAmounts, ...rest } = data;
+    return translateErrors("AccountClosure", id, () =>
+      this.client.accountClosure.update({
+        where: { id },
+        data: {
+          ...rest,
+          // Statements are stored as their JSON rendering
+          ...(closingStatement !== undefined && {
+            closingStatement: closingStatement as InputJsonValue,
+          }),
+          ...(transferredAmounts !== undefined && {
+            transferredAmounts: transferredAmounts as InputJsonValue,
+          }),
+        },
+      })
+    );
+  }
+}
+
+class PrismaWalletMigrationRepository implements WalletMigrationRepository {
+  constructor(private client: PrismaClient) {}
+
+  async findByUserId(userId: string): Promise<WalletMigration | null> {
+    return this.client.walletMigration.findUnique({ where: { userId } });
+  }
+
+  async create(data: NewWalletMigration): Promise<WalletMigration> {
+    return translateErrors("WalletMigration", data.userId, () =>
+      this.client.walletMigration.create({ data })
+    );
+  }
+
+  async update(id: string, data: WalletMigrationUpdate): Promise<WalletMigration> {
+    return translateErrors("WalletMigration", id, () =>
+      this.client.walletMigration.update({ where: { id }, data: toMigrationData(data) })
+    );
+  }
+
+  async updateIfStatus(
+    id: string,
+    expected: WalletMigrationStatus,
+    data: WalletMigrationUpdate
+  ): Promise<WalletMigration | null> {
+    const { count } = await translateErrors<{ count: number }>("WalletMigration", id, () =>
+      this.client.walletMigration.updateMany({
+        where: { id, status: expected },
+        data: toMigrationData(data),
+      })
+    );
+    return count > 0 ? this.client.walletMigration.findUnique({ where: { id } }) : null;
+  }
+}
+
+// ========================================
+// PRISMA DATA STORE
+// ========================================
+
+export class PrismaDataStore implements DataStore {
+  readonly kind = "prisma" as const;
+  wallets: WalletRepository;
+  crossmintWallets: CrossmintWalletRepository;
+  emailVerifications: EmailVerificationRepository;
+  deposits: DepositRepository;
+  withdrawals: WithdrawalRepository;
+  vaultBalances: VaultBalanceRepository;
+  vaultBalanceDrifts: VaultBalanceDriftRepository;
+  portfolioSnapshots: PortfolioSnapshotRepository;
+  idempotencyKeys: IdempotencyKeyRepository;
+  feeSponsorships: FeeSponsorshipRepository;
+  signingAuditLog: SigningAuditLogRepository;
+  accountClosures: AccountClosureRepository;
+  walletMigrations: WalletMigrationRepository;
+
+  constructor(client: PrismaClient) {
+    this.wallets = new PrismaWalletRepository(client);
+    this.crossmintWallets = new PrismaCrossmintWalletRepository(client);
+    this.emailVerifications = new PrismaEmailVerificationRepository(client);
+    this.deposits = new PrismaDepositRepository(client);
+    this.withdrawals = new PrismaWithdrawalRepository(client);
+    this.vaultBalances = new PrismaVaultBalanceRepository(client);
+    this.vaultBalanceDrifts = new PrismaVaultBalanceDriftRepository(client);
+    this.portfolioSnapshots = new PrismaPortfolioSnapshotRepository(client);
+    this.idempotencyKeys = new PrismaIdempotencyKeyRepository(client);
+    this.feeSponsorships = new PrismaFeeSponsorshipRepository(client);
+    this.signingAuditLog = new PrismaSigningAuditLogRepository(client);
+    this.accountClosures = new PrismaAccountClosureRepository(client);
+    this.walletMigrations = new PrismaWalletMigrationRepository(client);
+  }
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+function errorCode(error: unknown): string | undefined {
+  return (error as { code?: string } | null)?.code;
+}
+
+/**
+ * Run an upsert, retrying once if a concurrent upsert created the row
+ * first (the loser's create fails with P2002; on retry it updates)
+ */
+async function upsertWithRetry<T>(upsert: () => Promise<T>): Promise<T> {
+  try {
+    return await upsert();
+  } catch (error) {
+    if (errorCode(error) === "P2002") {
+      return upsert();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run a Prisma write, translating its known errors to data store errors
+ */
+async function translateErrors<T>(
+  model: string,
+  id: string,
+  operation: () => Promise<T>
+): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (errorCode(error) === "P2002") {
+      const target = (error as { meta?: { target?: string[] | string } }).meta?.target;
+      throw new DuplicateRecordError(
+        model,
+        Array.isArray(target) ? target : target ? [target] : []
+      );
+    }
+    if (errorCode(error) === "P2025") {
+      throw new RecordNotFoundError(model, id);
+    }
+    throw error;
+  }
+}
+
+/**
+ * A migration update with its amount maps passed as JSON
+ */
+function toMigrationData(data: WalletMigrationUpdate) {
+  const { sharesMoved, assetsMoved, ...rest } = data;
+  return {
+    ...rest,
+    ...(sharesMoved !== undefined && { sharesMoved: sharesMoved as InputJsonValue }),
+    ...(assetsMoved !== undefined && { assetsMoved: assetsMoved as InputJsonValue }),
+  };
+}
@@ -0,0 +1,496 @@
+/**
+ * Data Store Interface
+ *
+ * One repository per record type, so services never talk to Prisma or
+ * the in-memory store directly. Both implementations (PrismaDataStore
+ * and InMemoryDataStore) must behave identically, including the
+ * uniqueness rules of the Prisma schema, which surface as
+ * DuplicateRecordError.
+ */
+
+import type {
+  AccountClosure,
+  BridgeStatus,
+  CrossmintWallet,
+  Deposit,
+  EmailVerification,
+  FeeSponsorship,
+  IdempotencyKey,
+  PortfolioSnapshot,
+  SigningAuditAction,
+  SigningAuditEntry,
+  StellarWallet,
+  VaultBalance,
+  VaultBalanceDrift,
+  WalletMigration,
+  WalletMigrationStatus,
+  Withdrawal,
+  WithdrawalStatus,
+} from "@/lib/types/database.types";
+
+// ========================================
+// ERRORS
+// ========================================
+
+/**
+ * A create would violate a unique constraint
+ */
+export class DuplicateRecordError extends Error {
+  readonly model: string;
+  readonly fields: string[];
+
+  constructor(model: string, fields: string[]) {
+    super(`${model} with the same ${fields.join(", ")} already exists`);
+    this.name = "DuplicateRecordError";
+    this.model = model;
+    this.fields = fields;
+  }
+}
+
+/**
+ * An update or delete targeted a record that does not exist
+ */
+export class RecordNotFoundError extends Error {
+  constructor(model: string, id: string) {
+    super(`${model} ${id} not found`);
+    this.name = "RecordNotFoundError";
+  }
+}
+
+// ========================================
+// INPUT TYPES
+// ========================================
+
+export interface NewStellarWallet {
+  userId: string;
+  stellarPublicKey: string;
+  encryptedSecretKey: string;
+  encryptionIv: string;
+  encryptionTag: string;
+  wrappedDataKey: string;
+  encryptionKeyId: string;
+}
+
+export type EncryptedSecretUpdate = Pick<
+  StellarWallet,
+  "encryptedSecretKey" | "encryptionIv" | "encryptionTag" | "wrappedDataKey" | "encryptionKeyId"
+>;
+
+export interface EncryptionKeyPage {
+  afterId?: string; // Exclusive cursor: wallets with a greater id
+  limit: number;
+}
+
+export interface NewCrossmintWallet {
+  userId: string;
+  stellarAddress: string;
+  email: string;
+  crossmintOwnerLocator: string;
+  walletAlias: string | null;
+}
+
+export interface NewDeposit {
+  userId: string;
+  stellarWalletId: string | null; // Null for self-custody deposits
+  stellarPublicKey: string;
+  vaultAddress: string;
+  amountUsdc: bigint; // Stroops
+  slippageBps: number;
+  bridgeStatus?: BridgeStatus; // Defaults to INITIATED
+  worldchainTxHash?: string | null;
+  stellarMintTx?: string | null;
+  defindexDepositTx?: string | null;
+  vaultShares?: bigint | null;
+  initiatedAt?: Date; // Defaults to now
+}
+
+export type DepositUpdate = Partial<
+  Pick<
+    Deposit,
+    | "bridgeStatus"
+    | "worldchainTxHash"
+    | "cctpAttestation"
+    | "stellarMintTx"
+    | "defindexDepositTx"
+    | "vaultShares"
+    | "completedAt"
+  >
+>;
+
+export interface NewWithdrawal {
+  userId: string;
+  stellarWalletId: string | null; // Null for self-custody withdrawals
+  stellarPublicKey: string;
+  vaultAddress: string;
+  amountUsdc: bigint; // Stroops
+  vaultShares: bigint;
+  slippageBps: number;
+  status?: WithdrawalStatus; // Defaults to INITIATED
+  defindexWithdrawTx?: string | null;
+  initiatedAt?: Date; // Defaults to now
+}
+
+export type WithdrawalUpdate = Partial<
+  Pick<
+    Withdrawal,
+    | "amountUsdc"
+    | "vaultShares"
+    | "status"
+    | "defindexWithdrawTx"
+    | "stellarBurnTx"
+    | "worldchainMintTx"
+    | "completedAt"
+  >
+>;
+
+export interface VaultBalanceKey {
+  userId: string;
+  stellarWalletId: string;
+  vaultAddress: string;
+}
+
+/**
+ * Signed changes applied to a vault balance, in stroops
+ */
+export interface VaultBalanceDelta {
+  deposited: bigint;
+  shares: bigint;
+}
+
+/**
+ * Values read from the chain that replace the cached ones
+ */
+export type VaultBalanceSync = Pick<
+  VaultBalance,
+  "vaultShares" | "estimatedYield" | "lastYieldCheck"
+>;
+
+export type NewVaultBalanceDrift = Omit<
+  VaultBalanceDrift,
+  "id" | "reviewedAt" | "reviewedBy" | "reviewNote" | "createdAt"
+>;
+
+export interface VaultBalanceDriftFilter {
+  runId?: string;
+  userId?: string;
+  flagged?: boolean;
+  reviewed?: boolean;
+}
+
+export type NewPortfolioSnapshot = Omit<PortfolioSnapshot, "id" | "createdAt">;
+
+export type NewEmailVerification = Pick<
+  EmailVerification,
+  "userId" | "email" | "codeHash" | "expiresAt"
+>;
+
+export interface NewIdempotencyKey {
+  key: string;
+  scope: string;
+  requestHash: string;
+  expiresAt: Date;
+}
+
+export type IdempotencyKeyUpdate = Partial<
+  Pick<IdempotencyKey, "status" | "responseStatus" | "responseBody" | "completedAt">
+>;
+
+export interface NewFeeSponsorship {
+  userId: string;
+  transactionHash: string;
+  innerTransactionHash: string;
+  sponsorPublicKey: string;
+  maxFee: bigint;
+}
+
+export type NewSigningAuditEntry = Omit<SigningAuditEntry, "id">;
+
+export type NewAccountClosure = Pick<
+  AccountClosure,
+  "userId" | "stellarWalletId" | "crossmintWalletId" | "destinationAddress"
+>;
+
+export type AccountClosureUpdate = Partial<
+  Omit<AccountClosure, "id" | "userId" | "requestedAt" | "updatedAt">
+>;
+
+export type NewWalletMigration = Pick<
+  WalletMigration,
+  | "userId"
+  | "stellarWalletId"
+  | "fromAddress"
+  | "targetType"
+  | "targetAddress"
+  | "method"
+  | "challenge"
+>;
+
+export type WalletMigrationUpdate = Partial<
+  Omit<WalletMigration, "id" | "userId" | "stellarWalletId" | "fromAddress" | "requestedAt" | "updatedAt">
+>;
+
+export interface SigningAuditFilter {
+  userId?: string;
+  action?: SigningAuditAction;
+  operation?: string;
+  transactionHash?: string;
+  from?: Date; // Inclusive
+  to?: Date; // Exclusive
+  limit?: number;
+}
+
+// ========================================
+// REPOSITORIES
+// ========================================
+
+export interface WalletRepository {
+  findByUserId(userId: string): Promise<StellarWallet | null>;
+  findByPublicKey(stellarPublicKey: string): Promise<StellarWallet | null>;
+  /** @throws DuplicateRecordError if the user or public key already has a wallet */
+  create(data: NewStellarWallet): Promise<StellarWallet>;
+  markUsed(walletId: string, at: Date): Promise<void>;
+  list(): Promise<StellarWallet[]>;
+  /**
+   * Set activatedAt and activationTx, keeping the first activation if called again
+   *
+   * @throws RecordNotFoundError if the wallet does not exist
+   */
+  markActivated(
+    walletId: string,
+    at: Date,
+    activationTx: string | null
+  ): Promise<StellarWallet>;
+  /**
+   * Wallets whose data key is wrapped by another KMS key than the given
+   * one, or that have no data key yet (legacy rows), skipping wiped
+   * secrets. Ordered by id.
+   */
+  listNotOnEncryptionKey(keyId: string, page: EncryptionKeyPage): Promise<StellarWallet[]>;
+  /**
+   * Replace the encrypted secret only if it is still under the expected
+   * KMS key (null for a legacy row) and not wiped (compare-and-set)
+   *
+   * @returns Updated wallet, or null if it is missing or was changed meanwhile
+   */
+  updateSecretIfEncryptionKey(
+    walletId: string,
+    expectedKeyId: string | null,
+    data: EncryptedSecretUpdate
+  ): Promise<StellarWallet | null>;
+  /**
+   * Set archivedAt, keeping the first archival time if called again
+   *
+   * @throws RecordNotFoundError if the wallet does not exist
+   */
+  archive(walletId: string, at: Date): Promise<StellarWallet>;
+  /**
+   * Set migratedTo and archivedAt, keeping the first migration if called again
+   *
+   * @throws RecordNotFoundError if the wallet does not exist
+   */
+  markMigrated(walletId: string, migratedTo: string, at: Date): Promise<StellarWallet>;
+  /**
+   * Blank the encrypted secret key, IV, tag and wrapped data key and set secretWipedAt
+   *
+   * @throws RecordNotFoundError if the wallet does not exist
+   */
+  wipeSecret(walletId: string, at: Date): Promise<StellarWallet>;
+}
+
+export interface CrossmintWalletRepository {
+  findByUserId(userId: string): Promise<CrossmintWallet | null>;
+  findByAddress(stellarAddress: string): Promise<CrossmintWallet | null>;
+  /** Oldest wallet for the email, if several users share it */
+  findByEmail(email: string): Promise<CrossmintWallet | null>;
+  /** @throws DuplicateRecordError if the user or address already has a wallet */
+  create(data: NewCrossmintWallet): Promise<CrossmintWallet>;
+  /** @throws RecordNotFoundError if the wallet does not exist */
+  markUsed(walletId: string, at: Date): Promise<void>;
+  /**
+   * Set archivedAt, keeping the first archival time if called again
+   *
+   * @throws RecordNotFoundError if the wallet does not exist
+   */
+  archive(walletId: string, at: Date): Promise<CrossmintWallet>;
+}
+
+export interface DepositRepository {
+  /** @throws DuplicateRecordError if defindexDepositTx is already recorded */
+  create(data: NewDeposit): Promise<Deposit>;
+  findById(id: string): Promise<Deposit | null>;
+  findByTransactionHash(defindexDepositTx: string): Promise<Deposit | null>;
+  /** Newest first */
+  listByUser(userId: string): Promise<Deposit[]>;
+  /** @throws RecordNotFoundError if the deposit does not exist */
+  update(id: string, data: DepositUpdate): Promise<Deposit>;
+  /**
+   * Update only if the deposit is still in the expected status (compare-and-set)
+   *
+   * @returns Updated deposit, or null if it is missing or its status changed
+   */
+  updateIfStatus(
+    id: string,
+    expected: BridgeStatus,
+    data: DepositUpdate
+  ): Promise<Deposit | null>;
+}
+
+export interface WithdrawalRepository {
+  /** @throws DuplicateRecordError if defindexWithdrawTx is already recorded */
+  create(data: NewWithdrawal): Promise<Withdrawal>;
+  findById(id: string): Promise<Withdrawal | null>;
+  findByTransactionHash(defindexWithdrawTx: string): Promise<Withdrawal | null>;
+  /** Newest first */
+  listByUser(userId: string): Promise<Withdrawal[]>;
+  /** @throws RecordNotFoundError if the withdrawal does not exist */
+  update(id: string, data: WithdrawalUpdate): Promise<Withdrawal>;
+  /**
+   * Update only if the withdrawal is still in the expected status (compare-and-set)
+   *
+   * @returns Updated withdrawal, or null if it is missing or its status changed
+   */
+  updateIfStatus(
+    id: string,
+    expected: WithdrawalStatus,
+    data: WithdrawalUpdate
+  ): Promise<Withdrawal | null>;
+}
+
+/**
+ * One balance per user and vault
+ */
+export interface VaultBalanceRepository {
+  find(userId: string, vaultAddress: string): Promise<VaultBalance | null>;
+  /** Every vault the user has a balance in, oldest first */
+  listByUser(userId: string): Promise<VaultBalance[]>;
+  list(): Promise<VaultBalance[]>;
+  /**
+   * Add a delta to the user's balance in the key's vault, creating it at
+   * zero first if needed. The change is applied atomically, so concurrent
+   * adjustments never lose updates.
+   */
+  adjust(key: VaultBalanceKey, delta: VaultBalanceDelta): Promise<VaultBalance>;
+  /** Overwrite the chain-derived fields, creating the balance first if needed */
+  sync(key: VaultBalanceKey, data: VaultBalanceSync): Promise<VaultBalance>;
+  /** @returns false if the user has no balance in the vault */
+  recordYield(
+    userId: string,
+    vaultAddress: string,
+    estimatedYield: bigint,
+    checkedAt: Date
+  ): Promise<boolean>;
+}
+
+export interface VaultBalanceDriftRepository {
+  create(data: NewVaultBalanceDrift): Promise<VaultBalanceDrift>;
+  findById(id: string): Promise<VaultBalanceDrift | null>;
+  /** Newest first */
+  list(filter?: VaultBalanceDriftFilter): Promise<VaultBalanceDrift[]>;
+  /** @throws RecordNotFoundError if the drift does not exist */
+  markReviewed(
+    id: string,
+    reviewedBy: string,
+    reviewedAt: Date,
+    note?: string
+  ): Promise<VaultBalanceDrift>;
+}
+
+export interface PortfolioSnapshotRepository {
+  /** Replaces the user's snapshot for the same vault and day, if any */
+  upsert(data: NewPortfolioSnapshot): Promise<PortfolioSnapshot>;
+  /** Oldest first, from the given day onwards */
+  listByUser(userId: string, vaultAddress: string, from: Date): Promise<PortfolioSnapshot[]>;
+}
+
+export interface EmailVerificationRepository {
+  findByUserId(userId: string): Promise<EmailVerification | null>;
+  /** Replaces the user's earlier verification, if any, with attempts back at 0 */
+  replace(data: NewEmailVerification): Promise<EmailVerification>;
+  /**
+   * Count one attempt at the code, unless maxAttempts were already made (compare-and-set)
+   *
+   * @returns Updated verification, or null if it is missing or out of attempts
+   */
+  recordAttempt(userId: string, maxAttempts: number): Promise<EmailVerification | null>;
+}
+
+export interface IdempotencyKeyRepository {
+  find(scope: string, key: string): Promise<IdempotencyKey | null>;
+  /** @throws DuplicateRecordError if (scope, key) already exists */
+  create(data: NewIdempotencyKey): Promise<IdempotencyKey>;
+  /** @throws RecordNotFoundError if (scope, key) does not exist */
+  update(scope: string, key: string, data: IdempotencyKeyUpdate): Promise<IdempotencyKey>;
+  /** @throws RecordNotFoundError if (scope, key) does not exist */
+  delete(scope: string, key: string): Promise<void>;
+}
+
+export interface FeeSponsorshipRepository {
+  /** Returns the existing record if the transaction was already sponsored */
+  createIfAbsent(data: NewFeeSponsorship): Promise<FeeSponsorship>;
+  /** @returns false if no sponsorship matches the hash */
+  settle(transactionHash: string, feeCharged: bigint, settledAt: Date): Promise<boolean>;
+  listByUser(userId: string): Promise<FeeSponsorship[]>;
+}
+
+/**
+ * Append-only: there is deliberately no update or delete
+ */
+export interface SigningAuditLogRepository {
+  /** @throws DuplicateRecordError if another entry already took the sequence */
+  append(data: NewSigningAuditEntry): Promise<SigningAuditEntry>;
+  /** Entry with the highest sequence */
+  findLatest(): Promise<SigningAuditEntry | null>;
+  /** Newest first */
+  list(filter?: SigningAuditFilter): Promise<SigningAuditEntry[]>;
+  /** Oldest first, starting after the given sequence */
+  listAfter(sequence: number, limit: number): Promise<SigningAuditEntry[]>;
+}
+
+export interface AccountClosureRepository {
+  findByUserId(userId: string): Promise<AccountClosure | null>;
+  /** @throws DuplicateRecordError if the user already has a closure */
+  create(data: NewAccountClosure): Promise<AccountClosure>;
+  /** @throws RecordNotFoundError if the closure does not exist */
+  update(id: string, data: AccountClosureUpdate): Promise<AccountClosure>;
+}
+
+export interface WalletMigrationRepository {
+  findByUserId(userId: string): Promise<WalletMigration | null>;
+  /** @throws DuplicateRecordError if the user already has a migration */
+  create(data: NewWalletMigration): Promise<WalletMigration>;
+  /** @throws RecordNotFoundError if the migration does not exist */
+  update(id: string, data: WalletMigrationUpdate): Promise<WalletMigration>;
+  /**
+   * Update only if the migration is still in the expected status (compare-and-set)
+   *
+   * @returns Updated migration, or null if it is missing or its status changed
+   */
+  updateIfStatus(
+    id: string,
+    expected: WalletMigrationStatus,
+    data: WalletMigrationUpdate
+  ): Promise<WalletMigration | null>;
+}
+
+// ========================================
+// DATA STORE
+// ========================================
+
+export type DataStoreKind = "prisma" | "memory";
+
+export interface DataStore {
+  readonly kind: DataStoreKind;
+  wallets: WalletRepository;
+  crossmintWallets: CrossmintWalletRepository;
+  emailVerifications: EmailVerificationRepository;
+  deposits: DepositRepository;
+  withdrawals: WithdrawalRepository;
+  vaultBalances: VaultBalanceRepository;
+  vaultBalanceDrifts: VaultBalanceDriftRepository;
+  portfolioSnapshots: PortfolioSnapshotRepository;
+  idempotencyKeys: IdempotencyKeyRepository;
+  feeSponsorships: FeeSponsorshipRepository;
+  signingAuditLog: SigningAuditLogRepository;
+  accountClosures: AccountClosureRepository;
+  walletMigrations: WalletMigrationRepository;
+}
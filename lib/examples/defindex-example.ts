@@ -13,6 +13,7 @@ import {
   DefindexService,
   DefindexConfig,
 } from "../services/defindex.service";
+import { Money } from "../money";
 import { SupportedNetworks } from "@defindex/sdk";
 
 // ========================================
@@ -22,12 +23,22 @@ import { SupportedNetworks } from "@defindex/sdk";
 function exampleInitialize() {
   const config: DefindexConfig = {
     apiKey: process.env.DEFINDEX_API_KEY,
-    vaultAddress:
-      process.env.DEFINDEX_VAULT_ADDRESS ||
-      "CDVPCLH7ISXWEAH4CQA7WWDZ3YKROPRGQGQXD4SINZT55L5LH2YMADVK",
+    vaults: [
+      {
+        id: "usdc-conservative",
+        address:
+          process.env.DEFINDEX_VAULT_ADDRESS ||
+          "CDVPCLH7ISXWEAH4CQA7WWDZ3YKROPRGQGQXD4SINZT55L5LH2YMADVK",
+        displayName: "Conservative USDC",
+        riskLabel: "low",
+        assetSymbol: "USDC",
+        assetAddress: process.env.USDC_STELLAR_ADDRESS || "",
+        decimals: 7,
+        defaultSlippageBps: 500, // 5%
+        autoInvest: false,
+      },
+    ],
     network: SupportedNetworks.TESTNET,
-    defaultSlippageBps: 500, // 5%
-    autoInvest: false,
   };
 
   const defindexService = new DefindexService(config);
@@ -48,15 +59,15 @@ async function exampleBuildDeposit() {
 
   // Amount in stroops (7 decimals)
   // 100 USDC = 1000000000 stroops
-  const amount = DefindexService.amountToStroops(100);
+  const amount = Money.parse("100", 7);
 
   console.log("\nBuilding deposit transaction:");
   console.log("  User:", userPublicKey);
-  console.log("  Amount:", DefindexService.stroopsToAmount(amount), "USDC");
+  console.log("  Amount:", amount.toString(), "USDC");
 
   const depositResponse = await service.buildDepositTransaction({
     userPublicKey,
-    amount,
+    amount: amount.units,
     slippageBps: 500, // 5% slippage
     invest: false, // Keep as idle
   });
@@ -88,7 +99,7 @@ async function exampleSignAndSubmit() {
   // Build deposit transaction
   const depositResponse = await service.buildDepositTransaction({
     userPublicKey: userKeypair.publicKey(),
-    amount: DefindexService.amountToStroops(10), // 10 USDC
+    amount: Money.parse("10", 7).units, // 10 USDC
   });
 
   console.log("\nTransaction built, now signing...");
@@ -105,11 +116,19 @@ async function exampleSignAndSubmit() {
 
   // Submit to Stellar network
   console.log("\nSubmitting to Stellar...");
-  const submitResponse = await service.submitTransaction({ signedXdr });
+  const pending = await service.submitTransaction({ signedXdr });
+
+  // Submission returns a pending handle; wait for the ledger outcome
+  const submitResponse = pending.success
+    ? await service.waitForTransaction(pending.transactionHash)
+    : pending;
 
   console.log("\nSubmit Result:");
   console.log("  Success:", submitResponse.success);
+  console.log("  Status:", submitResponse.status);
   console.log("  Transaction Hash:", submitResponse.transactionHash);
+  console.log("  Ledger:", submitResponse.ledger);
+  console.log("  Fee Charged:", submitResponse.feeCharged);
   console.log("  Return Value:", submitResponse.returnValue);
 
   return submitResponse;
@@ -133,16 +152,12 @@ async function exampleQueryBalance() {
   console.log("  Vault:", balanceResponse.vaultAddress);
   console.log(
     "  Balance:",
-    balanceResponse.balance
-      ? DefindexService.stroopsToAmount(balanceResponse.balance)
-      : 0,
+    Money.fromUnits(balanceResponse.balance ?? "0", 7).toString(),
     "USDC"
   );
   console.log(
     "  Shares:",
-    balanceResponse.vaultShares
-      ? DefindexService.stroopsToAmount(balanceResponse.vaultShares)
-      : 0
+    Money.fromUnits(balanceResponse.vaultShares ?? "0", 7).toString()
   );
 
   return balanceResponse;
@@ -160,14 +175,14 @@ async function exampleFullFlow() {
   // Step 1: User initiates deposit (frontend)
   console.log("\n[STEP 1] User initiates deposit from frontend");
   const userPublicKey = "GCAXSAYRQTFEYXXWYY5QV7TBZSZSSWLX2VGGIEAMU6UGNZNIW6NQXS37";
-  const depositAmount = 100; // 100 USDC
+  const depositAmount = Money.parse("100", 7); // 100 USDC
 
   // Step 2: Frontend calls /api/defindex/deposit
   console.log("\n[STEP 2] Frontend calls POST /api/defindex/deposit");
   const service = exampleInitialize();
   const depositTx = await service.buildDepositTransaction({
     userPublicKey,
-    amount: DefindexService.amountToStroops(depositAmount),
+    amount: depositAmount.units,
     slippageBps: 500,
   });
 
@@ -187,7 +202,7 @@ async function exampleFullFlow() {
   // Step 5: Transaction confirmed
   console.log("\n[STEP 5] Transaction confirmed!");
   console.log("  ✅ Deposit successful");
-  console.log("  💰 Amount:", depositAmount, "USDC");
+  console.log("  💰 Amount:", depositAmount.toString(), "USDC");
   console.log("  🏦 Vault shares received");
   console.log("  📝 Transaction recorded in database");
 
@@ -212,15 +227,19 @@ function exampleAmountConversion() {
 
   // Convert to stroops
   console.log("\nHuman-readable → Stroops:");
-  console.log("  1 USDC =", DefindexService.amountToStroops(1), "stroops");
-  console.log("  10.5 USDC =", DefindexService.amountToStroops(10.5), "stroops");
-  console.log("  100 USDC =", DefindexService.amountToStroops(100), "stroops");
+  console.log("  1 USDC =", Money.parse("1", 7).toUnitsString(), "stroops");
+  console.log("  10.5 USDC =", Money.parse("10.5", 7).toUnitsString(), "stroops");
+  console.log("  100 USDC =", Money.parse("100", 7).toUnitsString(), "stroops");
 
   // Convert from stroops
   console.log("\nStroops → Human-readable:");
-  console.log("  10000000 stroops =", DefindexService.stroopsToAmount(10000000), "USDC");
-  console.log("  105000000 stroops =", DefindexService.stroopsToAmount(105000000), "USDC");
-  console.log("  1000000000 stroops =", DefindexService.stroopsToAmount(1000000000), "USDC");
+  console.log("  10000000 stroops =", Money.fromUnits("10000000", 7).toString(), "USDC");
+  console.log("  105000000 stroops =", Money.fromUnits("105000000", 7).toString(), "USDC");
+  console.log("  1000000000 stroops =", Money.fromUnits("1000000000", 7).toString(), "USDC");
+
+  // Exact arithmetic: no floating point drift
+  console.log("\nExact arithmetic:");
+  console.log("  0.1 + 0.2 =", Money.parse("0.1", 7).plus(Money.parse("0.2", 7)).toString(), "USDC");
 }
 
 // ========================================
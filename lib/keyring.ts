@@ -0,0 +1,130 @@
+/**
+ * Legacy Keyring
+ *
+ * The master keys that encrypted custodial Stellar secrets directly,
+ * before envelope encryption (see lib/kms). Rows encrypted that way
+ * have no wrapped data key, only the master key version they used.
+ *
+ * The app no longer reads these keys. Only scripts/rotate-master-key.ts
+ * does, to move legacy rows to envelope encryption; once it reports no
+ * legacy rows left, remove the keys from every environment.
+ *
+ * Environment (for that script run only):
+ * - ENCRYPTION_MASTER_KEY: a master key, 32 bytes as 64 hex characters
+ * - ENCRYPTION_MASTER_KEY_VERSION: its version number (default 1)
+ * - ENCRYPTION_RETIRED_KEYS: older master keys as "version:hex" pairs,
+ *   comma-separated, e.g. "1:ab12...,2:cd34..."
+ *
+ * Server-only.
+ */
+
+import { decryptAesGcm } from "@/lib/kms/aes-gcm";
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface VersionedEncryptedKeyData {
+  encrypted: string; // Hex
+  iv: string; // Hex
+  tag: string; // Hex
+  keyVersion: number;
+}
+
+/**
+ * A secret was encrypted with a key version the keyring does not hold
+ */
+export class UnknownKeyVersionError extends Error {
+  constructor(version: number) {
+    super(
+      `No legacy master key with version ${version}; add it to ENCRYPTION_RETIRED_KEYS to decrypt its secrets`
+    );
+    this.name = "UnknownKeyVersionError";
+  }
+}
+
+const KEY_HEX_PATTERN = /^[0-9a-fA-F]{64}$/;
+const DEFAULT_KEY_VERSION = 1;
+
+// ========================================
+// LEGACY KEYRING
+// ========================================
+
+export class LegacyKeyring {
+  private keys: Map<number, Buffer> = new Map();
+
+  /**
+   * @param keys - Master keys (64 hex characters) by version
+   * @throws Error if a key is not 32 bytes of hex or a version is not a positive integer
+   */
+  constructor(keys: Record<number, string>) {
+    for (const [version, keyHex] of Object.entries(keys)) {
+      const parsed = parseVersion(version);
+      if (!KEY_HEX_PATTERN.test(keyHex)) {
+        throw new Error(`Legacy master key ${parsed} must be 32 bytes (64 hex characters)`);
+      }
+      this.keys.set(parsed, Buffer.from(keyHex, "hex"));
+    }
+  }
+
+  /**
+   * Build the keyring from the environment
+   *
+   * @returns Keyring, or null if no legacy key is configured
+   * @throws Error if a key or version is malformed, or a version is configured twice
+   */
+  static fromEnv(): LegacyKeyring | null {
+    const keys: Record<number, string> = {};
+
+    if (process.env.ENCRYPTION_MASTER_KEY) {
+      const version = process.env.ENCRYPTION_MASTER_KEY_VERSION
+        ? parseVersion(process.env.ENCRYPTION_MASTER_KEY_VERSION)
+        : DEFAULT_KEY_VERSION;
+      keys[version] = process.env.ENCRYPTION_MASTER_KEY;
+    }
+
+    for (const entry of (process.env.ENCRYPTION_RETIRED_KEYS || "").split(",")) {
+      if (!entry.trim()) continue;
+      const [version, keyHex] = entry.trim().split(":");
+      if (!keyHex) {
+        throw new Error(`ENCRYPTION_RETIRED_KEYS entry must be version:hex, got "${entry.trim()}"`);
+      }
+      const parsed = parseVersion(version);
+      if (keys[parsed]) {
+        throw new Error(`Legacy master key version ${parsed} is configured twice`);
+      }
+      keys[parsed] = keyHex;
+    }
+
+    return Object.keys(keys).length > 0 ? new LegacyKeyring(keys) : null;
+  }
+
+  /**
+   * Decrypt a secret with the master key version it was encrypted under
+   *
+   * @param data - Ciphertext, IV, auth tag and key version
+   * @returns Decrypted secret
+   * @throws UnknownKeyVersionError if the keyring does not hold that version
+   * @throws Error if the auth tag does not match (wrong key or tampered data)
+   */
+  decrypt(data: VersionedEncryptedKeyData): string {
+    const key = this.keys.get(data.keyVersion);
+    if (!key) {
+      throw new UnknownKeyVersionError(data.keyVersion);
+    }
+
+    return decryptAesGcm(key, {
+      ciphertext: Buffer.from(data.encrypted, "hex"),
+      iv: Buffer.from(data.iv, "hex"),
+      tag: Buffer.from(data.tag, "hex"),
+    }).toString("utf8");
+  }
+}
+
+function parseVersion(value: string): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Master key version must be a positive integer, got "${value}"`);
+  }
+  return version;
+}
@@ -0,0 +1,66 @@
+/**
+ * AES-256-GCM
+ *
+ * The one cipher used for custodial key material: secrets under their
+ * data key, data keys under the local provider's key, and legacy
+ * secrets under a master key. The auth tag makes tampering, or using
+ * the wrong key, fail rather than return garbage.
+ */
+
+import crypto from "crypto";
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface AesGcmCiphertext {
+  ciphertext: Buffer;
+  iv: Buffer;
+  tag: Buffer;
+}
+
+export const AES_KEY_BYTES = 32;
+const IV_BYTES = 12; // Recommended IV length for GCM
+
+// ========================================
+// CIPHER
+// ========================================
+
+/**
+ * Encrypt with a fresh random IV
+ *
+ * @param key - 32-byte key
+ * @param plaintext - Data to encrypt
+ * @param aad - Optional additional data the tag also covers
+ * @returns Ciphertext, IV and auth tag
+ */
+export function encryptAesGcm(key: Buffer, plaintext: Buffer, aad?: Buffer): AesGcmCiphertext {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  if (aad) {
+    cipher.setAAD(aad);
+  }
+
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return { ciphertext, iv, tag: cipher.getAuthTag() };
+}
+
+/**
+ * Decrypt and authenticate
+ *
+ * @param key - 32-byte key
+ * @param data - Ciphertext, IV and auth tag
+ * @param aad - Additional data given when encrypting, if any
+ * @returns Plaintext
+ * @throws Error if the tag does not match (wrong key, AAD or tampered data)
+ */
+export function decryptAesGcm(key: Buffer, data: AesGcmCiphertext, aad?: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, data.iv);
+  decipher.setAuthTag(data.tag);
+  if (aad) {
+    decipher.setAAD(aad);
+  }
+
+  return Buffer.concat([decipher.update(data.ciphertext), decipher.final()]);
+}
@@ -0,0 +1,113 @@
+/**
+ * Envelope Encryption
+ *
+ * Seals a secret under a fresh random data key, and the data key under
+ * the KeyManagementProvider's active key. Plaintext data keys only live
+ * for the duration of one call and are zeroed afterwards.
+ */
+
+import crypto from "crypto";
+import { AES_KEY_BYTES, decryptAesGcm, encryptAesGcm } from "./aes-gcm";
+import type { KeyManagementProvider } from "./types";
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface SealedSecret {
+  encrypted: string; // Secret under the data key (hex)
+  iv: string; // Hex
+  tag: string; // Hex
+  wrappedDataKey: string;
+  keyId: string; // Provider key that wrapped the data key
+}
+
+// ========================================
+// ENVELOPE
+// ========================================
+
+/**
+ * Encrypt a secret under a new data key wrapped by the provider
+ *
+ * @param provider - Wraps the data key
+ * @param plaintext - Secret to encrypt
+ * @returns Ciphertext with its wrapped data key
+ */
+export async function sealSecret(
+  provider: KeyManagementProvider,
+  plaintext: string
+): Promise<SealedSecret> {
+  const dataKey = crypto.randomBytes(AES_KEY_BYTES);
+
+  try {
+    const { ciphertext, iv, tag } = encryptAesGcm(dataKey, Buffer.from(plaintext, "utf8"));
+    const wrapped = await provider.wrapKey(dataKey);
+
+    return {
+      encrypted: ciphertext.toString("hex"),
+      iv: iv.toString("hex"),
+      tag: tag.toString("hex"),
+      wrappedDataKey: wrapped.wrappedKey,
+      keyId: wrapped.keyId,
+    };
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Decrypt a sealed secret
+ *
+ * @param provider - Unwraps the data key
+ * @param sealed - Ciphertext with its wrapped data key
+ * @returns Plaintext secret
+ * @throws KeyUnavailableError if the provider cannot unwrap the data key
+ * @throws Error if the ciphertext does not authenticate under the data key
+ */
+export async function openSecret(
+  provider: KeyManagementProvider,
+  sealed: SealedSecret
+): Promise<string> {
+  const dataKey = await provider.unwrapKey({
+    wrappedKey: sealed.wrappedDataKey,
+    keyId: sealed.keyId,
+  });
+
+  try {
+    return decryptAesGcm(dataKey, {
+      ciphertext: Buffer.from(sealed.encrypted, "hex"),
+      iv: Buffer.from(sealed.iv, "hex"),
+      tag: Buffer.from(sealed.tag, "hex"),
+    }).toString("utf8");
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Re-wrap a sealed secret's data key under the provider's active key
+ *
+ * The secret's ciphertext is unchanged; only the wrapped data key and
+ * its key id are replaced.
+ *
+ * @param provider - Unwraps the old data key and wraps it again
+ * @param sealed - Ciphertext with its wrapped data key
+ * @returns The same secret with its data key wrapped by the active key
+ * @throws KeyUnavailableError if the provider cannot unwrap the data key
+ */
+export async function rewrapSecret(
+  provider: KeyManagementProvider,
+  sealed: SealedSecret
+): Promise<SealedSecret> {
+  const dataKey = await provider.unwrapKey({
+    wrappedKey: sealed.wrappedDataKey,
+    keyId: sealed.keyId,
+  });
+
+  try {
+    const wrapped = await provider.wrapKey(dataKey);
+    return { ...sealed, wrappedDataKey: wrapped.wrappedKey, keyId: wrapped.keyId };
+  } finally {
+    dataKey.fill(0);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Key Management
+ *
+ * Entry point for envelope encryption of custodial secrets. KMS_PROVIDER
+ * selects the KeyManagementProvider:
+ * - "local" (default): LocalFileKeyProvider, keys in KMS_LOCAL_KEY_FILE
+ *   (default .keys/local-kms.json). Outside production the file is
+ *   created on first use.
+ *
+ * Cloud KMS adapters implement KeyManagementProvider (see ./types) and
+ * are added here as new kinds.
+ *
+ * Server-only.
+ */
+
+import path from "path";
+import { LocalFileKeyProvider } from "./local-file-provider";
+import type { KeyManagementProvider, KeyManagementProviderKind } from "./types";
+
+export * from "./types";
+export * from "./envelope";
+export { LocalFileKeyProvider, type LocalKeyFile } from "./local-file-provider";
+
+const DEFAULT_LOCAL_KEY_FILE = ".keys/local-kms.json";
+
+let keyManagementProvider: KeyManagementProvider | null = null;
+
+/**
+ * Read the configured provider kind
+ *
+ * @returns Provider kind
+ * @throws Error if KMS_PROVIDER has an unsupported value
+ */
+export function getKeyManagementProviderKind(): KeyManagementProviderKind {
+  const kind = process.env.KMS_PROVIDER || "local";
+
+  if (kind !== "local") {
+    throw new Error(`KMS_PROVIDER must be "local", got "${kind}"`);
+  }
+
+  return kind;
+}
+
+/**
+ * Path of the local provider's key file
+ */
+export function getLocalKeyFilePath(): string {
+  return path.resolve(process.env.KMS_LOCAL_KEY_FILE || DEFAULT_LOCAL_KEY_FILE);
+}
+
+/**
+ * Get the singleton provider selected by KMS_PROVIDER
+ *
+ * @returns KeyManagementProvider instance
+ * @throws Error if the provider cannot be set up (e.g. missing key file in production)
+ */
+export function getKeyManagementProvider(): KeyManagementProvider {
+  if (!keyManagementProvider) {
+    let provider: KeyManagementProvider;
+    switch (getKeyManagementProviderKind()) {
+      case "local":
+        provider = LocalFileKeyProvider.load(getLocalKeyFilePath(), {
+          createIfMissing: process.env.NODE_ENV !== "production",
+        });
+        break;
+    }
+    console.log(`🔐 Using ${provider.name} key management (active key ${provider.getActiveKeyId()})`);
+    keyManagementProvider = provider;
+  }
+  return keyManagementProvider;
+}
+
+/**
+ * Replace the singleton provider, e.g. in tests or with a cloud adapter
+ *
+ * @param provider - Provider to use from now on
+ */
+export function setKeyManagementProvider(provider: KeyManagementProvider): void {
+  keyManagementProvider = provider;
+}
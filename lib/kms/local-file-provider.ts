@@ -0,0 +1,173 @@
+/**
+ * Local File Key Provider
+ *
+ * KeyManagementProvider for development and tests: the wrapping keys
+ * live in a JSON file outside the environment (KMS_LOCAL_KEY_FILE,
+ * default .keys/local-kms.json, git-ignored):
+ *
+ *   { "activeKeyId": "local-2", "keys": { "local-1": "<64 hex>", "local-2": "<64 hex>" } }
+ *
+ * Older keys stay in the file so data keys wrapped with them can still
+ * be unwrapped until scripts/rotate-master-key.ts re-wraps them.
+ *
+ * The file is as sensitive as the secrets it protects; production
+ * should use a cloud KMS adapter instead.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { AES_KEY_BYTES, decryptAesGcm, encryptAesGcm } from "./aes-gcm";
+import {
+  KeyUnavailableError,
+  type KeyManagementProvider,
+  type WrappedDataKey,
+} from "./types";
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface LocalKeyFile {
+  activeKeyId: string;
+  keys: Record<string, string>; // Key id to 32-byte key as hex
+}
+
+const KEY_HEX_PATTERN = /^[0-9a-fA-F]{64}$/;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// ========================================
+// LOCAL FILE KEY PROVIDER
+// ========================================
+
+export class LocalFileKeyProvider implements KeyManagementProvider {
+  readonly name = "local";
+  private activeKeyId: string;
+  private keys: Map<string, Buffer>;
+
+  /**
+   * @param keyFile - Parsed key file contents
+   * @throws Error if a key is malformed or the active key is missing
+   */
+  constructor(keyFile: LocalKeyFile) {
+    this.keys = new Map();
+    for (const [keyId, keyHex] of Object.entries(keyFile.keys ?? {})) {
+      if (!KEY_HEX_PATTERN.test(keyHex)) {
+        throw new Error(`Local KMS key ${keyId} must be 32 bytes (64 hex characters)`);
+      }
+      this.keys.set(keyId, Buffer.from(keyHex, "hex"));
+    }
+
+    if (!this.keys.has(keyFile.activeKeyId)) {
+      throw new Error(`Local KMS active key ${keyFile.activeKeyId} is not in the key file`);
+    }
+    this.activeKeyId = keyFile.activeKeyId;
+  }
+
+  /**
+   * Read a key file
+   *
+   * @param filePath - Path to the JSON key file
+   * @param options - createIfMissing: write a file with one new key if there is none
+   * @returns Provider using the file's keys
+   * @throws Error if the file is missing (and not created) or malformed
+   */
+  static load(
+    filePath: string,
+    options: { createIfMissing?: boolean } = {}
+  ): LocalFileKeyProvider {
+    if (!fs.existsSync(filePath)) {
+      if (!options.createIfMissing) {
+        throw new Error(
+          `Local KMS key file ${filePath} not found. Create it with: npx tsx scripts/add-local-kms-key.ts`
+        );
+      }
+      LocalFileKeyProvider.addKey(filePath);
+      console.log(`🔐 Created local KMS key file ${filePath}`);
+    }
+
+    return new LocalFileKeyProvider(readKeyFile(filePath));
+  }
+
+  /**
+   * Add a new random key to a key file and make it the active key,
+   * creating the file if needed
+   *
+   * @param filePath - Path to the JSON key file
+   * @returns Id of the new key
+   */
+  static addKey(filePath: string): string {
+    const keyFile: LocalKeyFile = fs.existsSync(filePath)
+      ? readKeyFile(filePath)
+      : { activeKeyId: "", keys: {} };
+
+    let next = Object.keys(keyFile.keys).length + 1;
+    while (keyFile.keys[`local-${next}`]) next++;
+    const keyId = `local-${next}`;
+
+    keyFile.keys[keyId] = crypto.randomBytes(AES_KEY_BYTES).toString("hex");
+    keyFile.activeKeyId = keyId;
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(keyFile, null, 2) + "\n", { mode: 0o600 });
+
+    return keyId;
+  }
+
+  getActiveKeyId(): string {
+    return this.activeKeyId;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedDataKey> {
+    const keyId = this.activeKeyId;
+    // The key id is authenticated too, so a wrapped key cannot be relabelled
+    const { ciphertext, iv, tag } = encryptAesGcm(
+      this.getKey(keyId),
+      dataKey,
+      Buffer.from(keyId, "utf8")
+    );
+
+    return {
+      wrappedKey: Buffer.concat([iv, tag, ciphertext]).toString("base64"),
+      keyId,
+    };
+  }
+
+  async unwrapKey(wrapped: WrappedDataKey): Promise<Buffer> {
+    const bytes = Buffer.from(wrapped.wrappedKey, "base64");
+
+    try {
+      return decryptAesGcm(
+        this.getKey(wrapped.keyId),
+        {
+          iv: bytes.subarray(0, IV_BYTES),
+          tag: bytes.subarray(IV_BYTES, IV_BYTES + TAG_BYTES),
+          ciphertext: bytes.subarray(IV_BYTES + TAG_BYTES),
+        },
+        Buffer.from(wrapped.keyId, "utf8")
+      );
+    } catch (error) {
+      if (error instanceof KeyUnavailableError) {
+        throw error;
+      }
+      throw new KeyUnavailableError(wrapped.keyId, "the wrapped key does not authenticate");
+    }
+  }
+
+  private getKey(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new KeyUnavailableError(keyId, "not in the local key file");
+    }
+    return key;
+  }
+}
+
+function readKeyFile(filePath: string): LocalKeyFile {
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (typeof parsed?.activeKeyId !== "string" || typeof parsed?.keys !== "object") {
+    throw new Error(`Local KMS key file ${filePath} must have activeKeyId and keys`);
+  }
+  return parsed;
+}
@@ -0,0 +1,68 @@
+/**
+ * Key Management Interface
+ *
+ * Custodial secrets use envelope encryption: each wallet's secret is
+ * encrypted with its own random data key, and only the data key is
+ * sent to a KeyManagementProvider to be wrapped (encrypted) under a key
+ * the provider keeps. The app stores the wrapped data key next to the
+ * ciphertext and never holds the provider's keys itself.
+ *
+ * A cloud KMS adapter (AWS KMS, Google Cloud KMS, Azure Key Vault, ...)
+ * implements this interface with its encrypt/decrypt calls:
+ * - wrapKey: encrypt the data key under the active key
+ * - unwrapKey: decrypt a data key under the key that wrapped it, which
+ *   must keep working for keys that are no longer active
+ */
+
+// ========================================
+// ERRORS
+// ========================================
+
+/**
+ * The provider does not hold (or cannot use) the key a data key was wrapped with
+ */
+export class KeyUnavailableError extends Error {
+  readonly keyId: string;
+
+  constructor(keyId: string, reason?: string) {
+    super(`Key ${keyId} is not available${reason ? `: ${reason}` : ""}`);
+    this.name = "KeyUnavailableError";
+    this.keyId = keyId;
+  }
+}
+
+// ========================================
+// TYPES
+// ========================================
+
+export type KeyManagementProviderKind = "local";
+
+export interface WrappedDataKey {
+  wrappedKey: string; // Provider-specific encoding, stored as is
+  keyId: string; // Key that wrapped it
+}
+
+export interface KeyManagementProvider {
+  /** Short name for logs, e.g. "local" */
+  readonly name: string;
+
+  /** Key new data keys are wrapped with */
+  getActiveKeyId(): string;
+
+  /**
+   * Wrap a data key under the active key
+   *
+   * @param dataKey - Plaintext data key
+   * @returns Wrapped key and the id of the key that wrapped it
+   */
+  wrapKey(dataKey: Buffer): Promise<WrappedDataKey>;
+
+  /**
+   * Unwrap a data key
+   *
+   * @param wrapped - Wrapped key and the id of the key that wrapped it
+   * @returns Plaintext data key; callers should zero it once done
+   * @throws KeyUnavailableError if the key is unknown or the wrapped key does not authenticate
+   */
+  unwrapKey(wrapped: WrappedDataKey): Promise<Buffer>;
+}
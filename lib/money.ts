@@ -0,0 +1,259 @@
+/**
+ * Money
+ *
+ * Exact fixed-point amounts for Stellar assets. An amount is an integer
+ * count of the asset's smallest unit (stroops for 7-decimal assets)
+ * held as a bigint, together with the asset's decimals, so arithmetic
+ * never goes through floating point: 0.1 + 0.2 is exactly 0.3.
+ *
+ * Conventions used across the app:
+ * - Services work with bigint units (or Money)
+ * - API requests and responses carry units as decimal-integer strings,
+ *   e.g. "1000000000", and human amounts as decimal strings, e.g. "100.5"
+ * - Numbers are only produced for display (toNumber) or at the
+ *   Defindex SDK boundary (toSafeNumber)
+ *
+ * Safe to import from both server and client code.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * A value that could not be read as an amount of the given asset
+ */
+export class MoneyParseError extends Error {
+  constructor(value: unknown, reason: string) {
+    const shown = typeof value === "bigint" ? value.toString() : JSON.stringify(value);
+    super(`Invalid amount ${shown}: ${reason}`);
+    this.name = "MoneyParseError";
+  }
+}
+
+export interface FormatOptions {
+  /** Pad the fraction with zeros to at least this many digits */
+  minFractionDigits?: number;
+  /** Truncate (round toward zero) the fraction to at most this many digits */
+  maxFractionDigits?: number;
+}
+
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+const INTEGER_PATTERN = /^-?\d+$/;
+
+// ========================================
+// MONEY
+// ========================================
+
+export class Money {
+  /** Amount in the asset's smallest unit (stroops for 7 decimals) */
+  readonly units: bigint;
+  readonly decimals: number;
+
+  private constructor(units: bigint, decimals: number) {
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 38) {
+      throw new Error(`Invalid asset decimals: ${decimals}`);
+    }
+    this.units = units;
+    this.decimals = decimals;
+  }
+
+  /**
+   * Create an amount from smallest units
+   *
+   * @param units - Units as bigint, integer string or safe integer number
+   * @param decimals - Asset decimals
+   * @throws MoneyParseError if units is not an exact integer
+   */
+  static fromUnits(units: bigint | string | number, decimals: number): Money {
+    if (typeof units === "bigint") {
+      return new Money(units, decimals);
+    }
+    if (typeof units === "number") {
+      if (!Number.isSafeInteger(units)) {
+        throw new MoneyParseError(units, "units must be a safe integer");
+      }
+      return new Money(BigInt(units), decimals);
+    }
+    if (typeof units === "string" && INTEGER_PATTERN.test(units.trim())) {
+      return new Money(BigInt(units.trim()), decimals);
+    }
+    throw new MoneyParseError(units, "units must be an integer");
+  }
+
+  /**
+   * Parse a human-readable decimal amount, e.g. "100.5"
+   *
+   * Numbers are accepted for convenience but read through their
+   * shortest decimal representation, so 0.1 + 0.2 (0.30000000000000004)
+   * is rejected for a 7-decimal asset rather than silently rounded.
+   *
+   * @param value - Decimal string or number
+   * @param decimals - Asset decimals
+   * @throws MoneyParseError if the value is not a string or number, is malformed or is more precise than the asset
+   */
+  static parse(value: string | number, decimals: number): Money {
+    // Request bodies are untyped: true or {} must not reach value.trim()
+    if (typeof value !== "string" && typeof value !== "number") {
+      throw new MoneyParseError(value, "expected a decimal string or number");
+    }
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      throw new MoneyParseError(value, "not a finite number");
+    }
+
+    const text = typeof value === "number" ? numberToDecimalString(value) : value.trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match) {
+      throw new MoneyParseError(value, "expected a decimal number such as 100.5");
+    }
+
+    const [, sign, whole, fraction = ""] = match;
+    if (fraction.length > decimals) {
+      throw new MoneyParseError(
+        value,
+        `at most ${decimals} decimal places are supported`
+      );
+    }
+
+    const units = BigInt(whole + fraction.padEnd(decimals, "0"));
+    return new Money(sign ? -units : units, decimals);
+  }
+
+  static zero(decimals: number): Money {
+    return new Money(BigInt(0), decimals);
+  }
+
+  plus(other: Money): Money {
+    this.assertSameDecimals(other);
+    return new Money(this.units + other.units, this.decimals);
+  }
+
+  minus(other: Money): Money {
+    this.assertSameDecimals(other);
+    return new Money(this.units - other.units, this.decimals);
+  }
+
+  /**
+   * Compare two amounts of the same asset
+   *
+   * @returns -1, 0 or 1
+   */
+  compare(other: Money): number {
+    this.assertSameDecimals(other);
+    if (this.units === other.units) return 0;
+    return this.units < other.units ? -1 : 1;
+  }
+
+  equals(other: Money): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.units === BigInt(0);
+  }
+
+  isPositive(): boolean {
+    return this.units > BigInt(0);
+  }
+
+  isNegative(): boolean {
+    return this.units < BigInt(0);
+  }
+
+  /**
+   * Exact decimal string, without trailing zeros (e.g. "100.5")
+   */
+  toString(): string {
+    return this.format();
+  }
+
+  /**
+   * Decimal string with control over the fraction digits
+   *
+   * @param options - Minimum and maximum fraction digits
+   * @returns Decimal string, e.g. "100.50"
+   */
+  format(options: FormatOptions = {}): string {
+    const negative = this.units < BigInt(0);
+    const digits = (negative ? -this.units : this.units)
+      .toString()
+      .padStart(this.decimals + 1, "0");
+
+    const whole = digits.slice(0, digits.length - this.decimals);
+    let fraction = digits.slice(digits.length - this.decimals).replace(/0+$/, "");
+
+    if (options.maxFractionDigits !== undefined) {
+      fraction = fraction.slice(0, options.maxFractionDigits).replace(/0+$/, "");
+    }
+    if (options.minFractionDigits !== undefined) {
+      fraction = fraction.padEnd(options.minFractionDigits, "0");
+    }
+
+    const text = fraction ? `${whole}.${fraction}` : whole;
+    return negative && /[1-9]/.test(text) ? `-${text}` : text;
+  }
+
+  /**
+   * Units as a decimal-integer string, the wire format for API amounts
+   */
+  toUnitsString(): string {
+    return this.units.toString();
+  }
+
+  /**
+   * Approximate value as a number, for display and charts only
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * Units as a number, for APIs that only accept numbers
+   *
+   * @throws Error if the units do not fit in a safe integer
+   */
+  toSafeNumber(): number {
+    if (
+      this.units > BigInt(Number.MAX_SAFE_INTEGER) ||
+      this.units < BigInt(Number.MIN_SAFE_INTEGER)
+    ) {
+      throw new Error(`Amount ${this.units} is too large to pass as a number`);
+    }
+    return Number(this.units);
+  }
+
+  private assertSameDecimals(other: Money): void {
+    if (other.decimals !== this.decimals) {
+      throw new Error(
+        `Cannot combine amounts with ${this.decimals} and ${other.decimals} decimals`
+      );
+    }
+  }
+}
+
+/**
+ * Shortest decimal representation of a number, without exponent notation
+ */
+function numberToDecimalString(value: number): string {
+  const text = String(value);
+  if (!/e/i.test(text)) {
+    return text;
+  }
+
+  // e.g. 1e-7 or 1.5e+21: expand the exponent by shifting the digits
+  const [mantissa, exponentText] = text.toLowerCase().split("e");
+  const exponent = Number(exponentText);
+  const negative = mantissa.startsWith("-");
+  const [whole, fraction = ""] = mantissa.replace("-", "").split(".");
+  const digits = whole + fraction;
+  const point = whole.length + exponent;
+
+  const expanded =
+    point <= 0
+      ? `0.${"0".repeat(-point)}${digits}`
+      : point >= digits.length
+        ? digits + "0".repeat(point - digits.length)
+        : `${digits.slice(0, point)}.${digits.slice(point)}`;
+
+  return negative ? `-${expanded}` : expanded;
+}
@@ -0,0 +1,168 @@
+/**
+ * PDF
+ *
+ * Minimal writer for printable, text-only PDF documents such as account
+ * statements. Lines are laid out top to bottom on A4 pages with the
+ * standard Helvetica and Courier fonts, which every PDF reader has, so
+ * nothing is embedded. Courier keeps table columns aligned when rows are
+ * padded with spaces.
+ *
+ * Text is encoded as WinAnsi: Spanish accents are fine, characters
+ * outside Latin-1 print as "?".
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+const FONTS = {
+  regular: "Helvetica",
+  bold: "Helvetica-Bold",
+  mono: "Courier",
+} as const;
+
+export type PdfFont = keyof typeof FONTS;
+
+export interface PdfLine {
+  text: string; // Empty for a blank line
+  font?: PdfFont; // Defaults to regular
+  size?: number; // Points, defaults to 10
+}
+
+export interface PdfOptions {
+  title?: string;
+  /** Text printed at the bottom of every page, e.g. a page number */
+  footer?: (page: number, pageCount: number) => string;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_SIZE = 10;
+const LINE_SPACING = 1.4;
+const FOOTER_SIZE = 8;
+
+// ========================================
+// RENDERING
+// ========================================
+
+/**
+ * Render lines of text as a PDF document
+ *
+ * @param lines - Lines in reading order; pages break automatically
+ * @param options - Optional document title and page footer
+ * @returns PDF file bytes
+ */
+export function renderTextPdf(
+  lines: PdfLine[],
+  options: PdfOptions = {}
+): Uint8Array<ArrayBuffer> {
+  const pages = paginate(lines);
+  const fontNames = Object.keys(FONTS) as PdfFont[];
+
+  // Objects 1-2 are the catalog and page tree, then the info dictionary
+  // and fonts, then a page and its content stream per page
+  const infoId = 3;
+  const firstFontId = 4;
+  const firstPageId = firstFontId + fontNames.length;
+  const pageIds = pages.map((_, index) => firstPageId + index * 2);
+
+  const fontResources = fontNames
+    .map((font, index) => `/${fontKey(font)} ${firstFontId + index} 0 R`)
+    .join(" ");
+
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    `<< /Title (${escapeText(options.title ?? "")}) /Producer (Juby) >>`,
+    ...fontNames.map(
+      (font) =>
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[font]} /Encoding /WinAnsiEncoding >>`
+    ),
+  ];
+
+  pages.forEach((operations, index) => {
+    const footer = options.footer?.(index + 1, pages.length);
+    const content = [
+      ...operations,
+      ...(footer ? [textOperation(footer, "regular", FOOTER_SIZE, MARGIN / 2)] : []),
+    ].join("\n");
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every character is a single byte (see escapeText), so string
+  // lengths are byte offsets
+  let file = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(file.length);
+    file += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  file += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\n`;
+  file += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(file, "latin1"));
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Lay lines out top to bottom, starting a new page when one is full
+ *
+ * @returns Text operations per page
+ */
+function paginate(lines: PdfLine[]): string[][] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_SIZE;
+    const leading = size * LINE_SPACING;
+
+    if (y - leading < MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= leading;
+
+    if (line.text) {
+      pages[pages.length - 1].push(textOperation(line.text, line.font ?? "regular", size, y));
+    }
+  }
+
+  return pages;
+}
+
+function textOperation(text: string, font: PdfFont, size: number, y: number): string {
+  return `BT /${fontKey(font)} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${escapeText(text)}) Tj ET`;
+}
+
+function fontKey(font: PdfFont): string {
+  return `F${(Object.keys(FONTS) as PdfFont[]).indexOf(font) + 1}`;
+}
+
+/**
+ * Escape text for a PDF string literal, replacing characters WinAnsi
+ * cannot encode
+ */
+function escapeText(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const code = char.codePointAt(0) ?? 0;
+      if (code < 0x20 || (code >= 0x7f && code < 0xa0) || code > 0xff) return "?";
+      return char === "\\" || char === "(" || char === ")" ? `\\${char}` : char;
+    })
+    .join("");
+}
@@ -1,44 +1,26 @@
 /**
- * Prisma Client Singleton with In-Memory Fallback
+ * Prisma Client Singleton
  *
- * If DATABASE_URL is not set, uses in-memory mock for demos.
- * Otherwise, uses real Prisma Client.
+ * Only PrismaDataStore uses the client; everything else goes through
+ * the data store (see lib/data-store). The client is created on first
+ * use, so the in-memory store never connects to a database, and is
+ * reused across hot reloads in development.
  */
 
-import { mockPrisma } from "./mock-db";
+import { PrismaClient } from "@prisma/client";
 
-// FORCE MOCK MODE - Always use mock database regardless of DATABASE_URL
-// TODO: Re-enable real database by setting this to false
-const FORCE_MOCK_MODE = true;
+const globalForPrisma = globalThis as unknown as {
+  prisma: PrismaClient | undefined;
+};
 
-// Check if we should use the mock database
-const useMockDatabase = FORCE_MOCK_MODE || !process.env.DATABASE_URL;
-
-if (useMockDatabase) {
-  console.log("⚠️  Using in-memory mock database (FORCE_MOCK_MODE enabled)");
-  console.log("   Perfect for demos! Data persists only while server runs.");
-}
-
-// Export either mock or real prisma client
-let prisma: any;
-
-if (useMockDatabase) {
-  prisma = mockPrisma;
-} else {
-  const { PrismaClient } = require('@prisma/client');
-
-  const globalForPrisma = globalThis as unknown as {
-    prisma: typeof PrismaClient | undefined;
-  };
-
-  prisma = globalForPrisma.prisma ?? new PrismaClient({
-    log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
-  });
-
-  if (process.env.NODE_ENV !== 'production') {
-    globalForPrisma.prisma = prisma;
+/**
+ * Get or create the shared Prisma Client
+ */
+export function getPrismaClient(): PrismaClient {
+  if (!globalForPrisma.prisma) {
+    globalForPrisma.prisma = new PrismaClient({
+      log: process.env.NODE_ENV === "development" ? ["query", "error", "warn"] : ["error"],
+    });
   }
+  return globalForPrisma.prisma;
 }
-
-export { prisma };
-export default prisma;
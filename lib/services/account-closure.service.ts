@@ -0,0 +1,454 @@
+/**
+ * Account Closure Service
+ *
+ * Lets a user leave Juby. A closure runs these steps in order:
+ * 1. WITHDRAW: burn every share the custodial wallet holds, in every
+ *    configured vault
+ * 2. TRANSFER: send the wallet's balance of every vault asset to an
+ *    external Stellar address. The address is required if anything is
+ *    left: once the key is wiped, no one could move it
+ * 3. ARCHIVE: mark the StellarWallet and CrossmintWallet archived, so
+ *    they can no longer deposit, withdraw or sign
+ * 4. WIPE_KEYS: erase the encrypted secret key, IV and tag, but only
+ *    once no share or asset balance remains on-chain (beyond the XLM
+ *    reserve, which cannot be sent)
+ * 5. STATEMENT: store a closing statement per vault, from the first
+ *    day to now
+ *
+ * Progress is kept in an AccountClosure record. Each step checks the
+ * chain rather than trusting earlier attempts (a withdrawal or transfer
+ * already sent is waited for, then the balance is read again), so
+ * running a failed closure again resumes where it stopped without
+ * repeating work.
+ *
+ * Deposit and withdrawal records, snapshots and the signing audit log
+ * are kept: they are the account's history.
+ */
+
+import { DuplicateRecordError, getDataStore } from "@/lib/data-store";
+import type {
+  AccountClosure,
+  AccountClosureStep,
+  StellarWallet,
+} from "@/lib/types/database.types";
+import { StrKey } from "@stellar/stellar-sdk";
+import {
+  CustodialFundsMover,
+  describeFunds,
+  FUNDS_SETTLE_TIMEOUT_MS,
+  type CustodialFundsClient,
+} from "./custodial-funds.service";
+import { initializeDefindexService } from "./defindex.service";
+import {
+  getStatementService,
+  toStatementJson,
+  type StatementService,
+} from "./statement.service";
+import { getStellarWalletService } from "./stellar-wallet.service";
+import { WalletOperationQueue } from "./wallet-queue.service";
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * The parts of DefindexService a closure uses to empty the wallet
+ */
+export type ClosureVaultClient = CustodialFundsClient;
+
+export interface CloseAccountOptions {
+  /**
+   * External account (G...) or contract (C...) to send the funds to.
+   * Required if any are left after the withdrawals; undefined keeps
+   * the closure's current choice.
+   */
+  destinationAddress?: string | null;
+}
+
+export class NoAccountToCloseError extends Error {
+  constructor(userId: string) {
+    super(`User ${userId} has no wallet to close`);
+    this.name = "NoAccountToCloseError";
+  }
+}
+
+export class InvalidClosureDestinationError extends Error {
+  constructor(address: string) {
+    super(`Invalid destination Stellar address: ${address}`);
+    this.name = "InvalidClosureDestinationError";
+  }
+}
+
+/**
+ * The destination can no longer change: the funds were already handled
+ */
+export class ClosureDestinationLockedError extends Error {
+  constructor(userId: string) {
+    super(`The account closure for ${userId} is past the transfer; its destination cannot change`);
+    this.name = "ClosureDestinationLockedError";
+  }
+}
+
+export const CLOSURE_STEPS: AccountClosureStep[] = [
+  "WITHDRAW",
+  "TRANSFER",
+  "ARCHIVE",
+  "WIPE_KEYS",
+  "STATEMENT",
+];
+
+// ========================================
+// ACCOUNT CLOSURE SERVICE
+// ========================================
+
+export class AccountClosureService {
+  private funds: CustodialFundsMover;
+  private statements: Pick<StatementService, "generate">;
+  private queue: WalletOperationQueue = new WalletOperationQueue();
+
+  constructor(
+    vaults: ClosureVaultClient,
+    statements: Pick<StatementService, "generate">
+  ) {
+    this.funds = new CustodialFundsMover(vaults);
+    this.statements = statements;
+  }
+
+  /**
+   * Get a user's account closure, if they started one
+   *
+   * @param userId - User identifier
+   * @returns Closure record, or null
+   */
+  async getClosure(userId: string): Promise<AccountClosure | null> {
+    return getDataStore().accountClosures.findByUserId(userId);
+  }
+
+  /**
+   * Close a user's account, or resume a closure that stopped partway
+   *
+   * Runs every remaining step. A step that fails stops the run and
+   * leaves the closure FAILED at that step with lastError set; calling
+   * again retries from there. A completed closure is returned as is.
+   *
+   * @param userId - User identifier
+   * @param options - Optional destination for the funds
+   * @returns Closure record after the run
+   * @throws NoAccountToCloseError if the user has no custodial or Crossmint wallet
+   * @throws InvalidClosureDestinationError if the destination is not a Stellar address
+   * @throws ClosureDestinationLockedError if the destination changes after the transfer step
+   */
+  async close(userId: string, options: CloseAccountOptions = {}): Promise<AccountClosure> {
+    const destination = options.destinationAddress;
+    if (destination && !isStellarAddress(destination)) {
+      throw new InvalidClosureDestinationError(destination);
+    }
+
+    // One run per user at a time, so two requests cannot both send funds
+    return this.queue.run(
+      userId,
+      async () => {
+        const store = getDataStore();
+        let closure =
+          (await store.accountClosures.findByUserId(userId)) ??
+          (await this.start(userId, destination ?? null));
+
+        if (closure.status === "COMPLETED") {
+          return closure;
+        }
+
+        if (destination !== undefined && destination !== closure.destinationAddress) {
+          if (CLOSURE_STEPS.indexOf(closure.step) > CLOSURE_STEPS.indexOf("TRANSFER")) {
+            throw new ClosureDestinationLockedError(userId);
+          }
+          closure = await store.accountClosures.update(closure.id, {
+            destinationAddress: destination,
+          });
+        }
+
+        return this.runSteps(closure);
+      },
+      { maxWaitMs: FUNDS_SETTLE_TIMEOUT_MS * 3 }
+    );
+  }
+
+  /**
+   * Create the closure record
+   */
+  private async start(
+    userId: string,
+    destinationAddress: string | null
+  ): Promise<AccountClosure> {
+    const store = getDataStore();
+    const [wallet, crossmintWallet] = await Promise.all([
+      store.wallets.findByUserId(userId),
+      store.crossmintWallets.findByUserId(userId),
+    ]);
+
+    if (!wallet && !crossmintWallet) {
+      throw new NoAccountToCloseError(userId);
+    }
+
+    if (destinationAddress && destinationAddress === wallet?.stellarPublicKey) {
+      throw new InvalidClosureDestinationError(destinationAddress);
+    }
+
+    try {
+      const closure = await store.accountClosures.create({
+        userId,
+        stellarWalletId: wallet?.id ?? null,
+        crossmintWalletId: crossmintWallet?.id ?? null,
+        destinationAddress,
+      });
+      console.log(`🚪 Account closure started for user ${userId}`);
+      return closure;
+    } catch (error) {
+      // Another server instance started it first
+      const existing =
+        error instanceof DuplicateRecordError
+          ? await store.accountClosures.findByUserId(userId)
+          : null;
+      if (!existing) {
+        throw error;
+      }
+      return existing;
+    }
+  }
+
+  /**
+   * Run the closure's remaining steps, recording progress after each
+   */
+  private async runSteps(closure: AccountClosure): Promise<AccountClosure> {
+    const store = getDataStore();
+    let current = await store.accountClosures.update(closure.id, {
+      status: "IN_PROGRESS",
+      lastError: null,
+    });
+
+    for (const step of CLOSURE_STEPS.slice(CLOSURE_STEPS.indexOf(current.step))) {
+      console.log(`🚪 Closing account of ${current.userId}: ${step}`);
+
+      try {
+        current = await this.runStep(step, current);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Account closure step ${step} failed for user ${current.userId}:`, error);
+        return store.accountClosures.update(current.id, {
+          status: "FAILED",
+          lastError: message,
+        });
+      }
+
+      const next = CLOSURE_STEPS[CLOSURE_STEPS.indexOf(step) + 1];
+      current = await store.accountClosures.update(
+        current.id,
+        next ? { step: next } : { status: "COMPLETED", completedAt: new Date() }
+      );
+    }
+
+    console.log(`✅ Account of user ${current.userId} closed`);
+    return current;
+  }
+
+  private runStep(step: AccountClosureStep, closure: AccountClosure): Promise<AccountClosure> {
+    switch (step) {
+      case "WITHDRAW":
+        return this.withdrawAll(closure);
+      case "TRANSFER":
+        return this.transferFunds(closure);
+      case "ARCHIVE":
+        return this.archiveWallets(closure);
+      case "WIPE_KEYS":
+        return this.wipeKeys(closure);
+      case "STATEMENT":
+        return this.storeStatement(closure);
+    }
+  }
+
+  // ========================================
+  // STEPS
+  // ========================================
+
+  /**
+   * WITHDRAW: burn every share the wallet holds, vault by vault
+   */
+  private async withdrawAll(closure: AccountClosure): Promise<AccountClosure> {
+    if (!closure.stellarWalletId) {
+      return closure;
+    }
+
+    const store = getDataStore();
+    let current = closure;
+
+    for (const vault of this.funds.vaults()) {
+      await this.funds.withdrawAll(
+        current.userId,
+        vault.id,
+        current.withdrawalTx,
+        async (transactionHash) => {
+          current = await store.accountClosures.update(current.id, {
+            withdrawalTx: transactionHash,
+          });
+        }
+      );
+    }
+    return current;
+  }
+
+  /**
+   * TRANSFER: send the wallet's whole balance of every vault asset to
+   * the destination
+   *
+   * @throws Error if funds are left and the closure has no destination
+   */
+  private async transferFunds(closure: AccountClosure): Promise<AccountClosure> {
+    const wallet = await this.custodialWallet(closure);
+    if (!wallet) {
+      return closure;
+    }
+
+    const destination = closure.destinationAddress;
+    if (!destination) {
+      const remaining = await this.funds.remainingFunds(wallet.stellarPublicKey);
+      if (remaining.length > 0) {
+        throw new Error(
+          `Funds remain in the wallet (${describeFunds(remaining)}); give a destinationAddress to send them to`
+        );
+      }
+      return closure;
+    }
+
+    let current = closure;
+    for (const vault of this.funds.assetVaults()) {
+      await this.funds.transferAll(
+        current.userId,
+        destination,
+        vault.id,
+        "asset",
+        current.transferTx,
+        async (transactionHash, amount) => {
+          // Amounts add up if an earlier attempt already sent part of the funds
+          const sent = BigInt(current.transferredAmounts[vault.assetAddress] ?? 0) + amount;
+          current = await getDataStore().accountClosures.update(current.id, {
+            transferTx: transactionHash,
+            transferredAmounts: {
+              ...current.transferredAmounts,
+              [vault.assetAddress]: sent.toString(),
+            },
+          });
+        }
+      );
+    }
+    return current;
+  }
+
+  /**
+   * ARCHIVE: stop the wallets from being used again
+   */
+  private async archiveWallets(closure: AccountClosure): Promise<AccountClosure> {
+    const store = getDataStore();
+    const now = new Date();
+
+    if (closure.stellarWalletId) {
+      await store.wallets.archive(closure.stellarWalletId, now);
+    }
+    if (closure.crossmintWalletId) {
+      await store.crossmintWallets.archive(closure.crossmintWalletId, now);
+    }
+    return closure;
+  }
+
+  /**
+   * WIPE_KEYS: erase the custodial wallet's encrypted secret key
+   *
+   * The XLM reserve the funding account gave the wallet stays behind:
+   * it cannot be sent while the account exists.
+   *
+   * @throws Error if any share or asset balance is still on-chain: the
+   *   key is the only way to move it, so it is kept
+   */
+  private async wipeKeys(closure: AccountClosure): Promise<AccountClosure> {
+    const wallet = await this.custodialWallet(closure);
+    if (!wallet) {
+      return closure;
+    }
+
+    const remaining = await this.funds.remainingFunds(wallet.stellarPublicKey);
+    if (remaining.length > 0) {
+      throw new Error(
+        `Funds remain in the wallet (${describeFunds(remaining)}); its key is kept until they are moved`
+      );
+    }
+
+    await getStellarWalletService().retireSecretKey(closure.userId, "account.close");
+    return closure;
+  }
+
+  /**
+   * STATEMENT: store the statement from the wallet's first day to now
+   */
+  private async storeStatement(closure: AccountClosure): Promise<AccountClosure> {
+    const store = getDataStore();
+    const [wallet, crossmintWallet] = await Promise.all([
+      store.wallets.findByUserId(closure.userId),
+      store.crossmintWallets.findByUserId(closure.userId),
+    ]);
+    const openedAt = wallet?.createdAt ?? crossmintWallet?.createdAt ?? closure.requestedAt;
+
+    // One per vault the user held, or the default vault if none
+    const vaultIds = (await store.vaultBalances.listByUser(closure.userId))
+      .map((balance) => this.funds.vaults().find((v) => v.address === balance.vaultAddress)?.id)
+      .filter((id): id is string => id !== undefined);
+
+    const now = new Date();
+    const statements: ReturnType<typeof toStatementJson>[] = [];
+    for (const vaultId of vaultIds.length > 0 ? vaultIds : [undefined]) {
+      statements.push(
+        toStatementJson(await this.statements.generate(closure.userId, openedAt, now, vaultId))
+      );
+    }
+
+    return store.accountClosures.update(closure.id, {
+      closingStatement: statements,
+    });
+  }
+
+  /**
+   * The closure's custodial wallet, archived or not
+   */
+  private async custodialWallet(closure: AccountClosure): Promise<StellarWallet | null> {
+    return closure.stellarWalletId
+      ? getDataStore().wallets.findByUserId(closure.userId)
+      : null;
+  }
+}
+
+function isStellarAddress(address: string): boolean {
+  return StrKey.isValidEd25519PublicKey(address) || StrKey.isValidContract(address);
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let accountClosureServiceInstance: AccountClosureService | null = null;
+
+/**
+ * Get singleton instance of AccountClosureService
+ */
+export function getAccountClosureService(): AccountClosureService {
+  if (!accountClosureServiceInstance) {
+    accountClosureServiceInstance = new AccountClosureService(
+      initializeDefindexService(),
+      getStatementService()
+    );
+  }
+  return accountClosureServiceInstance;
+}
+
+/**
+ * A closure with amounts as decimal-integer strings, for API responses
+ */
+export function toClosureJson(closure: AccountClosure) {
+  return { ...closure };
+}
@@ -0,0 +1,313 @@
+/**
+ * Account Funding Service
+ *
+ * Creates custodial wallets' accounts on-chain. A Stellar account only
+ * exists once another account sends it a createAccount operation with
+ * at least the minimum reserve; the funding account does that for each
+ * new custodial wallet.
+ *
+ * Creation is idempotent: an account that already exists is left as is,
+ * so a wallet whose activation failed can simply be activated again.
+ *
+ * SECURITY:
+ * - Funding secret key stored in environment (ACCOUNT_FUNDING_SECRET_KEY,
+ *   falling back to the FEE_SPONSOR_SECRET_KEY treasury)
+ * - Each account gets only the starting balance, so a bug cannot send
+ *   more than that per wallet; the demo's top-ups are refused on mainnet
+ *   and capped at DEMO_TOPUP_MAX_XLM each, since the demo endpoint is
+ *   open to anyone
+ */
+
+import {
+  Asset,
+  BASE_FEE,
+  Keypair,
+  Networks,
+  Operation,
+  TransactionBuilder,
+  rpc,
+} from "@stellar/stellar-sdk";
+import { Money } from "@/lib/money";
+import { TransactionTracker } from "./transaction-tracker.service";
+import { WalletOperationQueue } from "./wallet-queue.service";
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * Subset of the Soroban RPC server used to create accounts
+ */
+export type AccountFundingRpcClient = Pick<
+  rpc.Server,
+  "getAccount" | "sendTransaction" | "getTransaction"
+>;
+
+export interface TopUpResult {
+  publicKey: string;
+  amount: string; // XLM sent, as a decimal string
+  transactionHash: string;
+}
+
+export interface AccountFundingResult {
+  publicKey: string;
+  created: boolean; // false if the account already existed
+  transactionHash?: string;
+}
+
+/**
+ * A top-up is above DEMO_TOPUP_MAX_XLM (HTTP 400)
+ */
+export class TopUpLimitError extends Error {
+  constructor(amount: Money, maximum: Money) {
+    super(`Top-ups are limited to ${maximum} XLM; ${amount} XLM was requested`);
+    this.name = "TopUpLimitError";
+  }
+}
+
+// Two base reserves of 0.5 XLM: the least an account can hold
+const DEFAULT_STARTING_BALANCE_XLM = "1";
+
+const DEFAULT_MAX_TOP_UP_XLM = "100";
+
+const XLM_DECIMALS = 7;
+
+const TRANSACTION_TIMEOUT_SECONDS = 30;
+
+// ========================================
+// ACCOUNT FUNDING SERVICE
+// ========================================
+
+export class AccountFundingService {
+  private rpcClient: AccountFundingRpcClient;
+  private tracker: TransactionTracker;
+  private fundingKeypair: Keypair;
+  private networkPassphrase: string;
+  private startingBalance: string;
+  private maxTopUp: Money;
+  // The funding account's sequence number allows one transaction at a time
+  private queue: WalletOperationQueue = new WalletOperationQueue();
+
+  constructor(
+    rpcClient: AccountFundingRpcClient,
+    fundingSecretKey?: string,
+    networkPassphrase?: string,
+    startingBalance?: string,
+    maxTopUp?: string
+  ) {
+    const secretKey =
+      fundingSecretKey ||
+      process.env.ACCOUNT_FUNDING_SECRET_KEY ||
+      process.env.FEE_SPONSOR_SECRET_KEY;
+
+    if (!secretKey) {
+      throw new Error(
+        "ACCOUNT_FUNDING_SECRET_KEY (or FEE_SPONSOR_SECRET_KEY) environment variable is required"
+      );
+    }
+
+    this.rpcClient = rpcClient;
+    this.tracker = new TransactionTracker(rpcClient);
+    this.fundingKeypair = Keypair.fromSecret(secretKey);
+    this.networkPassphrase =
+      networkPassphrase ||
+      (process.env.STELLAR_NETWORK === "MAINNET"
+        ? Networks.PUBLIC
+        : Networks.TESTNET);
+    this.startingBalance =
+      startingBalance ||
+      process.env.ACCOUNT_STARTING_BALANCE_XLM ||
+      DEFAULT_STARTING_BALANCE_XLM;
+    this.maxTopUp = Money.parse(
+      maxTopUp || process.env.DEMO_TOPUP_MAX_XLM || DEFAULT_MAX_TOP_UP_XLM,
+      XLM_DECIMALS
+    );
+  }
+
+  /**
+   * Create an account on-chain, funded with the starting balance
+   *
+   * Does nothing if the account already exists, including when another
+   * request created it while this one was in flight.
+   *
+   * @param publicKey - Account to create (G...)
+   * @returns Whether this call created it, and the transaction hash if so
+   * @throws Error if the createAccount transaction fails or does not settle in time
+   */
+  async createAccount(publicKey: string): Promise<AccountFundingResult> {
+    if (await this.accountExists(publicKey)) {
+      return { publicKey, created: false };
+    }
+
+    return this.queue.run(this.fundingKeypair.publicKey(), async () => {
+      // Checked again: an earlier queued call may have just created it
+      if (await this.accountExists(publicKey)) {
+        return { publicKey, created: false };
+      }
+
+      const funder = await this.rpcClient.getAccount(this.fundingKeypair.publicKey());
+      const transaction = new TransactionBuilder(funder, {
+        fee: BASE_FEE,
+        networkPassphrase: this.networkPassphrase,
+      })
+        .addOperation(
+          Operation.createAccount({
+            destination: publicKey,
+            startingBalance: this.startingBalance,
+          })
+        )
+        .setTimeout(TRANSACTION_TIMEOUT_SECONDS)
+        .build();
+      transaction.sign(this.fundingKeypair);
+
+      console.log(`🪙 Creating account ${publicKey} with ${this.startingBalance} XLM`);
+
+      const sent = await this.rpcClient.sendTransaction(transaction);
+      if (sent.status === "ERROR") {
+        // createAccountAlreadyExist: someone else created it first
+        if (await this.accountExists(publicKey)) {
+          return { publicKey, created: false };
+        }
+        throw new Error(`Failed to submit createAccount for ${publicKey}`);
+      }
+
+      const settled = await this.tracker.waitForConfirmation(sent.hash, {
+        timeoutMs: TRANSACTION_TIMEOUT_SECONDS * 1000,
+      });
+      if (settled.status !== "SUCCESS") {
+        if (await this.accountExists(publicKey)) {
+          return { publicKey, created: false };
+        }
+        throw new Error(
+          `createAccount for ${publicKey} ${settled.status === "TIMEOUT" ? "did not settle in time" : "failed"}: ${settled.error || settled.status}`
+        );
+      }
+
+      console.log(`✅ Account ${publicKey} created`);
+
+      return { publicKey, created: true, transactionHash: sent.hash };
+    });
+  }
+
+  /**
+   * Send XLM from the funding account to an existing testnet account
+   *
+   * For the hackathon demo, whose wallet is created with only the
+   * starting balance and then needs the XLM it deposits. Friendbot
+   * cannot do it: it only funds accounts that do not exist yet.
+   *
+   * @param publicKey - Account to pay (G...)
+   * @param xlm - XLM to send, at most getMaxTopUp()
+   * @returns The payment's transaction hash
+   * @throws TopUpLimitError if the amount is above the cap
+   * @throws Error on mainnet, or if the payment fails or does not settle in time
+   */
+  async topUpTestnetAccount(publicKey: string, xlm: Money): Promise<TopUpResult> {
+    if (this.networkPassphrase === Networks.PUBLIC) {
+      throw new Error("Testnet top-ups are not available on mainnet");
+    }
+    if (!xlm.isPositive()) {
+      throw new Error("Top-up amount must be greater than 0");
+    }
+    if (xlm.compare(this.maxTopUp) > 0) {
+      throw new TopUpLimitError(xlm, this.maxTopUp);
+    }
+    const amount = xlm.toString();
+
+    return this.queue.run(this.fundingKeypair.publicKey(), async () => {
+      const funder = await this.rpcClient.getAccount(this.fundingKeypair.publicKey());
+      const transaction = new TransactionBuilder(funder, {
+        fee: BASE_FEE,
+        networkPassphrase: this.networkPassphrase,
+      })
+        .addOperation(
+          Operation.payment({
+            destination: publicKey,
+            asset: Asset.native(),
+            amount,
+          })
+        )
+        .setTimeout(TRANSACTION_TIMEOUT_SECONDS)
+        .build();
+      transaction.sign(this.fundingKeypair);
+
+      console.log(`🪙 Topping up ${publicKey} with ${amount} XLM`);
+
+      const sent = await this.rpcClient.sendTransaction(transaction);
+      if (sent.status === "ERROR") {
+        throw new Error(`Failed to submit payment to ${publicKey}`);
+      }
+
+      const settled = await this.tracker.waitForConfirmation(sent.hash, {
+        timeoutMs: TRANSACTION_TIMEOUT_SECONDS * 1000,
+      });
+      if (settled.status !== "SUCCESS") {
+        throw new Error(
+          `Payment to ${publicKey} ${settled.status === "TIMEOUT" ? "did not settle in time" : "failed"}: ${settled.error || settled.status}`
+        );
+      }
+
+      console.log(`✅ Topped up ${publicKey}`);
+
+      return { publicKey, amount, transactionHash: sent.hash };
+    });
+  }
+
+  /**
+   * Whether an account exists on-chain
+   *
+   * @param publicKey - Account (G...)
+   * @throws Error if the network cannot be reached
+   */
+  async accountExists(publicKey: string): Promise<boolean> {
+    try {
+      await this.rpcClient.getAccount(publicKey);
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("Account not found")) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the most XLM a single top-up may send
+   */
+  getMaxTopUp(): Money {
+    return this.maxTopUp;
+  }
+
+  /**
+   * Get the account that funds new wallets
+   */
+  getFundingPublicKey(): string {
+    return this.fundingKeypair.publicKey();
+  }
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let accountFundingServiceInstance: AccountFundingService | null = null;
+
+/**
+ * Get or create the singleton AccountFundingService instance
+ *
+ * @param fundingSecretKey - Optional funding secret (uses env vars if not provided)
+ * @returns AccountFundingService instance
+ */
+export function getAccountFundingService(
+  fundingSecretKey?: string
+): AccountFundingService {
+  if (!accountFundingServiceInstance) {
+    const sorobanUrl =
+      process.env.STELLAR_SOROBAN_URL || "https://soroban-testnet.stellar.org";
+    accountFundingServiceInstance = new AccountFundingService(
+      new rpc.Server(sorobanUrl),
+      fundingSecretKey
+    );
+  }
+  return accountFundingServiceInstance;
+}
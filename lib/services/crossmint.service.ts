@@ -8,10 +8,15 @@
  * - Email-based smart wallets on Stellar
  * - Non-custodial: user controls wallet via email signing
  * - Integrates with World App email for seamless UX
+ * - Wallets are stored in the CrossmintWallet table, one per user, so
+ *   lookups and getOrCreateStellarWallet survive restarts
  *
  * @see https://docs.crossmint.com/api-reference/wallets/create-wallet
  */
 
+import { DuplicateRecordError, getDataStore } from "@/lib/data-store";
+import type { CrossmintWallet } from "@/lib/types/database.types";
+
 // ========================================
 // TYPES
 // ========================================
@@ -46,6 +51,29 @@ export interface CreateStellarWalletParams {
   alias?: string;
 }
 
+/**
+ * The email's Crossmint wallet already belongs to another user
+ *
+ * Crossmint keys wallets by owner email, so a second user signing up
+ * with the same email would get the first user's wallet.
+ */
+export class CrossmintWalletConflictError extends Error {
+  constructor(email: string) {
+    super(`A Crossmint wallet for ${email} is already linked to another user`);
+    this.name = "CrossmintWalletConflictError";
+  }
+}
+
+/**
+ * The user closed their account, which archived their wallet
+ */
+export class CrossmintWalletArchivedError extends Error {
+  constructor(userId: string) {
+    super(`Crossmint wallet for user ${userId} is archived: the account was closed`);
+    this.name = "CrossmintWalletArchivedError";
+  }
+}
+
 // ========================================
 // CROSSMINT SERVICE
 // ========================================
@@ -166,23 +194,94 @@ export class CrossmintService {
   /**
    * Get or create Stellar smart wallet for user
    *
-   * Checks if wallet exists, creates if not.
-   * Idempotent operation.
+   * Returns the user's stored wallet if there is one. Otherwise fetches
+   * the email's wallet from Crossmint, creating it if needed, and stores
+   * it for the user. Idempotent across restarts and concurrent calls.
    *
    * @param params - User email, userId, and optional alias
-   * @returns Stellar smart wallet details
+   * @returns Stored Stellar smart wallet
+   * @throws CrossmintWalletConflictError if the email's wallet belongs to another user
+   * @throws CrossmintWalletArchivedError if the user closed their account
    */
   async getOrCreateStellarWallet(
     params: CreateStellarWalletParams
-  ): Promise<CrossmintWalletResponse> {
-    const existing = await this.getWalletByEmail(params.email);
+  ): Promise<CrossmintWallet> {
+    const store = getDataStore();
+
+    const stored = await store.crossmintWallets.findByUserId(params.userId);
+    if (stored?.archivedAt) {
+      throw new CrossmintWalletArchivedError(params.userId);
+    }
+    if (stored) {
+      console.log(`📋 Found existing Stellar wallet: ${stored.stellarAddress}`);
+      await store.crossmintWallets.markUsed(stored.id, new Date());
+      return stored;
+    }
 
-    if (existing) {
-      console.log(`📋 Found existing Stellar wallet: ${existing.address}`);
-      return existing;
+    // Fail before calling Crossmint, which would hand back the other user's wallet
+    const linked = await store.crossmintWallets.findByEmail(params.email);
+    if (linked) {
+      throw new CrossmintWalletConflictError(params.email);
     }
 
-    return await this.createStellarSmartWallet(params);
+    const wallet =
+      (await this.getWalletByEmail(params.email)) ??
+      (await this.createStellarSmartWallet(params));
+
+    try {
+      const created = await store.crossmintWallets.create({
+        userId: params.userId,
+        stellarAddress: wallet.address,
+        email: params.email,
+        crossmintOwnerLocator: wallet.owner || `email:${params.email}`,
+        walletAlias: wallet.alias ?? null,
+      });
+      console.log(`💾 Stored Stellar wallet ${created.stellarAddress} for user ${params.userId}`);
+      return created;
+    } catch (error) {
+      if (!(error instanceof DuplicateRecordError)) {
+        throw error;
+      }
+
+      // A concurrent call stored the wallet first
+      const winner = await store.crossmintWallets.findByUserId(params.userId);
+      if (winner) {
+        return winner;
+      }
+      throw new CrossmintWalletConflictError(params.email);
+    }
+  }
+
+  /**
+   * Get the user's stored wallet
+   *
+   * @param userId - User identifier
+   * @returns Wallet, or null if the user has none
+   */
+  async getWalletForUser(userId: string): Promise<CrossmintWallet | null> {
+    return getDataStore().crossmintWallets.findByUserId(userId);
+  }
+
+  /**
+   * Find a stored wallet by its Stellar address
+   *
+   * @param stellarAddress - Smart wallet address
+   * @returns Wallet, or null if no user has it
+   */
+  async findWalletByAddress(stellarAddress: string): Promise<CrossmintWallet | null> {
+    return getDataStore().crossmintWallets.findByAddress(stellarAddress);
+  }
+
+  /**
+   * Find a stored wallet by its signer email
+   *
+   * Unlike getWalletByEmail this does not call Crossmint.
+   *
+   * @param email - Signer email
+   * @returns Wallet, or null if no user has one for the email
+   */
+  async findWalletByEmail(email: string): Promise<CrossmintWallet | null> {
+    return getDataStore().crossmintWallets.findByEmail(email);
   }
 }
 
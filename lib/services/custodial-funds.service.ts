@@ -0,0 +1,260 @@
+/**
+ * Custodial Funds Mover
+ *
+ * Moves funds out of a custodial wallet for the flows that end Juby's
+ * custody of them: account closure and migration to a user-held
+ * wallet. Every call checks the chain rather than trusting earlier
+ * attempts (a transaction already sent is waited for, then the balance
+ * is read again), so a flow that failed partway can call it again
+ * without repeating work.
+ *
+ * A wallet can hold shares in every configured vault and a balance of
+ * every vault's asset, so the flows go through all of them, and
+ * remainingFunds() confirms nothing is left before a key is erased.
+ */
+
+import type { DefindexService } from "./defindex.service";
+import type { VaultDefinition } from "./vault-registry.service";
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * The parts of DefindexService used to empty a custodial wallet
+ */
+export type CustodialFundsClient = Pick<
+  DefindexService,
+  | "getVaults"
+  | "getVaultBalance"
+  | "getUserVaultBalance"
+  | "getAssetBalance"
+  | "withdrawForUser"
+  | "getUserAssetBalance"
+  | "transferForUser"
+  | "getTransactionStatus"
+  | "waitForTransaction"
+>;
+
+export type CustodialToken = "asset" | "shares";
+
+/**
+ * A balance still held by the custodial wallet
+ */
+export interface RemainingFunds {
+  vaultId: string;
+  token: CustodialToken;
+  tokenAddress: string; // Vault contract for shares, asset contract otherwise
+  amount: bigint; // In stroops
+}
+
+/**
+ * Called once a transaction is submitted, before it is waited for, so
+ * the caller can record its hash and pick it up again after a failure
+ */
+export type OnFundsSubmitted = (transactionHash: string, amount: bigint) => Promise<void>;
+
+// How long a call waits for its transaction before giving up until the next run
+export const FUNDS_SETTLE_TIMEOUT_MS = 60_000;
+
+// ========================================
+// CUSTODIAL FUNDS MOVER
+// ========================================
+
+export class CustodialFundsMover {
+  private client: CustodialFundsClient;
+
+  constructor(client: CustodialFundsClient) {
+    this.client = client;
+  }
+
+  /**
+   * Every configured vault, in registry order
+   */
+  vaults(): VaultDefinition[] {
+    return this.client.getVaults();
+  }
+
+  /**
+   * One vault per distinct asset, for moving asset balances: vaults can
+   * share an asset, and its balance must only be sent once. Vaults
+   * without a configured asset contract are left out.
+   */
+  assetVaults(): VaultDefinition[] {
+    const seen = new Set<string>();
+    return this.client.getVaults().filter((vault) => {
+      if (!vault.assetAddress || seen.has(vault.assetAddress)) {
+        return false;
+      }
+      seen.add(vault.assetAddress);
+      return true;
+    });
+  }
+
+  /**
+   * Read every share and asset balance an account still holds, across
+   * all configured vaults
+   *
+   * Reads by address rather than by user, so it also works once the
+   * wallet has been archived. A native XLM balance only counts above
+   * the reserve the account must keep, which can never be sent.
+   *
+   * @param stellarPublicKey - Custodial account (G...)
+   * @returns Non-zero balances; empty once the account has been emptied
+   * @throws Error if a balance could not be read
+   */
+  async remainingFunds(stellarPublicKey: string): Promise<RemainingFunds[]> {
+    const remaining: RemainingFunds[] = [];
+
+    // One at a time, to keep the RPC load flat
+    for (const vault of this.vaults()) {
+      const balance = await this.client.getVaultBalance(stellarPublicKey, vault.id);
+      if (!balance.success) {
+        throw new Error(balance.error || "Failed to read vault balance");
+      }
+      const shares = BigInt(balance.vaultShares ?? 0);
+      if (shares > BigInt(0)) {
+        remaining.push({ vaultId: vault.id, token: "shares", tokenAddress: vault.address, amount: shares });
+      }
+    }
+    for (const vault of this.assetVaults()) {
+      const amount = await this.client.getAssetBalance(stellarPublicKey, vault.id);
+      if (amount > BigInt(0)) {
+        remaining.push({ vaultId: vault.id, token: "asset", tokenAddress: vault.assetAddress, amount });
+      }
+    }
+
+    return remaining;
+  }
+
+  /**
+   * Read the wallet's share balance in a vault from the chain
+   *
+   * @returns Shares in stroops
+   * @throws Error if the balance could not be read
+   */
+  async shareBalance(userId: string, vaultId: string): Promise<bigint> {
+    const balance = await this.client.getUserVaultBalance(userId, vaultId);
+    if (!balance.success) {
+      throw new Error(balance.error || "Failed to read vault balance");
+    }
+    return BigInt(balance.vaultShares ?? 0);
+  }
+
+  /**
+   * Burn every share the wallet holds in a vault
+   *
+   * @param userId - User identifier
+   * @param vaultId - Vault to withdraw from
+   * @param previousTx - Withdrawal sent by an earlier run, if any
+   * @param onSubmitted - Records the withdrawal's hash and shares burned
+   * @throws Error if the withdrawal fails or does not settle in time, or shares remain
+   */
+  async withdrawAll(
+    userId: string,
+    vaultId: string,
+    previousTx: string | null,
+    onSubmitted: OnFundsSubmitted
+  ): Promise<void> {
+    await this.awaitPrevious(previousTx);
+
+    if ((await this.shareBalance(userId, vaultId)) === BigInt(0)) {
+      return;
+    }
+
+    const response = await this.client.withdrawForUser(userId, { all: true }, { vaultId });
+    if (!response.success) {
+      throw new Error(response.error || "Failed to withdraw");
+    }
+
+    await onSubmitted(response.transactionHash, BigInt(response.shares ?? 0));
+    await this.awaitSettled(response.transactionHash, "Withdrawal");
+
+    // Shares could have arrived while the withdrawal was in flight
+    if ((await this.shareBalance(userId, vaultId)) > BigInt(0)) {
+      throw new Error("Vault shares remain after the withdrawal");
+    }
+  }
+
+  /**
+   * Send the wallet's whole balance of a vault's asset (less the
+   * reserve, for native XLM), or of its shares, to another address
+   *
+   * @param userId - User identifier
+   * @param destination - Receiving account (G...) or contract (C...)
+   * @param vaultId - Vault whose asset or shares are sent
+   * @param token - Which of the two to send
+   * @param previousTx - Transfer sent by an earlier run, if any
+   * @param onSubmitted - Records the transfer's hash and amount
+   * @throws Error if the transfer fails or does not settle in time
+   */
+  async transferAll(
+    userId: string,
+    destination: string,
+    vaultId: string,
+    token: CustodialToken,
+    previousTx: string | null,
+    onSubmitted: OnFundsSubmitted
+  ): Promise<void> {
+    await this.awaitPrevious(previousTx);
+
+    const balance =
+      token === "shares"
+        ? await this.shareBalance(userId, vaultId)
+        : await this.client.getUserAssetBalance(userId, vaultId);
+    if (balance === BigInt(0)) {
+      return;
+    }
+
+    const response = await this.client.transferForUser(userId, destination, { vaultId, token });
+    if (!response.success) {
+      throw new Error(response.error || "Failed to transfer");
+    }
+
+    await onSubmitted(response.transactionHash, BigInt(response.amount ?? 0));
+    await this.awaitSettled(response.transactionHash, "Transfer");
+  }
+
+  /**
+   * Wait for a transaction sent by an earlier run, if it is still pending
+   *
+   * @throws Error if it has not settled within the wait
+   */
+  private async awaitPrevious(hash: string | null): Promise<void> {
+    if (!hash) {
+      return;
+    }
+    const previous = await this.client.getTransactionStatus(hash);
+    if (previous?.status === "PENDING") {
+      await this.awaitSettled(hash, "Previous transaction");
+    }
+  }
+
+  /**
+   * @throws Error unless the transaction settles successfully within the wait
+   */
+  private async awaitSettled(hash: string, label: string): Promise<void> {
+    const settled = await this.client.waitForTransaction(hash, {
+      timeoutMs: FUNDS_SETTLE_TIMEOUT_MS,
+    });
+    if (settled.status === "TIMEOUT") {
+      throw new Error(`${label} ${hash} has not settled yet; try again`);
+    }
+    if (settled.status !== "SUCCESS") {
+      throw new Error(`${label} ${hash} failed: ${settled.error || settled.status}`);
+    }
+  }
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * List balances for an error message, e.g. "12000000 of CABC... (shares)"
+ */
+export function describeFunds(remaining: RemainingFunds[]): string {
+  return remaining
+    .map((funds) => `${funds.amount} of ${funds.tokenAddress} (${funds.token})`)
+    .join(", ");
+}
@@ -7,9 +7,50 @@
  */
 
 import DefindexSDK, { SupportedNetworks } from "@defindex/sdk";
-import { TransactionBuilder, Networks } from "@stellar/stellar-sdk";
+import {
+  Address,
+  Asset,
+  BASE_FEE,
+  Contract,
+  TransactionBuilder,
+  Networks,
+  StrKey,
+  nativeToScVal,
+  rpc,
+  xdr,
+} from "@stellar/stellar-sdk";
 import { getStellarWalletService } from "./stellar-wallet.service";
-// import prisma from "@/lib/prisma"; // DISABLED FOR DEMO
+import { getFeeSponsorService } from "./fee-sponsor.service";
+import { WalletOperationQueue } from "./wallet-queue.service";
+import { getOperationRecordService } from "./operation-record.service";
+import {
+  SlippagePolicy,
+  SlippageLimitError,
+  PriceMovedError,
+  PRICE_MOVED_ERROR_CODE,
+} from "./slippage.service";
+import {
+  SigningPolicyViolationError,
+  SIGNING_POLICY_ERROR_CODE,
+  type SigningOperation,
+} from "./signing-policy.service";
+import { Money } from "@/lib/money";
+import {
+  VaultContractService,
+  type VaultRpcClient,
+} from "./vault-contract.service";
+import {
+  TransactionTracker,
+  type TrackedTransaction,
+  type TransactionRpcClient,
+  type TransactionStatus,
+  type PollOptions,
+} from "./transaction-tracker.service";
+import {
+  VaultRegistry,
+  loadVaultDefinitionsFromEnv,
+  type VaultDefinition,
+} from "./vault-registry.service";
 
 // ========================================
 // ENUMS
@@ -30,74 +71,292 @@ export enum BridgeStatus {
 
 export interface DefindexConfig {
   apiKey?: string;
-  vaultAddress: string;
+  vaults: VaultDefinition[];
+  defaultVaultId?: string; // Defaults to the first vault
   network: SupportedNetworks;
-  defaultSlippageBps: number;
-  autoInvest: boolean;
+  sorobanRpcUrl?: string; // Defaults to the public testnet RPC
+  maxSlippageBps?: number; // Defaults to MAX_SLIPPAGE_BPS, then 500 (5%)
 }
 
 export interface DepositParams {
   userPublicKey: string;
-  amount: number; // Amount in stroops (7 decimals for USDC)
-  slippageBps?: number; // Optional, defaults to config
-  invest?: boolean; // Optional, defaults to config
+  amount: bigint; // Amount in the asset's smallest unit (stroops)
+  vaultId?: string; // Optional, defaults to the default vault
+  slippageBps?: number; // Optional, defaults to the vault's setting (capped by policy)
+  invest?: boolean; // Optional, defaults to the vault's setting
+}
+
+export interface CustodialDepositOptions {
+  vaultId?: string;
+  slippageBps?: number;
+  invest?: boolean;
+}
+
+export interface CustodialWithdrawOptions {
+  vaultId?: string;
+  slippageBps?: number;
+}
+
+export interface CustodialTransferOptions {
+  vaultId?: string; // The vault whose underlying asset (or shares) is sent
+  token?: "asset" | "shares"; // Defaults to the asset; shares are the vault's own token
 }
 
 export interface DepositResponse {
   success: boolean;
   xdr: string; // Unsigned transaction XDR for user to sign
+  transactionHash: string; // Unchanged by signing, so it identifies the submission
+  vaultId: string;
   vaultAddress: string;
-  amount: number;
+  amount: string; // Stroops
+  expectedShares: string; // Shares minted at the quoted price, in stroops
+  minSharesOut: string; // Least shares accepted, in stroops
   slippageBps: number;
 }
 
+/**
+ * Soroban RPC methods the service needs: simulation for vault reads,
+ * submission and status polling for transactions, and account loading
+ * and preparation for the token transfers it builds itself (the
+ * account entry gives the XLM reserve a transfer must leave behind)
+ */
+export type DefindexRpcClient = VaultRpcClient &
+  TransactionRpcClient &
+  Pick<rpc.Server, "getAccount" | "getAccountEntry" | "prepareTransaction">;
+
 export interface SubmitTransactionParams {
   signedXdr: string;
+  /** Called once the transaction settles on the ledger */
+  onSettled?: (transaction: TrackedTransaction) => void | Promise<void>;
 }
 
 export interface SubmitTransactionResponse {
   success: boolean;
   transactionHash: string;
+  status?: TransactionStatus; // PENDING until the ledger settles it
+  statusUrl?: string; // Poll this for SUCCESS / FAILED / TIMEOUT
+  ledger?: number;
+  feeCharged?: string; // Stroops of XLM
   returnValue?: any;
   error?: string;
+  errorCode?: string; // Network result code when rejected, e.g. "txBadSeq", "priceMoved" or "signingPolicy"
 }
 
 export interface VaultBalanceResponse {
   success: boolean;
   userPublicKey: string;
+  vaultId: string;
   vaultAddress: string;
-  balance?: number;
-  vaultShares?: number;
+  // All amounts in stroops, as decimal-integer strings
+  balance?: string; // Underlying asset value of the shares
+  vaultShares?: string;
+  totalSupply?: string;
+  totalManagedFunds?: string;
   error?: string;
 }
 
-export interface WithdrawParams {
-  userPublicKey: string;
-  shares: number; // Number of vault shares to withdraw
-  slippageBps?: number; // Optional, defaults to config
+export interface WithdrawForUserResponse extends SubmitTransactionResponse {
+  shares?: string; // Shares burned, in stroops
+  expectedAmount?: string; // Assets expected back, in stroops
+  minAssetsOut?: string; // Least assets accepted, in stroops
+}
+
+export interface TransferForUserResponse extends SubmitTransactionResponse {
+  amount?: string; // Assets (or shares) sent, in stroops
 }
 
+export type WithdrawPreviewParams = { shares: bigint } | { amount: bigint };
+
+/**
+ * What to withdraw: an exact share count, an asset amount
+ * (converted to shares at the live price), or the full balance
+ */
+export type WithdrawTarget = WithdrawPreviewParams | { all: true };
+
+export type WithdrawParams = WithdrawTarget & {
+  userPublicKey: string;
+  vaultId?: string; // Optional, defaults to the default vault
+  slippageBps?: number; // Optional, defaults to the vault's setting (capped by policy)
+};
+
 export interface WithdrawResponse {
   success: boolean;
   xdr: string; // Unsigned transaction XDR for user to sign
+  transactionHash: string; // Unchanged by signing, so it identifies the submission
+  vaultId: string;
   vaultAddress: string;
-  shares: number;
+  shares: string; // Stroops
+  expectedAmount: string; // Assets received at the current share price, in stroops
+  minAssetsOut: string; // Least assets accepted, in stroops
   slippageBps: number;
 }
 
+export interface DepositPreviewResponse {
+  success: boolean;
+  vaultId: string;
+  vaultAddress: string;
+  amount: string; // Assets deposited, in stroops
+  expectedShares: string; // Shares minted, in stroops
+  minSharesOut: string; // Least shares accepted at slippageBps, in stroops
+  slippageBps: number;
+  pricePerShare: number;
+}
+
+export interface WithdrawPreviewResponse {
+  success: boolean;
+  vaultId: string;
+  vaultAddress: string;
+  shares: string; // Shares burned, in stroops
+  expectedAmount: string; // Assets received, in stroops
+  minAssetsOut: string; // Least assets accepted at slippageBps, in stroops
+  slippageBps: number;
+  pricePerShare: number;
+}
+
 // ========================================
 // DEFINDEX SERVICE CLASS
 // ========================================
 
+const DEFAULT_SOROBAN_RPC_URL = "https://soroban-testnet.stellar.org";
+
+// Custodial submissions: attempts per operation, and the result codes
+// that mean "rebuild with a fresh sequence number and try again"
+const MAX_SUBMIT_ATTEMPTS = 3;
+const RETRYABLE_SUBMIT_CODES = ["txBadSeq", "txTooLate", "tryAgainLater"];
+const RETRY_DELAY_MS = 1_000;
+
+// A built transaction closer than this to its time bound is rebuilt before signing
+const MIN_TX_VALIDITY_MS = 10_000;
+
+// How long a queued operation waits for the wallet's previous transaction to settle
+const PREVIOUS_TX_WAIT_MS = 30_000;
+
+// Validity window of the token transfers the service builds
+const TRANSFER_TIMEOUT_SECONDS = 60;
+
+// XLM locked per ledger entry an account owns, in stroops (network
+// parameter, 0.5 XLM on both testnet and mainnet)
+const BASE_RESERVE_STROOPS = BigInt(5_000_000);
+
+/**
+ * Result code of a rejected transaction, looking through fee bumps
+ */
+function rejectionCode(result: xdr.TransactionResult): string {
+  const outer = result.result();
+  if (outer.switch().name === "txFeeBumpInnerFailed") {
+    return outer.innerResultPair().result().result().switch().name;
+  }
+  return outer.switch().name;
+}
+
+/**
+ * Whether a built transaction's time bound is too close to sign and submit
+ */
+function expiresSoon(transactionXdr: string, networkPassphrase: string): boolean {
+  const transaction = TransactionBuilder.fromXDR(transactionXdr, networkPassphrase);
+  const maxTime =
+    "timeBounds" in transaction ? Number(transaction.timeBounds?.maxTime ?? 0) : 0;
+  return maxTime !== 0 && maxTime * 1000 - Date.now() < MIN_TX_VALIDITY_MS;
+}
+
+/**
+ * Hex hash of a transaction envelope; signatures are not part of it
+ */
+function transactionHash(transactionXdr: string, networkPassphrase: string): string {
+  return TransactionBuilder.fromXDR(transactionXdr, networkPassphrase).hash().toString("hex");
+}
+
+/**
+ * errorCode for a custodial operation that failed before submission
+ */
+function preSubmitErrorCode(error: unknown): string | undefined {
+  if (error instanceof PriceMovedError) return PRICE_MOVED_ERROR_CODE;
+  if (error instanceof SigningPolicyViolationError) return SIGNING_POLICY_ERROR_CODE;
+  return undefined;
+}
+
+/**
+ * XLM an account must keep, in stroops: two base reserves, one per
+ * subentry and sponsorship, plus XLM promised to open offers
+ */
+function minimumBalance(entry: xdr.AccountEntry): bigint {
+  let sponsoring = 0;
+  let sponsored = 0;
+  let sellingLiabilities = BigInt(0);
+
+  const ext = entry.ext();
+  if (ext.switch() === 1) {
+    const v1 = ext.v1();
+    sellingLiabilities = BigInt(v1.liabilities().selling().toString());
+    if (v1.ext().switch() === 2) {
+      sponsoring = v1.ext().v2().numSponsoring();
+      sponsored = v1.ext().v2().numSponsored();
+    }
+  }
+
+  const reserves = 2 + entry.numSubEntries() + sponsoring - sponsored;
+  return BigInt(reserves) * BASE_RESERVE_STROOPS + sellingLiabilities;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Build the pending handle clients poll for a submitted transaction
+ */
+function toSubmitResponse(
+  transaction: TrackedTransaction
+): SubmitTransactionResponse {
+  return {
+    success: transaction.status !== "FAILED" && transaction.status !== "TIMEOUT",
+    transactionHash: transaction.hash,
+    status: transaction.status,
+    statusUrl: `/api/defindex/transactions/${transaction.hash}`,
+    ledger: transaction.ledger,
+    feeCharged: transaction.feeCharged?.toString(),
+    returnValue: transaction.returnValue,
+    error: transaction.error,
+  };
+}
+
 export class DefindexService {
   private sdk: DefindexSDK;
   private config: DefindexConfig;
+  private vaults: VaultRegistry;
+  private vaultContract: VaultContractService;
+  private rpcClient: DefindexRpcClient;
+  private tracker: TransactionTracker;
+  private networkPassphrase: string;
+  private slippagePolicy: SlippagePolicy;
+  private walletQueue: WalletOperationQueue = new WalletOperationQueue();
+  private lastSubmissions: Map<string, string> = new Map(); // wallet -> tx hash
 
-  constructor(config: DefindexConfig) {
+  /**
+   * @param config - Service configuration
+   * @param rpcClient - Optional Soroban RPC client (defaults to config.sorobanRpcUrl)
+   */
+  constructor(config: DefindexConfig, rpcClient?: DefindexRpcClient) {
     this.config = config;
     this.sdk = new DefindexSDK({
       apiKey: config.apiKey,
     });
+    this.vaults = new VaultRegistry(config.vaults, config.defaultVaultId);
+
+    this.networkPassphrase =
+      config.network === SupportedNetworks.MAINNET
+        ? Networks.PUBLIC
+        : Networks.TESTNET;
+
+    this.rpcClient =
+      rpcClient ??
+      new rpc.Server(config.sorobanRpcUrl || DEFAULT_SOROBAN_RPC_URL);
+    this.vaultContract = new VaultContractService(
+      this.rpcClient,
+      this.networkPassphrase
+    );
+    this.tracker = new TransactionTracker(this.rpcClient);
+    this.slippagePolicy = new SlippagePolicy(config.maxSlippageBps);
   }
 
   /**
@@ -105,19 +364,31 @@ export class DefindexService {
    *
    * This method creates an unsigned transaction XDR that the user
    * must sign with their private key (via MiniKit on frontend).
+   * The minimum shares out are quoted from the live share price, and
+   * the built transaction is simulated to check it still meets them.
+   * The transaction's signed amounts_min must also be within the
+   * tolerance of the deposited amount.
    *
    * @param params - Deposit parameters
    * @returns Unsigned transaction XDR and metadata
+   * @throws SlippageLimitError if slippageBps is above the server maximum
+   * @throws PriceMovedError if the deposit would mint fewer shares than quoted,
+   *   or its amounts_min is looser than the tolerance
    */
   async buildDepositTransaction(
     params: DepositParams
   ): Promise<DepositResponse> {
+    const vault = this.vaults.get(params.vaultId);
+
     try {
-      const slippageBps = params.slippageBps ?? this.config.defaultSlippageBps;
-      const invest = params.invest ?? this.config.autoInvest;
+      const slippageBps = this.slippagePolicy.resolveSlippageBps(
+        params.slippageBps,
+        vault.defaultSlippageBps
+      );
+      const invest = params.invest ?? vault.autoInvest;
 
       // Validate amount
-      if (params.amount <= 0) {
+      if (params.amount <= BigInt(0)) {
         throw new Error("Deposit amount must be greater than 0");
       }
 
@@ -126,10 +397,20 @@ export class DefindexService {
         throw new Error("Invalid Stellar public key format");
       }
 
+      // Quote the minimum shares out from a fresh preview
+      const vaultState = await this.vaultContract.getVaultState(vault.address);
+      const quote = this.slippagePolicy.quote(
+        VaultContractService.assetsToShares(params.amount, vaultState),
+        slippageBps
+      );
+
       console.log("Building deposit transaction:", {
-        vaultAddress: this.config.vaultAddress,
+        vaultId: vault.id,
+        vaultAddress: vault.address,
         caller: params.userPublicKey,
-        amount: params.amount,
+        amount: Money.fromUnits(params.amount, vault.decimals).toString(),
+        expectedShares: quote.expected.toString(),
+        minSharesOut: quote.minimum.toString(),
         slippageBps,
         invest,
         network: this.config.network,
@@ -137,10 +418,10 @@ export class DefindexService {
 
       // Build deposit transaction using Defindex SDK
       const depositResponse = await this.sdk.depositToVault(
-        this.config.vaultAddress,
+        vault.address,
         {
           caller: params.userPublicKey,
-          amounts: [params.amount],
+          amounts: [Money.fromUnits(params.amount, vault.decimals).toSafeNumber()],
           slippageBps,
           invest,
         },
@@ -151,15 +432,40 @@ export class DefindexService {
         throw new Error("Failed to build deposit transaction: No XDR returned");
       }
 
+      // The price may have moved while the SDK built the transaction
+      const simulatedShares = await this.vaultContract.simulateDeposit(
+        depositResponse.xdr
+      );
+      this.slippagePolicy.assertMinimumOut(quote, simulatedShares, "shares");
+
+      // The vault bounds the assets it takes, not the shares it mints, so
+      // the signed amounts_min must hold the amount to the same tolerance
+      const [minAmountIn = BigInt(0)] = this.vaultContract.minimumAmounts(
+        depositResponse.xdr,
+        "deposit"
+      );
+      this.slippagePolicy.assertMinimumOut(
+        this.slippagePolicy.quote(params.amount, slippageBps),
+        minAmountIn,
+        "assets"
+      );
+
       return {
         success: true,
         xdr: depositResponse.xdr,
-        vaultAddress: this.config.vaultAddress,
-        amount: params.amount,
+        transactionHash: transactionHash(depositResponse.xdr, this.networkPassphrase),
+        vaultId: vault.id,
+        vaultAddress: vault.address,
+        amount: params.amount.toString(),
+        expectedShares: quote.expected.toString(),
+        minSharesOut: quote.minimum.toString(),
         slippageBps,
       };
     } catch (error) {
       console.error("Error building deposit transaction:", error);
+      if (error instanceof SlippageLimitError || error instanceof PriceMovedError) {
+        throw error;
+      }
       throw new Error(
         `Failed to build deposit transaction: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -171,8 +477,13 @@ export class DefindexService {
   /**
    * Submit a signed transaction to the Stellar network
    *
-   * @param params - Signed transaction XDR
-   * @returns Transaction result with hash and return value
+   * Returns as soon as the network accepts the transaction, with a
+   * PENDING handle. The transaction is then tracked until the ledger
+   * settles it; poll getTransactionStatus() (or the handle's statusUrl)
+   * for the outcome, ledger, fee charged and decoded return value.
+   *
+   * @param params - Signed transaction XDR and optional settlement callback
+   * @returns Pending handle, or an error if the network rejected it
    */
   async submitTransaction(
     params: SubmitTransactionParams
@@ -180,25 +491,47 @@ export class DefindexService {
     try {
       console.log("Submitting signed transaction to Stellar network...");
 
-      // Submit the signed transaction via Defindex SDK
-      const txResponse = await this.sdk.sendTransaction(
+      // Accepts plain and fee-bump envelopes alike
+      const transaction = TransactionBuilder.fromXDR(
         params.signedXdr,
-        this.config.network
+        this.networkPassphrase
       );
 
-      // Handle different response types
-      const transactionHash = 'hash' in txResponse ? txResponse.hash : txResponse.txHash;
+      const sendResponse = await this.rpcClient.sendTransaction(transaction);
+
+      if (sendResponse.status === "ERROR") {
+        const code = sendResponse.errorResult
+          ? rejectionCode(sendResponse.errorResult)
+          : "unknown error";
+        console.error(`Transaction ${sendResponse.hash} rejected: ${code}`);
+        return {
+          success: false,
+          transactionHash: sendResponse.hash,
+          error: `Transaction rejected: ${code}`,
+          errorCode: code,
+        };
+      }
+
+      if (sendResponse.status === "TRY_AGAIN_LATER") {
+        return {
+          success: false,
+          transactionHash: sendResponse.hash,
+          error: "Network is busy, try again later",
+          errorCode: "tryAgainLater",
+        };
+      }
 
-      console.log("Transaction submitted successfully:", {
-        hash: transactionHash,
-        returnValue: txResponse.returnValue,
+      // PENDING or DUPLICATE: either way the network has it, so track it
+      const tracked = this.tracker.track(sendResponse.hash, {
+        onSettled: params.onSettled,
       });
 
-      return {
-        success: true,
-        transactionHash,
-        returnValue: txResponse.returnValue,
-      };
+      console.log("Transaction submitted, awaiting confirmation:", {
+        hash: sendResponse.hash,
+        status: sendResponse.status,
+      });
+
+      return toSubmitResponse(tracked);
     } catch (error) {
       console.error("Error submitting transaction:", error);
       return {
@@ -210,46 +543,94 @@ export class DefindexService {
     }
   }
 
+  /**
+   * Get the current status of a submitted transaction
+   *
+   * @param hash - Transaction hash
+   * @returns Latest status, or null if the network has not seen it
+   */
+  async getTransactionStatus(
+    hash: string
+  ): Promise<SubmitTransactionResponse | null> {
+    const transaction = await this.tracker.getStatus(hash);
+    return transaction ? toSubmitResponse(transaction) : null;
+  }
+
+  /**
+   * Wait for a submitted transaction to settle
+   *
+   * For scripts and server-side flows that need the final outcome
+   * before continuing; API routes should return the pending handle.
+   *
+   * @param hash - Transaction hash
+   * @param options - Timeout and poll interval
+   * @returns Final status (SUCCESS, FAILED or TIMEOUT)
+   */
+  async waitForTransaction(
+    hash: string,
+    options?: PollOptions
+  ): Promise<SubmitTransactionResponse> {
+    const transaction = await this.tracker.waitForConfirmation(hash, options);
+    return toSubmitResponse(transaction);
+  }
+
   /**
    * Build a withdrawal transaction for user to sign
    *
    * This method creates an unsigned transaction XDR that the user
    * must sign with their private key (via MiniKit on frontend).
    * The withdrawal burns vault shares and returns underlying assets.
+   * The minimum assets out are quoted from the live share price; the
+   * built transaction is simulated to check it still meets them, and
+   * its signed min_amounts_out must be no lower.
    *
    * @param params - Withdrawal parameters
    * @returns Unsigned transaction XDR and metadata
+   * @throws SlippageLimitError if slippageBps is above the server maximum
+   * @throws PriceMovedError if the withdrawal would pay out less than quoted,
+   *   or its min_amounts_out is below the quoted minimum
    */
   async buildWithdrawTransaction(
     params: WithdrawParams
   ): Promise<WithdrawResponse> {
-    try {
-      const slippageBps = params.slippageBps ?? this.config.defaultSlippageBps;
+    const vault = this.vaults.get(params.vaultId);
 
-      // Validate shares amount
-      if (params.shares <= 0) {
-        throw new Error("Withdrawal shares must be greater than 0");
-      }
+    try {
+      const slippageBps = this.slippagePolicy.resolveSlippageBps(
+        params.slippageBps,
+        vault.defaultSlippageBps
+      );
 
       // Validate public key format (basic check)
       if (!params.userPublicKey.startsWith("G") || params.userPublicKey.length !== 56) {
         throw new Error("Invalid Stellar public key format");
       }
 
+      // Work out the exact shares to burn from live vault state
+      const { shares, expectedAmount } = await this.resolveWithdrawShares(
+        vault,
+        params.userPublicKey,
+        params
+      );
+      const quote = this.slippagePolicy.quote(expectedAmount, slippageBps);
+
       console.log("Building withdrawal transaction:", {
-        vaultAddress: this.config.vaultAddress,
+        vaultId: vault.id,
+        vaultAddress: vault.address,
         caller: params.userPublicKey,
-        shares: params.shares,
+        shares: shares.toString(),
+        expectedAmount: Money.fromUnits(expectedAmount, vault.decimals).toString(),
+        minAssetsOut: Money.fromUnits(quote.minimum, vault.decimals).toString(),
         slippageBps,
         network: this.config.network,
       });
 
       // Build withdrawal transaction using Defindex SDK
       const withdrawResponse = await this.sdk.withdrawShares(
-        this.config.vaultAddress,
+        vault.address,
         {
           caller: params.userPublicKey,
-          shares: params.shares,
+          shares: Money.fromUnits(shares, vault.decimals).toSafeNumber(),
           slippageBps,
         },
         this.config.network
@@ -259,15 +640,35 @@ export class DefindexService {
         throw new Error("Failed to build withdrawal transaction: No XDR returned");
       }
 
+      // The price may have moved while the SDK built the transaction
+      const simulatedAmount = await this.vaultContract.simulateWithdraw(
+        withdrawResponse.xdr
+      );
+      this.slippagePolicy.assertMinimumOut(quote, simulatedAmount, "assets");
+
+      // Only the signed min_amounts_out binds once the transaction lands
+      const [minAmountOut = BigInt(0)] = this.vaultContract.minimumAmounts(
+        withdrawResponse.xdr,
+        "withdraw"
+      );
+      this.slippagePolicy.assertMinimumOut(quote, minAmountOut, "assets");
+
       return {
         success: true,
         xdr: withdrawResponse.xdr,
-        vaultAddress: this.config.vaultAddress,
-        shares: params.shares,
+        transactionHash: transactionHash(withdrawResponse.xdr, this.networkPassphrase),
+        vaultId: vault.id,
+        vaultAddress: vault.address,
+        shares: shares.toString(),
+        expectedAmount: expectedAmount.toString(),
+        minAssetsOut: quote.minimum.toString(),
         slippageBps,
       };
     } catch (error) {
       console.error("Error building withdrawal transaction:", error);
+      if (error instanceof SlippageLimitError || error instanceof PriceMovedError) {
+        throw error;
+      }
       throw new Error(
         `Failed to build withdrawal transaction: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -276,40 +677,117 @@ export class DefindexService {
     }
   }
 
+  /**
+   * Resolve a withdrawal target to the exact shares to burn
+   *
+   * - shares: burned as given, after checking the user holds them
+   * - amount: rounded up to whole shares so the payout covers the amount;
+   *   if the shares left over would be worth nothing, the full balance
+   *   is burned instead of leaving dust behind
+   * - all: burns exactly the user's share balance
+   *
+   * @param vault - Vault to withdraw from
+   * @param userPublicKey - Account holding the shares
+   * @param target - Shares, asset amount (stroops) or everything
+   * @returns Shares to burn and the assets expected back
+   */
+  private async resolveWithdrawShares(
+    vault: VaultDefinition,
+    userPublicKey: string,
+    target: WithdrawTarget
+  ): Promise<{ shares: bigint; expectedAmount: bigint }> {
+    const [shareBalance, vaultState] = await Promise.all([
+      this.vaultContract.getShareBalance(vault.address, userPublicKey),
+      this.vaultContract.getVaultState(vault.address),
+    ]);
+
+    let shares: bigint;
+
+    if ("all" in target) {
+      shares = shareBalance;
+    } else if ("shares" in target) {
+      if (target.shares <= BigInt(0)) {
+        throw new Error("Withdrawal shares must be greater than 0");
+      }
+      shares = target.shares;
+    } else {
+      if (target.amount <= BigInt(0)) {
+        throw new Error("Withdrawal amount must be greater than 0");
+      }
+      shares = VaultContractService.sharesForAssets(target.amount, vaultState);
+
+      const remaining = shareBalance - shares;
+      if (
+        remaining > BigInt(0) &&
+        VaultContractService.sharesToAssets(remaining, vaultState) === BigInt(0)
+      ) {
+        shares = shareBalance;
+      }
+    }
+
+    if (shares <= BigInt(0)) {
+      throw new Error("No vault shares to withdraw");
+    }
+
+    if (shares > shareBalance) {
+      throw new Error(
+        `Insufficient vault shares: requested ${shares}, available ${shareBalance}`
+      );
+    }
+
+    return {
+      shares,
+      expectedAmount: VaultContractService.sharesToAssets(shares, vaultState),
+    };
+  }
+
   /**
    * Get user's balance in the vault
    *
-   * Note: This is a placeholder. Actual implementation would query
-   * the vault contract directly using Stellar SDK.
+   * Simulates the vault's balance, total_supply and
+   * fetch_total_managed_funds calls, then converts the user's
+   * shares into underlying assets at the current share price.
    *
    * @param userPublicKey - User's Stellar public key
+   * @param vaultId - Optional vault, defaults to the default vault
    * @returns Vault balance information
    */
   async getVaultBalance(
-    userPublicKey: string
+    userPublicKey: string,
+    vaultId?: string
   ): Promise<VaultBalanceResponse> {
+    const vault = this.vaults.get(vaultId);
+
     try {
-      // TODO: Implement actual vault balance query
-      // This would typically involve:
-      // 1. Query vault contract for user's shares
-      // 2. Query vault contract for total assets
-      // 3. Calculate user's balance from shares
+      console.log("Querying vault balance for user:", userPublicKey, vault.id);
 
-      console.log("Querying vault balance for user:", userPublicKey);
+      const [vaultShares, vaultState] = await Promise.all([
+        this.vaultContract.getShareBalance(vault.address, userPublicKey),
+        this.vaultContract.getVaultState(vault.address),
+      ]);
+
+      const balance = VaultContractService.sharesToAssets(
+        vaultShares,
+        vaultState
+      );
 
       return {
         success: true,
         userPublicKey,
-        vaultAddress: this.config.vaultAddress,
-        balance: 0, // Placeholder
-        vaultShares: 0, // Placeholder
+        vaultId: vault.id,
+        vaultAddress: vault.address,
+        balance: balance.toString(),
+        vaultShares: vaultShares.toString(),
+        totalSupply: vaultState.totalSupply.toString(),
+        totalManagedFunds: vaultState.totalManagedFunds.toString(),
       };
     } catch (error) {
       console.error("Error querying vault balance:", error);
       return {
         success: false,
         userPublicKey,
-        vaultAddress: this.config.vaultAddress,
+        vaultId: vault.id,
+        vaultAddress: vault.address,
         error:
           error instanceof Error
             ? error.message
@@ -319,25 +797,115 @@ export class DefindexService {
   }
 
   /**
-   * Helper: Convert amount from human-readable to stroops
+   * Preview the shares minted by a deposit
    *
-   * USDC on Stellar has 7 decimals, so 1 USDC = 10000000 stroops
+   * Uses the vault's current price per share, so the result is
+   * an estimate until the deposit lands on-chain. The minimum shares
+   * are what a deposit built now would accept.
    *
-   * @param amount - Human-readable amount (e.g., 100.5)
-   * @returns Amount in stroops
+   * @param amount - Deposit amount in stroops
+   * @param vaultId - Optional vault, defaults to the default vault
+   * @param slippageBps - Optional tolerance, defaults to the vault's setting
+   * @returns Expected and minimum shares, and the price they were quoted at
+   * @throws SlippageLimitError if slippageBps is above the server maximum
    */
-  static amountToStroops(amount: number): number {
-    return Math.floor(amount * 10000000);
+  async previewDeposit(
+    amount: bigint,
+    vaultId?: string,
+    slippageBps?: number
+  ): Promise<DepositPreviewResponse> {
+    const vault = this.vaults.get(vaultId);
+    const tolerance = this.slippagePolicy.resolveSlippageBps(
+      slippageBps,
+      vault.defaultSlippageBps
+    );
+
+    if (amount <= BigInt(0)) {
+      throw new Error("Deposit amount must be greater than 0");
+    }
+
+    const vaultState = await this.vaultContract.getVaultState(vault.address);
+    const quote = this.slippagePolicy.quote(
+      VaultContractService.assetsToShares(amount, vaultState),
+      tolerance
+    );
+
+    return {
+      success: true,
+      vaultId: vault.id,
+      vaultAddress: vault.address,
+      amount: amount.toString(),
+      expectedShares: quote.expected.toString(),
+      minSharesOut: quote.minimum.toString(),
+      slippageBps: tolerance,
+      pricePerShare: VaultContractService.pricePerShare(vaultState),
+    };
   }
 
   /**
-   * Helper: Convert amount from stroops to human-readable
+   * Preview a withdrawal by share count or by asset amount
    *
-   * @param stroops - Amount in stroops
-   * @returns Human-readable amount
+   * When previewing by amount, the share count is rounded up so
+   * the withdrawal pays out at least the requested amount.
+   *
+   * @param params - Either shares to burn or assets to receive, in stroops
+   * @param vaultId - Optional vault, defaults to the default vault
+   * @param slippageBps - Optional tolerance, defaults to the vault's setting
+   * @returns Shares burned, expected and minimum assets, and the quoted price
+   * @throws SlippageLimitError if slippageBps is above the server maximum
    */
-  static stroopsToAmount(stroops: number): number {
-    return stroops / 10000000;
+  async previewWithdraw(
+    params: WithdrawPreviewParams,
+    vaultId?: string,
+    slippageBps?: number
+  ): Promise<WithdrawPreviewResponse> {
+    const vault = this.vaults.get(vaultId);
+    const tolerance = this.slippagePolicy.resolveSlippageBps(
+      slippageBps,
+      vault.defaultSlippageBps
+    );
+    const requested = "shares" in params ? params.shares : params.amount;
+    if (requested <= BigInt(0)) {
+      throw new Error("Withdrawal amount must be greater than 0");
+    }
+
+    const vaultState = await this.vaultContract.getVaultState(vault.address);
+    const shares =
+      "shares" in params
+        ? params.shares
+        : VaultContractService.sharesForAssets(params.amount, vaultState);
+    const quote = this.slippagePolicy.quote(
+      VaultContractService.sharesToAssets(shares, vaultState),
+      tolerance
+    );
+
+    return {
+      success: true,
+      vaultId: vault.id,
+      vaultAddress: vault.address,
+      shares: shares.toString(),
+      expectedAmount: quote.expected.toString(),
+      minAssetsOut: quote.minimum.toString(),
+      slippageBps: tolerance,
+      pricePerShare: VaultContractService.pricePerShare(vaultState),
+    };
+  }
+
+  /**
+   * List the vaults users can deposit into, default vault first
+   */
+  getVaults(): VaultDefinition[] {
+    return this.vaults.list();
+  }
+
+  /**
+   * Get a vault's definition
+   *
+   * @param vaultId - Optional vault, defaults to the default vault
+   * @throws UnknownVaultError if no vault has that id
+   */
+  getVault(vaultId?: string): VaultDefinition {
+    return this.vaults.get(vaultId);
   }
 
   // ========================================
@@ -351,21 +919,32 @@ export class DefindexService {
    * 1. Get user's Stellar address
    * 2. Build deposit transaction
    * 3. Sign with backend-managed key
-   * 4. Submit to Stellar network
-   * 5. Record in database
+   * 4. Wrap in a treasury-paid fee bump
+   * 5. Submit to Stellar network (returns a pending handle)
+   * 6. Record the deposit, and settle it once the ledger confirms it
+   *
+   * Steps 2-5 hold the wallet's queue slot, so concurrent calls for
+   * the same user run one after another instead of racing for the
+   * same sequence number.
+   *
+   * The record is marked FAILED only if nothing was submitted. Once a
+   * transaction is, its settlement decides the outcome, even if a
+   * later step here throws; the pending handle is still returned.
    *
    * @param userId - User identifier (World ID)
    * @param amount - Amount in stroops
-   * @param slippageBps - Optional slippage tolerance
-   * @param invest - Optional, whether to auto-invest (defaults to config)
+   * @param options - Optional vault, slippage tolerance and auto-invest flag
    * @returns Transaction result
    */
   async depositForUser(
     userId: string,
-    amount: number,
-    slippageBps?: number,
-    invest?: boolean
+    amount: bigint,
+    options: CustodialDepositOptions = {}
   ): Promise<SubmitTransactionResponse> {
+    const records = getOperationRecordService();
+    let depositId: string | undefined;
+    let submitted: SubmitTransactionResponse | undefined;
+
     try {
       const walletService = getStellarWalletService();
 
@@ -373,130 +952,233 @@ export class DefindexService {
       const stellarWallet = await walletService.getUserWallet(userId);
       const stellarPublicKey = stellarWallet.stellarPublicKey;
 
-      console.log(`💰 Depositing ${DefindexService.stroopsToAmount(amount)} USDC for user ${userId}`);
+      const vault = this.vaults.get(options.vaultId);
+      const slippageBps = this.slippagePolicy.resolveSlippageBps(
+        options.slippageBps,
+        vault.defaultSlippageBps
+      );
+
+      console.log(`💰 Depositing ${Money.fromUnits(amount, vault.decimals)} ${vault.assetSymbol} into ${vault.id} for user ${userId}`);
       console.log(`   Stellar address: ${stellarPublicKey}`);
 
-      // Build deposit transaction
-      const depositResponse = await this.buildDepositTransaction({
-        userPublicKey: stellarPublicKey,
+      // Recorded before anything is signed, so every attempt leaves a trace
+      const deposit = await records.startDeposit({
+        userId,
+        stellarWalletId: stellarWallet.id,
+        stellarPublicKey,
+        vaultAddress: vault.address,
         amount,
         slippageBps,
-        invest,
       });
+      depositId = deposit.id;
 
-      console.log(`   Transaction built, now signing with backend key...`);
-
-      // Sign transaction with backend-managed key
-      const signedXdr = await walletService.signTransactionForUser(
+      // Build, sign and submit while holding the wallet's sequence number;
+      // the outcome arrives once the ledger settles it
+      const { submitResponse } = await this.signAndSubmitForUser(
         userId,
-        depositResponse.xdr
+        stellarPublicKey,
+        "defindex.deposit",
+        () =>
+          this.buildDepositTransaction({
+            userPublicKey: stellarPublicKey,
+            amount,
+            vaultId: vault.id,
+            slippageBps,
+            invest: options.invest,
+          }),
+        async (transaction) => {
+          await records.settleDeposit(deposit.id, transaction);
+        }
       );
 
-      console.log(`   Transaction signed, submitting to Stellar...`);
-
-      // Submit to Stellar network
-      const submitResponse = await this.submitTransaction({ signedXdr });
-
       if (!submitResponse.success) {
         throw new Error(submitResponse.error || "Failed to submit transaction");
       }
+      submitted = submitResponse;
 
-      console.log(`✅ Deposit successful! TX: ${submitResponse.transactionHash}`);
-
-      // Extract vault shares from return value
-      // Return value format: [ [amounts], totalShares, null ]
-      let vaultShares: string | undefined;
-      if (Array.isArray(submitResponse.returnValue) && submitResponse.returnValue.length >= 2) {
-        vaultShares = String(submitResponse.returnValue[1]);
-      }
+      await records.attachDepositTransaction(deposit.id, submitResponse.transactionHash);
 
-      // DEMO MODE: Skip database recording
-      console.log(`📝 [DEMO] Skipping database recording for deposit`);
-      console.log(`   User: ${userId}`);
-      console.log(`   Amount: ${DefindexService.stroopsToAmount(amount)} tokens`);
-      console.log(`   Vault Shares: ${vaultShares}`);
-      console.log(`   TX Hash: ${submitResponse.transactionHash}`);
+      console.log(`⏳ Deposit submitted, awaiting confirmation. TX: ${submitResponse.transactionHash}`);
 
       return submitResponse;
     } catch (error) {
       console.error("Error in depositForUser:", error);
+      // Once submitted, the transaction can still land: the settle
+      // callback finishes the record, so it must not be failed here
+      if (submitted) {
+        return submitted;
+      }
+      if (depositId) {
+        await records.transitionDeposit(depositId, "FAILED").catch((recordError) =>
+          console.error("Error marking deposit failed:", recordError)
+        );
+      }
       return {
         success: false,
         transactionHash: "",
         error: error instanceof Error ? error.message : "Failed to deposit",
+        errorCode: preSubmitErrorCode(error),
       };
     }
   }
 
   /**
-   * Record deposit in database
-   *
-   * @param params - Deposit details
-   */
-  private async recordDeposit(params: {
-    userId: string;
-    stellarWalletId: string;
-    amount: number;
-    slippageBps: number;
-    defindexDepositTx: string;
-    vaultShares?: any;
-  }): Promise<void> {
-    // Everything stored in memory - no database needed
-    console.log(`📝 Recorded deposit in memory`);
-  }
-
-  /**
-   * Get user's vault balance from database
+   * Get a custodial user's vault balance from the chain
    *
    * @param userId - User identifier
+   * @param vaultId - Optional vault, defaults to the default vault
    * @returns Vault balance information
    */
-  async getUserVaultBalance(userId: string): Promise<VaultBalanceResponse> {
+  async getUserVaultBalance(
+    userId: string,
+    vaultId?: string
+  ): Promise<VaultBalanceResponse> {
+    const vault = this.vaults.get(vaultId);
+
     try {
       const walletService = getStellarWalletService();
       const stellarPublicKey = await walletService.getUserStellarAddress(userId);
 
-      // DEMO MODE: Return mock balance
-      console.log(`📊 [DEMO] Returning mock vault balance for user ${userId}`);
-
-      return {
-        success: true,
-        userPublicKey: stellarPublicKey,
-        vaultAddress: this.config.vaultAddress,
-        balance: 0,
-        vaultShares: 0,
-      };
+      return await this.getVaultBalance(stellarPublicKey, vault.id);
     } catch (error) {
       console.error("Error getting user vault balance:", error);
       return {
         success: false,
         userPublicKey: "",
-        vaultAddress: this.config.vaultAddress,
+        vaultId: vault.id,
+        vaultAddress: vault.address,
         error: error instanceof Error ? error.message : "Failed to get balance",
       };
     }
   }
 
+  /**
+   * Build, sign, fee-bump and submit a custodial transaction
+   *
+   * Runs in the wallet's operation queue, so only one transaction per
+   * wallet is in flight: each operation first waits for the wallet's
+   * previous transaction to settle, then builds against a fresh
+   * sequence number. Rejections caused by a stale sequence or time
+   * bound (tx_bad_seq, tx_too_late) are rebuilt and retried, and a
+   * transaction about to expire is rebuilt before it is signed.
+   *
+   * @param userId - User whose backend-managed key signs
+   * @param walletKey - User's Stellar public key
+   * @param operation - Calling operation, for the signing audit log
+   * @param build - Builds the unsigned transaction; called again on retry
+   * @param onSettled - Called with the settled transaction and the build it came from
+   * @param destination - Recipient the signing policy pins a transfer to
+   * @returns Submit response and the build that was submitted
+   * @throws SigningPolicyViolationError if the signing policy rejects the transaction
+   */
+  private async signAndSubmitForUser<T extends { xdr: string }>(
+    userId: string,
+    walletKey: string,
+    operation: SigningOperation,
+    build: () => Promise<T>,
+    onSettled: (transaction: TrackedTransaction, built: T) => void | Promise<void>,
+    destination?: string
+  ): Promise<{ submitResponse: SubmitTransactionResponse; built: T }> {
+    return this.walletQueue.run(walletKey, async () => {
+      const walletService = getStellarWalletService();
+      const feeSponsor = getFeeSponsorService();
+
+      // The previous transaction must land before the next sequence number is free
+      const previousHash = this.lastSubmissions.get(walletKey);
+      if (previousHash) {
+        await this.tracker.waitForConfirmation(previousHash, {
+          timeoutMs: PREVIOUS_TX_WAIT_MS,
+        });
+      }
+
+      for (let attempt = 1; ; attempt++) {
+        const built = await build();
+
+        if (expiresSoon(built.xdr, this.networkPassphrase)) {
+          if (attempt >= MAX_SUBMIT_ATTEMPTS) {
+            throw new Error("Transaction expired before it could be signed");
+          }
+          console.warn(`⌛ Built transaction expires too soon, rebuilding (attempt ${attempt})`);
+          continue;
+        }
+
+        console.log(`   Transaction built, now signing with backend key...`);
+
+        // Sign transaction with backend-managed key
+        const signedXdr = await walletService.signTransactionForUser(
+          userId,
+          built.xdr,
+          operation,
+          { networkPassphrase: this.networkPassphrase, destination }
+        );
+
+        // Treasury pays the network fee, so the user needs no XLM
+        const sponsored = await feeSponsor.sponsorTransaction(userId, signedXdr);
+
+        console.log(`   Transaction signed and fee-bumped, submitting to Stellar...`);
+
+        const submitResponse = await this.submitTransaction({
+          signedXdr: sponsored.xdr,
+          onSettled: async (transaction) => {
+            // Failed transactions are charged fees too
+            if (transaction.feeCharged !== undefined) {
+              await feeSponsor.recordFeeCharged(transaction.hash, transaction.feeCharged);
+            }
+            await onSettled(transaction, built);
+          },
+        });
+
+        if (submitResponse.success) {
+          this.lastSubmissions.set(walletKey, submitResponse.transactionHash);
+          return { submitResponse, built };
+        }
+
+        if (submitResponse.errorCode) {
+          // Rejected at submission, so the treasury was not charged
+          await feeSponsor.recordFeeCharged(sponsored.transactionHash, BigInt(0));
+        }
+
+        const retryable =
+          submitResponse.errorCode !== undefined &&
+          RETRYABLE_SUBMIT_CODES.includes(submitResponse.errorCode);
+        if (!retryable || attempt >= MAX_SUBMIT_ATTEMPTS) {
+          return { submitResponse, built };
+        }
+
+        console.warn(`🔁 Submission rejected with ${submitResponse.errorCode}, rebuilding (attempt ${attempt})`);
+        await sleep(RETRY_DELAY_MS * attempt);
+      }
+    });
+  }
+
   /**
    * Withdraw from vault with backend signing (custodial)
    *
    * This method handles the entire withdrawal flow:
-   * 1. Get user's Stellar address and vault shares
-   * 2. Build withdrawal transaction
-   * 3. Sign with backend-managed key
-   * 4. Submit to Stellar network
-   * 5. Record in database
+   * 1. Get user's Stellar address
+   * 2. Resolve shares to burn against the user's on-chain balance
+   * 3. Build withdrawal transaction
+   * 4. Sign with backend-managed key
+   * 5. Wrap in a treasury-paid fee bump
+   * 6. Submit to Stellar network (returns a pending handle)
+   * 7. Record the withdrawal, and settle it once the ledger confirms it
+   *
+   * Steps 2-6 hold the wallet's queue slot (see depositForUser).
    *
    * @param userId - User identifier (World ID)
-   * @param shares - Number of vault shares to withdraw
-   * @param slippageBps - Optional slippage tolerance
+   * @param target - Shares, asset amount (stroops) or everything
+   * @param options - Optional vault and slippage tolerance
    * @returns Transaction result
    */
   async withdrawForUser(
     userId: string,
-    shares: number,
-    slippageBps?: number
-  ): Promise<SubmitTransactionResponse> {
+    target: WithdrawTarget,
+    options: CustodialWithdrawOptions = {}
+  ): Promise<WithdrawForUserResponse> {
+    const records = getOperationRecordService();
+    let withdrawalId: string | undefined;
+    let submitted: WithdrawForUserResponse | undefined;
+
     try {
       const walletService = getStellarWalletService();
 
@@ -504,78 +1186,267 @@ export class DefindexService {
       const stellarWallet = await walletService.getUserWallet(userId);
       const stellarPublicKey = stellarWallet.stellarPublicKey;
 
-      console.log(`💸 Withdrawing ${shares} shares for user ${userId}`);
-      console.log(`   Stellar address: ${stellarPublicKey}`);
+      const vault = this.vaults.get(options.vaultId);
+      const slippageBps = this.slippagePolicy.resolveSlippageBps(
+        options.slippageBps,
+        vault.defaultSlippageBps
+      );
 
-      // DEMO MODE: Skip balance check
-      console.log(`📊 [DEMO] Skipping vault balance check`);
+      console.log(`💸 Withdrawing for user ${userId}:`, target);
+      console.log(`   Stellar address: ${stellarPublicKey}`);
 
-      // Build withdrawal transaction
-      const withdrawResponse = await this.buildWithdrawTransaction({
-        userPublicKey: stellarPublicKey,
-        shares,
+      // Shares are only known once resolved inside the queue; the record
+      // starts from the request and is completed after submission
+      const withdrawal = await records.startWithdrawal({
+        userId,
+        stellarWalletId: stellarWallet.id,
+        stellarPublicKey,
+        vaultAddress: vault.address,
+        shares: "shares" in target ? target.shares : BigInt(0),
+        expectedAmount: "amount" in target ? target.amount : BigInt(0),
         slippageBps,
       });
+      withdrawalId = withdrawal.id;
 
-      console.log(`   Transaction built, now signing with backend key...`);
-
-      // Sign transaction with backend-managed key
-      const signedXdr = await walletService.signTransactionForUser(
+      // Build, sign and submit while holding the wallet's sequence number.
+      // Shares are resolved inside the lock, against the balance left by
+      // any withdrawal queued ahead of this one.
+      const { submitResponse, built } = await this.signAndSubmitForUser(
         userId,
-        withdrawResponse.xdr
+        stellarPublicKey,
+        "defindex.withdraw",
+        async () => {
+          const withdrawResponse = await this.buildWithdrawTransaction({
+            ...target,
+            userPublicKey: stellarPublicKey,
+            vaultId: vault.id,
+            slippageBps,
+          });
+          console.log(`   Burning ${withdrawResponse.shares} shares for ~${withdrawResponse.expectedAmount} stroops (min ${withdrawResponse.minAssetsOut})`);
+          return withdrawResponse;
+        },
+        async (transaction, { shares, expectedAmount }) => {
+          // The tracker can settle before the submit path attaches the build
+          await records.attachWithdrawalTransaction(
+            withdrawal.id,
+            transaction.hash,
+            BigInt(shares),
+            BigInt(expectedAmount)
+          );
+          await records.settleWithdrawal(withdrawal.id, transaction);
+        }
       );
 
-      console.log(`   Transaction signed, submitting to Stellar...`);
-
-      // Submit to Stellar network
-      const submitResponse = await this.submitTransaction({ signedXdr });
-
       if (!submitResponse.success) {
         throw new Error(submitResponse.error || "Failed to submit transaction");
       }
+      submitted = {
+        ...submitResponse,
+        shares: built.shares,
+        expectedAmount: built.expectedAmount,
+        minAssetsOut: built.minAssetsOut,
+      };
 
-      console.log(`✅ Withdrawal successful! TX: ${submitResponse.transactionHash}`);
-
-      // Extract withdrawn amounts from return value
-      // Return value format: [ [amounts] ]
-      let withdrawnAmounts: any = null;
-      if (Array.isArray(submitResponse.returnValue) && submitResponse.returnValue.length >= 1) {
-        withdrawnAmounts = submitResponse.returnValue[0];
-      }
+      await records.attachWithdrawalTransaction(
+        withdrawal.id,
+        submitResponse.transactionHash,
+        BigInt(built.shares),
+        BigInt(built.expectedAmount)
+      );
 
-      // DEMO MODE: Skip database recording
-      console.log(`📝 [DEMO] Skipping database recording for withdrawal`);
-      console.log(`   User: ${userId}`);
-      console.log(`   Shares: ${shares}`);
-      console.log(`   Withdrawn Amounts: ${withdrawnAmounts}`);
-      console.log(`   TX Hash: ${submitResponse.transactionHash}`);
+      console.log(`⏳ Withdrawal submitted, awaiting confirmation. TX: ${submitResponse.transactionHash}`);
 
-      return submitResponse;
+      return submitted;
     } catch (error) {
       console.error("Error in withdrawForUser:", error);
+      // Submitted: left to the settle callback (see depositForUser)
+      if (submitted) {
+        return submitted;
+      }
+      if (withdrawalId) {
+        await records.transitionWithdrawal(withdrawalId, "FAILED").catch((recordError) =>
+          console.error("Error marking withdrawal failed:", recordError)
+        );
+      }
       return {
         success: false,
         transactionHash: "",
         error: error instanceof Error ? error.message : "Failed to withdraw",
+        errorCode: preSubmitErrorCode(error),
       };
     }
   }
 
   /**
-   * Record withdrawal in database
+   * Get a custodial user's balance of a vault's underlying asset
+   *
+   * This is what sits in the wallet outside the vault, e.g. after a
+   * withdrawal.
+   *
+   * @param userId - User identifier
+   * @param vaultId - Optional vault, defaults to the default vault
+   * @returns Asset balance in stroops
+   * @throws Error if the vault has no asset address configured
+   */
+  async getUserAssetBalance(userId: string, vaultId?: string): Promise<bigint> {
+    const stellarPublicKey = await getStellarWalletService().getUserStellarAddress(userId);
+    return this.getAssetBalance(stellarPublicKey, vaultId);
+  }
+
+  /**
+   * Get any account's balance of a vault's underlying asset
+   *
+   * For native XLM this is the balance the account can send: the XLM
+   * token contract reports the whole balance, including the reserve
+   * the account must keep to exist, which is left out.
+   *
+   * @param stellarPublicKey - Account to read (G...)
+   * @param vaultId - Optional vault, defaults to the default vault
+   * @returns Asset balance in stroops
+   * @throws Error if the vault has no asset address configured
+   */
+  async getAssetBalance(stellarPublicKey: string, vaultId?: string): Promise<bigint> {
+    const vault = this.vaults.get(vaultId);
+    if (!vault.assetAddress) {
+      throw new Error(`Vault ${vault.id} has no asset address configured`);
+    }
+
+    return this.spendableBalance(vault.assetAddress, stellarPublicKey);
+  }
+
+  /**
+   * An account's balance of a token, less the reserve if the token is
+   * native XLM
    *
-   * @param params - Withdrawal details
+   * Fees are paid by the fee sponsor, so the reserve is all that has
+   * to stay behind.
+   *
+   * @returns Balance in stroops, never negative
    */
-  private async recordWithdrawal(params: {
-    userId: string;
-    stellarWalletId: string;
-    shares: number;
-    slippageBps: number;
-    defindexWithdrawTx: string;
-    withdrawnAmounts?: any;
-  }): Promise<void> {
-    // Everything stored in memory - no database needed
-    console.log(`📝 Recorded withdrawal in memory`);
+  private async spendableBalance(tokenAddress: string, account: string): Promise<bigint> {
+    const balance = await this.vaultContract.getTokenBalance(tokenAddress, account);
+    if (tokenAddress !== Asset.native().contractId(this.networkPassphrase)) {
+      return balance;
+    }
+
+    const entry = await this.rpcClient.getAccountEntry(account);
+    const spendable = balance - minimumBalance(entry);
+    return spendable > BigInt(0) ? spendable : BigInt(0);
+  }
+
+  /**
+   * Send a custodial user's whole balance of a vault's asset, or of its
+   * shares, to another Stellar account (custodial)
+   *
+   * The balance is read inside the wallet's queue slot, after any
+   * queued withdrawal has settled, and sent with the token contract's
+   * transfer (vault shares are a token of the vault contract itself).
+   * Native XLM is sent less the account's reserve (see getAssetBalance).
+   * Signing, fee bump and retries work as in depositForUser. Nothing is
+   * recorded; callers keep the hash.
+   *
+   * @param userId - User identifier (World ID)
+   * @param destination - Receiving account (G...) or contract (C...)
+   * @param options - Optional vault, and whether its asset or shares are sent
+   * @returns Transaction result and the amount sent
+   */
+  async transferForUser(
+    userId: string,
+    destination: string,
+    options: CustodialTransferOptions = {}
+  ): Promise<TransferForUserResponse> {
+    try {
+      const walletService = getStellarWalletService();
+      const stellarPublicKey = await walletService.getUserStellarAddress(userId);
+
+      const vault = this.vaults.get(options.vaultId);
+      const shares = options.token === "shares";
+      if (!shares && !vault.assetAddress) {
+        throw new Error(`Vault ${vault.id} has no asset address configured`);
+      }
+      const tokenAddress = shares ? vault.address : vault.assetAddress;
+      const tokenLabel = shares ? `${vault.displayName} shares` : vault.assetSymbol;
+
+      if (!StrKey.isValidEd25519PublicKey(destination) && !StrKey.isValidContract(destination)) {
+        throw new Error("Invalid destination Stellar address");
+      }
+      if (destination === stellarPublicKey) {
+        throw new Error("Destination is the user's own wallet");
+      }
+
+      console.log(`📤 Transferring ${tokenLabel} balance of user ${userId} to ${destination}`);
+
+      const { submitResponse, built } = await this.signAndSubmitForUser(
+        userId,
+        stellarPublicKey,
+        shares ? "shares.transfer" : "asset.transfer",
+        async () => {
+          const amount = shares
+            ? await this.vaultContract.getTokenBalance(tokenAddress, stellarPublicKey)
+            : await this.spendableBalance(tokenAddress, stellarPublicKey);
+          if (amount <= BigInt(0)) {
+            throw new Error(`No ${tokenLabel} to transfer`);
+          }
+          console.log(`   Sending ${Money.fromUnits(amount, vault.decimals)} ${tokenLabel}`);
+          return this.buildTransferTransaction(
+            tokenAddress,
+            stellarPublicKey,
+            destination,
+            amount
+          );
+        },
+        () => undefined,
+        destination
+      );
+
+      if (!submitResponse.success) {
+        return submitResponse;
+      }
+
+      console.log(`⏳ Transfer submitted, awaiting confirmation. TX: ${submitResponse.transactionHash}`);
+
+      return { ...submitResponse, amount: built.amount.toString() };
+    } catch (error) {
+      console.error("Error in transferForUser:", error);
+      return {
+        success: false,
+        transactionHash: "",
+        error: error instanceof Error ? error.message : "Failed to transfer",
+        errorCode: preSubmitErrorCode(error),
+      };
+    }
+  }
+
+  /**
+   * Build a token contract transfer for the sender to sign
+   *
+   * @returns Unsigned, prepared transaction XDR and the amount it sends
+   */
+  private async buildTransferTransaction(
+    tokenAddress: string,
+    from: string,
+    destination: string,
+    amount: bigint
+  ): Promise<{ xdr: string; amount: bigint }> {
+    const account = await this.rpcClient.getAccount(from);
+    const transaction = new TransactionBuilder(account, {
+      fee: BASE_FEE,
+      networkPassphrase: this.networkPassphrase,
+    })
+      .addOperation(
+        new Contract(tokenAddress).call(
+          "transfer",
+          new Address(from).toScVal(),
+          new Address(destination).toScVal(),
+          nativeToScVal(amount, { type: "i128" })
+        )
+      )
+      .setTimeout(TRANSFER_TIMEOUT_SECONDS)
+      .build();
+
+    // Simulation adds the footprint, authorization and resource fee
+    const prepared = await this.rpcClient.prepareTransaction(transaction);
+    return { xdr: prepared.toXDR(), amount };
   }
 
   /**
@@ -596,10 +1467,12 @@ let defindexServiceInstance: DefindexService | null = null;
  * Get or create the singleton Defindex service instance
  *
  * @param config - Optional configuration (required on first call)
+ * @param rpcClient - Optional Soroban RPC client (e.g. a local fake for tests)
  * @returns DefindexService instance
  */
 export function getDefindexService(
-  config?: DefindexConfig
+  config?: DefindexConfig,
+  rpcClient?: DefindexRpcClient
 ): DefindexService {
   if (!defindexServiceInstance) {
     if (!config) {
@@ -607,7 +1480,7 @@ export function getDefindexService(
         "DefindexService configuration required on first initialization"
       );
     }
-    defindexServiceInstance = new DefindexService(config);
+    defindexServiceInstance = new DefindexService(config, rpcClient);
   }
   return defindexServiceInstance;
 }
@@ -618,24 +1491,19 @@ export function getDefindexService(
  * This should be called once at application startup
  */
 export function initializeDefindexService(): DefindexService {
+  // Throws if neither DEFINDEX_VAULTS nor DEFINDEX_VAULT_ADDRESS is set
+  const { vaults, defaultVaultId } = loadVaultDefinitionsFromEnv();
+
   const config: DefindexConfig = {
     apiKey: process.env.DEFINDEX_API_KEY,
-    vaultAddress: process.env.DEFINDEX_VAULT_ADDRESS || "",
+    vaults,
+    defaultVaultId,
     network:
       process.env.STELLAR_NETWORK === "MAINNET"
         ? SupportedNetworks.MAINNET
         : SupportedNetworks.TESTNET,
-    defaultSlippageBps: parseInt(
-      process.env.DEFAULT_SLIPPAGE_BPS || "500",
-      10
-    ),
-    autoInvest: process.env.AUTO_INVEST === "true",
+    sorobanRpcUrl: process.env.STELLAR_SOROBAN_URL,
   };
 
-  // Validate required configuration
-  if (!config.vaultAddress) {
-    throw new Error("DEFINDEX_VAULT_ADDRESS environment variable is required");
-  }
-
   return getDefindexService(config);
 }
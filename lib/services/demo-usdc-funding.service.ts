@@ -2,7 +2,9 @@
  * Demo Token Funding Service
  *
  * Utility for funding demo/test wallets with testnet tokens on Stellar testnet.
- * Uses Soroban's requestAirdrop() to get testnet XLM automatically.
+ * The funding account pays the wallet the XLM it is about to deposit:
+ * the wallet already exists on-chain (created with the starting balance
+ * when it was activated), so friendbot's airdrop would be refused.
  *
  * Note: Currently configured for XLM deposits to match the Defindex vault configuration.
  * The vault CDM7U3IQTUE65ZUFOBLV7NI46GYHNBSXAYAXJ3W3EK4Z7S2RE2EYIBDW accepts XLM deposits.
@@ -10,7 +12,9 @@
  * IMPORTANT: Only use on testnet! Not for production.
  */
 
-import { rpc } from "@stellar/stellar-sdk";
+import { Asset, Networks } from "@stellar/stellar-sdk";
+import type { Money } from "@/lib/money";
+import { getAccountFundingService } from "./account-funding.service";
 
 // ========================================
 // TYPES
@@ -18,7 +22,7 @@ import { rpc } from "@stellar/stellar-sdk";
 
 export interface FundingResult {
   success: boolean;
-  airdropTxHash?: string;
+  transactionHash?: string;
   error?: string;
 }
 
@@ -27,17 +31,11 @@ export interface FundingResult {
 // ========================================
 
 export class DemoUsdcFundingService {
-  private sorobanServer: rpc.Server;
   private usdcContractId: string;
 
   constructor() {
-    // Initialize Soroban RPC server (testnet)
-    const sorobanUrl =
-      process.env.STELLAR_SOROBAN_URL || "https://soroban-testnet.stellar.org";
-    this.sorobanServer = new rpc.Server(sorobanUrl);
-
     // Use testnet XLM contract (matches the Defindex vault configuration)
-    // The current vault accepts XLM deposits, which can be obtained via requestAirdrop()
+    // The current vault accepts XLM deposits, which the funding account sends
     this.usdcContractId =
       process.env.USDC_STELLAR_ADDRESS ||
       "CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQVU2HHGCYSC";
@@ -47,43 +45,41 @@ export class DemoUsdcFundingService {
   }
 
   /**
-   * Fund a wallet with testnet tokens using Soroban airdrop
+   * Whether the demo can fund deposits into a vault of this asset
+   *
+   * Wallets are funded in XLM, so only a native XLM vault qualifies.
+   *
+   * @param assetAddress - The vault's underlying asset contract
+   */
+  canFund(assetAddress: string): boolean {
+    return assetAddress === Asset.native().contractId(Networks.TESTNET);
+  }
+
+  /**
+   * Fund an activated wallet with the testnet XLM it will deposit
    *
-   * On Soroban testnet, requestAirdrop() automatically:
-   * 1. Funds the account with XLM
-   * 2. Adds necessary contract authorizations
-   * 3. Provides testnet tokens
+   * Network fees are paid by the fee sponsor, so the wallet only needs
+   * the amount itself on top of its starting balance.
    *
    * @param targetPublicKey - Stellar public key to fund
+   * @param amount - XLM to send, at most getMaxAmount()
    * @returns Funding result
    */
-  async fundWalletWithAirdrop(
-    targetPublicKey: string
-  ): Promise<FundingResult> {
+  async fundWallet(targetPublicKey: string, amount: Money): Promise<FundingResult> {
     try {
-      console.log(`💵 Requesting airdrop for ${targetPublicKey}...`);
+      console.log(`💵 Sending ${amount} XLM to ${targetPublicKey}...`);
 
-      // Request airdrop from Soroban testnet
-      // This automatically funds the account with XLM and sets up for Soroban usage
-      await this.sorobanServer.requestAirdrop(targetPublicKey);
-
-      console.log(`✅ Airdrop completed successfully`);
+      const payment = await getAccountFundingService().topUpTestnetAccount(
+        targetPublicKey,
+        amount
+      );
 
       return {
         success: true,
-        airdropTxHash: "airdrop-success",
+        transactionHash: payment.transactionHash,
       };
     } catch (error) {
-      console.error("Error requesting airdrop:", error);
-
-      // Check if account already exists
-      if (error instanceof Error && error.message.includes("createAccountAlreadyExist")) {
-        console.log(`   ℹ️  Account already funded`);
-        return {
-          success: true,
-          airdropTxHash: "already-exists",
-        };
-      }
+      console.error("Error funding demo wallet:", error);
 
       return {
         success: false,
@@ -92,6 +88,13 @@ export class DemoUsdcFundingService {
     }
   }
 
+  /**
+   * Get the most XLM a single funding may send
+   */
+  getMaxAmount(): Money {
+    return getAccountFundingService().getMaxTopUp();
+  }
+
   /**
    * Get USDC contract ID
    */
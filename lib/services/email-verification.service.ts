@@ -0,0 +1,270 @@
+/**
+ * Email Verification Service
+ *
+ * Confirms a user owns an email address before the app binds it to
+ * them. World App sign-in carries no email, and Crossmint keys smart
+ * wallets by owner email, so an email taken on the client's word could
+ * claim someone else's Crossmint wallet.
+ *
+ * sendCode() emails a six-digit code and stores only its hash, one per
+ * user; confirm() checks a code against it. A code expires after ten
+ * minutes and allows five attempts, and a new one can be requested at
+ * most once a minute, so asking for fresh codes does not make guessing
+ * practical.
+ *
+ * Codes go out through an EmailSender: Resend when RESEND_API_KEY is
+ * set, otherwise (outside production) the server log.
+ */
+
+import crypto from "crypto";
+import { getDataStore } from "@/lib/data-store";
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers verification emails
+ */
+export interface EmailSender {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SentCode {
+  email: string; // Normalized
+  expiresAt: Date;
+}
+
+/**
+ * Not an email address (HTTP 400)
+ */
+export class InvalidEmailError extends Error {
+  constructor(email: string) {
+    super(`Invalid email address: ${email}`);
+    this.name = "InvalidEmailError";
+  }
+}
+
+/**
+ * A code was sent too recently to send another (HTTP 429)
+ */
+export class VerificationCooldownError extends Error {
+  retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(`A code was just sent; request another in ${retryAfterSeconds}s`);
+    this.name = "VerificationCooldownError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * The code is wrong, expired, out of attempts, or was sent for another
+ * email (HTTP 403)
+ */
+export class EmailNotVerifiedError extends Error {
+  constructor(reason: string) {
+    super(`Email not verified: ${reason}`);
+    this.name = "EmailNotVerifiedError";
+  }
+}
+
+const CODE_DIGITS = 6;
+const CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ========================================
+// EMAIL VERIFICATION SERVICE
+// ========================================
+
+export class EmailVerificationService {
+  private sender: EmailSender;
+
+  constructor(sender: EmailSender) {
+    this.sender = sender;
+  }
+
+  /**
+   * Email a new code to the address, replacing the user's earlier one
+   *
+   * @param userId - User the email would be bound to
+   * @param email - Address to verify
+   * @returns The normalized address and when the code expires
+   * @throws InvalidEmailError if the address is malformed
+   * @throws VerificationCooldownError if a code was sent within the last minute
+   */
+  async sendCode(userId: string, email: string): Promise<SentCode> {
+    const normalized = normalizeEmail(email);
+    const store = getDataStore();
+
+    const previous = await store.emailVerifications.findByUserId(userId);
+    if (previous) {
+      const waitMs = previous.createdAt.getTime() + RESEND_COOLDOWN_MS - Date.now();
+      if (waitMs > 0) {
+        throw new VerificationCooldownError(Math.ceil(waitMs / 1000));
+      }
+    }
+
+    const code = crypto.randomInt(0, 10 ** CODE_DIGITS).toString().padStart(CODE_DIGITS, "0");
+    const expiresAt = new Date(Date.now() + CODE_TTL_MS);
+
+    await store.emailVerifications.replace({
+      userId,
+      email: normalized,
+      codeHash: hashCode(userId, normalized, code),
+      expiresAt,
+    });
+
+    await this.sender.send({
+      to: normalized,
+      subject: "Your Juby verification code",
+      text: `Your Juby verification code is ${code}. It expires in ${CODE_TTL_MS / 60_000} minutes.`,
+    });
+
+    console.log(`📧 Sent a verification code to ${normalized} for user ${userId}`);
+
+    return { email: normalized, expiresAt };
+  }
+
+  /**
+   * Check a code the user received, using up one of its attempts
+   *
+   * @param userId - User the code was sent for
+   * @param email - Address the user claims
+   * @param code - Code from the email
+   * @returns The normalized, now verified, address
+   * @throws InvalidEmailError if the address is malformed
+   * @throws EmailNotVerifiedError unless the code matches the latest one sent to this address
+   */
+  async confirm(userId: string, email: string, code: string): Promise<string> {
+    const normalized = normalizeEmail(email);
+
+    const verification = await getDataStore().emailVerifications.recordAttempt(
+      userId,
+      MAX_ATTEMPTS
+    );
+    if (!verification) {
+      throw new EmailNotVerifiedError("no code was sent, or it has no attempts left");
+    }
+    if (verification.expiresAt.getTime() <= Date.now()) {
+      throw new EmailNotVerifiedError("the code has expired");
+    }
+    if (verification.email !== normalized) {
+      throw new EmailNotVerifiedError("the code was sent to another address");
+    }
+
+    const expected = Buffer.from(verification.codeHash, "hex");
+    const actual = Buffer.from(hashCode(userId, normalized, code.trim()), "hex");
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      throw new EmailNotVerifiedError("the code is incorrect");
+    }
+
+    return normalized;
+  }
+}
+
+// ========================================
+// EMAIL SENDERS
+// ========================================
+
+/**
+ * Sends through Resend's HTTP API
+ *
+ * @see https://resend.com/docs/api-reference/emails/send-email
+ */
+export class ResendEmailSender implements EmailSender {
+  constructor(
+    private apiKey: string,
+    private from: string
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ from: this.from, ...message }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to send email: ${response.status} ${await response.text()}`);
+    }
+  }
+}
+
+/**
+ * Writes emails to the server log, for local development
+ */
+export class ConsoleEmailSender implements EmailSender {
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`📧 [email to ${message.to}] ${message.subject}: ${message.text}`);
+  }
+}
+
+/**
+ * Resend if RESEND_API_KEY is set, otherwise the log
+ *
+ * @throws Error in production without RESEND_API_KEY: codes must not
+ *   end up in logs there
+ */
+export function createEmailSenderFromEnv(): EmailSender {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (apiKey) {
+    return new ResendEmailSender(apiKey, process.env.EMAIL_FROM || "Juby <no-reply@juby.app>");
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("RESEND_API_KEY is required to send verification emails in production");
+  }
+  return new ConsoleEmailSender();
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Trimmed and lowercased
+ *
+ * @throws InvalidEmailError if the address is malformed
+ */
+function normalizeEmail(email: string): string {
+  const normalized = typeof email === "string" ? email.trim().toLowerCase() : "";
+  if (!EMAIL_PATTERN.test(normalized)) {
+    throw new InvalidEmailError(String(email));
+  }
+  return normalized;
+}
+
+/**
+ * Bound to the user and address, so a code only verifies what it was sent for
+ */
+function hashCode(userId: string, email: string, code: string): string {
+  return crypto.createHash("sha256").update(`${userId}:${email}:${code}`).digest("hex");
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let emailVerificationServiceInstance: EmailVerificationService | null = null;
+
+/**
+ * Get singleton instance of EmailVerificationService
+ */
+export function getEmailVerificationService(): EmailVerificationService {
+  if (!emailVerificationServiceInstance) {
+    emailVerificationServiceInstance = new EmailVerificationService(createEmailSenderFromEnv());
+  }
+  return emailVerificationServiceInstance;
+}
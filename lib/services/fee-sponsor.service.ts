@@ -0,0 +1,232 @@
+/**
+ * Fee Sponsor Service
+ *
+ * Pays network fees for custodial wallets from a treasury account.
+ * Every custodial transaction, already signed by the user's key, is
+ * wrapped in a fee-bump transaction signed by the treasury, so users
+ * never need XLM of their own to cover Soroban fees.
+ *
+ * Spend is recorded per user: the maximum fee when the transaction is
+ * wrapped, and the fee actually charged once the ledger settles it.
+ *
+ * SECURITY:
+ * - Treasury secret key stored in environment (FEE_SPONSOR_SECRET_KEY)
+ * - Fees above FEE_SPONSOR_MAX_FEE_STROOPS are refused, so a bad
+ *   transaction build cannot drain the treasury
+ */
+
+import {
+  BASE_FEE,
+  Keypair,
+  Networks,
+  Transaction,
+  TransactionBuilder,
+} from "@stellar/stellar-sdk";
+import { getDataStore } from "@/lib/data-store";
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface SponsoredTransaction {
+  xdr: string; // Fee-bump envelope, ready to submit
+  transactionHash: string; // Fee-bump hash (what the network reports)
+  innerTransactionHash: string;
+  maxFee: bigint; // In stroops of XLM
+}
+
+export interface SponsorshipSpend {
+  userId: string;
+  transactionCount: number;
+  totalFeeCharged: bigint; // Settled transactions
+  pendingMaxFee: bigint; // Upper bound for transactions not settled yet
+}
+
+const DEFAULT_MAX_FEE_STROOPS = BigInt(10_000_000); // 1 XLM
+
+// ========================================
+// FEE SPONSOR SERVICE
+// ========================================
+
+export class FeeSponsorService {
+  private sponsorKeypair: Keypair;
+  private networkPassphrase: string;
+  private maxFeeStroops: bigint;
+
+  constructor(
+    sponsorSecretKey?: string,
+    networkPassphrase?: string,
+    maxFeeStroops?: bigint
+  ) {
+    const secretKey = sponsorSecretKey || process.env.FEE_SPONSOR_SECRET_KEY;
+
+    if (!secretKey) {
+      throw new Error("FEE_SPONSOR_SECRET_KEY environment variable is required");
+    }
+
+    this.sponsorKeypair = Keypair.fromSecret(secretKey);
+    this.networkPassphrase =
+      networkPassphrase ||
+      (process.env.STELLAR_NETWORK === "MAINNET"
+        ? Networks.PUBLIC
+        : Networks.TESTNET);
+    this.maxFeeStroops =
+      maxFeeStroops ??
+      (process.env.FEE_SPONSOR_MAX_FEE_STROOPS
+        ? BigInt(process.env.FEE_SPONSOR_MAX_FEE_STROOPS)
+        : DEFAULT_MAX_FEE_STROOPS);
+  }
+
+  /**
+   * Wrap a user-signed transaction in a treasury-paid fee bump
+   *
+   * The fee bump bids the same inclusion fee as the inner transaction
+   * and covers its Soroban resource fee. The sponsorship is recorded
+   * against the user before the envelope is returned.
+   *
+   * @param userId - User the fees are spent on
+   * @param signedXdr - Transaction XDR already signed by the user
+   * @returns Fee-bump envelope and its hashes
+   * @throws Error if the fee would exceed the per-transaction cap
+   */
+  async sponsorTransaction(
+    userId: string,
+    signedXdr: string
+  ): Promise<SponsoredTransaction> {
+    const innerTransaction = TransactionBuilder.fromXDR(
+      signedXdr,
+      this.networkPassphrase
+    );
+
+    if (!(innerTransaction instanceof Transaction)) {
+      throw new Error("Transaction is already fee-bumped");
+    }
+
+    const feeBump = TransactionBuilder.buildFeeBumpTransaction(
+      this.sponsorKeypair,
+      inclusionFeeRate(innerTransaction),
+      innerTransaction,
+      this.networkPassphrase
+    );
+
+    const maxFee = BigInt(feeBump.fee);
+    if (maxFee > this.maxFeeStroops) {
+      throw new Error(
+        `Fee of ${maxFee} stroops exceeds the sponsorship cap of ${this.maxFeeStroops}`
+      );
+    }
+
+    feeBump.sign(this.sponsorKeypair);
+
+    const sponsored: SponsoredTransaction = {
+      xdr: feeBump.toXDR(),
+      transactionHash: feeBump.hash().toString("hex"),
+      innerTransactionHash: innerTransaction.hash().toString("hex"),
+      maxFee,
+    };
+
+    await getDataStore().feeSponsorships.createIfAbsent({
+      userId,
+      transactionHash: sponsored.transactionHash,
+      innerTransactionHash: sponsored.innerTransactionHash,
+      sponsorPublicKey: this.sponsorKeypair.publicKey(),
+      maxFee,
+    });
+
+    console.log(`⛽ Sponsoring fees for user ${userId} (max ${maxFee} stroops)`);
+
+    return sponsored;
+  }
+
+  /**
+   * Record the fee actually charged for a sponsored transaction
+   *
+   * Failed transactions are charged too, so call this for any settled outcome.
+   *
+   * @param transactionHash - Fee-bump transaction hash
+   * @param feeCharged - Fee charged by the ledger, in stroops
+   */
+  async recordFeeCharged(
+    transactionHash: string,
+    feeCharged: bigint
+  ): Promise<void> {
+    await getDataStore().feeSponsorships.settle(
+      transactionHash,
+      feeCharged,
+      new Date()
+    );
+  }
+
+  /**
+   * Get how much the treasury has spent on a user's fees
+   *
+   * @param userId - User identifier
+   * @returns Settled spend and the upper bound still pending
+   */
+  async getUserSpend(userId: string): Promise<SponsorshipSpend> {
+    const sponsorships = await getDataStore().feeSponsorships.listByUser(userId);
+
+    let totalFeeCharged = BigInt(0);
+    let pendingMaxFee = BigInt(0);
+    for (const sponsorship of sponsorships) {
+      if (sponsorship.feeCharged !== null) {
+        totalFeeCharged += sponsorship.feeCharged;
+      } else {
+        pendingMaxFee += sponsorship.maxFee;
+      }
+    }
+
+    return {
+      userId,
+      transactionCount: sponsorships.length,
+      totalFeeCharged,
+      pendingMaxFee,
+    };
+  }
+
+  /**
+   * Get the treasury account paying the fees
+   */
+  getSponsorPublicKey(): string {
+    return this.sponsorKeypair.publicKey();
+  }
+}
+
+/**
+ * Per-operation inclusion fee the inner transaction bid, excluding
+ * its Soroban resource fee (which the fee bump adds back on top)
+ */
+function inclusionFeeRate(transaction: Transaction): string {
+  const sorobanData = transaction.toEnvelope().v1().tx().ext().value();
+  const resourceFee = sorobanData
+    ? BigInt(sorobanData.resourceFee().toString())
+    : BigInt(0);
+
+  const perOperation =
+    BigInt(transaction.fee) / BigInt(transaction.operations.length) -
+    resourceFee;
+  const minimum = BigInt(BASE_FEE);
+
+  return (perOperation > minimum ? perOperation : minimum).toString();
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let feeSponsorServiceInstance: FeeSponsorService | null = null;
+
+/**
+ * Get or create the singleton FeeSponsorService instance
+ *
+ * @param sponsorSecretKey - Optional treasury secret (uses env var if not provided)
+ * @returns FeeSponsorService instance
+ */
+export function getFeeSponsorService(
+  sponsorSecretKey?: string
+): FeeSponsorService {
+  if (!feeSponsorServiceInstance) {
+    feeSponsorServiceInstance = new FeeSponsorService(sponsorSecretKey);
+  }
+  return feeSponsorServiceInstance;
+}
@@ -0,0 +1,315 @@
+/**
+ * Idempotency Service
+ *
+ * Makes money-moving endpoints safe to retry. Clients send an
+ * Idempotency-Key header; the first request with a key runs and its
+ * response is persisted, and any retry with the same key replays that
+ * response without building, signing or submitting anything again.
+ *
+ * Records are keyed by (scope, key), where scope is the route, and
+ * store a SHA-256 hash of the request body so a key cannot be reused
+ * for a different request. Every response the handler returns is
+ * stored, failures included: a client that wants to try again after
+ * a definitive answer must send a new key.
+ */
+
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getDataStore, DuplicateRecordError } from "@/lib/data-store";
+import type { IdempotencyKey } from "@/lib/types/database.types";
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * Parsed JSON body handed to route handlers, as untyped as request.json()
+ */
+export type RequestBody = Awaited<ReturnType<NextRequest["json"]>>;
+
+export interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * A request with this key is still running (HTTP 409)
+ */
+export class IdempotencyConflictError extends Error {
+  constructor(key: string) {
+    super(`A request with Idempotency-Key ${key} is already in progress`);
+    this.name = "IdempotencyConflictError";
+  }
+}
+
+/**
+ * The key was already used with a different request body (HTTP 422)
+ */
+export class IdempotencyKeyReuseError extends Error {
+  constructor(key: string) {
+    super(`Idempotency-Key ${key} was already used for a different request`);
+    this.name = "IdempotencyKeyReuseError";
+  }
+}
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const IDEMPOTENT_REPLAY_HEADER = "Idempotent-Replayed";
+
+const MAX_KEY_LENGTH = 255;
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// ========================================
+// IDEMPOTENCY SERVICE
+// ========================================
+
+export class IdempotencyService {
+  private ttlMs: number;
+
+  constructor(ttlMs: number = DEFAULT_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Claim a key before running a request
+   *
+   * @param scope - Route the key belongs to
+   * @param key - Client-supplied idempotency key
+   * @param requestBody - Parsed request body
+   * @returns Stored response to replay, or null if this request should run
+   * @throws IdempotencyConflictError if the first request is still running
+   * @throws IdempotencyKeyReuseError if the key was used for another body
+   */
+  async begin(
+    scope: string,
+    key: string,
+    requestBody: unknown
+  ): Promise<StoredResponse | null> {
+    const requestHash = hashRequestBody(requestBody);
+    const existing = await this.find(scope, key);
+
+    if (existing && existing.expiresAt.getTime() <= Date.now()) {
+      // Expired keys are forgotten and can be used again
+      await getDataStore().idempotencyKeys.delete(scope, key);
+    } else if (existing) {
+      return this.resolveExisting(existing, key, requestHash);
+    }
+
+    try {
+      await getDataStore().idempotencyKeys.create({
+        key,
+        scope,
+        requestHash,
+        expiresAt: new Date(Date.now() + this.ttlMs),
+      });
+      return null;
+    } catch (error) {
+      // Lost the race to a concurrent request with the same key
+      if (error instanceof DuplicateRecordError) {
+        const winner = await this.find(scope, key);
+        if (winner) {
+          return this.resolveExisting(winner, key, requestHash);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Persist the response for a claimed key
+   *
+   * @param scope - Route the key belongs to
+   * @param key - Idempotency key
+   * @param response - Status and JSON body to replay on retries
+   */
+  async complete(
+    scope: string,
+    key: string,
+    response: StoredResponse
+  ): Promise<void> {
+    await getDataStore().idempotencyKeys.update(scope, key, {
+      status: "COMPLETED",
+      responseStatus: response.status,
+      responseBody: response.body,
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Release a claimed key without storing a response
+   *
+   * Used when the handler crashed, so the client can retry with the same key.
+   *
+   * @param scope - Route the key belongs to
+   * @param key - Idempotency key
+   */
+  async release(scope: string, key: string): Promise<void> {
+    await getDataStore().idempotencyKeys.delete(scope, key);
+  }
+
+  private async find(scope: string, key: string): Promise<IdempotencyKey | null> {
+    return getDataStore().idempotencyKeys.find(scope, key);
+  }
+
+  private resolveExisting(
+    record: IdempotencyKey,
+    key: string,
+    requestHash: string
+  ): StoredResponse {
+    if (record.requestHash !== requestHash) {
+      throw new IdempotencyKeyReuseError(key);
+    }
+
+    if (record.status !== "COMPLETED" || record.responseStatus === null) {
+      throw new IdempotencyConflictError(key);
+    }
+
+    return { status: record.responseStatus, body: record.responseBody };
+  }
+}
+
+// ========================================
+// ROUTE HELPER
+// ========================================
+
+/**
+ * Run a POST handler under the request's Idempotency-Key, if it has one
+ *
+ * Parses the JSON body once and passes it to the handler. Requests
+ * without the header run as before.
+ *
+ * @param request - Incoming request
+ * @param scope - Route name used to namespace keys, e.g. "demo/deposit"
+ * @param handler - Route logic, given the parsed body
+ * @returns Handler response, or the replayed response for a retry
+ */
+export async function withIdempotencyKey(
+  request: NextRequest,
+  scope: string,
+  handler: (body: RequestBody) => Promise<NextResponse>
+): Promise<NextResponse> {
+  let body: RequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (key === null) {
+    return handler(body);
+  }
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_KEY_LENGTH} characters`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const idempotencyService = getIdempotencyService();
+
+  let replay: StoredResponse | null;
+  try {
+    replay = await idempotencyService.begin(scope, key, body);
+  } catch (error) {
+    if (error instanceof IdempotencyConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+    if (error instanceof IdempotencyKeyReuseError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 422 }
+      );
+    }
+    console.error(`Error claiming Idempotency-Key for ${scope}:`, error);
+    return NextResponse.json(
+      { success: false, error: "Could not check Idempotency-Key, nothing was executed" },
+      { status: 503 }
+    );
+  }
+
+  if (replay) {
+    console.log(`🔁 Replaying ${scope} response for Idempotency-Key ${key}`);
+    return NextResponse.json(replay.body, {
+      status: replay.status,
+      headers: { [IDEMPOTENT_REPLAY_HEADER]: "true" },
+    });
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler(body);
+  } catch (error) {
+    await idempotencyService.release(scope, key);
+    throw error;
+  }
+
+  try {
+    await idempotencyService.complete(scope, key, {
+      status: response.status,
+      body: await response.clone().json(),
+    });
+  } catch (error) {
+    // The request already ran; report its result rather than hide it.
+    // The key stays IN_PROGRESS, so retries get 409 instead of re-running.
+    console.error(`Error storing ${scope} response for Idempotency-Key ${key}:`, error);
+  }
+
+  return response;
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Hash a request body independently of key order
+ *
+ * @param body - Parsed JSON body
+ * @returns Hex SHA-256 digest
+ */
+export function hashRequestBody(body: unknown): string {
+  return crypto
+    .createHash("sha256")
+    .update(canonicalJson(body))
+    .digest("hex");
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let idempotencyServiceInstance: IdempotencyService | null = null;
+
+/**
+ * Get singleton instance of IdempotencyService
+ */
+export function getIdempotencyService(): IdempotencyService {
+  if (!idempotencyServiceInstance) {
+    idempotencyServiceInstance = new IdempotencyService();
+  }
+  return idempotencyServiceInstance;
+}
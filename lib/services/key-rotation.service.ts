@@ -0,0 +1,291 @@
+/**
+ * Key Rotation Service
+ *
+ * Moves every custodial secret onto the KMS provider's active key.
+ * After a new key is made active, rotate() walks every wallet whose
+ * data key is wrapped by another key, in batches:
+ * 1. Unwrap the data key and decrypt the secret, and check it is the
+ *    wallet's own key (its public key matches)
+ * 2. Wrap the same data key with the active key and store it, only if
+ *    the row has not changed meanwhile (compare-and-set on the key id)
+ * 3. Decrypt the stored row again; if it does not give back the same
+ *    secret, the previous row is restored
+ *
+ * Legacy rows, encrypted directly with a master key before envelope
+ * encryption, are migrated the same way: decrypted with the
+ * LegacyKeyring and sealed under a new data key.
+ *
+ * Only rows not yet on the active key are picked up, so an interrupted
+ * rotation resumes where it stopped when run again. A wallet that fails
+ * is reported and skipped; the others go on.
+ *
+ * Run from scripts/rotate-master-key.ts.
+ */
+
+import { Keypair } from "@stellar/stellar-sdk";
+import { getDataStore, type EncryptedSecretUpdate } from "@/lib/data-store";
+import type { LegacyKeyring } from "@/lib/keyring";
+import {
+  getKeyManagementProvider,
+  openSecret,
+  rewrapSecret,
+  sealSecret,
+  type KeyManagementProvider,
+  type SealedSecret,
+} from "@/lib/kms";
+import type { StellarWallet } from "@/lib/types/database.types";
+import { getSigningAuditService } from "./signing-audit.service";
+
+// ========================================
+// TYPES
+// ========================================
+
+export type KeyRotationOutcome = "rotated" | "migrated" | "skipped" | "failed";
+
+export interface KeyRotationResult {
+  walletId: string;
+  userId: string;
+  fromKey: string; // KMS key id, or "legacy-v<version>"
+  outcome: KeyRotationOutcome;
+  error?: string;
+}
+
+export interface KeyRotationBatch {
+  batch: number; // 1-based
+  results: KeyRotationResult[];
+}
+
+export interface KeyRotationOptions {
+  batchSize?: number;
+  /** Called after each batch, e.g. to report progress */
+  onBatch?: (batch: KeyRotationBatch) => void | Promise<void>;
+}
+
+export interface KeyRotationReport {
+  activeKeyId: string;
+  batches: number;
+  rotated: number; // Data key re-wrapped
+  migrated: number; // Legacy row moved to envelope encryption
+  skipped: number; // Changed or wiped while the batch ran
+  failed: number;
+  failures: KeyRotationResult[];
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+
+// ========================================
+// KEY ROTATION SERVICE
+// ========================================
+
+export class KeyRotationService {
+  private kms: KeyManagementProvider;
+  private legacyKeyring: LegacyKeyring | null;
+
+  /**
+   * @param kms - Provider whose active key every data key moves to
+   * @param legacyKeyring - Master keys for legacy rows, if any are left
+   */
+  constructor(kms: KeyManagementProvider, legacyKeyring: LegacyKeyring | null = null) {
+    this.kms = kms;
+    this.legacyKeyring = legacyKeyring;
+  }
+
+  /**
+   * Re-wrap (or migrate) every secret not yet on the active key
+   *
+   * @param options - Batch size and progress callback
+   * @returns Counts per outcome, with the failed wallets
+   */
+  async rotate(options: KeyRotationOptions = {}): Promise<KeyRotationReport> {
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error("batchSize must be a positive integer");
+    }
+
+    const activeKeyId = this.kms.getActiveKeyId();
+    const report: KeyRotationReport = {
+      activeKeyId,
+      batches: 0,
+      rotated: 0,
+      migrated: 0,
+      skipped: 0,
+      failed: 0,
+      failures: [],
+    };
+
+    console.log(`🔑 Rotating custodial secrets to ${this.kms.name} key ${activeKeyId}`);
+
+    // The cursor steps past wallets that failed, which stay on their old key
+    let afterId: string | undefined;
+    for (;;) {
+      const wallets = await getDataStore().wallets.listNotOnEncryptionKey(activeKeyId, {
+        afterId,
+        limit: batchSize,
+      });
+      if (wallets.length === 0) {
+        break;
+      }
+
+      const results: KeyRotationResult[] = [];
+      for (const wallet of wallets) {
+        const result = await this.rotateWallet(wallet);
+        results.push(result);
+        report[result.outcome]++;
+        if (result.outcome === "failed") {
+          report.failures.push(result);
+        }
+      }
+
+      report.batches++;
+      afterId = wallets[wallets.length - 1].id;
+      await options.onBatch?.({ batch: report.batches, results });
+    }
+
+    console.log(
+      `✅ Key rotation finished: ${report.rotated} rotated, ${report.migrated} migrated, ` +
+      `${report.skipped} skipped, ${report.failed} failed`
+    );
+
+    return report;
+  }
+
+  /**
+   * Move one wallet's secret to the active key and verify the stored result
+   */
+  private async rotateWallet(wallet: StellarWallet): Promise<KeyRotationResult> {
+    const current = toSealedSecret(wallet);
+    const result = {
+      walletId: wallet.id,
+      userId: wallet.userId,
+      fromKey: current?.keyId ?? `legacy-v${wallet.encryptionKeyVersion}`,
+    };
+    const wallets = getDataStore().wallets;
+
+    try {
+      await getSigningAuditService().recordKeyUse({
+        userId: wallet.userId,
+        stellarPublicKey: wallet.stellarPublicKey,
+        action: "KEY_ACCESS",
+        operation: "kms.rotate",
+      });
+
+      const secretKey = current
+        ? await openSecret(this.kms, current)
+        : this.decryptLegacy(wallet);
+      if (Keypair.fromSecret(secretKey).publicKey() !== wallet.stellarPublicKey) {
+        throw new Error("Decrypted secret does not belong to the wallet's public key");
+      }
+
+      const next = current
+        ? await rewrapSecret(this.kms, current)
+        : await sealSecret(this.kms, secretKey);
+      const updated = await wallets.updateSecretIfEncryptionKey(
+        wallet.id,
+        wallet.encryptionKeyId,
+        toSecretColumns(next)
+      );
+      if (!updated) {
+        return { ...result, outcome: "skipped" };
+      }
+
+      if (!(await this.decryptsTo(updated, secretKey))) {
+        const restored = await wallets.updateSecretIfEncryptionKey(
+          wallet.id,
+          updated.encryptionKeyId,
+          {
+            encryptedSecretKey: wallet.encryptedSecretKey,
+            encryptionIv: wallet.encryptionIv,
+            encryptionTag: wallet.encryptionTag,
+            wrappedDataKey: wallet.wrappedDataKey,
+            encryptionKeyId: wallet.encryptionKeyId,
+          }
+        );
+        throw new Error(
+          restored
+            ? "Re-encrypted secret did not verify; the previous row was restored"
+            : "Re-encrypted secret did not verify and the previous row could not be restored"
+        );
+      }
+
+      return { ...result, outcome: current ? "rotated" : "migrated" };
+    } catch (error) {
+      console.error(`❌ Key rotation failed for wallet ${wallet.id}:`, error);
+      return {
+        ...result,
+        outcome: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private decryptLegacy(wallet: StellarWallet): string {
+    if (!this.legacyKeyring) {
+      throw new Error(
+        `Legacy row needs master key version ${wallet.encryptionKeyVersion} in ENCRYPTION_MASTER_KEY or ENCRYPTION_RETIRED_KEYS`
+      );
+    }
+    return this.legacyKeyring.decrypt({
+      encrypted: wallet.encryptedSecretKey,
+      iv: wallet.encryptionIv,
+      tag: wallet.encryptionTag,
+      keyVersion: wallet.encryptionKeyVersion,
+    });
+  }
+
+  private async decryptsTo(wallet: StellarWallet, secretKey: string): Promise<boolean> {
+    const sealed = toSealedSecret(wallet);
+    try {
+      return sealed !== null && (await openSecret(this.kms, sealed)) === secretKey;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * The wallet's envelope, or null for a legacy row
+ */
+function toSealedSecret(wallet: StellarWallet): SealedSecret | null {
+  if (!wallet.wrappedDataKey || !wallet.encryptionKeyId) {
+    return null;
+  }
+  return {
+    encrypted: wallet.encryptedSecretKey,
+    iv: wallet.encryptionIv,
+    tag: wallet.encryptionTag,
+    wrappedDataKey: wallet.wrappedDataKey,
+    keyId: wallet.encryptionKeyId,
+  };
+}
+
+function toSecretColumns(sealed: SealedSecret): EncryptedSecretUpdate {
+  return {
+    encryptedSecretKey: sealed.encrypted,
+    encryptionIv: sealed.iv,
+    encryptionTag: sealed.tag,
+    wrappedDataKey: sealed.wrappedDataKey,
+    encryptionKeyId: sealed.keyId,
+  };
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let keyRotationServiceInstance: KeyRotationService | null = null;
+
+/**
+ * Get or create the singleton KeyRotationService instance
+ *
+ * @param legacyKeyring - Master keys for legacy rows, if any are left
+ * @returns KeyRotationService instance
+ */
+export function getKeyRotationService(legacyKeyring?: LegacyKeyring | null): KeyRotationService {
+  if (!keyRotationServiceInstance) {
+    keyRotationServiceInstance = new KeyRotationService(
+      getKeyManagementProvider(),
+      legacyKeyring ?? null
+    );
+  }
+  return keyRotationServiceInstance;
+}
@@ -0,0 +1,541 @@
+/**
+ * Operation Record Service
+ *
+ * Writes every deposit and withdrawal, custodial or self-custody, to
+ * the Deposit and Withdrawal models and moves them through their
+ * status lifecycles. Status changes go through a state machine:
+ * anything not listed in DEPOSIT_TRANSITIONS / WITHDRAWAL_TRANSITIONS
+ * is rejected with InvalidStatusTransitionError, and each change is a
+ * compare-and-set on the current status, so two concurrent updates
+ * cannot both win.
+ *
+ * Deposits (BridgeStatus):
+ *   INITIATED → ATTESTED → MINTED → DEPOSITED → COMPLETED   (CCTP bridge)
+ *   INITIATED → DEPOSITED → COMPLETED                       (Stellar only)
+ *   any non-final status → FAILED
+ *
+ * Withdrawals (WithdrawalStatus):
+ *   INITIATED → WITHDRAWN → BRIDGING → COMPLETED            (CCTP bridge)
+ *   INITIATED → WITHDRAWN → COMPLETED                       (Stellar only)
+ *   any non-final status → FAILED
+ */
+
+import { getDataStore, RecordNotFoundError } from "@/lib/data-store";
+import type { DepositUpdate, WithdrawalUpdate } from "@/lib/data-store";
+import type {
+  BridgeStatus,
+  Deposit,
+  Withdrawal,
+  WithdrawalStatus,
+} from "@/lib/types/database.types";
+import type { TrackedTransaction } from "./transaction-tracker.service";
+
+// ========================================
+// TYPES
+// ========================================
+
+export const DEPOSIT_TRANSITIONS: Record<BridgeStatus, BridgeStatus[]> = {
+  INITIATED: ["ATTESTED", "DEPOSITED", "FAILED"],
+  ATTESTED: ["MINTED", "FAILED"],
+  MINTED: ["DEPOSITED", "FAILED"],
+  DEPOSITED: ["COMPLETED", "FAILED"],
+  COMPLETED: [],
+  FAILED: [],
+};
+
+export const WITHDRAWAL_TRANSITIONS: Record<WithdrawalStatus, WithdrawalStatus[]> = {
+  INITIATED: ["WITHDRAWN", "FAILED"],
+  WITHDRAWN: ["BRIDGING", "COMPLETED", "FAILED"],
+  BRIDGING: ["COMPLETED", "FAILED"],
+  COMPLETED: [],
+  FAILED: [],
+};
+
+/**
+ * A status change that the state machine does not allow
+ */
+export class InvalidStatusTransitionError extends Error {
+  constructor(model: string, id: string, from: string, to: string) {
+    super(`${model} ${id} cannot move from ${from} to ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+export interface StartDepositParams {
+  userId: string;
+  stellarWalletId: string | null; // Null for self-custody deposits
+  stellarPublicKey: string;
+  vaultAddress: string;
+  amount: bigint; // Stroops
+  slippageBps: number;
+  transactionHash?: string; // Known up front for self-custody deposits
+}
+
+export interface StartWithdrawalParams {
+  userId: string;
+  stellarWalletId: string | null; // Null for self-custody withdrawals
+  stellarPublicKey: string;
+  vaultAddress: string;
+  shares: bigint; // Stroops; 0 until resolved against the live balance
+  expectedAmount: bigint; // Stroops
+  slippageBps: number;
+  transactionHash?: string; // Known up front for self-custody withdrawals
+}
+
+/**
+ * A self-custody operation, recorded when its transaction is built.
+ * The owner is looked up from the signing account.
+ */
+export type SelfCustodyParams<T> = Omit<T, "userId" | "stellarWalletId"> & {
+  transactionHash: string;
+};
+
+// ========================================
+// OPERATION RECORD SERVICE
+// ========================================
+
+export class OperationRecordService {
+  /**
+   * Record a deposit as INITIATED
+   *
+   * @param params - Who deposits how much into which vault
+   * @returns New deposit record
+   */
+  async startDeposit(params: StartDepositParams): Promise<Deposit> {
+    const deposit = await getDataStore().deposits.create({
+      userId: params.userId,
+      stellarWalletId: params.stellarWalletId,
+      stellarPublicKey: params.stellarPublicKey,
+      vaultAddress: params.vaultAddress,
+      amountUsdc: params.amount,
+      slippageBps: params.slippageBps,
+      defindexDepositTx: params.transactionHash ?? null,
+    });
+
+    console.log(`📝 Recorded deposit ${deposit.id} (INITIATED) for user ${params.userId}`);
+    return deposit;
+  }
+
+  /**
+   * Record a withdrawal as INITIATED
+   *
+   * @param params - Who withdraws which shares from which vault
+   * @returns New withdrawal record
+   */
+  async startWithdrawal(params: StartWithdrawalParams): Promise<Withdrawal> {
+    const withdrawal = await getDataStore().withdrawals.create({
+      userId: params.userId,
+      stellarWalletId: params.stellarWalletId,
+      stellarPublicKey: params.stellarPublicKey,
+      vaultAddress: params.vaultAddress,
+      amountUsdc: params.expectedAmount,
+      vaultShares: params.shares,
+      slippageBps: params.slippageBps,
+      defindexWithdrawTx: params.transactionHash ?? null,
+    });
+
+    console.log(`📝 Recorded withdrawal ${withdrawal.id} (INITIATED) for user ${params.userId}`);
+    return withdrawal;
+  }
+
+  /**
+   * Record a self-custody deposit as INITIATED
+   *
+   * @param params - Deposit details and the unsigned transaction's hash
+   * @returns New deposit record
+   */
+  async startSelfCustodyDeposit(
+    params: SelfCustodyParams<StartDepositParams>
+  ): Promise<Deposit> {
+    return this.startDeposit({
+      ...params,
+      ...(await resolveOwner(params.stellarPublicKey)),
+    });
+  }
+
+  /**
+   * Record a self-custody withdrawal as INITIATED
+   *
+   * @param params - Withdrawal details and the unsigned transaction's hash
+   * @returns New withdrawal record
+   */
+  async startSelfCustodyWithdrawal(
+    params: SelfCustodyParams<StartWithdrawalParams>
+  ): Promise<Withdrawal> {
+    return this.startWithdrawal({
+      ...params,
+      ...(await resolveOwner(params.stellarPublicKey)),
+    });
+  }
+
+  /**
+   * Move a deposit to a new status
+   *
+   * Moving to the status it already has is a no-op, so replayed
+   * settlement callbacks are harmless. COMPLETED and FAILED stamp
+   * completedAt.
+   *
+   * @param id - Deposit id
+   * @param to - Target status
+   * @param data - Fields to set together with the status
+   * @returns Updated deposit
+   * @throws InvalidStatusTransitionError if the state machine forbids the change
+   */
+  async transitionDeposit(
+    id: string,
+    to: BridgeStatus,
+    data: Omit<DepositUpdate, "bridgeStatus"> = {}
+  ): Promise<Deposit> {
+    return (await this.moveDeposit(id, to, data)).record;
+  }
+
+  /**
+   * Move a withdrawal to a new status
+   *
+   * Same rules as transitionDeposit.
+   *
+   * @param id - Withdrawal id
+   * @param to - Target status
+   * @param data - Fields to set together with the status
+   * @returns Updated withdrawal
+   * @throws InvalidStatusTransitionError if the state machine forbids the change
+   */
+  async transitionWithdrawal(
+    id: string,
+    to: WithdrawalStatus,
+    data: Omit<WithdrawalUpdate, "status"> = {}
+  ): Promise<Withdrawal> {
+    return (await this.moveWithdrawal(id, to, data)).record;
+  }
+
+  /**
+   * Attach the submitted transaction to a deposit
+   *
+   * Only applies while the deposit is INITIATED: the ledger may settle
+   * it before the submitter gets here, and settlement wins.
+   *
+   * @param id - Deposit id
+   * @param transactionHash - Hash the network reports for the deposit
+   */
+  async attachDepositTransaction(id: string, transactionHash: string): Promise<void> {
+    await getDataStore().deposits.updateIfStatus(id, "INITIATED", {
+      defindexDepositTx: transactionHash,
+    });
+  }
+
+  /**
+   * Attach the submitted transaction and resolved shares to a withdrawal
+   *
+   * Only applies while the withdrawal is INITIATED (see
+   * attachDepositTransaction).
+   *
+   * @param id - Withdrawal id
+   * @param transactionHash - Hash the network reports for the withdrawal
+   * @param shares - Shares being burned, in stroops
+   * @param expectedAmount - Assets expected back, in stroops
+   */
+  async attachWithdrawalTransaction(
+    id: string,
+    transactionHash: string,
+    shares: bigint,
+    expectedAmount: bigint
+  ): Promise<void> {
+    await getDataStore().withdrawals.updateIfStatus(id, "INITIATED", {
+      defindexWithdrawTx: transactionHash,
+      vaultShares: shares,
+      amountUsdc: expectedAmount,
+    });
+  }
+
+  /**
+   * Apply a settled ledger outcome to a deposit
+   *
+   * SUCCESS records the minted shares and completes the deposit;
+   * FAILED fails it. Custodial deposits also credit the user's
+   * VaultBalance, exactly once even if the outcome is replayed.
+   *
+   * @param id - Deposit id
+   * @param transaction - Settled transaction from the tracker
+   * @returns Updated deposit
+   */
+  async settleDeposit(id: string, transaction: TrackedTransaction): Promise<Deposit> {
+    const current = await findOrThrow(getDataStore().deposits, "Deposit", id);
+    if (isFinal(current.bridgeStatus)) {
+      return current;
+    }
+
+    if (transaction.status !== "SUCCESS") {
+      return this.transitionDeposit(id, "FAILED", {
+        defindexDepositTx: transaction.hash,
+      });
+    }
+
+    const vaultShares = depositedShares(transaction.returnValue);
+    const { record: deposited, changed } = await this.moveDeposit(id, "DEPOSITED", {
+      defindexDepositTx: transaction.hash,
+      vaultShares,
+    });
+
+    if (changed && deposited.stellarWalletId) {
+      await getDataStore().vaultBalances.adjust(
+        {
+          userId: deposited.userId,
+          stellarWalletId: deposited.stellarWalletId,
+          vaultAddress: deposited.vaultAddress,
+        },
+        { deposited: deposited.amountUsdc, shares: vaultShares ?? BigInt(0) }
+      );
+    }
+
+    // Stellar-only deposits have no bridge leg left once the vault has the funds
+    return this.transitionDeposit(id, "COMPLETED");
+  }
+
+  /**
+   * Apply a settled ledger outcome to a withdrawal
+   *
+   * SUCCESS records the assets actually paid out and completes the
+   * withdrawal; FAILED fails it. Custodial withdrawals also debit the
+   * burned shares from the user's VaultBalance, exactly once.
+   *
+   * @param id - Withdrawal id
+   * @param transaction - Settled transaction from the tracker
+   * @returns Updated withdrawal
+   */
+  async settleWithdrawal(
+    id: string,
+    transaction: TrackedTransaction
+  ): Promise<Withdrawal> {
+    const current = await findOrThrow(getDataStore().withdrawals, "Withdrawal", id);
+    if (isFinal(current.status)) {
+      return current;
+    }
+
+    if (transaction.status !== "SUCCESS") {
+      return this.transitionWithdrawal(id, "FAILED", {
+        defindexWithdrawTx: transaction.hash,
+      });
+    }
+
+    const withdrawnAmount = withdrawnAssets(transaction.returnValue);
+    const { record: withdrawn, changed } = await this.moveWithdrawal(id, "WITHDRAWN", {
+      defindexWithdrawTx: transaction.hash,
+      ...(withdrawnAmount !== null && { amountUsdc: withdrawnAmount }),
+    });
+
+    if (changed && withdrawn.stellarWalletId) {
+      await getDataStore().vaultBalances.adjust(
+        {
+          userId: withdrawn.userId,
+          stellarWalletId: withdrawn.stellarWalletId,
+          vaultAddress: withdrawn.vaultAddress,
+        },
+        { deposited: BigInt(0), shares: -withdrawn.vaultShares }
+      );
+    }
+
+    // Funds stay on Stellar, so there is no bridge leg to wait for
+    return this.transitionWithdrawal(id, "COMPLETED");
+  }
+
+  /**
+   * Apply a settled outcome to whichever record carries the transaction hash
+   *
+   * Used for self-custody operations, which are recorded when the
+   * transaction is built and found again by hash when it settles.
+   *
+   * @param transaction - Settled transaction from the tracker
+   */
+  async settleByTransactionHash(transaction: TrackedTransaction): Promise<void> {
+    const store = getDataStore();
+
+    const deposit = await store.deposits.findByTransactionHash(transaction.hash);
+    if (deposit) {
+      await this.settleDeposit(deposit.id, transaction);
+      return;
+    }
+
+    const withdrawal = await store.withdrawals.findByTransactionHash(transaction.hash);
+    if (withdrawal) {
+      await this.settleWithdrawal(withdrawal.id, transaction);
+      return;
+    }
+
+    console.warn(`⚠️  No deposit or withdrawal recorded for transaction ${transaction.hash}`);
+  }
+
+  /**
+   * Fail whichever record carries the transaction hash
+   *
+   * Used when the network rejects a self-custody submission outright.
+   *
+   * @param transactionHash - Rejected transaction hash
+   */
+  async failByTransactionHash(transactionHash: string): Promise<void> {
+    const store = getDataStore();
+
+    const deposit = await store.deposits.findByTransactionHash(transactionHash);
+    if (deposit) {
+      await this.transitionDeposit(deposit.id, "FAILED");
+      return;
+    }
+
+    const withdrawal = await store.withdrawals.findByTransactionHash(transactionHash);
+    if (withdrawal) {
+      await this.transitionWithdrawal(withdrawal.id, "FAILED");
+    }
+  }
+
+  /**
+   * Compare-and-set a deposit's status
+   *
+   * @returns The deposit, and whether this call changed it
+   */
+  private async moveDeposit(
+    id: string,
+    to: BridgeStatus,
+    data: Omit<DepositUpdate, "bridgeStatus">
+  ): Promise<{ record: Deposit; changed: boolean }> {
+    const deposits = getDataStore().deposits;
+    const current = await findOrThrow(deposits, "Deposit", id);
+
+    if (current.bridgeStatus === to) {
+      return { record: current, changed: false };
+    }
+
+    if (!DEPOSIT_TRANSITIONS[current.bridgeStatus].includes(to)) {
+      throw new InvalidStatusTransitionError("Deposit", id, current.bridgeStatus, to);
+    }
+
+    const updated = await deposits.updateIfStatus(id, current.bridgeStatus, {
+      ...data,
+      bridgeStatus: to,
+      ...(isFinal(to) && { completedAt: new Date() }),
+    });
+    if (!updated) {
+      // Someone else moved it first; re-check against the new status
+      return this.moveDeposit(id, to, data);
+    }
+
+    console.log(`📝 Deposit ${id}: ${current.bridgeStatus} → ${to}`);
+    return { record: updated, changed: true };
+  }
+
+  /**
+   * Compare-and-set a withdrawal's status
+   *
+   * @returns The withdrawal, and whether this call changed it
+   */
+  private async moveWithdrawal(
+    id: string,
+    to: WithdrawalStatus,
+    data: Omit<WithdrawalUpdate, "status">
+  ): Promise<{ record: Withdrawal; changed: boolean }> {
+    const withdrawals = getDataStore().withdrawals;
+    const current = await findOrThrow(withdrawals, "Withdrawal", id);
+
+    if (current.status === to) {
+      return { record: current, changed: false };
+    }
+
+    if (!WITHDRAWAL_TRANSITIONS[current.status].includes(to)) {
+      throw new InvalidStatusTransitionError("Withdrawal", id, current.status, to);
+    }
+
+    const updated = await withdrawals.updateIfStatus(id, current.status, {
+      ...data,
+      status: to,
+      ...(isFinal(to) && { completedAt: new Date() }),
+    });
+    if (!updated) {
+      return this.moveWithdrawal(id, to, data);
+    }
+
+    console.log(`📝 Withdrawal ${id}: ${current.status} → ${to}`);
+    return { record: updated, changed: true };
+  }
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+async function findOrThrow<T>(
+  repository: { findById(id: string): Promise<T | null> },
+  model: string,
+  id: string
+): Promise<T> {
+  const record = await repository.findById(id);
+  if (!record) {
+    throw new RecordNotFoundError(model, id);
+  }
+  return record;
+}
+
+/**
+ * Owner of a signing account: the custodial user who holds it, or the
+ * account itself for wallets this app does not manage
+ */
+async function resolveOwner(
+  stellarPublicKey: string
+): Promise<{ userId: string; stellarWalletId: string | null }> {
+  const wallet = await getDataStore().wallets.findByPublicKey(stellarPublicKey);
+  return wallet
+    ? { userId: wallet.userId, stellarWalletId: wallet.id }
+    : { userId: stellarPublicKey, stellarWalletId: null };
+}
+
+function isFinal(status: BridgeStatus | WithdrawalStatus): boolean {
+  return status === "COMPLETED" || status === "FAILED";
+}
+
+/**
+ * Shares minted, from a deposit's decoded return value
+ * Return value format: [ [amounts], totalShares, allocations ]
+ */
+function depositedShares(returnValue: unknown): bigint | null {
+  if (!Array.isArray(returnValue) || returnValue.length < 2) {
+    return null;
+  }
+  return toBigIntOrNull(returnValue[1]);
+}
+
+/**
+ * Assets paid out, from a withdrawal's decoded return value
+ * Return value format: [ amounts ], one entry per vault asset
+ */
+function withdrawnAssets(returnValue: unknown): bigint | null {
+  if (!Array.isArray(returnValue) || returnValue.length === 0) {
+    return null;
+  }
+  const first = Array.isArray(returnValue[0]) ? returnValue[0][0] : returnValue[0];
+  return toBigIntOrNull(first);
+}
+
+function toBigIntOrNull(value: unknown): bigint | null {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "string" || typeof value === "number") {
+    try {
+      return BigInt(value);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let operationRecordServiceInstance: OperationRecordService | null = null;
+
+/**
+ * Get singleton instance of OperationRecordService
+ */
+export function getOperationRecordService(): OperationRecordService {
+  if (!operationRecordServiceInstance) {
+    operationRecordServiceInstance = new OperationRecordService();
+  }
+  return operationRecordServiceInstance;
+}
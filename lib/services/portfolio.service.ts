@@ -0,0 +1,578 @@
+/**
+ * Portfolio Service
+ *
+ * Works out what a user has earned in a vault. Cost basis comes from
+ * the user's completed deposits and withdrawals, replayed in order with
+ * the average-cost method:
+ * - A deposit adds its amount to the cost basis and its shares to the
+ *   shares held
+ * - A withdrawal removes the same fraction of the cost basis as of the
+ *   shares it burns; what it paid out above that cost is realized yield
+ * - A wallet migration that transferred shares to the user's own wallet
+ *   removes them the same way, at cost: nothing was sold, so it
+ *   realizes no yield
+ *
+ * Current value is the on-chain share balance times the price per
+ * share, and unrealized yield is current value minus the remaining
+ * cost basis. Realized plus unrealized yield is what the user has
+ * earned so far, and is cached in VaultBalance.estimatedYield. An
+ * archived wallet (closed or migrated) is not valued: its shares left
+ * Juby's custody.
+ *
+ * A daily job (scripts/snapshot-portfolios.ts) stores each user's
+ * shares, price per share and value as a PortfolioSnapshot, which
+ * getHistory() serves as the balance chart's series.
+ */
+
+import { getDataStore } from "@/lib/data-store";
+import type {
+  Deposit,
+  PortfolioSnapshot,
+  StellarWallet,
+  WalletMigration,
+  Withdrawal,
+} from "@/lib/types/database.types";
+import {
+  initializeDefindexService,
+  type DefindexService,
+} from "./defindex.service";
+import type { VaultDefinition } from "./vault-registry.service";
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * The parts of DefindexService the portfolio reads from
+ */
+export type PortfolioVaultReader = Pick<
+  DefindexService,
+  "getVault" | "getVaults" | "getVaultBalance"
+>;
+
+/**
+ * Running totals from replaying a user's deposits and withdrawals.
+ * All amounts in stroops.
+ */
+export interface CostBasisLedger {
+  totalDeposited: bigint;
+  totalWithdrawn: bigint; // Assets actually paid out
+  costBasis: bigint; // Deposited principal still invested
+  shares: bigint; // Shares held according to the records
+  realizedYield: bigint; // Withdrawn above cost; negative for a loss
+}
+
+/**
+ * Shares of one vault a wallet migration transferred out
+ */
+export interface MigratedShares {
+  migration: WalletMigration;
+  shares: bigint; // In stroops
+}
+
+/**
+ * One completed operation replayed into the ledger
+ */
+export interface CostBasisStep {
+  at: Date; // When the operation completed
+  deposit: Deposit | null;
+  withdrawal: Withdrawal | null;
+  migration: WalletMigration | null;
+  shares: bigint; // Minted by a deposit, or burned or moved out otherwise
+  costRemoved: bigint; // Cost basis a withdrawal or migration took out; zero for deposits
+  realizedYield: bigint; // Withdrawn above costRemoved; zero for deposits and migrations
+  ledger: CostBasisLedger; // Totals after this operation
+}
+
+export interface PortfolioSummary {
+  userId: string;
+  vaultId: string;
+  vaultAddress: string;
+  assetSymbol: string;
+  decimals: number;
+  // All amounts in stroops
+  shares: bigint; // On-chain share balance
+  currentValue: bigint; // shares × price per share
+  totalDeposited: bigint;
+  totalWithdrawn: bigint;
+  costBasis: bigint;
+  realizedYield: bigint;
+  unrealizedYield: bigint; // currentValue - costBasis
+  totalYield: bigint; // realizedYield + unrealizedYield
+  yieldBps: number | null; // totalYield relative to totalDeposited; null before any deposit
+  pricePerShare: number; // For display only
+  asOf: Date;
+}
+
+export const HISTORY_RANGES = ["1M", "3M", "6M", "1Y"] as const;
+
+export type HistoryRange = (typeof HISTORY_RANGES)[number];
+
+export interface PortfolioHistory {
+  userId: string;
+  vaultId: string;
+  vaultAddress: string;
+  assetSymbol: string;
+  decimals: number;
+  range: HistoryRange;
+  points: PortfolioSnapshot[]; // Oldest first, one per day
+}
+
+export interface SnapshotRunReport {
+  snapshotDate: Date;
+  taken: number;
+  skipped: number; // No shares and no cached balance
+  failed: number;
+}
+
+const BPS_DENOMINATOR = BigInt(10_000);
+
+const HISTORY_RANGE_DAYS: Record<HistoryRange, number> = {
+  "1M": 30,
+  "3M": 90,
+  "6M": 180,
+  "1Y": 365,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ========================================
+// PORTFOLIO SERVICE
+// ========================================
+
+export class PortfolioService {
+  private reader: PortfolioVaultReader;
+
+  constructor(reader: PortfolioVaultReader) {
+    this.reader = reader;
+  }
+
+  /**
+   * Get a user's cost basis, value and yield in a vault
+   *
+   * Refreshes VaultBalance.estimatedYield with the result.
+   *
+   * @param userId - User identifier
+   * @param vaultId - Optional vault, defaults to the default vault
+   * @returns Portfolio summary
+   * @throws UnknownVaultError if no vault has that id
+   * @throws Error if the on-chain balance cannot be read
+   */
+  async getSummary(userId: string, vaultId?: string): Promise<PortfolioSummary> {
+    const vault = this.reader.getVault(vaultId);
+    const store = getDataStore();
+
+    const [wallet, ledger] = await Promise.all([
+      store.wallets.findByUserId(userId),
+      loadCostBasisLedger(userId, vault.address),
+    ]);
+
+    // Without an open custodial wallet there is nothing on-chain to value
+    let shares = BigInt(0);
+    let currentValue = BigInt(0);
+    let pricePerShare = 1;
+    if (wallet && !wallet.archivedAt) {
+      const onChain = await this.reader.getVaultBalance(wallet.stellarPublicKey, vault.id);
+      if (!onChain.success) {
+        throw new Error(onChain.error || "Failed to read vault balance");
+      }
+      shares = BigInt(onChain.vaultShares ?? 0);
+      currentValue = BigInt(onChain.balance ?? 0);
+      if (onChain.totalSupply && BigInt(onChain.totalSupply) > BigInt(0)) {
+        pricePerShare = Number(onChain.totalManagedFunds) / Number(onChain.totalSupply);
+      }
+    }
+
+    const unrealizedYield = currentValue - ledger.costBasis;
+    const totalYield = ledger.realizedYield + unrealizedYield;
+    const asOf = new Date();
+
+    await store.vaultBalances.recordYield(userId, vault.address, totalYield, asOf);
+
+    return {
+      userId,
+      vaultId: vault.id,
+      vaultAddress: vault.address,
+      assetSymbol: vault.assetSymbol,
+      decimals: vault.decimals,
+      shares,
+      currentValue,
+      totalDeposited: ledger.totalDeposited,
+      totalWithdrawn: ledger.totalWithdrawn,
+      costBasis: ledger.costBasis,
+      realizedYield: ledger.realizedYield,
+      unrealizedYield,
+      totalYield,
+      yieldBps:
+        ledger.totalDeposited > BigInt(0)
+          ? Number((totalYield * BPS_DENOMINATOR) / ledger.totalDeposited)
+          : null,
+      pricePerShare,
+      asOf,
+    };
+  }
+
+  /**
+   * Store today's snapshots for every open custodial wallet
+   *
+   * Each wallet gets one snapshot per configured vault it has a cached
+   * VaultBalance in or holds shares of. Running twice on the same UTC
+   * day replaces that day's snapshots, so the job can safely be retried.
+   *
+   * @param at - Moment to snapshot, defaults to now; only its UTC day is kept
+   * @returns Counts of snapshots taken, skipped and failed, per wallet and vault
+   */
+  async takeDailySnapshots(at: Date = new Date()): Promise<SnapshotRunReport> {
+    const snapshotDate = startOfUtcDay(at);
+    const store = getDataStore();
+    // Closed accounts were emptied and archived, so there is nothing to value
+    const wallets = (await store.wallets.list()).filter((w) => !w.archivedAt);
+    const report: SnapshotRunReport = { snapshotDate, taken: 0, skipped: 0, failed: 0 };
+
+    console.log(`📸 Snapshotting ${wallets.length} wallet(s) for ${snapshotDate.toISOString().slice(0, 10)}`);
+
+    // One at a time, to keep the RPC load flat
+    for (const wallet of wallets) {
+      for (const vault of this.reader.getVaults()) {
+        try {
+          const taken = await this.snapshotWallet(wallet, vault, snapshotDate);
+          report[taken ? "taken" : "skipped"]++;
+        } catch (error) {
+          console.error(`Error snapshotting user ${wallet.userId} in vault ${vault.id}:`, error);
+          report.failed++;
+        }
+      }
+    }
+
+    console.log(`✅ Snapshots done: ${report.taken} taken, ${report.skipped} skipped, ${report.failed} failed`);
+    return report;
+  }
+
+  /**
+   * Get a user's daily snapshots over a range
+   *
+   * @param userId - User identifier
+   * @param range - How far back to go: 1M, 3M, 6M or 1Y
+   * @param vaultId - Optional vault, defaults to the default vault
+   * @returns Snapshots, oldest first
+   * @throws UnknownVaultError if no vault has that id
+   */
+  async getHistory(
+    userId: string,
+    range: HistoryRange,
+    vaultId?: string
+  ): Promise<PortfolioHistory> {
+    const vault = this.reader.getVault(vaultId);
+    const from = startOfUtcDay(new Date(Date.now() - HISTORY_RANGE_DAYS[range] * DAY_MS));
+
+    const points = await getDataStore().portfolioSnapshots.listByUser(
+      userId,
+      vault.address,
+      from
+    );
+
+    return {
+      userId,
+      vaultId: vault.id,
+      vaultAddress: vault.address,
+      assetSymbol: vault.assetSymbol,
+      decimals: vault.decimals,
+      range,
+      points,
+    };
+  }
+
+  /**
+   * Snapshot one wallet's position in one vault
+   *
+   * @returns false if there was nothing to snapshot
+   */
+  private async snapshotWallet(
+    wallet: StellarWallet,
+    vault: VaultDefinition,
+    snapshotDate: Date
+  ): Promise<boolean> {
+    const store = getDataStore();
+    const cached = await store.vaultBalances.find(wallet.userId, vault.address);
+
+    const onChain = await this.reader.getVaultBalance(wallet.stellarPublicKey, vault.id);
+    if (!onChain.success) {
+      throw new Error(onChain.error || "Failed to read vault balance");
+    }
+
+    const shares = BigInt(onChain.vaultShares ?? 0);
+    if (!cached && shares === BigInt(0)) {
+      return false;
+    }
+
+    const totalSupply = BigInt(onChain.totalSupply ?? 0);
+    await store.portfolioSnapshots.upsert({
+      userId: wallet.userId,
+      vaultAddress: vault.address,
+      snapshotDate,
+      shares,
+      pricePerShare:
+        totalSupply > BigInt(0)
+          ? Number(onChain.totalManagedFunds) / Number(totalSupply)
+          : 1,
+      value: BigInt(onChain.balance ?? 0),
+    });
+    return true;
+  }
+}
+
+// ========================================
+// COST BASIS
+// ========================================
+
+/**
+ * Replay completed deposits and withdrawals into a cost basis ledger
+ *
+ * Records that did not complete moved no funds and are ignored.
+ * Operations are applied in the order they completed.
+ *
+ * @param deposits - The user's deposits into one vault
+ * @param withdrawals - The user's withdrawals from the same vault
+ * @param migrated - Shares of the same vault moved out by a wallet migration
+ * @returns Running totals after the last operation
+ */
+export function buildCostBasisLedger(
+  deposits: Deposit[],
+  withdrawals: Withdrawal[],
+  migrated: MigratedShares[] = []
+): CostBasisLedger {
+  const steps = replayCostBasis(deposits, withdrawals, migrated);
+  return steps.length > 0 ? steps[steps.length - 1].ledger : emptyLedger();
+}
+
+/**
+ * Replay completed deposits and withdrawals one operation at a time
+ *
+ * Same rules as buildCostBasisLedger, keeping what each operation did.
+ *
+ * @param deposits - The user's deposits into one vault
+ * @param withdrawals - The user's withdrawals from the same vault
+ * @param migrated - Shares of the same vault moved out by a wallet migration
+ * @returns One step per completed operation, in completion order
+ */
+export function replayCostBasis(
+  deposits: Deposit[],
+  withdrawals: Withdrawal[],
+  migrated: MigratedShares[] = []
+): CostBasisStep[] {
+  const operations = [
+    ...deposits
+      .filter((d) => d.bridgeStatus === "COMPLETED")
+      .map((d) => ({ at: completedAt(d), deposit: d, withdrawal: null, migrated: null })),
+    ...withdrawals
+      .filter((w) => w.status === "COMPLETED")
+      .map((w) => ({ at: completedAt(w), deposit: null, withdrawal: w, migrated: null })),
+    ...migrated
+      .filter((m) => m.shares > BigInt(0))
+      .map((m) => ({
+        // The shares may move before a later step fails, so an unfinished
+        // migration counts from its last update
+        at: (m.migration.completedAt ?? m.migration.updatedAt).getTime(),
+        deposit: null,
+        withdrawal: null,
+        migrated: m,
+      })),
+  ].sort((a, b) => a.at - b.at);
+
+  const ledger = emptyLedger();
+  const steps: CostBasisStep[] = [];
+
+  for (const { at, deposit, withdrawal, migrated } of operations) {
+    if (deposit) {
+      const minted = deposit.vaultShares ?? BigInt(0);
+      ledger.totalDeposited += deposit.amountUsdc;
+      ledger.costBasis += deposit.amountUsdc;
+      ledger.shares += minted;
+      steps.push({
+        at: new Date(at),
+        deposit,
+        withdrawal: null,
+        migration: null,
+        shares: minted,
+        costRemoved: BigInt(0),
+        realizedYield: BigInt(0),
+        ledger: { ...ledger },
+      });
+      continue;
+    }
+
+    if (withdrawal) {
+      // Shares can exceed the records if some arrived outside the app
+      const burned =
+        withdrawal.vaultShares < ledger.shares ? withdrawal.vaultShares : ledger.shares;
+      const costRemoved =
+        ledger.shares > BigInt(0)
+          ? (ledger.costBasis * burned) / ledger.shares
+          : BigInt(0);
+      const realizedYield = withdrawal.amountUsdc - costRemoved;
+
+      ledger.costBasis -= costRemoved;
+      ledger.shares -= burned;
+      ledger.totalWithdrawn += withdrawal.amountUsdc;
+      ledger.realizedYield += realizedYield;
+      steps.push({
+        at: new Date(at),
+        deposit: null,
+        withdrawal,
+        migration: null,
+        shares: burned,
+        costRemoved,
+        realizedYield,
+        ledger: { ...ledger },
+      });
+      continue;
+    }
+
+    if (migrated) {
+      const moved = migrated.shares < ledger.shares ? migrated.shares : ledger.shares;
+      const costRemoved =
+        ledger.shares > BigInt(0)
+          ? (ledger.costBasis * moved) / ledger.shares
+          : BigInt(0);
+
+      ledger.costBasis -= costRemoved;
+      ledger.shares -= moved;
+      steps.push({
+        at: new Date(at),
+        deposit: null,
+        withdrawal: null,
+        migration: migrated.migration,
+        shares: moved,
+        costRemoved,
+        realizedYield: BigInt(0),
+        ledger: { ...ledger },
+      });
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Build a user's cost basis ledger for one vault from the data store
+ *
+ * @param userId - User identifier
+ * @param vaultAddress - Vault contract address
+ */
+export async function loadCostBasisLedger(
+  userId: string,
+  vaultAddress: string
+): Promise<CostBasisLedger> {
+  const { deposits, withdrawals, migrated } = await loadVaultOperations(userId, vaultAddress);
+  return buildCostBasisLedger(deposits, withdrawals, migrated);
+}
+
+/**
+ * Load a user's deposits, withdrawals and migrated shares for one vault
+ *
+ * @param userId - User identifier
+ * @param vaultAddress - Vault contract address
+ */
+export async function loadVaultOperations(
+  userId: string,
+  vaultAddress: string
+): Promise<{ deposits: Deposit[]; withdrawals: Withdrawal[]; migrated: MigratedShares[] }> {
+  const store = getDataStore();
+  const [deposits, withdrawals, migration] = await Promise.all([
+    store.deposits.listByUser(userId),
+    store.withdrawals.listByUser(userId),
+    store.walletMigrations.findByUserId(userId),
+  ]);
+
+  // A WITHDRAW migration burns the shares through withdrawals, which are recorded
+  const migratedShares =
+    migration?.method === "TRANSFER_SHARES"
+      ? BigInt(migration.sharesMoved[vaultAddress] ?? 0)
+      : BigInt(0);
+
+  return {
+    deposits: deposits.filter((d) => d.vaultAddress === vaultAddress),
+    withdrawals: withdrawals.filter((w) => w.vaultAddress === vaultAddress),
+    migrated:
+      migration && migratedShares > BigInt(0)
+        ? [{ migration, shares: migratedShares }]
+        : [],
+  };
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function emptyLedger(): CostBasisLedger {
+  return {
+    totalDeposited: BigInt(0),
+    totalWithdrawn: BigInt(0),
+    costBasis: BigInt(0),
+    shares: BigInt(0),
+    realizedYield: BigInt(0),
+  };
+}
+
+function completedAt(record: { completedAt: Date | null; initiatedAt: Date }): number {
+  return (record.completedAt ?? record.initiatedAt).getTime();
+}
+
+/**
+ * A summary with amounts as decimal-integer strings, for API responses
+ */
+export function toSummaryJson(summary: PortfolioSummary) {
+  return {
+    ...summary,
+    shares: summary.shares.toString(),
+    currentValue: summary.currentValue.toString(),
+    totalDeposited: summary.totalDeposited.toString(),
+    totalWithdrawn: summary.totalWithdrawn.toString(),
+    costBasis: summary.costBasis.toString(),
+    realizedYield: summary.realizedYield.toString(),
+    unrealizedYield: summary.unrealizedYield.toString(),
+    totalYield: summary.totalYield.toString(),
+  };
+}
+
+/**
+ * History with amounts as decimal-integer strings and days as
+ * YYYY-MM-DD, for API responses
+ */
+export function toHistoryJson(history: PortfolioHistory) {
+  return {
+    ...history,
+    points: history.points.map((point) => ({
+      date: point.snapshotDate.toISOString().slice(0, 10),
+      shares: point.shares.toString(),
+      pricePerShare: point.pricePerShare,
+      value: point.value.toString(),
+    })),
+  };
+}
+
+export function isHistoryRange(value: string): value is HistoryRange {
+  return (HISTORY_RANGES as readonly string[]).includes(value);
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let portfolioServiceInstance: PortfolioService | null = null;
+
+/**
+ * Get singleton instance of PortfolioService
+ *
+ * Reads the chain through the configured DefindexService.
+ */
+export function getPortfolioService(): PortfolioService {
+  if (!portfolioServiceInstance) {
+    portfolioServiceInstance = new PortfolioService(initializeDefindexService());
+  }
+  return portfolioServiceInstance;
+}
@@ -0,0 +1,427 @@
+/**
+ * Vault Reconciliation Service
+ *
+ * Keeps the cached VaultBalance rows in step with the vault contracts.
+ * Each run reads every custodial wallet's share balance in every
+ * configured vault, overwrites the cached shares, estimated yield and
+ * lastYieldCheck, and records a VaultBalanceDrift for every balance
+ * that disagreed. Drift
+ * worth more than RECONCILIATION_DRIFT_THRESHOLD_STROOPS is flagged for
+ * admin review.
+ *
+ * A vault with a deposit or withdrawal still in flight is skipped:
+ * their cached shares are about to change, so a difference is expected
+ * and overwriting them would race the settlement. This is checked again
+ * just before the cache is written, since one can start while the chain
+ * is read. A skip whose operation has been in flight for longer than
+ * RECONCILIATION_STUCK_AFTER_MINUTES is reported as stuck: the record
+ * will not settle by itself, and the vault stays unchecked until it is
+ * resolved.
+ *
+ * Run it on a schedule with scripts/reconcile-vault-balances.ts, or on
+ * demand through POST /api/admin/reconciliation.
+ */
+
+import crypto from "crypto";
+import { getDataStore } from "@/lib/data-store";
+import type {
+  StellarWallet,
+  VaultBalanceDrift,
+} from "@/lib/types/database.types";
+import type { VaultBalanceDriftFilter } from "@/lib/data-store";
+import {
+  initializeDefindexService,
+  type DefindexService,
+} from "./defindex.service";
+import { VaultContractService } from "./vault-contract.service";
+import { loadCostBasisLedger } from "./portfolio.service";
+import type { VaultDefinition } from "./vault-registry.service";
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * The parts of DefindexService the reconciler reads from
+ */
+export type VaultBalanceReader = Pick<
+  DefindexService,
+  "getVault" | "getVaults" | "getVaultBalance"
+>;
+
+export type ReconciliationOutcome =
+  | "matched" // Cached shares equal the chain
+  | "corrected" // Drift below the threshold, cache fixed
+  | "flagged" // Drift above the threshold, cache fixed and flagged for review
+  | "skipped" // Operation in flight
+  | "failed"; // Chain read failed, cache untouched
+
+export interface WalletReconciliation {
+  userId: string;
+  stellarPublicKey: string;
+  vaultAddress: string;
+  outcome: ReconciliationOutcome;
+  drift?: VaultBalanceDrift;
+  inFlightSince?: Date; // Skipped: when the oldest unsettled operation started
+  stuck?: boolean; // Skipped for longer than the stuck threshold
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  runId: string;
+  startedAt: Date;
+  finishedAt: Date;
+  driftThreshold: bigint; // Stroops of the vault asset
+  checked: number;
+  matched: number;
+  corrected: number;
+  flagged: number;
+  skipped: number;
+  stuck: number; // Skips whose operation has been in flight too long
+  failed: number;
+  results: WalletReconciliation[];
+}
+
+const DEFAULT_DRIFT_THRESHOLD_STROOPS = BigInt(10_000_000); // 1 USDC
+const DEFAULT_STUCK_AFTER_MINUTES = 60;
+
+// ========================================
+// VAULT RECONCILIATION SERVICE
+// ========================================
+
+export class VaultReconciliationService {
+  private reader: VaultBalanceReader;
+  private driftThreshold: bigint;
+  private stuckAfterMs: number;
+
+  /**
+   * @param reader - Reads vault balances from the chain
+   * @param driftThreshold - Drift worth more than this is flagged (defaults to RECONCILIATION_DRIFT_THRESHOLD_STROOPS)
+   * @param stuckAfterMinutes - In-flight time after which a skip is reported as stuck (defaults to RECONCILIATION_STUCK_AFTER_MINUTES)
+   * @throws Error if a threshold is negative
+   */
+  constructor(reader: VaultBalanceReader, driftThreshold?: bigint, stuckAfterMinutes?: number) {
+    this.reader = reader;
+    this.driftThreshold =
+      driftThreshold ??
+      (process.env.RECONCILIATION_DRIFT_THRESHOLD_STROOPS
+        ? BigInt(process.env.RECONCILIATION_DRIFT_THRESHOLD_STROOPS)
+        : DEFAULT_DRIFT_THRESHOLD_STROOPS);
+
+    if (this.driftThreshold < BigInt(0)) {
+      throw new Error("RECONCILIATION_DRIFT_THRESHOLD_STROOPS must not be negative");
+    }
+
+    const stuckAfter =
+      stuckAfterMinutes ??
+      (process.env.RECONCILIATION_STUCK_AFTER_MINUTES
+        ? Number(process.env.RECONCILIATION_STUCK_AFTER_MINUTES)
+        : DEFAULT_STUCK_AFTER_MINUTES);
+    if (!Number.isFinite(stuckAfter) || stuckAfter < 0) {
+      throw new Error("RECONCILIATION_STUCK_AFTER_MINUTES must be a non-negative number");
+    }
+    this.stuckAfterMs = stuckAfter * 60_000;
+  }
+
+  /**
+   * Reconcile every custodial wallet against the chain, in every vault
+   *
+   * Balances are checked one at a time to keep the RPC load flat. A
+   * failed read is reported and leaves that balance's cache untouched;
+   * it never stops the run.
+   *
+   * @returns Per-wallet and vault outcomes and totals
+   */
+  async reconcileAll(): Promise<ReconciliationReport> {
+    const runId = crypto.randomUUID();
+    const startedAt = new Date();
+    // Closed accounts were emptied and archived, so there is nothing to check
+    const wallets = (await getDataStore().wallets.list()).filter((w) => !w.archivedAt);
+
+    console.log(`🔎 Reconciliation ${runId}: checking ${wallets.length} wallet(s)`);
+
+    const results: WalletReconciliation[] = [];
+    for (const wallet of wallets) {
+      for (const vault of this.reader.getVaults()) {
+        results.push(await this.reconcileWallet(runId, wallet, vault));
+      }
+    }
+
+    const count = (outcome: ReconciliationOutcome) =>
+      results.filter((result) => result.outcome === outcome).length;
+
+    const report: ReconciliationReport = {
+      runId,
+      startedAt,
+      finishedAt: new Date(),
+      driftThreshold: this.driftThreshold,
+      checked: results.length,
+      matched: count("matched"),
+      corrected: count("corrected"),
+      flagged: count("flagged"),
+      skipped: count("skipped"),
+      stuck: results.filter((result) => result.stuck).length,
+      failed: count("failed"),
+      results,
+    };
+
+    console.log(
+      `✅ Reconciliation ${runId} done: ${report.matched} matched, ${report.corrected} corrected, ${report.flagged} flagged, ${report.skipped} skipped (${report.stuck} stuck), ${report.failed} failed`
+    );
+    return report;
+  }
+
+  /**
+   * List recorded drift, newest first
+   *
+   * @param filter - Optional run, user, flagged and reviewed filters
+   */
+  async listDrifts(filter: VaultBalanceDriftFilter = {}): Promise<VaultBalanceDrift[]> {
+    return getDataStore().vaultBalanceDrifts.list(filter);
+  }
+
+  /**
+   * Mark a drift as reviewed by an admin
+   *
+   * @param id - Drift id
+   * @param reviewedBy - Who reviewed it
+   * @param note - Optional outcome of the review
+   * @returns Updated drift
+   * @throws RecordNotFoundError if the drift does not exist
+   */
+  async reviewDrift(
+    id: string,
+    reviewedBy: string,
+    note?: string
+  ): Promise<VaultBalanceDrift> {
+    const drift = await getDataStore().vaultBalanceDrifts.markReviewed(
+      id,
+      reviewedBy,
+      new Date(),
+      note
+    );
+    console.log(`📝 Drift ${id} reviewed by ${reviewedBy}`);
+    return drift;
+  }
+
+  getDriftThreshold(): bigint {
+    return this.driftThreshold;
+  }
+
+  /**
+   * Reconcile one wallet's cached balance in one vault
+   */
+  private async reconcileWallet(
+    runId: string,
+    wallet: StellarWallet,
+    vault: VaultDefinition
+  ): Promise<WalletReconciliation> {
+    const store = getDataStore();
+    const result = {
+      userId: wallet.userId,
+      stellarPublicKey: wallet.stellarPublicKey,
+      vaultAddress: vault.address,
+    };
+
+    try {
+      const inFlightSince = await oldestOperationInFlight(wallet.userId, vault.address);
+      if (inFlightSince) {
+        return this.skip(result, inFlightSince);
+      }
+
+      const cached = await store.vaultBalances.find(wallet.userId, vault.address);
+
+      const onChain = await this.reader.getVaultBalance(
+        wallet.stellarPublicKey,
+        vault.id
+      );
+      if (!onChain.success) {
+        throw new Error(onChain.error || "Failed to read vault balance");
+      }
+
+      const storedShares = cached?.vaultShares ?? BigInt(0);
+      const onChainShares = BigInt(onChain.vaultShares ?? 0);
+      const onChainAssets = BigInt(onChain.balance ?? 0);
+
+      // Nothing cached and nothing held: no row to keep in step
+      if (!cached && onChainShares === BigInt(0)) {
+        return { ...result, outcome: "matched" };
+      }
+
+      // Same yield the portfolio summary reports
+      const ledger = await loadCostBasisLedger(wallet.userId, vault.address);
+
+      // An operation that started while the chain was read would race the write
+      const startedSince = await oldestOperationInFlight(wallet.userId, vault.address);
+      if (startedSince) {
+        return this.skip(result, startedSince);
+      }
+
+      await store.vaultBalances.sync(
+        {
+          userId: wallet.userId,
+          stellarWalletId: wallet.id,
+          vaultAddress: vault.address,
+        },
+        {
+          vaultShares: onChainShares,
+          estimatedYield: ledger.realizedYield + onChainAssets - ledger.costBasis,
+          lastYieldCheck: new Date(),
+        }
+      );
+
+      const driftShares = onChainShares - storedShares;
+      if (driftShares === BigInt(0)) {
+        return { ...result, outcome: "matched" };
+      }
+
+      const driftAssets = VaultContractService.sharesToAssets(
+        driftShares < BigInt(0) ? -driftShares : driftShares,
+        {
+          vaultAddress: vault.address,
+          totalSupply: BigInt(onChain.totalSupply ?? 0),
+          totalManagedFunds: BigInt(onChain.totalManagedFunds ?? 0),
+          managedFunds: [],
+        }
+      );
+      const flagged = driftAssets > this.driftThreshold;
+
+      const drift = await store.vaultBalanceDrifts.create({
+        runId,
+        userId: wallet.userId,
+        stellarPublicKey: wallet.stellarPublicKey,
+        vaultAddress: vault.address,
+        storedShares,
+        onChainShares,
+        driftShares,
+        driftAssets,
+        flagged,
+      });
+
+      if (flagged) {
+        console.warn(`🚩 User ${wallet.userId}: cached ${storedShares} shares, chain has ${onChainShares} (worth ${driftAssets} stroops)`);
+      } else {
+        console.log(`🔧 User ${wallet.userId}: corrected ${storedShares} → ${onChainShares} shares`);
+      }
+
+      return { ...result, outcome: flagged ? "flagged" : "corrected", drift };
+    } catch (error) {
+      console.error(`Error reconciling user ${wallet.userId} in vault ${vault.id}:`, error);
+      return {
+        ...result,
+        outcome: "failed",
+        error: error instanceof Error ? error.message : "Reconciliation failed",
+      };
+    }
+  }
+
+  /**
+   * Skip a balance with an operation in flight, reporting it as stuck
+   * once the operation is older than the stuck threshold
+   */
+  private skip(
+    result: Pick<WalletReconciliation, "userId" | "stellarPublicKey" | "vaultAddress">,
+    inFlightSince: Date
+  ): WalletReconciliation {
+    const stuck = Date.now() - inFlightSince.getTime() >= this.stuckAfterMs;
+    if (stuck) {
+      console.warn(
+        `⏳ User ${result.userId} has had an operation in flight in ${result.vaultAddress} since ${inFlightSince.toISOString()}; the vault is skipped until it settles`
+      );
+    }
+    return { ...result, outcome: "skipped", inFlightSince, stuck };
+  }
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * When the user's oldest deposit or withdrawal in the vault that has
+ * not settled yet started
+ *
+ * @returns Its start time, or null if nothing is in flight
+ */
+async function oldestOperationInFlight(userId: string, vaultAddress: string): Promise<Date | null> {
+  const store = getDataStore();
+  const [deposits, withdrawals] = await Promise.all([
+    store.deposits.listByUser(userId),
+    store.withdrawals.listByUser(userId),
+  ]);
+
+  const started = [
+    ...deposits
+      .filter(
+        (d) =>
+          d.vaultAddress === vaultAddress &&
+          d.bridgeStatus !== "COMPLETED" &&
+          d.bridgeStatus !== "FAILED"
+      )
+      .map((d) => d.initiatedAt),
+    ...withdrawals
+      .filter(
+        (w) => w.vaultAddress === vaultAddress && w.status !== "COMPLETED" && w.status !== "FAILED"
+      )
+      .map((w) => w.initiatedAt),
+  ];
+
+  if (started.length === 0) {
+    return null;
+  }
+  return new Date(Math.min(...started.map((date) => date.getTime())));
+}
+
+/**
+ * A drift with amounts as decimal-integer strings, for API responses
+ */
+export type VaultBalanceDriftJson = Omit<
+  VaultBalanceDrift,
+  "storedShares" | "onChainShares" | "driftShares" | "driftAssets"
+> & {
+  storedShares: string;
+  onChainShares: string;
+  driftShares: string;
+  driftAssets: string;
+};
+
+export function toDriftJson(drift: VaultBalanceDrift): VaultBalanceDriftJson {
+  return {
+    ...drift,
+    storedShares: drift.storedShares.toString(),
+    onChainShares: drift.onChainShares.toString(),
+    driftShares: drift.driftShares.toString(),
+    driftAssets: drift.driftAssets.toString(),
+  };
+}
+
+export function toReportJson(report: ReconciliationReport) {
+  return {
+    ...report,
+    driftThreshold: report.driftThreshold.toString(),
+    results: report.results.map((result) => ({
+      ...result,
+      drift: result.drift && toDriftJson(result.drift),
+    })),
+  };
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let reconciliationServiceInstance: VaultReconciliationService | null = null;
+
+/**
+ * Get singleton instance of VaultReconciliationService
+ *
+ * Reads the chain through the configured DefindexService.
+ */
+export function getVaultReconciliationService(): VaultReconciliationService {
+  if (!reconciliationServiceInstance) {
+    reconciliationServiceInstance = new VaultReconciliationService(
+      initializeDefindexService()
+    );
+  }
+  return reconciliationServiceInstance;
+}
@@ -0,0 +1,723 @@
+/**
+ * Scenario Service
+ *
+ * Seeds the data store with a known state from a JSON fixture, so demos
+ * and manual tests start from the same place every time. A scenario
+ * lists users, each with an optional custodial wallet, deposit and
+ * withdrawal history, vault balance and daily portfolio snapshots.
+ *
+ * Fixtures live in fixtures/scenarios/ and are registered in SCENARIOS:
+ * - new-user: the demo user before their first visit
+ * - long-time-saver: a year of monthly deposits, one withdrawal and yield
+ * - stuck-bridge: a deposit stuck after attestation and a withdrawal
+ *   stuck in the bridge
+ *
+ * Everything derived from a fixture is deterministic: wallet keys come
+ * from the fixture's seed, dates are relative to the load time, and
+ * transaction hashes that the fixture leaves out are hashed from the
+ * scenario name and record position. Loading only writes through the
+ * DataStore, so it works on the in-memory and Prisma stores alike. It
+ * never touches the chain.
+ *
+ * Scenario wallet keys are derived from seeds anyone can read in the
+ * fixtures, so loading is refused on mainnet (STELLAR_NETWORK=MAINNET)
+ * and in production (NODE_ENV=production).
+ */
+
+import { createHash } from "crypto";
+import { Keypair } from "@stellar/stellar-sdk";
+import { getDataStore } from "@/lib/data-store";
+import { Money } from "@/lib/money";
+import type {
+  BridgeStatus,
+  Deposit,
+  Withdrawal,
+  WithdrawalStatus,
+} from "@/lib/types/database.types";
+import longTimeSaver from "@/fixtures/scenarios/long-time-saver.json";
+import newUser from "@/fixtures/scenarios/new-user.json";
+import stuckBridge from "@/fixtures/scenarios/stuck-bridge.json";
+import { initializeDefindexService, type DefindexService } from "./defindex.service";
+import { buildCostBasisLedger } from "./portfolio.service";
+import {
+  getStellarWalletService,
+  type CreateWalletResult,
+} from "./stellar-wallet.service";
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * The parts of DefindexService the loader reads vault settings from
+ */
+export type ScenarioVaultReader = Pick<DefindexService, "getVault">;
+
+export interface Scenario {
+  name: string;
+  description: string;
+  users: ScenarioUser[];
+}
+
+export interface ScenarioUser {
+  userId: string;
+  wallet?: { seed: string }; // Custodial wallet with a keypair derived from the seed
+  vaultId?: string; // Defaults to the default vault
+  pricePerShare?: { start: number; end: number }; // Linear from the first record to now, defaults to 1
+  deposits?: ScenarioDeposit[];
+  withdrawals?: ScenarioWithdrawal[];
+  balance?: { shares: string }; // Cached shares, when they should disagree with the records
+}
+
+/**
+ * A deposit in a fixture. Amounts are decimal strings in the vault
+ * asset; shares default to the amount at that day's price.
+ */
+export interface ScenarioDeposit {
+  amount: string;
+  shares?: string;
+  daysAgo: number;
+  status?: BridgeStatus; // Defaults to COMPLETED
+  worldchainTxHash?: string;
+  cctpAttestation?: string;
+  stellarMintTx?: string;
+  defindexDepositTx?: string;
+}
+
+export interface ScenarioWithdrawal {
+  amount: string;
+  shares?: string;
+  daysAgo: number;
+  status?: WithdrawalStatus; // Defaults to COMPLETED
+  defindexWithdrawTx?: string;
+  stellarBurnTx?: string;
+  worldchainMintTx?: string;
+}
+
+export interface ScenarioLoadOptions {
+  now?: Date; // Moment daysAgo counts back from, defaults to now
+}
+
+export interface ScenarioLoadReport {
+  scenario: string;
+  users: number;
+  wallets: number;
+  deposits: number;
+  withdrawals: number;
+  snapshots: number;
+}
+
+export class UnknownScenarioError extends Error {
+  constructor(name: string) {
+    super(`Unknown scenario: ${name}`);
+    this.name = "UnknownScenarioError";
+  }
+}
+
+export class InvalidScenarioError extends Error {
+  constructor(message: string) {
+    super(`Invalid scenario: ${message}`);
+    this.name = "InvalidScenarioError";
+  }
+}
+
+export class ScenarioConflictError extends Error {
+  constructor(userId: string) {
+    super(`User ${userId} already has a wallet or records; load scenarios into an empty store`);
+    this.name = "ScenarioConflictError";
+  }
+}
+
+/**
+ * Scenarios cannot be loaded on mainnet or in production (HTTP 403)
+ */
+export class ScenarioEnvironmentError extends Error {
+  constructor(reason: string) {
+    super(`Scenarios cannot be loaded ${reason}: their wallet keys are public`);
+    this.name = "ScenarioEnvironmentError";
+  }
+}
+
+export const SCENARIOS: Record<string, unknown> = {
+  "new-user": newUser,
+  "long-time-saver": longTimeSaver,
+  "stuck-bridge": stuckBridge,
+};
+
+const BRIDGE_STATUSES: BridgeStatus[] = [
+  "INITIATED",
+  "ATTESTED",
+  "MINTED",
+  "DEPOSITED",
+  "COMPLETED",
+  "FAILED",
+];
+
+const WITHDRAWAL_STATUSES: WithdrawalStatus[] = [
+  "INITIATED",
+  "WITHDRAWN",
+  "BRIDGING",
+  "COMPLETED",
+  "FAILED",
+];
+
+// Statuses reached once the vault has minted or burned the shares
+const VAULT_DEPOSIT_STATUSES: BridgeStatus[] = ["DEPOSITED", "COMPLETED"];
+const VAULT_WITHDRAWAL_STATUSES: WithdrawalStatus[] = ["WITHDRAWN", "BRIDGING", "COMPLETED"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SETTLEMENT_MS = 5 * 60 * 1000; // Between initiation and completion
+const PRICE_SCALE = BigInt(10_000_000);
+const SLIPPAGE_BPS = 500;
+
+// ========================================
+// SCENARIO LOADER
+// ========================================
+
+export class ScenarioLoader {
+  private reader: ScenarioVaultReader;
+
+  constructor(reader: ScenarioVaultReader) {
+    this.reader = reader;
+  }
+
+  /**
+   * Write a scenario into the data store
+   *
+   * Users must not exist yet: the loader adds records, it does not
+   * replace them. Start from a fresh store (a new InMemoryDataStore, or
+   * `prisma migrate reset`).
+   *
+   * @param scenario - Validated scenario (see parseScenario)
+   * @param options - Optional moment that daysAgo counts back from
+   * @returns Counts of records written
+   * @throws ScenarioEnvironmentError on mainnet or in production
+   * @throws ScenarioConflictError if a user already has a wallet or records
+   * @throws UnknownVaultError if a user's vaultId is not configured
+   */
+  async load(
+    scenario: Scenario,
+    options: ScenarioLoadOptions = {}
+  ): Promise<ScenarioLoadReport> {
+    assertScenariosAllowed();
+
+    const now = options.now ?? new Date();
+    const store = getDataStore();
+    const report: ScenarioLoadReport = {
+      scenario: scenario.name,
+      users: scenario.users.length,
+      wallets: 0,
+      deposits: 0,
+      withdrawals: 0,
+      snapshots: 0,
+    };
+
+    for (const user of scenario.users) {
+      const [wallet, deposits, withdrawals] = await Promise.all([
+        store.wallets.findByUserId(user.userId),
+        store.deposits.listByUser(user.userId),
+        store.withdrawals.listByUser(user.userId),
+      ]);
+      if (wallet || deposits.length > 0 || withdrawals.length > 0) {
+        throw new ScenarioConflictError(user.userId);
+      }
+    }
+
+    console.log(`🌱 Loading scenario "${scenario.name}" (${scenario.users.length} user(s))`);
+
+    for (const user of scenario.users) {
+      await this.loadUser(scenario.name, user, now, report);
+    }
+
+    console.log(
+      `✅ Scenario loaded: ${report.wallets} wallet(s), ${report.deposits} deposit(s), ` +
+        `${report.withdrawals} withdrawal(s), ${report.snapshots} snapshot(s)`
+    );
+    return report;
+  }
+
+  /**
+   * Write one user's wallet, records, balance and snapshots
+   */
+  private async loadUser(
+    scenarioName: string,
+    user: ScenarioUser,
+    now: Date,
+    report: ScenarioLoadReport
+  ): Promise<void> {
+    if (!user.wallet) {
+      return;
+    }
+
+    const store = getDataStore();
+    const vault = this.reader.getVault(user.vaultId);
+    const price = priceCurve(user, now);
+
+    const wallet = await getStellarWalletService().importWalletForUser(
+      user.userId,
+      deriveKeypair(user.wallet.seed).secret()
+    );
+    report.wallets++;
+
+    const deposits: Deposit[] = [];
+    for (const [index, fixture] of (user.deposits ?? []).entries()) {
+      const at = daysBefore(now, fixture.daysAgo);
+      deposits.push(
+        await this.createDeposit(wallet, vault.address, vault.decimals, fixture, at, price(at), {
+          scenarioName,
+          index,
+        })
+      );
+    }
+
+    const withdrawals: Withdrawal[] = [];
+    for (const [index, fixture] of (user.withdrawals ?? []).entries()) {
+      const at = daysBefore(now, fixture.daysAgo);
+      withdrawals.push(
+        await this.createWithdrawal(wallet, vault.address, vault.decimals, fixture, at, price(at), {
+          scenarioName,
+          index,
+        })
+      );
+    }
+
+    report.deposits += deposits.length;
+    report.withdrawals += withdrawals.length;
+
+    // Same moments OperationRecordService credits and debits the balance
+    const movements = [
+      ...deposits
+        .filter((d) => VAULT_DEPOSIT_STATUSES.includes(d.bridgeStatus))
+        .map((d) => ({ at: d.initiatedAt, deposited: d.amountUsdc, shares: d.vaultShares ?? BigInt(0) })),
+      ...withdrawals
+        .filter((w) => VAULT_WITHDRAWAL_STATUSES.includes(w.status))
+        .map((w) => ({ at: w.initiatedAt, deposited: BigInt(0), shares: -w.vaultShares })),
+    ].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    if (movements.length === 0 && !user.balance) {
+      return;
+    }
+
+    const key = { userId: user.userId, stellarWalletId: wallet.walletId, vaultAddress: vault.address };
+    const recorded = await store.vaultBalances.adjust(key, {
+      deposited: movements.reduce((sum, m) => sum + m.deposited, BigInt(0)),
+      shares: movements.reduce((sum, m) => sum + m.shares, BigInt(0)),
+    });
+
+    const shares = user.balance
+      ? Money.parse(user.balance.shares, vault.decimals).units
+      : recorded.vaultShares;
+    // Valued on the completed records, so a withdrawal still in the
+    // bridge does not read as a loss
+    const ledger = buildCostBasisLedger(deposits, withdrawals);
+    const estimatedYield =
+      ledger.realizedYield + valueOf(ledger.shares, price(now)) - ledger.costBasis;
+
+    await store.vaultBalances.sync(key, {
+      vaultShares: shares,
+      estimatedYield,
+      lastYieldCheck: now,
+    });
+
+    report.snapshots += await this.writeSnapshots(user.userId, vault.address, movements, price, now);
+  }
+
+  /**
+   * Create a deposit and move it to its fixture status
+   */
+  private async createDeposit(
+    wallet: CreateWalletResult,
+    vaultAddress: string,
+    decimals: number,
+    fixture: ScenarioDeposit,
+    at: Date,
+    price: number,
+    position: { scenarioName: string; index: number }
+  ): Promise<Deposit> {
+    const store = getDataStore();
+    const status = fixture.status ?? "COMPLETED";
+    const amount = Money.parse(fixture.amount, decimals).units;
+    const inVault = VAULT_DEPOSIT_STATUSES.includes(status);
+
+    const created = await store.deposits.create({
+      userId: wallet.userId,
+      stellarWalletId: wallet.walletId,
+      stellarPublicKey: wallet.stellarPublicKey,
+      vaultAddress,
+      amountUsdc: amount,
+      slippageBps: SLIPPAGE_BPS,
+      bridgeStatus: status,
+      worldchainTxHash: fixture.worldchainTxHash ?? null,
+      stellarMintTx: fixture.stellarMintTx ?? null,
+      defindexDepositTx:
+        fixture.defindexDepositTx ??
+        (inVault ? fakeTransactionHash(position.scenarioName, wallet.userId, "deposit", position.index) : null),
+      vaultShares: inVault ? sharesFor(fixture.shares, amount, price, decimals) : null,
+      initiatedAt: at,
+    });
+
+    return store.deposits.update(created.id, {
+      cctpAttestation: fixture.cctpAttestation ?? null,
+      completedAt: status === "COMPLETED" ? new Date(at.getTime() + SETTLEMENT_MS) : null,
+    });
+  }
+
+  /**
+   * Create a withdrawal and move it to its fixture status
+   */
+  private async createWithdrawal(
+    wallet: CreateWalletResult,
+    vaultAddress: string,
+    decimals: number,
+    fixture: ScenarioWithdrawal,
+    at: Date,
+    price: number,
+    position: { scenarioName: string; index: number }
+  ): Promise<Withdrawal> {
+    const store = getDataStore();
+    const status = fixture.status ?? "COMPLETED";
+    const amount = Money.parse(fixture.amount, decimals).units;
+
+    const created = await store.withdrawals.create({
+      userId: wallet.userId,
+      stellarWalletId: wallet.walletId,
+      stellarPublicKey: wallet.stellarPublicKey,
+      vaultAddress,
+      amountUsdc: amount,
+      vaultShares: sharesFor(fixture.shares, amount, price, decimals),
+      slippageBps: SLIPPAGE_BPS,
+      status,
+      defindexWithdrawTx:
+        fixture.defindexWithdrawTx ??
+        (VAULT_WITHDRAWAL_STATUSES.includes(status)
+          ? fakeTransactionHash(position.scenarioName, wallet.userId, "withdrawal", position.index)
+          : null),
+      initiatedAt: at,
+    });
+
+    return store.withdrawals.update(created.id, {
+      stellarBurnTx: fixture.stellarBurnTx ?? null,
+      worldchainMintTx: fixture.worldchainMintTx ?? null,
+      completedAt: status === "COMPLETED" ? new Date(at.getTime() + SETTLEMENT_MS) : null,
+    });
+  }
+
+  /**
+   * Write one snapshot per day from the first vault movement to today
+   *
+   * @returns Number of snapshots written
+   */
+  private async writeSnapshots(
+    userId: string,
+    vaultAddress: string,
+    movements: { at: Date; shares: bigint }[],
+    price: (at: Date) => number,
+    now: Date
+  ): Promise<number> {
+    if (movements.length === 0) {
+      return 0;
+    }
+
+    const store = getDataStore();
+    const today = startOfUtcDay(now);
+    let day = startOfUtcDay(movements[0].at);
+    let shares = BigInt(0);
+    let next = 0;
+    let written = 0;
+
+    while (day.getTime() <= today.getTime()) {
+      const endOfDay = new Date(day.getTime() + DAY_MS);
+      while (next < movements.length && movements[next].at < endOfDay) {
+        shares += movements[next].shares;
+        next++;
+      }
+
+      const pricePerShare = price(endOfDay < now ? endOfDay : now);
+      await store.portfolioSnapshots.upsert({
+        userId,
+        vaultAddress,
+        snapshotDate: day,
+        shares,
+        pricePerShare,
+        value: valueOf(shares, pricePerShare),
+      });
+      written++;
+      day = endOfDay;
+    }
+
+    return written;
+  }
+}
+
+// ========================================
+// FIXTURES
+// ========================================
+
+/**
+ * List the registered scenarios
+ *
+ * @returns Name and description of each scenario
+ */
+export function listScenarios(): { name: string; description: string }[] {
+  return Object.keys(SCENARIOS).map((name) => {
+    const { description } = getScenario(name);
+    return { name, description };
+  });
+}
+
+/**
+ * Get a registered scenario by name
+ *
+ * @param name - Scenario name, e.g. "long-time-saver"
+ * @returns Validated scenario
+ * @throws UnknownScenarioError if no scenario has that name
+ * @throws InvalidScenarioError if its fixture is malformed
+ */
+export function getScenario(name: string): Scenario {
+  if (!Object.prototype.hasOwnProperty.call(SCENARIOS, name)) {
+    throw new UnknownScenarioError(name);
+  }
+  return parseScenario(SCENARIOS[name]);
+}
+
+/**
+ * Validate a parsed JSON fixture
+ *
+ * Amounts are checked as decimals here and against the vault's decimals
+ * when loaded.
+ *
+ * @param value - Parsed JSON
+ * @returns The fixture as a Scenario
+ * @throws InvalidScenarioError naming the first invalid field
+ */
+export function parseScenario(value: unknown): Scenario {
+  const scenario = asObject(value, "scenario");
+  const name = asString(scenario.name, "name");
+  const users = asArray(scenario.users, "users").map((entry, i) => {
+    const path = `users[${i}]`;
+    const user = asObject(entry, path);
+
+    if (user.wallet !== undefined) {
+      asString(asObject(user.wallet, `${path}.wallet`).seed, `${path}.wallet.seed`);
+    }
+    optional(user.vaultId, `${path}.vaultId`, asString);
+
+    if (user.pricePerShare !== undefined) {
+      const price = asObject(user.pricePerShare, `${path}.pricePerShare`);
+      asPrice(price.start, `${path}.pricePerShare.start`);
+      asPrice(price.end, `${path}.pricePerShare.end`);
+    }
+
+    const deposits = optional(user.deposits, `${path}.deposits`, asArray) ?? [];
+    deposits.forEach((deposit, j) => {
+      const depositPath = `${path}.deposits[${j}]`;
+      const fields = asRecordFields(deposit, depositPath);
+      optional(fields.status, `${depositPath}.status`, (v, p) => asOneOf(v, p, BRIDGE_STATUSES));
+      for (const field of ["worldchainTxHash", "cctpAttestation", "stellarMintTx", "defindexDepositTx"]) {
+        optional(fields[field], `${depositPath}.${field}`, asString);
+      }
+    });
+
+    const withdrawals = optional(user.withdrawals, `${path}.withdrawals`, asArray) ?? [];
+    withdrawals.forEach((withdrawal, j) => {
+      const withdrawalPath = `${path}.withdrawals[${j}]`;
+      const fields = asRecordFields(withdrawal, withdrawalPath);
+      optional(fields.status, `${withdrawalPath}.status`, (v, p) => asOneOf(v, p, WITHDRAWAL_STATUSES));
+      for (const field of ["defindexWithdrawTx", "stellarBurnTx", "worldchainMintTx"]) {
+        optional(fields[field], `${withdrawalPath}.${field}`, asString);
+      }
+    });
+
+    if (user.balance !== undefined) {
+      asAmount(asObject(user.balance, `${path}.balance`).shares, `${path}.balance.shares`);
+    }
+
+    if (!user.wallet && (deposits.length > 0 || withdrawals.length > 0 || user.balance)) {
+      throw new InvalidScenarioError(`${path} needs a wallet to have records or a balance`);
+    }
+
+    asString(user.userId, `${path}.userId`);
+    return user as unknown as ScenarioUser;
+  });
+
+  const userIds = users.map((u) => u.userId);
+  const duplicate = userIds.find((id, i) => userIds.indexOf(id) !== i);
+  if (duplicate) {
+    throw new InvalidScenarioError(`user ${duplicate} appears twice`);
+  }
+
+  return {
+    name,
+    description: optional(scenario.description, "description", asString) ?? "",
+    users,
+  };
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Refuse to seed where a scenario wallet could hold real funds or
+ * mix with real users
+ *
+ * @throws ScenarioEnvironmentError on mainnet or in production
+ */
+export function assertScenariosAllowed(): void {
+  if (process.env.STELLAR_NETWORK === "MAINNET") {
+    throw new ScenarioEnvironmentError("on mainnet");
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new ScenarioEnvironmentError("in production");
+  }
+}
+
+/**
+ * Derive a scenario wallet's keypair from its seed
+ */
+function deriveKeypair(seed: string): Keypair {
+  return Keypair.fromRawEd25519Seed(
+    createHash("sha256").update(`juby-scenario:${seed}`).digest()
+  );
+}
+
+/**
+ * A stable 64-character hex hash for a record the fixture left unhashed
+ */
+function fakeTransactionHash(
+  scenarioName: string,
+  userId: string,
+  kind: "deposit" | "withdrawal",
+  index: number
+): string {
+  return createHash("sha256")
+    .update(`${scenarioName}:${userId}:${kind}:${index}`)
+    .digest("hex");
+}
+
+/**
+ * Price per share over time, linear from the user's first record to now
+ */
+function priceCurve(user: ScenarioUser, now: Date): (at: Date) => number {
+  const { start, end } = user.pricePerShare ?? { start: 1, end: 1 };
+  const daysAgo = [...(user.deposits ?? []), ...(user.withdrawals ?? [])].map((r) => r.daysAgo);
+  const span = Math.max(0, ...daysAgo) * DAY_MS;
+
+  return (at) => {
+    if (span === 0) return end;
+    const elapsed = span - (now.getTime() - at.getTime());
+    return start + ((end - start) * Math.min(Math.max(elapsed, 0), span)) / span;
+  };
+}
+
+/**
+ * Shares from the fixture, or the amount divided by the price per share
+ */
+function sharesFor(
+  shares: string | undefined,
+  amount: bigint,
+  price: number,
+  decimals: number
+): bigint {
+  if (shares !== undefined) {
+    return Money.parse(shares, decimals).units;
+  }
+  return (amount * PRICE_SCALE) / priceUnits(price);
+}
+
+function valueOf(shares: bigint, price: number): bigint {
+  return (shares * priceUnits(price)) / PRICE_SCALE;
+}
+
+function priceUnits(price: number): bigint {
+  return BigInt(Math.round(price * Number(PRICE_SCALE)));
+}
+
+function daysBefore(now: Date, days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Check the fields deposits and withdrawals share
+ */
+function asRecordFields(value: unknown, path: string): Record<string, unknown> {
+  const fields = asObject(value, path);
+  asAmount(fields.amount, `${path}.amount`);
+  optional(fields.shares, `${path}.shares`, asAmount);
+  if (!Number.isInteger(fields.daysAgo) || (fields.daysAgo as number) < 0) {
+    throw new InvalidScenarioError(`${path}.daysAgo must be a whole number of days, 0 or more`);
+  }
+  return fields;
+}
+
+function asObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new InvalidScenarioError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function asArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new InvalidScenarioError(`${path} must be an array`);
+  }
+  return value;
+}
+
+function asString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.length === 0) {
+    throw new InvalidScenarioError(`${path} must be a non-empty string`);
+  }
+  return value;
+}
+
+function asAmount(value: unknown, path: string): string {
+  if (typeof value !== "string" || !/^\d+(\.\d+)?$/.test(value)) {
+    throw new InvalidScenarioError(`${path} must be a decimal string, e.g. "50" or "12.5"`);
+  }
+  return value;
+}
+
+function asPrice(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new InvalidScenarioError(`${path} must be a positive number`);
+  }
+  return value;
+}
+
+function asOneOf<T extends string>(value: unknown, path: string, allowed: T[]): T {
+  if (!allowed.includes(value as T)) {
+    throw new InvalidScenarioError(`${path} must be one of ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+function optional<T>(
+  value: unknown,
+  path: string,
+  check: (value: unknown, path: string) => T
+): T | undefined {
+  return value === undefined ? undefined : check(value, path);
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let scenarioLoaderInstance: ScenarioLoader | null = null;
+
+/**
+ * Get singleton instance of ScenarioLoader
+ *
+ * Reads vault settings from the configured DefindexService.
+ */
+export function getScenarioLoader(): ScenarioLoader {
+  if (!scenarioLoaderInstance) {
+    scenarioLoaderInstance = new ScenarioLoader(initializeDefindexService());
+  }
+  return scenarioLoaderInstance;
+}
@@ -0,0 +1,278 @@
+/**
+ * Signing Audit Service
+ *
+ * Records every use of a custodial secret key in an append-only,
+ * hash-chained log. Each entry's hash covers the previous entry's hash
+ * and the entry's own fields, so editing, removing or reordering an
+ * entry breaks the chain from that point on; verifyChain() finds the
+ * first break.
+ *
+ * StellarWalletService records the entry before it decrypts the key.
+ * If the entry cannot be written the key is not used, so there is no
+ * unrecorded signing.
+ *
+ * Admins read the log through GET /api/admin/signing-audit and check
+ * it with GET /api/admin/signing-audit/verify.
+ */
+
+import crypto from "crypto";
+import {
+  Address,
+  FeeBumpTransaction,
+  Operation,
+  TransactionBuilder,
+  scValToNative,
+  xdr,
+} from "@stellar/stellar-sdk";
+import { DuplicateRecordError, getDataStore } from "@/lib/data-store";
+import type { NewSigningAuditEntry, SigningAuditFilter } from "@/lib/data-store";
+import type {
+  SigningAuditAction,
+  SigningAuditEntry,
+} from "@/lib/types/database.types";
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * What a signed transaction does, decoded from its XDR
+ */
+export interface TransactionSummary {
+  contractAddress: string | null; // Null unless it invokes a contract
+  functionName: string | null;
+  amounts: string[]; // Integer arguments, in stroops
+  transactionHash: string;
+}
+
+export interface RecordKeyUseParams {
+  userId: string;
+  stellarPublicKey: string;
+  action: SigningAuditAction;
+  operation: string; // Calling operation, e.g. "defindex.deposit"
+  transaction?: TransactionSummary;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  head: { sequence: number; entryHash: string } | null; // Last entry checked
+  firstInvalidSequence?: number;
+  reason?: string;
+}
+
+/** previousHash of the first entry */
+export const GENESIS_HASH = "0".repeat(64);
+
+// Concurrent appends race for the next sequence; the losers retry
+const APPEND_ATTEMPTS = 10;
+const VERIFY_PAGE_SIZE = 500;
+
+// ========================================
+// SIGNING AUDIT SERVICE
+// ========================================
+
+export class SigningAuditService {
+  /**
+   * Append an entry for a use of the user's secret key
+   *
+   * @param params - Who, what for, and the transaction if one is signed
+   * @returns Appended entry
+   * @throws Error if the entry could not be written; the key must not be used then
+   */
+  async recordKeyUse(params: RecordKeyUseParams): Promise<SigningAuditEntry> {
+    const log = getDataStore().signingAuditLog;
+
+    for (let attempt = 1; ; attempt++) {
+      const latest = await log.findLatest();
+      const entry: Omit<NewSigningAuditEntry, "entryHash"> = {
+        sequence: (latest?.sequence ?? 0) + 1,
+        userId: params.userId,
+        stellarPublicKey: params.stellarPublicKey,
+        action: params.action,
+        operation: params.operation,
+        contractAddress: params.transaction?.contractAddress ?? null,
+        functionName: params.transaction?.functionName ?? null,
+        amounts: params.transaction?.amounts ?? [],
+        transactionHash: params.transaction?.transactionHash ?? null,
+        createdAt: new Date(),
+        previousHash: latest?.entryHash ?? GENESIS_HASH,
+      };
+
+      try {
+        const appended = await log.append({ ...entry, entryHash: hashEntry(entry) });
+        console.log(`📒 Audit #${appended.sequence}: ${appended.action} for user ${appended.userId} (${appended.operation})`);
+        return appended;
+      } catch (error) {
+        if (!(error instanceof DuplicateRecordError) || attempt >= APPEND_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * List audit entries, newest first
+   *
+   * @param filter - Optional user, action, operation, hash, time and limit filters
+   */
+  async list(filter: SigningAuditFilter = {}): Promise<SigningAuditEntry[]> {
+    return getDataStore().signingAuditLog.list(filter);
+  }
+
+  /**
+   * Walk the whole chain and check every link
+   *
+   * Catches edited, removed and reordered entries. Removing entries from
+   * the end leaves a valid shorter chain, so compare the returned head
+   * with one recorded earlier to detect that.
+   *
+   * @returns Whether the chain is intact, and where it first breaks
+   */
+  async verifyChain(): Promise<ChainVerification> {
+    const log = getDataStore().signingAuditLog;
+    let previous: SigningAuditEntry | null = null;
+    let checked = 0;
+
+    for (;;) {
+      const page = await log.listAfter(previous?.sequence ?? 0, VERIFY_PAGE_SIZE);
+      if (page.length === 0) break;
+
+      for (const entry of page) {
+        const reason = checkLink(previous, entry);
+        if (reason) {
+          console.warn(`🚨 Signing audit chain broken at #${entry.sequence}: ${reason}`);
+          return {
+            valid: false,
+            checked,
+            head: previous && { sequence: previous.sequence, entryHash: previous.entryHash },
+            firstInvalidSequence: entry.sequence,
+            reason,
+          };
+        }
+        previous = entry;
+        checked++;
+      }
+    }
+
+    return {
+      valid: true,
+      checked,
+      head: previous && { sequence: previous.sequence, entryHash: previous.entryHash },
+    };
+  }
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Hash an entry together with the hash of the entry before it
+ *
+ * Fields go in a fixed order so the hash does not depend on how the
+ * store returns the record.
+ */
+export function hashEntry(entry: Omit<NewSigningAuditEntry, "entryHash">): string {
+  const canonical = JSON.stringify([
+    entry.sequence,
+    entry.previousHash,
+    entry.userId,
+    entry.stellarPublicKey,
+    entry.action,
+    entry.operation,
+    entry.contractAddress,
+    entry.functionName,
+    entry.amounts,
+    entry.transactionHash,
+    entry.createdAt.toISOString(),
+  ]);
+  return crypto.createHash("sha256").update(canonical).digest("hex");
+}
+
+/**
+ * Why an entry does not follow the previous one, if it does not
+ */
+function checkLink(
+  previous: SigningAuditEntry | null,
+  entry: SigningAuditEntry
+): string | null {
+  const expectedSequence = (previous?.sequence ?? 0) + 1;
+  if (entry.sequence !== expectedSequence) {
+    return `expected sequence ${expectedSequence}, found ${entry.sequence}`;
+  }
+  if (entry.previousHash !== (previous?.entryHash ?? GENESIS_HASH)) {
+    return "previousHash does not match the previous entry";
+  }
+  if (entry.entryHash !== hashEntry(entry)) {
+    return "entryHash does not match the entry's contents";
+  }
+  return null;
+}
+
+/**
+ * Decode what a transaction does, for the audit log
+ *
+ * @param transactionXdr - Transaction envelope XDR
+ * @param networkPassphrase - Network the transaction is for
+ * @returns Invoked contract, function, integer arguments and hash
+ */
+export function summarizeTransaction(
+  transactionXdr: string,
+  networkPassphrase: string
+): TransactionSummary {
+  const transaction = TransactionBuilder.fromXDR(transactionXdr, networkPassphrase);
+  const inner =
+    transaction instanceof FeeBumpTransaction ? transaction.innerTransaction : transaction;
+
+  const summary: TransactionSummary = {
+    contractAddress: null,
+    functionName: null,
+    amounts: [],
+    transactionHash: transaction.hash().toString("hex"),
+  };
+
+  // Soroban transactions carry exactly one operation
+  const invoke = inner.operations.find(
+    (op): op is Operation.InvokeHostFunction => op.type === "invokeHostFunction"
+  );
+  if (
+    invoke &&
+    invoke.func.switch() === xdr.HostFunctionType.hostFunctionTypeInvokeContract()
+  ) {
+    const call = invoke.func.invokeContract();
+    summary.contractAddress = Address.fromScAddress(call.contractAddress()).toString();
+    summary.functionName = call.functionName().toString();
+    summary.amounts = call.args().flatMap((arg) => collectIntegers(scValToNative(arg)));
+  }
+
+  return summary;
+}
+
+/**
+ * Every i128/u128/i64/u64 value inside a decoded argument, in order
+ */
+function collectIntegers(value: unknown): string[] {
+  if (typeof value === "bigint") return [value.toString()];
+  if (Array.isArray(value)) return value.flatMap(collectIntegers);
+  if (value && typeof value === "object" && value.constructor === Object) {
+    return Object.values(value).flatMap(collectIntegers);
+  }
+  return [];
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let signingAuditServiceInstance: SigningAuditService | null = null;
+
+/**
+ * Get singleton instance of SigningAuditService
+ */
+export function getSigningAuditService(): SigningAuditService {
+  if (!signingAuditServiceInstance) {
+    signingAuditServiceInstance = new SigningAuditService();
+  }
+  return signingAuditServiceInstance;
+}
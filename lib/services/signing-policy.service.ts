@@ -0,0 +1,407 @@
+/**
+ * Signing Policy
+ *
+ * Decides whether a custodial key may sign a transaction. Before
+ * anything is signed, the transaction is decoded and must be exactly
+ * one approved contract invocation:
+ * - defindex.deposit: a configured vault's deposit, from the wallet
+ * - defindex.withdraw: a configured vault's withdraw, from the wallet
+ * - asset.transfer: a vault asset's (USDC) token transfer
+ * - shares.transfer: a vault's share token transfer (wallet migration)
+ *
+ * The policy also checks that:
+ * - the caller built it for the pinned network (STELLAR_NETWORK)
+ * - the wallet is the source of the transaction and of the funds
+ * - transfers go to the destination the caller intended
+ * - the amount is within the operation's ceiling
+ * - its authorizations only cover that invocation
+ *
+ * Anything else is refused with SigningPolicyViolationError.
+ *
+ * Ceilings, in stroops of the asset (or of shares, for withdrawals and
+ * share transfers), default to 100,000 units each:
+ * - SIGNING_MAX_DEPOSIT_STROOPS
+ * - SIGNING_MAX_WITHDRAW_STROOPS
+ * - SIGNING_MAX_TRANSFER_STROOPS
+ * - SIGNING_MAX_SHARE_TRANSFER_STROOPS
+ */
+
+import {
+  Address,
+  FeeBumpTransaction,
+  Networks,
+  Operation,
+  TransactionBuilder,
+  scValToNative,
+  xdr,
+} from "@stellar/stellar-sdk";
+import {
+  loadVaultDefinitionsFromEnv,
+  type VaultDefinition,
+} from "./vault-registry.service";
+
+// ========================================
+// TYPES
+// ========================================
+
+export type SigningOperation =
+  | "defindex.deposit"
+  | "defindex.withdraw"
+  | "asset.transfer"
+  | "shares.transfer";
+
+export type SigningPolicyViolationCode =
+  | "NETWORK_MISMATCH"
+  | "MALFORMED_TRANSACTION"
+  | "UNAPPROVED_OPERATION"
+  | "UNAPPROVED_CONTRACT"
+  | "SOURCE_MISMATCH"
+  | "DESTINATION_MISMATCH"
+  | "AMOUNT_ABOVE_CEILING"
+  | "UNAPPROVED_AUTHORIZATION";
+
+/**
+ * What the caller means to sign, checked against the transaction itself
+ */
+export interface SigningIntent {
+  networkPassphrase: string; // Network the caller built the transaction for
+  destination?: string; // Recipient of a transfer
+}
+
+export interface SigningRequest extends SigningIntent {
+  signer: string; // Public key of the custodial wallet
+  operation: string; // Calling operation, e.g. "defindex.deposit"
+}
+
+/**
+ * The invocation a transaction was approved for
+ */
+export interface ApprovedInvocation {
+  operation: SigningOperation;
+  contractAddress: string;
+  functionName: string;
+  amount: bigint; // Stroops of the asset, or shares
+  destination: string | null; // Transfer recipient
+}
+
+export type SigningCeilings = Record<SigningOperation, bigint>;
+
+/**
+ * The transaction breaks the signing policy; it was not signed (HTTP 403)
+ */
+export class SigningPolicyViolationError extends Error {
+  readonly code: SigningPolicyViolationCode;
+  readonly operation: string;
+
+  constructor(code: SigningPolicyViolationCode, operation: string, message: string) {
+    super(`Signing policy refused ${operation}: ${message}`);
+    this.name = "SigningPolicyViolationError";
+    this.code = code;
+    this.operation = operation;
+  }
+}
+
+/**
+ * errorCode reported by custodial flows when the signing policy refused
+ */
+export const SIGNING_POLICY_ERROR_CODE = "signingPolicy";
+
+interface InvocationRule {
+  contract: "vault" | "asset";
+  functionName: string;
+  /** The call's amount, the account paying it and the recipient, if any */
+  decode(args: unknown[]): { amount: bigint; from: string; to: string | null };
+}
+
+// Argument layouts of the Defindex vault and SEP-41 token functions
+const RULES: Record<SigningOperation, InvocationRule> = {
+  // deposit(amounts_desired: Vec<i128>, amounts_min: Vec<i128>, from: Address, invest: bool)
+  "defindex.deposit": {
+    contract: "vault",
+    functionName: "deposit",
+    decode: ([amounts, , from]) => ({
+      amount: asAmounts(amounts).reduce((sum, amount) => sum + amount, BigInt(0)),
+      from: asAddress(from),
+      to: null,
+    }),
+  },
+  // withdraw(withdraw_shares: i128, min_amounts_out: Vec<i128>, from: Address)
+  "defindex.withdraw": {
+    contract: "vault",
+    functionName: "withdraw",
+    decode: ([shares, , from]) => ({ amount: asAmount(shares), from: asAddress(from), to: null }),
+  },
+  // transfer(from: Address, to: Address, amount: i128)
+  "asset.transfer": {
+    contract: "asset",
+    functionName: "transfer",
+    decode: ([from, to, amount]) => ({
+      amount: asAmount(amount),
+      from: asAddress(from),
+      to: asAddress(to),
+    }),
+  },
+  "shares.transfer": {
+    contract: "vault",
+    functionName: "transfer",
+    decode: ([from, to, amount]) => ({
+      amount: asAmount(amount),
+      from: asAddress(from),
+      to: asAddress(to),
+    }),
+  },
+};
+
+const CEILING_ENV: Record<SigningOperation, string> = {
+  "defindex.deposit": "SIGNING_MAX_DEPOSIT_STROOPS",
+  "defindex.withdraw": "SIGNING_MAX_WITHDRAW_STROOPS",
+  "asset.transfer": "SIGNING_MAX_TRANSFER_STROOPS",
+  "shares.transfer": "SIGNING_MAX_SHARE_TRANSFER_STROOPS",
+};
+
+const DEFAULT_CEILING_STROOPS = BigInt(1_000_000_000_000); // 100,000 units at 7 decimals
+
+// ========================================
+// SIGNING POLICY
+// ========================================
+
+export class SigningPolicy {
+  readonly networkPassphrase: string;
+  private vaultAddresses: Set<string>;
+  private assetAddresses: Set<string>;
+  private ceilings: SigningCeilings;
+
+  /**
+   * @param vaults - Configured vaults; their contracts and assets are the approved ones
+   * @param networkPassphrase - Network to pin (defaults to STELLAR_NETWORK)
+   * @param ceilings - Per-operation ceilings (default to the SIGNING_MAX_* variables)
+   * @throws Error if a ceiling is not a positive integer
+   */
+  constructor(
+    vaults: Pick<VaultDefinition, "address" | "assetAddress">[],
+    networkPassphrase?: string,
+    ceilings: Partial<SigningCeilings> = {}
+  ) {
+    this.networkPassphrase =
+      networkPassphrase ||
+      (process.env.STELLAR_NETWORK === "MAINNET" ? Networks.PUBLIC : Networks.TESTNET);
+    this.vaultAddresses = new Set(vaults.map((v) => v.address));
+    this.assetAddresses = new Set(vaults.map((v) => v.assetAddress).filter(Boolean));
+
+    const operations = Object.keys(RULES) as SigningOperation[];
+    this.ceilings = Object.fromEntries(
+      operations.map((operation) => [
+        operation,
+        ceilings[operation] ?? ceilingFromEnv(CEILING_ENV[operation]),
+      ])
+    ) as SigningCeilings;
+
+    for (const operation of operations) {
+      if (this.ceilings[operation] <= BigInt(0)) {
+        throw new Error(`${CEILING_ENV[operation]} must be a positive integer (stroops)`);
+      }
+    }
+  }
+
+  /**
+   * Check a transaction against the policy before it is signed
+   *
+   * @param transactionXdr - Unsigned transaction envelope XDR
+   * @param request - Signing wallet, calling operation and what it intends
+   * @returns The approved invocation
+   * @throws SigningPolicyViolationError if any rule is broken
+   */
+  check(transactionXdr: string, request: SigningRequest): ApprovedInvocation {
+    const { operation } = request;
+    const violation = (code: SigningPolicyViolationCode, message: string) =>
+      new SigningPolicyViolationError(code, operation, message);
+
+    if (request.networkPassphrase !== this.networkPassphrase) {
+      throw violation(
+        "NETWORK_MISMATCH",
+        `built for "${request.networkPassphrase}", signing is pinned to "${this.networkPassphrase}"`
+      );
+    }
+
+    if (!isSigningOperation(operation)) {
+      throw violation("UNAPPROVED_OPERATION", "not an operation custodial keys may sign");
+    }
+    const rule = RULES[operation];
+
+    const transaction = decodeTransaction(transactionXdr, this.networkPassphrase);
+    if (!transaction) {
+      throw violation("MALFORMED_TRANSACTION", "the XDR is not a transaction envelope");
+    }
+    if (transaction instanceof FeeBumpTransaction) {
+      throw violation("MALFORMED_TRANSACTION", "fee bumps are added after signing, not signed");
+    }
+    if (transaction.source !== request.signer) {
+      throw violation("SOURCE_MISMATCH", `transaction source ${transaction.source} is not the wallet`);
+    }
+
+    const [invoke, ...others] = transaction.operations;
+    if (
+      !invoke ||
+      others.length > 0 ||
+      invoke.type !== "invokeHostFunction" ||
+      invoke.func.switch() !== xdr.HostFunctionType.hostFunctionTypeInvokeContract()
+    ) {
+      throw violation("MALFORMED_TRANSACTION", "expected a single contract invocation");
+    }
+    if (invoke.source && invoke.source !== request.signer) {
+      throw violation("SOURCE_MISMATCH", `operation source ${invoke.source} is not the wallet`);
+    }
+
+    const call = invoke.func.invokeContract();
+    const contractAddress = Address.fromScAddress(call.contractAddress()).toString();
+    const functionName = call.functionName().toString();
+
+    const approvedContracts = rule.contract === "vault" ? this.vaultAddresses : this.assetAddresses;
+    if (!approvedContracts.has(contractAddress)) {
+      throw violation("UNAPPROVED_CONTRACT", `${contractAddress} is not a configured ${rule.contract} contract`);
+    }
+    if (functionName !== rule.functionName) {
+      throw violation("UNAPPROVED_OPERATION", `${functionName} is not ${rule.functionName}`);
+    }
+
+    let decoded: { amount: bigint; from: string; to: string | null };
+    try {
+      decoded = rule.decode(call.args().map((arg) => scValToNative(arg)));
+    } catch (error) {
+      throw violation(
+        "MALFORMED_TRANSACTION",
+        `unexpected ${functionName} arguments (${error instanceof Error ? error.message : error})`
+      );
+    }
+
+    if (decoded.from !== request.signer) {
+      throw violation("SOURCE_MISMATCH", `funds come from ${decoded.from}, not the wallet`);
+    }
+    if (decoded.to !== null) {
+      if (!request.destination || decoded.to !== request.destination) {
+        throw violation(
+          "DESTINATION_MISMATCH",
+          `sends to ${decoded.to}, expected ${request.destination ?? "no transfer"}`
+        );
+      }
+    }
+    if (decoded.amount <= BigInt(0)) {
+      throw violation("MALFORMED_TRANSACTION", "amount must be positive");
+    }
+    if (decoded.amount > this.ceilings[operation]) {
+      throw violation(
+        "AMOUNT_ABOVE_CEILING",
+        `${decoded.amount} stroops is above the ceiling of ${this.ceilings[operation]}`
+      );
+    }
+
+    checkAuthorizations(invoke, contractAddress, functionName, violation);
+
+    return {
+      operation,
+      contractAddress,
+      functionName,
+      amount: decoded.amount,
+      destination: decoded.to,
+    };
+  }
+}
+
+/**
+ * Every authorization must be the wallet's own (source account) and
+ * rooted in the invocation itself; calls the contract makes from there
+ * are covered by it
+ */
+function checkAuthorizations(
+  invoke: Operation.InvokeHostFunction,
+  contractAddress: string,
+  functionName: string,
+  violation: (code: SigningPolicyViolationCode, message: string) => SigningPolicyViolationError
+): void {
+  for (const entry of invoke.auth ?? []) {
+    if (
+      entry.credentials().switch() !==
+      xdr.SorobanCredentialsType.sorobanCredentialsSourceAccount()
+    ) {
+      throw violation("UNAPPROVED_AUTHORIZATION", "authorizations must come from the wallet itself");
+    }
+
+    const root = entry.rootInvocation().function();
+    if (
+      root.switch() !==
+      xdr.SorobanAuthorizedFunctionType.sorobanAuthorizedFunctionTypeContractFn()
+    ) {
+      throw violation("UNAPPROVED_AUTHORIZATION", "authorizes something other than a contract call");
+    }
+
+    const rootCall = root.contractFn();
+    if (
+      Address.fromScAddress(rootCall.contractAddress()).toString() !== contractAddress ||
+      rootCall.functionName().toString() !== functionName
+    ) {
+      throw violation("UNAPPROVED_AUTHORIZATION", "authorizes a call other than the invocation");
+    }
+  }
+}
+
+function isSigningOperation(operation: string): operation is SigningOperation {
+  return Object.prototype.hasOwnProperty.call(RULES, operation);
+}
+
+function decodeTransaction(transactionXdr: string, networkPassphrase: string) {
+  try {
+    return TransactionBuilder.fromXDR(transactionXdr, networkPassphrase);
+  } catch {
+    return null;
+  }
+}
+
+function ceilingFromEnv(name: string): bigint {
+  const value = process.env[name];
+  if (!value) {
+    return DEFAULT_CEILING_STROOPS;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} must be a positive integer (stroops)`);
+  }
+  return BigInt(value);
+}
+
+function asAmount(value: unknown): bigint {
+  if (typeof value !== "bigint") {
+    throw new Error("expected an integer amount");
+  }
+  return value;
+}
+
+function asAmounts(value: unknown): bigint[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error("expected a list of amounts");
+  }
+  return value.map(asAmount);
+}
+
+function asAddress(value: unknown): string {
+  if (typeof value !== "string") {
+    throw new Error("expected an address");
+  }
+  return value;
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let signingPolicyInstance: SigningPolicy | null = null;
+
+/**
+ * Get the signing policy for the configured vaults and network
+ *
+ * @throws Error if no vault is configured or a ceiling is invalid
+ */
+export function getSigningPolicy(): SigningPolicy {
+  if (!signingPolicyInstance) {
+    signingPolicyInstance = new SigningPolicy(loadVaultDefinitionsFromEnv().vaults);
+  }
+  return signingPolicyInstance;
+}
@@ -0,0 +1,156 @@
+/**
+ * Slippage Service
+ *
+ * Turns a slippage tolerance into explicit minimum outputs. Before a
+ * deposit or withdrawal is built, the vault is previewed at its live
+ * share price; the tolerance is applied to that quote to get the
+ * minimum shares (deposit) or minimum assets (withdrawal) the user
+ * accepts. The built transaction is then simulated, and if it would
+ * pay out less than the minimum the request fails with PriceMovedError
+ * instead of being signed.
+ *
+ * Tolerances are capped server-side by MAX_SLIPPAGE_BPS, so a client
+ * cannot ask for a trade that accepts an arbitrarily bad price.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export type SlippageOutput = "shares" | "assets";
+
+export interface SlippageQuote {
+  expected: bigint; // Output at the quoted price, in stroops
+  minimum: bigint; // Least output accepted, in stroops
+  slippageBps: number;
+}
+
+/**
+ * The requested tolerance is invalid or above the server's maximum (HTTP 400)
+ */
+export class SlippageLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SlippageLimitError";
+  }
+}
+
+/**
+ * The vault price moved past the tolerance since the quote (HTTP 409)
+ */
+export class PriceMovedError extends Error {
+  readonly output: SlippageOutput;
+  readonly minimum: bigint;
+  readonly actual: bigint;
+
+  constructor(output: SlippageOutput, minimum: bigint, actual: bigint) {
+    super(
+      `Price moved: the transaction would return ${actual} ${output}, below the minimum of ${minimum}. Review the new quote and try again`
+    );
+    this.name = "PriceMovedError";
+    this.output = output;
+    this.minimum = minimum;
+    this.actual = actual;
+  }
+}
+
+/**
+ * errorCode reported by custodial flows when the price moved
+ */
+export const PRICE_MOVED_ERROR_CODE = "priceMoved";
+
+const BPS_DENOMINATOR = BigInt(10_000);
+const DEFAULT_MAX_SLIPPAGE_BPS = 500; // 5%
+
+// ========================================
+// SLIPPAGE POLICY
+// ========================================
+
+export class SlippagePolicy {
+  private maxSlippageBps: number;
+
+  constructor(maxSlippageBps?: number) {
+    this.maxSlippageBps =
+      maxSlippageBps ??
+      (process.env.MAX_SLIPPAGE_BPS
+        ? parseInt(process.env.MAX_SLIPPAGE_BPS, 10)
+        : DEFAULT_MAX_SLIPPAGE_BPS);
+
+    if (
+      !Number.isInteger(this.maxSlippageBps) ||
+      this.maxSlippageBps < 0 ||
+      this.maxSlippageBps >= 10_000
+    ) {
+      throw new Error("MAX_SLIPPAGE_BPS must be an integer between 0 and 9999");
+    }
+  }
+
+  /**
+   * Pick the tolerance for a request
+   *
+   * A vault default above the maximum is capped; an explicit request
+   * above the maximum is refused, since the client asked for it.
+   *
+   * @param requested - Tolerance sent by the client, if any
+   * @param vaultDefault - The vault's configured default
+   * @returns Tolerance in basis points
+   * @throws SlippageLimitError if the requested tolerance is invalid or too high
+   */
+  resolveSlippageBps(requested: number | undefined, vaultDefault: number): number {
+    if (requested === undefined || requested === null) {
+      return Math.min(vaultDefault, this.maxSlippageBps);
+    }
+
+    if (!Number.isInteger(requested) || requested < 0) {
+      throw new SlippageLimitError(
+        "slippageBps must be a non-negative integer (basis points)"
+      );
+    }
+
+    if (requested > this.maxSlippageBps) {
+      throw new SlippageLimitError(
+        `slippageBps ${requested} exceeds the maximum of ${this.maxSlippageBps}`
+      );
+    }
+
+    return requested;
+  }
+
+  /**
+   * Apply a tolerance to a previewed output
+   *
+   * @param expected - Output at the live price, in stroops
+   * @param slippageBps - Tolerance in basis points
+   * @returns Quote with the minimum output, rounded down
+   */
+  quote(expected: bigint, slippageBps: number): SlippageQuote {
+    const minimum =
+      (expected * (BPS_DENOMINATOR - BigInt(slippageBps))) / BPS_DENOMINATOR;
+    return { expected, minimum, slippageBps };
+  }
+
+  /**
+   * Check a simulated output against its quote
+   *
+   * @param quote - Quote the transaction was built from
+   * @param actual - Output the transaction would produce, in stroops
+   * @param output - What the output is, for the error message
+   * @throws PriceMovedError if the output is below the quote's minimum
+   */
+  assertMinimumOut(
+    quote: SlippageQuote,
+    actual: bigint,
+    output: SlippageOutput
+  ): void {
+    if (actual < quote.minimum) {
+      console.warn(
+        `📉 Price moved: expected ${quote.expected} ${output}, minimum ${quote.minimum}, got ${actual}`
+      );
+      throw new PriceMovedError(output, quote.minimum, actual);
+    }
+  }
+
+  getMaxSlippageBps(): number {
+    return this.maxSlippageBps;
+  }
+}
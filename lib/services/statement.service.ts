@@ -0,0 +1,534 @@
+/**
+ * Statement Service
+ *
+ * Builds account statements a user can hand to a tax office or a bank:
+ * for any range of days, the opening and closing position in a vault,
+ * every completed deposit and withdrawal in between with its shares,
+ * price per share and realized yield, and the period's totals. Shares
+ * a wallet migration moved to the user's own wallet appear as a
+ * MIGRATION line, at cost.
+ *
+ * Operations and cost basis come from the Deposit and Withdrawal
+ * records (replayed the same way as PortfolioService). Positions are
+ * valued with the daily PortfolioSnapshot for that day, or live from
+ * the vault when the range ends today. A day without a snapshot has no
+ * value, rather than a guessed one.
+ *
+ * Statements render as JSON, CSV or a printable PDF and are served by
+ * GET /api/statements.
+ */
+
+import { getDataStore } from "@/lib/data-store";
+import { Money } from "@/lib/money";
+import { renderTextPdf, type PdfLine } from "@/lib/pdf";
+import type { PortfolioSnapshot } from "@/lib/types/database.types";
+import {
+  initializeDefindexService,
+  type DefindexService,
+} from "./defindex.service";
+import {
+  getPortfolioService,
+  loadVaultOperations,
+  replayCostBasis,
+  type CostBasisLedger,
+  type PortfolioService,
+} from "./portfolio.service";
+
+// ========================================
+// TYPES
+// ========================================
+
+export const STATEMENT_FORMATS = ["json", "csv", "pdf"] as const;
+
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+/**
+ * Holdings at the start or end of the statement period.
+ * Amounts in stroops.
+ */
+export interface StatementPosition {
+  date: Date; // UTC day the position is taken at the end of
+  shares: bigint;
+  costBasis: bigint;
+  value: bigint | null; // Null when no snapshot covers the day
+  pricePerShare: number | null;
+}
+
+/**
+ * One completed deposit, withdrawal or migration. Amounts in stroops.
+ */
+export interface StatementLine {
+  date: Date; // When it completed
+  type: "DEPOSIT" | "WITHDRAWAL" | "MIGRATION";
+  amount: bigint; // Deposited, paid out, or cost basis moved out
+  shares: bigint; // Minted, burned, or moved out
+  pricePerShare: number | null; // amount / shares; null for a migration
+  realizedYield: bigint; // Withdrawals only
+  sharesAfter: bigint;
+  costBasisAfter: bigint;
+  transactionHash: string | null;
+}
+
+export interface Statement {
+  userId: string;
+  stellarPublicKey: string | null;
+  vaultId: string;
+  vaultAddress: string;
+  assetSymbol: string;
+  decimals: number;
+  from: Date; // First UTC day, inclusive
+  to: Date; // Last UTC day, inclusive
+  generatedAt: Date;
+  opening: StatementPosition; // End of the day before `from`
+  closing: StatementPosition; // End of `to`, or now if `to` is today
+  lines: StatementLine[]; // Oldest first
+  totals: {
+    deposited: bigint;
+    withdrawn: bigint;
+    realizedYield: bigint;
+    periodYield: bigint | null; // closing - opening - deposited + withdrawn; null across a migration
+  };
+}
+
+/**
+ * The parts of DefindexService the statement reads from
+ */
+export type StatementVaultReader = Pick<DefindexService, "getVault" | "getVaults">;
+
+/**
+ * The requested range is not a valid span of days
+ */
+export class InvalidStatementRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidStatementRangeError";
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ========================================
+// STATEMENT SERVICE
+// ========================================
+
+export class StatementService {
+  private reader: StatementVaultReader;
+  private portfolio: Pick<PortfolioService, "getSummary">;
+
+  constructor(
+    reader: StatementVaultReader,
+    portfolio: Pick<PortfolioService, "getSummary">
+  ) {
+    this.reader = reader;
+    this.portfolio = portfolio;
+  }
+
+  /**
+   * Build a user's statement for a range of days
+   *
+   * @param userId - User identifier
+   * @param from - First day (its UTC date is used)
+   * @param to - Last day, inclusive (its UTC date is used)
+   * @param vaultId - Optional vault; defaults to the first vault the user held, then the default vault
+   * @returns Statement
+   * @throws InvalidStatementRangeError if `from` is after `to`, or `from` is in the future
+   * @throws UnknownVaultError if no vault has that id
+   * @throws Error if the range ends today and the vault balance cannot be read
+   */
+  async generate(
+    userId: string,
+    from: Date,
+    to: Date,
+    vaultId?: string
+  ): Promise<Statement> {
+    const start = startOfUtcDay(from);
+    const lastDay = startOfUtcDay(to);
+    const end = new Date(lastDay.getTime() + DAY_MS);
+    const now = new Date();
+
+    if (start > lastDay) {
+      throw new InvalidStatementRangeError("from must not be after to");
+    }
+    if (start > now) {
+      throw new InvalidStatementRangeError("from must not be in the future");
+    }
+
+    const store = getDataStore();
+    const [wallet, balances] = await Promise.all([
+      store.wallets.findByUserId(userId),
+      store.vaultBalances.listByUser(userId),
+    ]);
+
+    // Without a vaultId, the first vault the user held that is still configured
+    const cachedVault = balances
+      .map((balance) => this.reader.getVaults().find((v) => v.address === balance.vaultAddress))
+      .find((vault) => vault !== undefined);
+    const vault = vaultId ? this.reader.getVault(vaultId) : cachedVault ?? this.reader.getVault();
+
+    const { deposits, withdrawals, migrated } = await loadVaultOperations(userId, vault.address);
+    const steps = replayCostBasis(deposits, withdrawals, migrated);
+    const before = steps.filter((step) => step.at < start);
+    const within = steps.filter((step) => step.at >= start && step.at < end);
+
+    const ledgerAt = (count: number): CostBasisLedger =>
+      count > 0 ? steps[count - 1].ledger : EMPTY_LEDGER;
+    const openingLedger = ledgerAt(before.length);
+    const closingLedger = ledgerAt(before.length + within.length);
+
+    const snapshots = await store.portfolioSnapshots.listByUser(
+      userId,
+      vault.address,
+      new Date(start.getTime() - DAY_MS)
+    );
+    const snapshotOn = (day: Date) =>
+      snapshots.find((s) => s.snapshotDate.getTime() === day.getTime()) ?? null;
+
+    const openingDay = new Date(start.getTime() - DAY_MS);
+    const opening = toPosition(openingDay, openingLedger, snapshotOn(openingDay));
+
+    let closing: StatementPosition;
+    if (end > now) {
+      // The day is not over, so value it as of now
+      const summary = await this.portfolio.getSummary(userId, vault.id);
+      closing = {
+        date: lastDay,
+        shares: summary.shares,
+        costBasis: closingLedger.costBasis,
+        value: summary.currentValue,
+        pricePerShare: summary.pricePerShare,
+      };
+    } else {
+      closing = toPosition(lastDay, closingLedger, snapshotOn(lastDay));
+    }
+
+    const lines: StatementLine[] = within.map((step) => {
+      const amount =
+        step.deposit?.amountUsdc ?? step.withdrawal?.amountUsdc ?? step.costRemoved;
+      return {
+        date: step.at,
+        type: step.deposit ? "DEPOSIT" : step.withdrawal ? "WITHDRAWAL" : "MIGRATION",
+        amount,
+        shares: step.shares,
+        // A migration's amount is its cost, not a price the shares traded at
+        pricePerShare:
+          step.shares > BigInt(0) && !step.migration
+            ? Number(amount) / Number(step.shares)
+            : null,
+        realizedYield: step.realizedYield,
+        sharesAfter: step.ledger.shares,
+        costBasisAfter: step.ledger.costBasis,
+        transactionHash:
+          step.deposit?.defindexDepositTx ??
+          step.withdrawal?.defindexWithdrawTx ??
+          step.migration?.sharesTx ??
+          null,
+      };
+    });
+
+    const sum = (values: bigint[]) => values.reduce((total, v) => total + v, BigInt(0));
+    const deposited = sum(lines.filter((l) => l.type === "DEPOSIT").map((l) => l.amount));
+    const withdrawn = sum(lines.filter((l) => l.type === "WITHDRAWAL").map((l) => l.amount));
+
+    return {
+      userId,
+      stellarPublicKey: wallet?.stellarPublicKey ?? null,
+      vaultId: vault.id,
+      vaultAddress: vault.address,
+      assetSymbol: vault.assetSymbol,
+      decimals: vault.decimals,
+      from: start,
+      to: lastDay,
+      generatedAt: now,
+      opening,
+      closing,
+      lines,
+      totals: {
+        deposited,
+        withdrawn,
+        realizedYield: sum(lines.map((l) => l.realizedYield)),
+        // What the migrated shares were worth when they left is not known
+        periodYield:
+          opening.value !== null &&
+          closing.value !== null &&
+          !lines.some((l) => l.type === "MIGRATION")
+            ? closing.value - opening.value - deposited + withdrawn
+            : null,
+      },
+    };
+  }
+}
+
+// ========================================
+// RENDERING
+// ========================================
+
+/**
+ * A statement with amounts as decimal-integer strings and days as
+ * YYYY-MM-DD, for API responses
+ */
+export function toStatementJson(statement: Statement) {
+  const position = (p: StatementPosition) => ({
+    date: isoDay(p.date),
+    shares: p.shares.toString(),
+    costBasis: p.costBasis.toString(),
+    value: p.value?.toString() ?? null,
+    pricePerShare: p.pricePerShare,
+  });
+
+  return {
+    ...statement,
+    from: isoDay(statement.from),
+    to: isoDay(statement.to),
+    opening: position(statement.opening),
+    closing: position(statement.closing),
+    lines: statement.lines.map((line) => ({
+      ...line,
+      amount: line.amount.toString(),
+      shares: line.shares.toString(),
+      realizedYield: line.realizedYield.toString(),
+      sharesAfter: line.sharesAfter.toString(),
+      costBasisAfter: line.costBasisAfter.toString(),
+    })),
+    totals: {
+      deposited: statement.totals.deposited.toString(),
+      withdrawn: statement.totals.withdrawn.toString(),
+      realizedYield: statement.totals.realizedYield.toString(),
+      periodYield: statement.totals.periodYield?.toString() ?? null,
+    },
+  };
+}
+
+/**
+ * Render a statement as CSV: a block of summary rows, a blank row, then
+ * one row per operation. Amounts are decimal strings in the vault asset.
+ */
+export function renderStatementCsv(statement: Statement): string {
+  const amount = amountFormatter(statement.decimals);
+  const optional = (value: bigint | null) => (value === null ? "" : amount(value));
+  const price = (value: number | null) => (value === null ? "" : value.toFixed(7));
+
+  const rows: (string | number)[][] = [
+    ["user_id", statement.userId],
+    ["stellar_account", statement.stellarPublicKey ?? ""],
+    ["vault_id", statement.vaultId],
+    ["vault_address", statement.vaultAddress],
+    ["asset", statement.assetSymbol],
+    ["from", isoDay(statement.from)],
+    ["to", isoDay(statement.to)],
+    ["generated_at", statement.generatedAt.toISOString()],
+    ["opening_shares", amount(statement.opening.shares)],
+    ["opening_price_per_share", price(statement.opening.pricePerShare)],
+    ["opening_value", optional(statement.opening.value)],
+    ["opening_cost_basis", amount(statement.opening.costBasis)],
+    ["deposited", amount(statement.totals.deposited)],
+    ["withdrawn", amount(statement.totals.withdrawn)],
+    ["realized_yield", amount(statement.totals.realizedYield)],
+    ["period_yield", optional(statement.totals.periodYield)],
+    ["closing_shares", amount(statement.closing.shares)],
+    ["closing_price_per_share", price(statement.closing.pricePerShare)],
+    ["closing_value", optional(statement.closing.value)],
+    ["closing_cost_basis", amount(statement.closing.costBasis)],
+    [],
+    [
+      "date",
+      "type",
+      "amount",
+      "shares",
+      "price_per_share",
+      "realized_yield",
+      "shares_after",
+      "cost_basis_after",
+      "transaction_hash",
+    ],
+    ...statement.lines.map((line) => [
+      line.date.toISOString(),
+      line.type,
+      amount(line.amount),
+      amount(line.shares),
+      price(line.pricePerShare),
+      amount(line.realizedYield),
+      amount(line.sharesAfter),
+      amount(line.costBasisAfter),
+      line.transactionHash ?? "",
+    ]),
+  ];
+
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Render a statement as a printable PDF, in Spanish like the app
+ */
+export function renderStatementPdf(statement: Statement): Uint8Array<ArrayBuffer> {
+  const amount = amountFormatter(statement.decimals);
+  const money = (value: bigint | null) =>
+    value === null ? "sin datos" : `${amount(value)} ${statement.assetSymbol}`;
+  const price = (value: number | null) => (value === null ? "-" : value.toFixed(7));
+
+  const row = (cells: string[]) =>
+    cells
+      .map((cell, index) =>
+        index < 2 ? cell.padEnd(STATEMENT_COLUMNS[index]) : cell.padStart(STATEMENT_COLUMNS[index])
+      )
+      .join(" ");
+
+  const lines: PdfLine[] = [
+    { text: "Juby - Estado de cuenta", font: "bold", size: 16 },
+    { text: `Período: ${isoDay(statement.from)} a ${isoDay(statement.to)}` },
+    { text: `Usuario: ${statement.userId}` },
+    { text: `Cuenta Stellar: ${statement.stellarPublicKey ?? "-"}` },
+    { text: `Bóveda: ${statement.vaultId} (${statement.vaultAddress})` },
+    { text: `Generado: ${statement.generatedAt.toISOString()}` },
+    { text: "" },
+    { text: "Resumen", font: "bold", size: 12 },
+    { text: `Saldo inicial (${isoDay(statement.opening.date)}): ${money(statement.opening.value)}` },
+    { text: `    ${amount(statement.opening.shares)} cuotas a ${price(statement.opening.pricePerShare)}` },
+    { text: `Depósitos: ${money(statement.totals.deposited)}` },
+    { text: `Retiros: ${money(statement.totals.withdrawn)}` },
+    { text: `Rendimiento realizado: ${money(statement.totals.realizedYield)}` },
+    { text: `Rendimiento del período: ${money(statement.totals.periodYield)}` },
+    { text: `Saldo final (${isoDay(statement.closing.date)}): ${money(statement.closing.value)}` },
+    { text: `    ${amount(statement.closing.shares)} cuotas a ${price(statement.closing.pricePerShare)}` },
+    { text: `Capital invertido al cierre: ${money(statement.closing.costBasis)}` },
+    { text: "" },
+    { text: "Movimientos", font: "bold", size: 12 },
+  ];
+
+  if (statement.lines.length === 0) {
+    lines.push({ text: "Sin movimientos en el período." });
+  } else {
+    lines.push({
+      text: row(["Fecha", "Tipo", "Monto", "Cuotas", "Precio/cuota", "Rend. realizado", "Transacción"]),
+      font: "mono",
+      size: 8,
+    });
+    for (const line of statement.lines) {
+      lines.push({
+        text: row([
+          isoDay(line.date),
+          STATEMENT_LINE_LABELS[line.type],
+          amount(line.amount),
+          amount(line.shares),
+          price(line.pricePerShare),
+          amount(line.realizedYield),
+          line.transactionHash ? `${line.transactionHash.slice(0, 10)}...` : "-",
+        ]),
+        font: "mono",
+        size: 8,
+      });
+    }
+  }
+
+  lines.push(
+    { text: "" },
+    {
+      text: `Valores según el cierre diario de la bóveda. Montos en ${statement.assetSymbol}.`,
+      size: 8,
+    }
+  );
+
+  return renderTextPdf(lines, {
+    title: `Juby - Estado de cuenta ${isoDay(statement.from)} a ${isoDay(statement.to)}`,
+    footer: (page, pageCount) => `Página ${page} de ${pageCount}`,
+  });
+}
+
+/**
+ * File name for a downloaded statement
+ */
+export function statementFileName(statement: Statement, format: StatementFormat): string {
+  return `juby-statement-${isoDay(statement.from)}-${isoDay(statement.to)}.${format}`;
+}
+
+export function isStatementFormat(value: string): value is StatementFormat {
+  return (STATEMENT_FORMATS as readonly string[]).includes(value);
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+// Widths of the PDF table columns, in characters
+const STATEMENT_COLUMNS = [10, 9, 14, 14, 12, 15, 13];
+
+const STATEMENT_LINE_LABELS: Record<StatementLine["type"], string> = {
+  DEPOSIT: "Depósito",
+  WITHDRAWAL: "Retiro",
+  MIGRATION: "Migración",
+};
+
+const EMPTY_LEDGER: CostBasisLedger = {
+  totalDeposited: BigInt(0),
+  totalWithdrawn: BigInt(0),
+  costBasis: BigInt(0),
+  shares: BigInt(0),
+  realizedYield: BigInt(0),
+};
+
+/**
+ * Position at the end of a day
+ *
+ * The snapshot gives the on-chain shares and value. Without one the
+ * value is only known when nothing was held.
+ */
+function toPosition(
+  date: Date,
+  ledger: CostBasisLedger,
+  snapshot: PortfolioSnapshot | null
+): StatementPosition {
+  if (snapshot) {
+    return {
+      date,
+      shares: snapshot.shares,
+      costBasis: ledger.costBasis,
+      value: snapshot.value,
+      pricePerShare: snapshot.pricePerShare,
+    };
+  }
+
+  return {
+    date,
+    shares: ledger.shares,
+    costBasis: ledger.costBasis,
+    value: ledger.shares === BigInt(0) ? BigInt(0) : null,
+    pricePerShare: null,
+  };
+}
+
+function amountFormatter(decimals: number) {
+  return (units: bigint) => Money.fromUnits(units, decimals).format({ minFractionDigits: 2 });
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let statementServiceInstance: StatementService | null = null;
+
+/**
+ * Get singleton instance of StatementService
+ *
+ * Reads vaults through the configured DefindexService.
+ */
+export function getStatementService(): StatementService {
+  if (!statementServiceInstance) {
+    statementServiceInstance = new StatementService(
+      initializeDefindexService(),
+      getPortfolioService()
+    );
+  }
+  return statementServiceInstance;
+}
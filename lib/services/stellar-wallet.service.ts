@@ -3,17 +3,46 @@
  *
  * Manages custodial Stellar wallets for users.
  * Backend creates and controls Stellar addresses while users only interact via World App.
+ * Each user gets their own random keypair, whose account the funding
+ * account creates on-chain.
  *
  * SECURITY:
- * - Stellar keypairs encrypted with AES-256-GCM
- * - Master encryption key stored in environment
+ * - Each Stellar secret encrypted with AES-256-GCM under its own data key
+ * - Data keys wrapped by a KeyManagementProvider (see lib/kms); no
+ *   master key material in the app's environment
  * - Users never see their Stellar private keys
+ * - Only transactions the signing policy approves are signed (see
+ *   signing-policy.service.ts)
+ * - Every key use is written to the signing audit log first
  */
 
 import { Keypair } from "@stellar/stellar-sdk";
-import crypto from "crypto";
-// import prisma from "@/lib/prisma"; // DISABLED FOR DEMO
+import {
+  getDataStore,
+  DuplicateRecordError,
+  type NewStellarWallet,
+} from "@/lib/data-store";
+import {
+  getKeyManagementProvider,
+  openSecret,
+  sealSecret,
+  type KeyManagementProvider,
+} from "@/lib/kms";
 import type { StellarWallet } from "@/lib/types/database.types";
+import {
+  getAccountFundingService,
+  type AccountFundingService,
+} from "./account-funding.service";
+import {
+  getSigningAuditService,
+  summarizeTransaction,
+} from "./signing-audit.service";
+import {
+  getSigningPolicy,
+  type SigningIntent,
+  type SigningPolicy,
+} from "./signing-policy.service";
+import { WalletOperationQueue } from "./wallet-queue.service";
 
 // ========================================
 // TYPES
@@ -25,10 +54,27 @@ export interface CreateWalletResult {
   walletId: string;
 }
 
-export interface EncryptedKeyData {
-  encrypted: string;
-  iv: string;
-  tag: string;
+/**
+ * The user closed their account; the wallet is only kept for the records
+ */
+export class WalletArchivedError extends Error {
+  constructor(userId: string, message?: string) {
+    super(message ?? `Wallet for user ${userId} is archived: the account was closed`);
+    this.name = "WalletArchivedError";
+  }
+}
+
+/**
+ * The user moved to a wallet they hold the key to (see WalletMigrationService)
+ */
+export class WalletMigratedError extends WalletArchivedError {
+  readonly migratedTo: string;
+
+  constructor(userId: string, migratedTo: string) {
+    super(userId, `Wallet for user ${userId} was migrated to ${migratedTo}; use that wallet instead`);
+    this.name = "WalletMigratedError";
+    this.migratedTo = migratedTo;
+  }
 }
 
 // ========================================
@@ -36,80 +82,136 @@ export interface EncryptedKeyData {
 // ========================================
 
 export class StellarWalletService {
-  private masterKey: Buffer;
-
-  constructor(masterKeyHex?: string) {
-    const keyHex = masterKeyHex || process.env.ENCRYPTION_MASTER_KEY;
+  private kms: KeyManagementProvider;
+  private funding?: Pick<AccountFundingService, "createAccount">;
+  private policy?: SigningPolicy;
+  // One wallet creation per user at a time within this process
+  private creations: WalletOperationQueue = new WalletOperationQueue();
 
-    if (!keyHex) {
-      throw new Error("ENCRYPTION_MASTER_KEY environment variable is required");
-    }
-
-    // Validate key length (must be 32 bytes = 64 hex chars)
-    if (keyHex.length !== 64) {
-      throw new Error(
-        "ENCRYPTION_MASTER_KEY must be 32 bytes (64 hex characters). " +
-        "Generate with: node -e \"console.log(require('crypto').randomBytes(32).toString('hex'))\""
-      );
-    }
-
-    this.masterKey = Buffer.from(keyHex, "hex");
+  /**
+   * @param kms - Wraps wallets' data keys (the configured provider if not provided)
+   * @param funding - Creates new wallets' accounts on-chain
+   * @param policy - Decides which transactions may be signed (the configured one if not provided)
+   * @throws Error if no provider is given and the configured one cannot be set up
+   */
+  constructor(
+    kms?: KeyManagementProvider,
+    funding?: Pick<AccountFundingService, "createAccount">,
+    policy?: SigningPolicy
+  ) {
+    this.kms = kms ?? getKeyManagementProvider();
+    this.funding = funding;
+    this.policy = policy;
   }
 
   /**
    * Create a new custodial Stellar wallet for a user
    *
+   * Generates a fresh keypair, stores its encrypted secret, then has
+   * the funding account create the account on-chain. Safe to call
+   * again: an existing wallet is returned (and activated, if an
+   * earlier activation failed), and concurrent calls for the same
+   * user end up with the same wallet.
+   *
    * @param userId - Unique user identifier (e.g., World ID)
    * @returns Stellar public key and wallet ID
+   * @throws WalletArchivedError if the user closed their account, or WalletMigratedError if they migrated
+   * @throws Error if the account could not be created on-chain (the wallet is kept; call again to retry)
    */
   async createWalletForUser(userId: string): Promise<CreateWalletResult> {
-    // DEMO MODE: Check in-memory storage
-    if (!(global as any).__mockWallets) {
-      (global as any).__mockWallets = new Map();
-    }
-    const mockWallets = (global as any).__mockWallets as Map<string, any>;
+    return this.creations.run(userId, async () => {
+      const wallet = await this.findOrCreateWallet(userId);
+
+      if (!wallet.activatedAt) {
+        const funded = await this.getFunding().createAccount(wallet.stellarPublicKey);
+        await getDataStore().wallets.markActivated(
+          wallet.id,
+          new Date(),
+          funded.transactionHash ?? null
+        );
+      }
+
+      return toCreateWalletResult(wallet);
+    });
+  }
+
+  /**
+   * Get the user's wallet, or store a new random keypair for them
+   *
+   * @throws WalletArchivedError if the user closed their account, or WalletMigratedError if they migrated
+   */
+  private async findOrCreateWallet(userId: string): Promise<StellarWallet> {
+    const wallets = getDataStore().wallets;
 
-    const existing = mockWallets.get(userId);
+    const existing = await wallets.findByUserId(userId);
+    if (existing?.archivedAt) {
+      throw archivedError(existing);
+    }
     if (existing) {
-      return {
-        userId: existing.userId,
-        stellarPublicKey: existing.stellarPublicKey,
-        walletId: existing.id,
-      };
+      return existing;
     }
 
-    // DEMO MODE: Use hardcoded testnet wallet with valid checksum
-    // This wallet needs to be funded on testnet via Stellar friendbot
-    const DEMO_SECRET_KEY = process.env.DEMO_STELLAR_SECRET_KEY || "SAFQMVRYDPELFSBXYCC2SSSSF47I2AQ6A7JOTM5THVEAUDWXRP6Z2FT3";
-
-    const keypair = Keypair.fromSecret(DEMO_SECRET_KEY);
-    const publicKey = keypair.publicKey();
-    const secretKey = keypair.secret();
+    const keypair = Keypair.random();
+
+    try {
+      const wallet = await wallets.create({
+        userId,
+        stellarPublicKey: keypair.publicKey(),
+        ...(await this.encryptSecretKey(keypair.secret())),
+      });
+
+      console.log(`✅ Created Stellar wallet for user ${userId}: ${wallet.stellarPublicKey}`);
+
+      return wallet;
+    } catch (error) {
+      // Another server instance created the user's wallet first; its
+      // keypair wins and this one is discarded before it is ever funded
+      const winner =
+        error instanceof DuplicateRecordError
+          ? await wallets.findByUserId(userId)
+          : null;
+      if (!winner) {
+        throw error;
+      }
+      return winner;
+    }
+  }
 
-    // Encrypt the secret key
-    const encryptedData = this.encryptSecretKey(secretKey);
+  private getFunding(): Pick<AccountFundingService, "createAccount"> {
+    if (!this.funding) {
+      this.funding = getAccountFundingService();
+    }
+    return this.funding;
+  }
 
-    // Store in memory (DEMO MODE)
-    const mockWallet = {
-      id: `mock-wallet-${Date.now()}`,
-      userId,
-      stellarPublicKey: publicKey,
-      encryptedSecretKey: encryptedData.encrypted,
-      encryptionIv: encryptedData.iv,
-      encryptionTag: encryptedData.tag,
-      createdAt: new Date(),
-      lastUsed: new Date(),
-    };
+  private getPolicy(): SigningPolicy {
+    if (!this.policy) {
+      this.policy = getSigningPolicy();
+    }
+    return this.policy;
+  }
 
-    mockWallets.set(userId, mockWallet);
+  /**
+   * Store an existing Stellar keypair as a user's custodial wallet
+   *
+   * For seeding known states (see ScenarioLoader); real users get
+   * their wallet from createWalletForUser.
+   *
+   * @param userId - Unique user identifier
+   * @param secretKey - Stellar secret key (starts with S)
+   * @returns Stellar public key and wallet ID
+   * @throws DuplicateRecordError if the user or key already has a wallet
+   */
+  async importWalletForUser(userId: string, secretKey: string): Promise<CreateWalletResult> {
+    const keypair = Keypair.fromSecret(secretKey);
 
-    console.log(`✅ [DEMO] Using hardcoded testnet wallet for user ${userId}: ${publicKey}`);
+    const wallet = await getDataStore().wallets.create({
+      userId,
+      stellarPublicKey: keypair.publicKey(),
+      ...(await this.encryptSecretKey(keypair.secret())),
+    });
 
-    return {
-      userId: mockWallet.userId,
-      stellarPublicKey: mockWallet.stellarPublicKey,
-      walletId: mockWallet.id,
-    };
+    return toCreateWalletResult(wallet);
   }
 
   /**
@@ -119,14 +221,7 @@ export class StellarWalletService {
    * @returns Stellar public key
    */
   async getUserStellarAddress(userId: string): Promise<string> {
-    // DEMO MODE: Get from in-memory storage
-    const mockWallets = (global as any).__mockWallets as Map<string, any>;
-    const wallet = mockWallets?.get(userId);
-
-    if (!wallet) {
-      throw new Error(`No Stellar wallet found for user: ${userId}`);
-    }
-
+    const wallet = await this.getUserWallet(userId);
     return wallet.stellarPublicKey;
   }
 
@@ -135,72 +230,70 @@ export class StellarWalletService {
    *
    * @param userId - User identifier
    * @returns Full wallet record
+   * @throws WalletArchivedError if the user closed their account, or WalletMigratedError if they migrated
    */
   async getUserWallet(userId: string): Promise<StellarWallet> {
-    // DEMO MODE: Get from in-memory storage
-    const mockWallets = (global as any).__mockWallets as Map<string, any>;
-    const wallet = mockWallets?.get(userId);
+    const wallet = await getDataStore().wallets.findByUserId(userId);
 
     if (!wallet) {
       throw new Error(`No Stellar wallet found for user: ${userId}`);
     }
 
-    return wallet as StellarWallet;
-  }
-
-  /**
-   * Get Stellar Keypair for signing transactions
-   * INTERNAL USE ONLY - Never expose to frontend!
-   *
-   * @param userId - User identifier
-   * @returns Stellar Keypair object
-   */
-  async getKeypairForUser(userId: string): Promise<Keypair> {
-    const wallet = await this.getUserWallet(userId);
-
-    // Decrypt the secret key
-    const secretKey = this.decryptSecretKey(
-      wallet.encryptedSecretKey,
-      wallet.encryptionIv,
-      wallet.encryptionTag
-    );
-
-    // Create Keypair from secret
-    const keypair = Keypair.fromSecret(secretKey);
-
-    // DEMO MODE: Update last used in memory
-    const mockWallets = (global as any).__mockWallets as Map<string, any>;
-    if (mockWallets?.has(userId)) {
-      const mockWallet = mockWallets.get(userId);
-      mockWallet.lastUsed = new Date();
-      mockWallets.set(userId, mockWallet);
+    if (wallet.archivedAt) {
+      throw archivedError(wallet);
     }
 
-    return keypair;
+    return wallet;
   }
 
   /**
    * Sign a transaction XDR with user's Stellar key
    * INTERNAL USE ONLY - Backend signs on behalf of user
    *
+   * The transaction must pass the signing policy; it is then recorded
+   * in the signing audit log before the key is decrypted.
+   *
    * @param userId - User identifier
    * @param xdr - Unsigned transaction XDR
+   * @param operation - Calling operation, checked by the policy and recorded in the audit log
+   * @param intent - Network the caller built for and, for transfers, the intended recipient
    * @returns Signed transaction XDR
+   * @throws SigningPolicyViolationError if the policy refuses the transaction
+   * @throws Error if the audit entry could not be written
    */
-  async signTransactionForUser(userId: string, xdr: string): Promise<string> {
-    const { TransactionBuilder, Networks } = await import("@stellar/stellar-sdk");
+  async signTransactionForUser(
+    userId: string,
+    xdr: string,
+    operation: string,
+    intent: SigningIntent
+  ): Promise<string> {
+    const { TransactionBuilder } = await import("@stellar/stellar-sdk");
 
-    const keypair = await this.getKeypairForUser(userId);
+    const wallet = await this.getUserWallet(userId);
+    const policy = this.getPolicy();
 
-    // Parse transaction
-    const network = process.env.STELLAR_NETWORK === "MAINNET"
-      ? Networks.PUBLIC
-      : Networks.TESTNET;
+    try {
+      policy.check(xdr, { ...intent, signer: wallet.stellarPublicKey, operation });
+    } catch (error) {
+      console.error(`🚫 Refused to sign for user ${userId}:`, error instanceof Error ? error.message : error);
+      throw error;
+    }
 
+    // Signed for the pinned network only
+    const network = policy.networkPassphrase;
     const transaction = TransactionBuilder.fromXDR(xdr, network);
 
+    // The hash does not depend on signatures, so it is known before signing
+    await getSigningAuditService().recordKeyUse({
+      userId,
+      stellarPublicKey: wallet.stellarPublicKey,
+      action: "SIGN_TRANSACTION",
+      operation,
+      transaction: summarizeTransaction(xdr, network),
+    });
+
     // Sign transaction
-    transaction.sign(keypair);
+    transaction.sign(await this.unlockWallet(wallet));
 
     console.log(`✅ Signed transaction for user ${userId}`);
 
@@ -208,58 +301,80 @@ export class StellarWalletService {
   }
 
   /**
-   * Encrypt a Stellar secret key using AES-256-GCM
+   * Erase a user's custodial secret key for good
    *
-   * @param secretKey - Stellar secret key (starts with S)
-   * @returns Encrypted data with IV and auth tag
+   * The retirement is recorded in the signing audit log before the key
+   * material is wiped. Safe to call again; archived wallets included.
+   *
+   * @param userId - User identifier
+   * @param operation - Calling operation, for the audit log
+   * @returns Wallet after the wipe
+   * @throws Error if the user has no wallet or the audit entry could not be written
    */
-  private encryptSecretKey(secretKey: string): EncryptedKeyData {
-    // Generate random IV (12 bytes for GCM)
-    const iv = crypto.randomBytes(12);
+  async retireSecretKey(userId: string, operation: string): Promise<StellarWallet> {
+    const wallet = await getDataStore().wallets.findByUserId(userId);
+    if (!wallet) {
+      throw new Error(`No Stellar wallet found for user: ${userId}`);
+    }
+    if (wallet.secretWipedAt) {
+      return wallet;
+    }
+
+    await getSigningAuditService().recordKeyUse({
+      userId,
+      stellarPublicKey: wallet.stellarPublicKey,
+      action: "KEY_RETIRED",
+      operation,
+    });
 
-    // Create cipher
-    const cipher = crypto.createCipheriv("aes-256-gcm", this.masterKey, iv);
+    console.log(`🗑️ Retiring custodial key of user ${userId} (${operation})`);
+    return getDataStore().wallets.wipeSecret(wallet.id, new Date());
+  }
 
-    // Encrypt
-    let encrypted = cipher.update(secretKey, "utf8", "hex");
-    encrypted += cipher.final("hex");
+  /**
+   * Decrypt the wallet's key and mark the wallet used
+   */
+  private async unlockWallet(wallet: StellarWallet): Promise<Keypair> {
+    if (!wallet.wrappedDataKey || !wallet.encryptionKeyId) {
+      throw new Error(
+        `Wallet ${wallet.id} still uses legacy master key encryption; run scripts/rotate-master-key.ts`
+      );
+    }
 
-    // Get authentication tag
-    const tag = cipher.getAuthTag();
+    // Unwrap the data key and decrypt the secret key
+    const secretKey = await openSecret(this.kms, {
+      encrypted: wallet.encryptedSecretKey,
+      iv: wallet.encryptionIv,
+      tag: wallet.encryptionTag,
+      wrappedDataKey: wallet.wrappedDataKey,
+      keyId: wallet.encryptionKeyId,
+    });
 
-    return {
-      encrypted,
-      iv: iv.toString("hex"),
-      tag: tag.toString("hex"),
-    };
+    // Create Keypair from secret
+    const keypair = Keypair.fromSecret(secretKey);
+
+    await getDataStore().wallets.markUsed(wallet.id, new Date());
+
+    return keypair;
   }
 
   /**
-   * Decrypt a Stellar secret key using AES-256-GCM
+   * Encrypt a Stellar secret key under a new data key wrapped by the KMS
    *
-   * @param encrypted - Encrypted secret key
-   * @param ivHex - Initialization vector (hex)
-   * @param tagHex - Authentication tag (hex)
-   * @returns Decrypted Stellar secret key
+   * @param secretKey - Stellar secret key (starts with S)
+   * @returns Wallet columns holding the encrypted key and wrapped data key
    */
-  private decryptSecretKey(
-    encrypted: string,
-    ivHex: string,
-    tagHex: string
-  ): string {
-    // Convert hex strings to buffers
-    const iv = Buffer.from(ivHex, "hex");
-    const tag = Buffer.from(tagHex, "hex");
-
-    // Create decipher
-    const decipher = crypto.createDecipheriv("aes-256-gcm", this.masterKey, iv);
-    decipher.setAuthTag(tag);
-
-    // Decrypt
-    let decrypted = decipher.update(encrypted, "hex", "utf8");
-    decrypted += decipher.final("utf8");
-
-    return decrypted;
+  private async encryptSecretKey(
+    secretKey: string
+  ): Promise<Omit<NewStellarWallet, "userId" | "stellarPublicKey">> {
+    const sealed = await sealSecret(this.kms, secretKey);
+    return {
+      encryptedSecretKey: sealed.encrypted,
+      encryptionIv: sealed.iv,
+      encryptionTag: sealed.tag,
+      wrappedDataKey: sealed.wrappedDataKey,
+      encryptionKeyId: sealed.keyId,
+    };
   }
 
   /**
@@ -269,9 +384,7 @@ export class StellarWalletService {
    * @returns true if wallet exists
    */
   async userHasWallet(userId: string): Promise<boolean> {
-    // DEMO MODE: Check in-memory storage
-    const mockWallets = (global as any).__mockWallets as Map<string, any>;
-    return mockWallets?.has(userId) || false;
+    return (await getDataStore().wallets.findByUserId(userId)) !== null;
   }
 
   /**
@@ -280,14 +393,25 @@ export class StellarWalletService {
    * @returns List of all Stellar public keys
    */
   async getAllWalletAddresses(): Promise<string[]> {
-    // DEMO MODE: Get from in-memory storage
-    const mockWallets = (global as any).__mockWallets as Map<string, any>;
-    if (!mockWallets) return [];
-
-    return Array.from(mockWallets.values()).map((w: any) => w.stellarPublicKey);
+    const wallets = await getDataStore().wallets.list();
+    return wallets.map((w) => w.stellarPublicKey);
   }
 }
 
+function archivedError(wallet: StellarWallet): WalletArchivedError {
+  return wallet.migratedTo
+    ? new WalletMigratedError(wallet.userId, wallet.migratedTo)
+    : new WalletArchivedError(wallet.userId);
+}
+
+function toCreateWalletResult(wallet: StellarWallet): CreateWalletResult {
+  return {
+    userId: wallet.userId,
+    stellarPublicKey: wallet.stellarPublicKey,
+    walletId: wallet.id,
+  };
+}
+
 // ========================================
 // SINGLETON INSTANCE
 // ========================================
@@ -297,14 +421,14 @@ let stellarWalletServiceInstance: StellarWalletService | null = null;
 /**
  * Get or create the singleton StellarWalletService instance
  *
- * @param masterKeyHex - Optional master key (uses env var if not provided)
+ * @param kms - Optional key management provider (uses KMS_PROVIDER if not provided)
  * @returns StellarWalletService instance
  */
 export function getStellarWalletService(
-  masterKeyHex?: string
+  kms?: KeyManagementProvider
 ): StellarWalletService {
   if (!stellarWalletServiceInstance) {
-    stellarWalletServiceInstance = new StellarWalletService(masterKeyHex);
+    stellarWalletServiceInstance = new StellarWalletService(kms);
   }
   return stellarWalletServiceInstance;
 }
@@ -0,0 +1,335 @@
+/**
+ * Transaction Tracker Service
+ *
+ * Follows submitted Stellar transactions until the ledger settles them.
+ * Submission only means the network accepted the transaction into its
+ * queue; the tracker polls getTransaction until it is SUCCESS or FAILED
+ * (or gives up), then records the ledger, fee charged and decoded
+ * Soroban return value.
+ *
+ * Callers get a pending handle straight after submission and can poll
+ * getStatus() (exposed as GET /api/defindex/transactions/[hash]).
+ *
+ * Records are kept in memory only as long as someone may poll them:
+ * settled ones for SETTLED_RETENTION_MS, unsettled ones (and their
+ * callbacks) until long after any time bound has passed. Older hashes
+ * are looked up on the network again.
+ */
+
+import { rpc, scValToNative, xdr } from "@stellar/stellar-sdk";
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * Subset of the Soroban RPC server used to submit and follow transactions
+ */
+export type TransactionRpcClient = Pick<
+  rpc.Server,
+  "sendTransaction" | "getTransaction"
+>;
+
+export type TransactionStatus = "PENDING" | "SUCCESS" | "FAILED" | "TIMEOUT";
+
+export interface TrackedTransaction {
+  hash: string;
+  status: TransactionStatus;
+  submittedAt: Date;
+  settledAt?: Date;
+  ledger?: number;
+  feeCharged?: bigint; // In stroops of XLM
+  returnValue?: unknown; // Decoded, JSON-safe Soroban return value
+  error?: string;
+}
+
+export interface TrackOptions {
+  /** Called once when the transaction reaches SUCCESS or FAILED */
+  onSettled?: (transaction: TrackedTransaction) => void | Promise<void>;
+}
+
+export interface PollOptions {
+  timeoutMs?: number;
+  intervalMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_INTERVAL_MS = 2_000;
+
+// How long a settled transaction stays in memory for status polls
+const SETTLED_RETENTION_MS = 10 * 60_000;
+
+// How long an unsettled transaction is remembered; far past the time
+// bounds transactions are built with, so it can no longer land
+const UNSETTLED_RETENTION_MS = 60 * 60_000;
+
+// ========================================
+// TRANSACTION TRACKER
+// ========================================
+
+export class TransactionTracker {
+  private rpcClient: TransactionRpcClient;
+  private transactions: Map<string, TrackedTransaction> = new Map();
+  private settledCallbacks: Map<string, TrackOptions["onSettled"]> = new Map();
+  private polling: Map<string, Promise<TrackedTransaction>> = new Map();
+
+  constructor(rpcClient: TransactionRpcClient) {
+    this.rpcClient = rpcClient;
+  }
+
+  /**
+   * Start tracking a submitted transaction
+   *
+   * Returns immediately with a PENDING record and keeps polling
+   * in the background until the transaction settles or times out.
+   *
+   * @param hash - Transaction hash returned by sendTransaction
+   * @param options - Optional settlement callback
+   * @returns Pending handle
+   */
+  track(hash: string, options: TrackOptions = {}): TrackedTransaction {
+    const existing = this.transactions.get(hash);
+    if (existing) {
+      return { ...existing };
+    }
+
+    const transaction: TrackedTransaction = {
+      hash,
+      status: "PENDING",
+      submittedAt: new Date(),
+    };
+    this.transactions.set(hash, transaction);
+    if (options.onSettled) {
+      this.settledCallbacks.set(hash, options.onSettled);
+    }
+
+    // Background poll; errors are recorded on the transaction itself
+    void this.waitForConfirmation(hash);
+
+    return { ...transaction };
+  }
+
+  /**
+   * Poll until the transaction is SUCCESS, FAILED or the timeout passes
+   *
+   * Concurrent callers share one polling loop per hash.
+   *
+   * @param hash - Transaction hash
+   * @param options - Timeout and poll interval
+   * @returns Final (or TIMEOUT) transaction record
+   */
+  async waitForConfirmation(
+    hash: string,
+    options: PollOptions = {}
+  ): Promise<TrackedTransaction> {
+    const inFlight = this.polling.get(hash);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    this.prune();
+
+    const poll = this.pollUntilSettled(hash, options).finally(() => {
+      this.polling.delete(hash);
+    });
+    this.polling.set(hash, poll);
+    return poll;
+  }
+
+  /**
+   * Get the latest known status of a transaction
+   *
+   * Pending or timed-out transactions are checked against the
+   * network once more, so late confirmations are still picked up.
+   *
+   * @param hash - Transaction hash
+   * @returns Transaction record, or null if the hash is unknown to the network
+   */
+  async getStatus(hash: string): Promise<TrackedTransaction | null> {
+    this.prune();
+
+    const known = this.transactions.get(hash);
+    if (known && (known.status === "SUCCESS" || known.status === "FAILED")) {
+      return { ...known };
+    }
+
+    const transaction = await this.checkOnce(hash);
+    if (!transaction) {
+      return known ? { ...known } : null;
+    }
+    return { ...transaction };
+  }
+
+  /**
+   * Poll loop behind waitForConfirmation
+   */
+  private async pollUntilSettled(
+    hash: string,
+    options: PollOptions
+  ): Promise<TrackedTransaction> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      try {
+        const transaction = await this.checkOnce(hash);
+        if (transaction && transaction.status !== "PENDING") {
+          return { ...transaction };
+        }
+      } catch (error) {
+        // RPC hiccups are retried until the deadline
+        console.warn(`⚠️  Status check for ${hash} failed:`, error);
+      }
+      await sleep(intervalMs);
+    }
+
+    const timedOut = this.upsert(hash, {
+      status: "TIMEOUT",
+      error: `Transaction not confirmed within ${timeoutMs / 1000}s`,
+    });
+    console.warn(`⏱️  Transaction ${hash} not confirmed in time`);
+    return { ...timedOut };
+  }
+
+  /**
+   * Query the network once and record any settlement
+   *
+   * @returns Updated record, or null if the network has not seen the hash
+   */
+  private async checkOnce(hash: string): Promise<TrackedTransaction | null> {
+    const response = await this.rpcClient.getTransaction(hash);
+
+    if (response.status === rpc.Api.GetTransactionStatus.NOT_FOUND) {
+      const known = this.transactions.get(hash);
+      return known && known.status === "PENDING" ? known : null;
+    }
+
+    const feeCharged = BigInt(response.resultXdr.feeCharged().toString());
+
+    if (response.status === rpc.Api.GetTransactionStatus.SUCCESS) {
+      return this.settle(hash, {
+        status: "SUCCESS",
+        ledger: response.ledger,
+        feeCharged,
+        returnValue: decodeReturnValue(response.returnValue),
+        error: undefined,
+      });
+    }
+
+    return this.settle(hash, {
+      status: "FAILED",
+      ledger: response.ledger,
+      feeCharged,
+      error: `Transaction failed: ${response.resultXdr.result().switch().name}`,
+    });
+  }
+
+  /**
+   * Record a final status and fire the settlement callback once
+   */
+  private async settle(
+    hash: string,
+    update: Partial<TrackedTransaction>
+  ): Promise<TrackedTransaction> {
+    const previous = this.transactions.get(hash);
+    const alreadySettled =
+      previous?.status === "SUCCESS" || previous?.status === "FAILED";
+
+    const transaction = this.upsert(hash, { ...update, settledAt: new Date() });
+
+    if (!alreadySettled) {
+      console.log(
+        `${transaction.status === "SUCCESS" ? "✅" : "❌"} Transaction ${hash} ${transaction.status} in ledger ${transaction.ledger} (fee ${transaction.feeCharged} stroops)`
+      );
+
+      const onSettled = this.settledCallbacks.get(hash);
+      this.settledCallbacks.delete(hash);
+      if (onSettled) {
+        try {
+          await onSettled({ ...transaction });
+        } catch (error) {
+          console.error(`Settlement callback for ${hash} failed:`, error);
+        }
+      }
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Forget transactions past their retention, except those still polled
+   */
+  private prune(): void {
+    const now = Date.now();
+
+    for (const [hash, transaction] of this.transactions) {
+      if (this.polling.has(hash)) {
+        continue;
+      }
+
+      const expired = transaction.settledAt
+        ? now - transaction.settledAt.getTime() >= SETTLED_RETENTION_MS
+        : now - transaction.submittedAt.getTime() >= UNSETTLED_RETENTION_MS;
+      if (expired) {
+        this.transactions.delete(hash);
+        this.settledCallbacks.delete(hash);
+      }
+    }
+  }
+
+  private upsert(
+    hash: string,
+    update: Partial<TrackedTransaction>
+  ): TrackedTransaction {
+    const transaction: TrackedTransaction = {
+      hash,
+      status: "PENDING",
+      submittedAt: new Date(),
+      ...this.transactions.get(hash),
+      ...update,
+    };
+    this.transactions.set(hash, transaction);
+    return transaction;
+  }
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Decode a Soroban return value into JSON-safe data
+ *
+ * bigint values (i128, u64, ...) become decimal strings and
+ * byte buffers become hex, so the result can go straight into
+ * an API response.
+ */
+export function decodeReturnValue(value?: xdr.ScVal): unknown {
+  if (!value) {
+    return undefined;
+  }
+  return toJsonSafe(scValToNative(value));
+}
+
+function toJsonSafe(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString("hex");
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonSafe);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toJsonSafe(entry)])
+    );
+  }
+  return value;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
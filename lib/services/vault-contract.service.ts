@@ -0,0 +1,365 @@
+/**
+ * Vault Contract Service
+ *
+ * Read-only access to Defindex vault contracts over Soroban RPC.
+ * Every call is simulated, never submitted, so no signer or fees are needed.
+ * Built deposit and withdrawal transactions can be simulated the same
+ * way to see what they would return before they are signed, and the
+ * minimum amounts they are signed with can be read back.
+ *
+ * The RPC client is injected so tests can run against a local fake
+ * instead of a live Soroban node.
+ */
+
+import {
+  Account,
+  Address,
+  BASE_FEE,
+  Contract,
+  Transaction,
+  TransactionBuilder,
+  rpc,
+  scValToNative,
+  xdr,
+} from "@stellar/stellar-sdk";
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * Subset of the Soroban RPC server used for contract reads
+ */
+export type VaultRpcClient = Pick<rpc.Server, "simulateTransaction">;
+
+export interface ManagedFunds {
+  asset: string;
+  totalAmount: bigint;
+  idleAmount: bigint;
+  investedAmount: bigint;
+}
+
+export interface VaultState {
+  vaultAddress: string;
+  totalSupply: bigint; // Outstanding vault shares (dfTokens)
+  totalManagedFunds: bigint; // Underlying asset held by the vault and its strategies
+  managedFunds: ManagedFunds[];
+}
+
+// Simulation never loads or charges the source account, so any valid key works
+const SIMULATION_SOURCE_ACCOUNT =
+  "GAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAWHF";
+
+// ========================================
+// VAULT CONTRACT SERVICE
+// ========================================
+
+export class VaultContractService {
+  private rpcClient: VaultRpcClient;
+  private networkPassphrase: string;
+
+  constructor(rpcClient: VaultRpcClient, networkPassphrase: string) {
+    this.rpcClient = rpcClient;
+    this.networkPassphrase = networkPassphrase;
+  }
+
+  /**
+   * Get the number of vault shares held by an account
+   *
+   * @param vaultAddress - Vault contract address
+   * @param userPublicKey - Account holding the shares
+   * @returns Share balance in stroops
+   */
+  async getShareBalance(
+    vaultAddress: string,
+    userPublicKey: string
+  ): Promise<bigint> {
+    const result = await this.simulate(
+      vaultAddress,
+      "balance",
+      new Address(userPublicKey).toScVal()
+    );
+    return toBigInt(result);
+  }
+
+  /**
+   * Get an account's balance of a token contract, such as a vault's
+   * underlying asset
+   *
+   * @param tokenAddress - Token contract address (C...)
+   * @param account - Account or contract holding the tokens
+   * @returns Token balance in stroops
+   */
+  async getTokenBalance(tokenAddress: string, account: string): Promise<bigint> {
+    const result = await this.simulate(
+      tokenAddress,
+      "balance",
+      new Address(account).toScVal()
+    );
+    return toBigInt(result);
+  }
+
+  /**
+   * Get the total number of vault shares in circulation
+   *
+   * @param vaultAddress - Vault contract address
+   * @returns Total share supply in stroops
+   */
+  async getTotalSupply(vaultAddress: string): Promise<bigint> {
+    const result = await this.simulate(vaultAddress, "total_supply");
+    return toBigInt(result);
+  }
+
+  /**
+   * Get the funds managed by the vault, per underlying asset
+   *
+   * @param vaultAddress - Vault contract address
+   * @returns Idle, invested and total amounts for each asset
+   */
+  async getTotalManagedFunds(vaultAddress: string): Promise<ManagedFunds[]> {
+    const result = await this.simulate(vaultAddress, "fetch_total_managed_funds");
+
+    // Older vaults return a map keyed by asset address instead of a list
+    const allocations = Array.isArray(result)
+      ? result
+      : Object.values((result ?? {}) as Record<string, unknown>);
+
+    return allocations.map((allocation) => {
+      const entry = allocation as Record<string, unknown>;
+      return {
+        asset: String(entry.asset),
+        totalAmount: toBigInt(entry.total_amount),
+        idleAmount: toBigInt(entry.idle_amount),
+        investedAmount: toBigInt(entry.invested_amount),
+      };
+    });
+  }
+
+  /**
+   * Get share supply and managed funds in one call
+   *
+   * Juby vaults hold a single asset, so the first allocation
+   * is used as the vault's total managed funds.
+   *
+   * @param vaultAddress - Vault contract address
+   * @returns Current vault state
+   */
+  async getVaultState(vaultAddress: string): Promise<VaultState> {
+    const [totalSupply, managedFunds] = await Promise.all([
+      this.getTotalSupply(vaultAddress),
+      this.getTotalManagedFunds(vaultAddress),
+    ]);
+
+    return {
+      vaultAddress,
+      totalSupply,
+      totalManagedFunds: managedFunds[0]?.totalAmount ?? BigInt(0),
+      managedFunds,
+    };
+  }
+
+  /**
+   * Helper: Convert vault shares to underlying asset amount
+   *
+   * Rounds down, matching how the vault pays out on withdrawal.
+   *
+   * @param shares - Vault shares in stroops
+   * @param state - Current vault state
+   * @returns Underlying asset amount in stroops
+   */
+  static sharesToAssets(shares: bigint, state: VaultState): bigint {
+    if (state.totalSupply === BigInt(0)) {
+      return BigInt(0);
+    }
+    return (shares * state.totalManagedFunds) / state.totalSupply;
+  }
+
+  /**
+   * Helper: Convert an underlying asset amount to vault shares
+   *
+   * Rounds down, matching how the vault mints shares on deposit.
+   * An empty vault mints shares 1:1 with the deposited amount.
+   *
+   * @param amount - Underlying asset amount in stroops
+   * @param state - Current vault state
+   * @returns Vault shares in stroops
+   */
+  static assetsToShares(amount: bigint, state: VaultState): bigint {
+    if (state.totalSupply === BigInt(0) || state.totalManagedFunds === BigInt(0)) {
+      return amount;
+    }
+    return (amount * state.totalSupply) / state.totalManagedFunds;
+  }
+
+  /**
+   * Helper: Get the shares that must be burned to receive an asset amount
+   *
+   * Rounds up, so burning the returned shares never pays out
+   * less than the requested amount.
+   *
+   * @param amount - Underlying asset amount in stroops
+   * @param state - Current vault state
+   * @returns Vault shares in stroops
+   */
+  static sharesForAssets(amount: bigint, state: VaultState): bigint {
+    if (state.totalManagedFunds === BigInt(0)) {
+      throw new Error("Vault has no managed funds to withdraw");
+    }
+    const numerator = amount * state.totalSupply;
+    const shares = numerator / state.totalManagedFunds;
+    return numerator % state.totalManagedFunds === BigInt(0)
+      ? shares
+      : shares + BigInt(1);
+  }
+
+  /**
+   * Helper: Get the price of one whole share in underlying assets
+   *
+   * For display only; conversions should use the bigint helpers.
+   *
+   * @param state - Current vault state
+   * @returns Assets per share (1.0 for an empty vault)
+   */
+  static pricePerShare(state: VaultState): number {
+    if (state.totalSupply === BigInt(0)) {
+      return 1;
+    }
+    return Number(state.totalManagedFunds) / Number(state.totalSupply);
+  }
+
+  /**
+   * Simulate a built deposit transaction
+   *
+   * @param transactionXdr - Unsigned deposit transaction
+   * @returns Shares the deposit would mint, in stroops
+   */
+  async simulateDeposit(transactionXdr: string): Promise<bigint> {
+    // Return value format: [ [amounts], totalShares, allocations ]
+    const result = await this.simulateEnvelope(transactionXdr, "deposit");
+    return Array.isArray(result) ? toBigInt(result[1]) : BigInt(0);
+  }
+
+  /**
+   * Simulate a built withdrawal transaction
+   *
+   * @param transactionXdr - Unsigned withdrawal transaction
+   * @returns Underlying assets the withdrawal would pay out, in stroops
+   */
+  async simulateWithdraw(transactionXdr: string): Promise<bigint> {
+    // Return value format: [ amounts ], one entry per vault asset
+    const result = await this.simulateEnvelope(transactionXdr, "withdraw");
+    if (!Array.isArray(result)) {
+      return BigInt(0);
+    }
+    return toBigInt(Array.isArray(result[0]) ? result[0][0] : result[0]);
+  }
+
+  /**
+   * Read the minimum amounts a built deposit or withdrawal is signed with
+   *
+   * A simulation only shows the price when the transaction is built;
+   * these bounds are what the vault enforces when it lands.
+   *
+   * @param transactionXdr - Unsigned deposit or withdrawal transaction
+   * @param method - "deposit" (amounts_min) or "withdraw" (min_amounts_out)
+   * @returns Minimum amount per vault asset, in stroops
+   * @throws Error if the transaction does not call that vault function
+   */
+  minimumAmounts(transactionXdr: string, method: "deposit" | "withdraw"): bigint[] {
+    const transaction = TransactionBuilder.fromXDR(
+      transactionXdr,
+      this.networkPassphrase
+    );
+    const operation =
+      transaction instanceof Transaction ? transaction.operations[0] : undefined;
+    if (operation?.type !== "invokeHostFunction") {
+      throw new Error(`Not a ${method} transaction`);
+    }
+
+    const call = operation.func.invokeContract();
+    if (call.functionName().toString() !== method) {
+      throw new Error(`Not a ${method} transaction`);
+    }
+
+    // deposit(amounts_desired, amounts_min, from, invest)
+    // withdraw(withdraw_shares, min_amounts_out, from)
+    const minimums = scValToNative(call.args()[1]);
+    if (!Array.isArray(minimums)) {
+      throw new Error(`The ${method} transaction has no minimum amounts`);
+    }
+    return minimums.map(toBigInt);
+  }
+
+  /**
+   * Simulate a read-only contract call and decode its return value
+   *
+   * @param contractId - Contract to invoke
+   * @param method - Contract function name
+   * @param args - Encoded contract arguments
+   * @returns Native JS value of the simulation result
+   */
+  private async simulate(
+    contractId: string,
+    method: string,
+    ...args: xdr.ScVal[]
+  ): Promise<unknown> {
+    const transaction = new TransactionBuilder(
+      new Account(SIMULATION_SOURCE_ACCOUNT, "0"),
+      { fee: BASE_FEE, networkPassphrase: this.networkPassphrase }
+    )
+      .addOperation(new Contract(contractId).call(method, ...args))
+      .setTimeout(30)
+      .build();
+
+    return this.simulateTransaction(transaction, method);
+  }
+
+  /**
+   * Simulate an already-built transaction and decode its return value
+   *
+   * @param transactionXdr - Transaction envelope XDR
+   * @param method - Contract function name, for error messages
+   * @returns Native JS value of the simulation result
+   */
+  private async simulateEnvelope(
+    transactionXdr: string,
+    method: string
+  ): Promise<unknown> {
+    const transaction = TransactionBuilder.fromXDR(
+      transactionXdr,
+      this.networkPassphrase
+    );
+    if (!(transaction instanceof Transaction)) {
+      throw new Error(`Cannot simulate a fee-bumped ${method} transaction`);
+    }
+    return this.simulateTransaction(transaction, method);
+  }
+
+  private async simulateTransaction(
+    transaction: Transaction,
+    method: string
+  ): Promise<unknown> {
+    const simulation = await this.rpcClient.simulateTransaction(transaction);
+
+    if (rpc.Api.isSimulationError(simulation)) {
+      throw new Error(`Simulation of ${method} failed: ${simulation.error}`);
+    }
+
+    if (!rpc.Api.isSimulationSuccess(simulation) || !simulation.result) {
+      throw new Error(`Simulation of ${method} returned no result`);
+    }
+
+    return scValToNative(simulation.result.retval);
+  }
+}
+
+/**
+ * Coerce a decoded contract integer (i128, u64, ...) to bigint
+ */
+function toBigInt(value: unknown): bigint {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number" || typeof value === "string") {
+    return BigInt(value);
+  }
+  return BigInt(0);
+}
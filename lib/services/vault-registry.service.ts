@@ -0,0 +1,186 @@
+/**
+ * Vault Registry
+ *
+ * Catalogue of the Defindex vaults Juby offers (e.g. a conservative
+ * USDC vault and an XLM vault), with the per-vault settings that used
+ * to be global: asset, decimals, default slippage and auto-invest.
+ *
+ * Configured with DEFINDEX_VAULTS (JSON array of VaultDefinition).
+ * When that is unset, DEFINDEX_VAULT_ADDRESS is registered as the
+ * single "default" vault so existing deployments keep working.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export type VaultRiskLabel = "low" | "medium" | "high";
+
+export interface VaultDefinition {
+  id: string; // Stable identifier used by the API, e.g. "usdc-conservative"
+  address: string; // Vault contract address (C...)
+  displayName: string;
+  riskLabel: VaultRiskLabel;
+  assetSymbol: string; // e.g. "USDC", "XLM"
+  assetAddress: string; // Underlying asset contract address (C...)
+  decimals: number; // Asset decimals (7 for Stellar assets)
+  defaultSlippageBps: number;
+  autoInvest: boolean;
+}
+
+export class UnknownVaultError extends Error {
+  constructor(vaultId: string) {
+    super(`Unknown vault: ${vaultId}`);
+    this.name = "UnknownVaultError";
+  }
+}
+
+// ========================================
+// VAULT REGISTRY
+// ========================================
+
+export class VaultRegistry {
+  private vaults: Map<string, VaultDefinition>;
+  private defaultVaultId: string;
+
+  constructor(vaults: VaultDefinition[], defaultVaultId?: string) {
+    if (vaults.length === 0) {
+      throw new Error("At least one vault must be configured");
+    }
+
+    this.vaults = new Map();
+    for (const vault of vaults) {
+      if (this.vaults.has(vault.id)) {
+        throw new Error(`Duplicate vault id: ${vault.id}`);
+      }
+      if (!vault.address) {
+        throw new Error(`Vault ${vault.id} has no contract address`);
+      }
+      this.vaults.set(vault.id, vault);
+    }
+
+    this.defaultVaultId = defaultVaultId || vaults[0].id;
+    if (!this.vaults.has(this.defaultVaultId)) {
+      throw new UnknownVaultError(this.defaultVaultId);
+    }
+  }
+
+  /**
+   * Get a vault by id
+   *
+   * @param vaultId - Vault identifier (defaults to the default vault)
+   * @returns Vault definition
+   * @throws UnknownVaultError if no vault has that id
+   */
+  get(vaultId?: string): VaultDefinition {
+    const vault = this.vaults.get(vaultId || this.defaultVaultId);
+    if (!vault) {
+      throw new UnknownVaultError(vaultId || this.defaultVaultId);
+    }
+    return vault;
+  }
+
+  /**
+   * Find a vault by its contract address
+   *
+   * @param address - Vault contract address
+   * @returns Vault definition, or null if not registered
+   */
+  findByAddress(address: string): VaultDefinition | null {
+    for (const vault of this.vaults.values()) {
+      if (vault.address === address) {
+        return vault;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * List all registered vaults, default first
+   */
+  list(): VaultDefinition[] {
+    const vaults = Array.from(this.vaults.values());
+    return [
+      ...vaults.filter((v) => v.id === this.defaultVaultId),
+      ...vaults.filter((v) => v.id !== this.defaultVaultId),
+    ];
+  }
+
+  getDefaultVaultId(): string {
+    return this.defaultVaultId;
+  }
+}
+
+// ========================================
+// ENVIRONMENT LOADING
+// ========================================
+
+/**
+ * Read vault definitions from environment variables
+ *
+ * @returns Vault definitions and the default vault id
+ */
+export function loadVaultDefinitionsFromEnv(): {
+  vaults: VaultDefinition[];
+  defaultVaultId?: string;
+} {
+  const defaultSlippageBps = parseInt(
+    process.env.DEFAULT_SLIPPAGE_BPS || "500",
+    10
+  );
+  const autoInvest = process.env.AUTO_INVEST === "true";
+
+  if (process.env.DEFINDEX_VAULTS) {
+    let parsed: Partial<VaultDefinition>[];
+    try {
+      parsed = JSON.parse(process.env.DEFINDEX_VAULTS);
+    } catch {
+      throw new Error("DEFINDEX_VAULTS must be a JSON array of vault definitions");
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new Error("DEFINDEX_VAULTS must be a JSON array of vault definitions");
+    }
+
+    const vaults = parsed.map((vault): VaultDefinition => {
+      if (!vault.id || !vault.address) {
+        throw new Error("Every vault in DEFINDEX_VAULTS needs an id and address");
+      }
+      return {
+        id: vault.id,
+        address: vault.address,
+        displayName: vault.displayName || vault.id,
+        riskLabel: vault.riskLabel || "low",
+        assetSymbol: vault.assetSymbol || "USDC",
+        assetAddress: vault.assetAddress || process.env.USDC_STELLAR_ADDRESS || "",
+        decimals: vault.decimals ?? 7,
+        defaultSlippageBps: vault.defaultSlippageBps ?? defaultSlippageBps,
+        autoInvest: vault.autoInvest ?? autoInvest,
+      };
+    });
+
+    return { vaults, defaultVaultId: process.env.DEFINDEX_DEFAULT_VAULT_ID };
+  }
+
+  if (!process.env.DEFINDEX_VAULT_ADDRESS) {
+    throw new Error(
+      "DEFINDEX_VAULTS or DEFINDEX_VAULT_ADDRESS environment variable is required"
+    );
+  }
+
+  return {
+    vaults: [
+      {
+        id: "default",
+        address: process.env.DEFINDEX_VAULT_ADDRESS,
+        displayName: "Juby Savings",
+        riskLabel: "low",
+        assetSymbol: "USDC",
+        assetAddress: process.env.USDC_STELLAR_ADDRESS || "",
+        decimals: 7,
+        defaultSlippageBps,
+        autoInvest,
+      },
+    ],
+  };
+}
@@ -0,0 +1,529 @@
+/**
+ * Wallet Migration Service
+ *
+ * Lets a user who started with a custodial wallet move to a wallet they
+ * hold the key to: their own Stellar account (G...) or their Crossmint
+ * smart wallet (C...).
+ *
+ * A migration starts AWAITING_PROOF and moves nothing until the user
+ * proves they own the target:
+ * - Self-custody: a signature of the migration's challenge by the
+ *   target account's key, either over the raw message or as a SEP-53
+ *   signed message (what wallets such as Freighter produce)
+ * - Crossmint: the target is the smart wallet Crossmint created for
+ *   the user at sign-in
+ *
+ * Then these steps run in order:
+ * 1. MOVE_SHARES: transfer the shares of every configured vault to
+ *    the target, or with the WITHDRAW method burn them (the user
+ *    redeposits from the new wallet)
+ * 2. MOVE_ASSETS: send the wallet's balance of every vault asset to
+ *    the target; native XLM is sent less the account's reserve
+ * 3. UPDATE_MAPPING: point the user's custodial wallet at the target
+ *    and archive it, so it can no longer deposit, withdraw or sign.
+ *    The portfolio stops valuing it, and the cost basis of transferred
+ *    shares leaves the user's ledger with them (see replayCostBasis)
+ * 4. RETIRE_KEY: erase the encrypted secret key, once no share or
+ *    asset balance is left on-chain (beyond the XLM reserve, which
+ *    cannot be sent)
+ *
+ * Progress, the proof and every transaction hash are kept in a
+ * WalletMigration record; each signature and the key's retirement are
+ * in the signing audit log. Steps check the chain rather than trusting
+ * earlier attempts (see CustodialFundsMover), so running a failed
+ * migration again resumes where it stopped without repeating work.
+ */
+
+import crypto from "crypto";
+import { Keypair, StrKey, hash } from "@stellar/stellar-sdk";
+import { DuplicateRecordError, getDataStore } from "@/lib/data-store";
+import type {
+  StellarWallet,
+  WalletMigration,
+  WalletMigrationMethod,
+  WalletMigrationStep,
+  WalletMigrationTarget,
+} from "@/lib/types/database.types";
+import {
+  CustodialFundsMover,
+  describeFunds,
+  FUNDS_SETTLE_TIMEOUT_MS,
+  type CustodialFundsClient,
+} from "./custodial-funds.service";
+import { initializeDefindexService } from "./defindex.service";
+import { getStellarWalletService } from "./stellar-wallet.service";
+import { WalletOperationQueue } from "./wallet-queue.service";
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface StartMigrationParams {
+  targetAddress: string; // Stellar account (G...) or the user's Crossmint wallet (C...)
+  method?: WalletMigrationMethod; // Defaults to TRANSFER_SHARES
+}
+
+export interface RunMigrationOptions {
+  /** Base64 signature of the challenge by the target key (self-custody, until proven) */
+  signature?: string;
+}
+
+export class NoWalletToMigrateError extends Error {
+  constructor(userId: string) {
+    super(`User ${userId} has no active custodial wallet to migrate`);
+    this.name = "NoWalletToMigrateError";
+  }
+}
+
+export class NoMigrationStartedError extends Error {
+  constructor(userId: string) {
+    super(`User ${userId} has not started a wallet migration`);
+    this.name = "NoMigrationStartedError";
+  }
+}
+
+export class InvalidMigrationTargetError extends Error {
+  constructor(address: string, reason: string) {
+    super(`Invalid migration target ${address}: ${reason}`);
+    this.name = "InvalidMigrationTargetError";
+  }
+}
+
+/**
+ * The target can no longer change: ownership was proven and funds may have moved
+ */
+export class MigrationTargetLockedError extends Error {
+  constructor(userId: string) {
+    super(`The wallet migration for ${userId} is already under way; its target cannot change`);
+    this.name = "MigrationTargetLockedError";
+  }
+}
+
+export class OwnershipProofError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OwnershipProofError";
+  }
+}
+
+export const MIGRATION_STEPS: WalletMigrationStep[] = [
+  "MOVE_SHARES",
+  "MOVE_ASSETS",
+  "UPDATE_MAPPING",
+  "RETIRE_KEY",
+];
+
+// Prefix of SEP-53 signed messages; the key signs SHA-256(prefix + message)
+const SIGNED_MESSAGE_PREFIX = "Stellar Signed Message:\n";
+
+// ========================================
+// WALLET MIGRATION SERVICE
+// ========================================
+
+export class WalletMigrationService {
+  private funds: CustodialFundsMover;
+  private queue: WalletOperationQueue = new WalletOperationQueue();
+
+  constructor(vaults: CustodialFundsClient) {
+    this.funds = new CustodialFundsMover(vaults);
+  }
+
+  /**
+   * Get a user's wallet migration, if they started one
+   *
+   * @param userId - User identifier
+   * @returns Migration record, or null
+   */
+  async getMigration(userId: string): Promise<WalletMigration | null> {
+    return getDataStore().walletMigrations.findByUserId(userId);
+  }
+
+  /**
+   * Start a migration, or change the target of one not yet proven
+   *
+   * The returned migration holds the challenge to sign. Starting again
+   * with the same target and method returns the migration unchanged,
+   * so a challenge already signed stays valid.
+   *
+   * @param userId - User identifier
+   * @param params - Target address and migration method
+   * @returns Migration record, AWAITING_PROOF unless it was already under way
+   * @throws InvalidMigrationTargetError if the target is not a Stellar account or the user's Crossmint wallet
+   * @throws NoWalletToMigrateError if the user has no active custodial wallet
+   * @throws MigrationTargetLockedError if a migration to another target is under way or done
+   */
+  async start(userId: string, params: StartMigrationParams): Promise<WalletMigration> {
+    const { targetAddress } = params;
+    const method = params.method ?? "TRANSFER_SHARES";
+    if (!StrKey.isValidEd25519PublicKey(targetAddress) && !StrKey.isValidContract(targetAddress)) {
+      throw new InvalidMigrationTargetError(targetAddress, "not a Stellar address");
+    }
+
+    return this.queue.run(userId, async () => {
+      const store = getDataStore();
+      const existing = await store.walletMigrations.findByUserId(userId);
+
+      if (existing?.targetAddress === targetAddress && existing.method === method) {
+        return existing;
+      }
+      if (existing && existing.status !== "AWAITING_PROOF") {
+        throw new MigrationTargetLockedError(userId);
+      }
+
+      const wallet = await store.wallets.findByUserId(userId);
+      if (!wallet || wallet.archivedAt) {
+        throw new NoWalletToMigrateError(userId);
+      }
+
+      const target = {
+        targetType: await this.resolveTargetType(wallet, targetAddress),
+        targetAddress,
+        method,
+        challenge: buildChallenge(userId, wallet.stellarPublicKey, targetAddress),
+      };
+
+      if (existing) {
+        console.log(`🧳 Wallet migration target of user ${userId} changed to ${targetAddress}`);
+        return store.walletMigrations.update(existing.id, target);
+      }
+
+      try {
+        const migration = await store.walletMigrations.create({
+          userId,
+          stellarWalletId: wallet.id,
+          fromAddress: wallet.stellarPublicKey,
+          ...target,
+        });
+        console.log(`🧳 Wallet migration started for user ${userId}: ${wallet.stellarPublicKey} → ${targetAddress}`);
+        return migration;
+      } catch (error) {
+        // Another server instance started it first
+        const winner =
+          error instanceof DuplicateRecordError
+            ? await store.walletMigrations.findByUserId(userId)
+            : null;
+        if (!winner) {
+          throw error;
+        }
+        return winner;
+      }
+    });
+  }
+
+  /**
+   * Prove ownership of the target and run the migration, or resume one
+   * that stopped partway
+   *
+   * Runs every remaining step. A step that fails stops the run and
+   * leaves the migration FAILED at that step with lastError set;
+   * calling again retries from there (no new proof is needed). A
+   * completed migration is returned as is.
+   *
+   * @param userId - User identifier
+   * @param options - Signature of the challenge, for a self-custody target not yet proven
+   * @returns Migration record after the run
+   * @throws NoMigrationStartedError if the user has not started a migration
+   * @throws OwnershipProofError if the target's ownership is not proven
+   */
+  async migrate(userId: string, options: RunMigrationOptions = {}): Promise<WalletMigration> {
+    // One run per user at a time, so two requests cannot both move funds
+    return this.queue.run(
+      userId,
+      async () => {
+        let migration = await getDataStore().walletMigrations.findByUserId(userId);
+        if (!migration) {
+          throw new NoMigrationStartedError(userId);
+        }
+
+        if (migration.status === "COMPLETED") {
+          return migration;
+        }
+
+        if (migration.status === "AWAITING_PROOF") {
+          migration = await this.acceptProof(migration, options.signature);
+        }
+
+        return this.runSteps(migration);
+      },
+      { maxWaitMs: FUNDS_SETTLE_TIMEOUT_MS * 3 }
+    );
+  }
+
+  /**
+   * Accounts (G...) are self-custody targets; contracts (C...) must be
+   * the user's own Crossmint wallet
+   */
+  private async resolveTargetType(
+    wallet: StellarWallet,
+    targetAddress: string
+  ): Promise<WalletMigrationTarget> {
+    if (targetAddress === wallet.stellarPublicKey) {
+      throw new InvalidMigrationTargetError(targetAddress, "it is the custodial wallet itself");
+    }
+    if (StrKey.isValidEd25519PublicKey(targetAddress)) {
+      return "SELF_CUSTODY";
+    }
+
+    if (!(await this.isUsersCrossmintWallet(wallet.userId, targetAddress))) {
+      throw new InvalidMigrationTargetError(targetAddress, "not the user's Crossmint wallet");
+    }
+    return "CROSSMINT";
+  }
+
+  private async isUsersCrossmintWallet(userId: string, address: string): Promise<boolean> {
+    const crossmintWallet = await getDataStore().crossmintWallets.findByUserId(userId);
+    return crossmintWallet?.stellarAddress === address && !crossmintWallet.archivedAt;
+  }
+
+  /**
+   * Check the ownership proof and record it
+   *
+   * @throws OwnershipProofError if the signature is missing or invalid, or the Crossmint wallet is gone
+   */
+  private async acceptProof(
+    migration: WalletMigration,
+    signature: string | undefined
+  ): Promise<WalletMigration> {
+    if (migration.targetType === "SELF_CUSTODY") {
+      if (!signature) {
+        throw new OwnershipProofError("Sign the migration challenge with the target account's key");
+      }
+      if (!verifyOwnershipSignature(migration.targetAddress, migration.challenge, signature)) {
+        throw new OwnershipProofError(
+          `Signature does not prove ownership of ${migration.targetAddress}`
+        );
+      }
+    } else if (!(await this.isUsersCrossmintWallet(migration.userId, migration.targetAddress))) {
+      throw new OwnershipProofError(
+        `${migration.targetAddress} is no longer the user's Crossmint wallet`
+      );
+    }
+
+    const store = getDataStore();
+    const proved = await store.walletMigrations.updateIfStatus(migration.id, "AWAITING_PROOF", {
+      proofSignature: migration.targetType === "SELF_CUSTODY" ? (signature ?? null) : null,
+      provedAt: new Date(),
+      status: "IN_PROGRESS",
+    });
+
+    console.log(`🔏 User ${migration.userId} proved ownership of ${migration.targetAddress}`);
+
+    // Another server instance accepted a proof first
+    return proved ?? (await store.walletMigrations.findByUserId(migration.userId)) ?? migration;
+  }
+
+  /**
+   * Run the migration's remaining steps, recording progress after each
+   */
+  private async runSteps(migration: WalletMigration): Promise<WalletMigration> {
+    const store = getDataStore();
+    let current = await store.walletMigrations.update(migration.id, {
+      status: "IN_PROGRESS",
+      lastError: null,
+    });
+
+    for (const step of MIGRATION_STEPS.slice(MIGRATION_STEPS.indexOf(current.step))) {
+      console.log(`🧳 Migrating wallet of ${current.userId}: ${step}`);
+
+      try {
+        current = await this.runStep(step, current);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Wallet migration step ${step} failed for user ${current.userId}:`, error);
+        return store.walletMigrations.update(current.id, {
+          status: "FAILED",
+          lastError: message,
+        });
+      }
+
+      const next = MIGRATION_STEPS[MIGRATION_STEPS.indexOf(step) + 1];
+      current = await store.walletMigrations.update(
+        current.id,
+        next ? { step: next } : { status: "COMPLETED", completedAt: new Date() }
+      );
+    }
+
+    console.log(`✅ Wallet of user ${current.userId} migrated to ${current.targetAddress}`);
+    return current;
+  }
+
+  private runStep(step: WalletMigrationStep, migration: WalletMigration): Promise<WalletMigration> {
+    switch (step) {
+      case "MOVE_SHARES":
+        return this.moveShares(migration);
+      case "MOVE_ASSETS":
+        return this.moveAssets(migration);
+      case "UPDATE_MAPPING":
+        return this.updateMapping(migration);
+      case "RETIRE_KEY":
+        return this.retireKey(migration);
+    }
+  }
+
+  // ========================================
+  // STEPS
+  // ========================================
+
+  /**
+   * MOVE_SHARES: transfer (or withdraw) every share the wallet holds,
+   * vault by vault
+   */
+  private async moveShares(migration: WalletMigration): Promise<WalletMigration> {
+    const store = getDataStore();
+    let current = migration;
+
+    for (const vault of this.funds.vaults()) {
+      // Amounts add up if an earlier attempt already moved part of the shares
+      const recordShares = async (transactionHash: string, shares: bigint) => {
+        const moved = BigInt(current.sharesMoved[vault.address] ?? 0) + shares;
+        current = await store.walletMigrations.update(current.id, {
+          sharesTx: transactionHash,
+          sharesMoved: { ...current.sharesMoved, [vault.address]: moved.toString() },
+        });
+      };
+
+      if (current.method === "WITHDRAW") {
+        await this.funds.withdrawAll(current.userId, vault.id, current.sharesTx, recordShares);
+      } else {
+        await this.funds.transferAll(
+          current.userId,
+          current.targetAddress,
+          vault.id,
+          "shares",
+          current.sharesTx,
+          recordShares
+        );
+      }
+    }
+    return current;
+  }
+
+  /**
+   * MOVE_ASSETS: send the wallet's whole balance of every vault asset
+   * to the target
+   *
+   * For native XLM that is the balance above the account's reserve
+   * (see DefindexService.getAssetBalance), so the step can finish.
+   */
+  private async moveAssets(migration: WalletMigration): Promise<WalletMigration> {
+    let current = migration;
+
+    for (const vault of this.funds.assetVaults()) {
+      await this.funds.transferAll(
+        current.userId,
+        current.targetAddress,
+        vault.id,
+        "asset",
+        current.assetsTx,
+        async (transactionHash, amount) => {
+          const sent = BigInt(current.assetsMoved[vault.assetAddress] ?? 0) + amount;
+          current = await getDataStore().walletMigrations.update(current.id, {
+            assetsTx: transactionHash,
+            assetsMoved: { ...current.assetsMoved, [vault.assetAddress]: sent.toString() },
+          });
+        }
+      );
+    }
+    return current;
+  }
+
+  /**
+   * UPDATE_MAPPING: clear the custodial position and point the user's
+   * wallet at the target
+   */
+  private async updateMapping(migration: WalletMigration): Promise<WalletMigration> {
+    const store = getDataStore();
+
+    // The shares left the custodial wallet, so its cached positions go too
+    for (const balance of await store.vaultBalances.listByUser(migration.userId)) {
+      if (balance.vaultShares === BigInt(0) && balance.totalDeposited === BigInt(0)) {
+        continue;
+      }
+      await store.vaultBalances.adjust(
+        {
+          userId: balance.userId,
+          stellarWalletId: balance.stellarWalletId,
+          vaultAddress: balance.vaultAddress,
+        },
+        { deposited: -balance.totalDeposited, shares: -balance.vaultShares }
+      );
+    }
+
+    await store.wallets.markMigrated(migration.stellarWalletId, migration.targetAddress, new Date());
+    return migration;
+  }
+
+  /**
+   * RETIRE_KEY: erase the custodial wallet's encrypted secret key
+   *
+   * The XLM reserve stays behind: remainingFunds() leaves it out.
+   *
+   * @throws Error if any share or asset balance is still on-chain: the
+   *   key is the only way to move it, so it is kept
+   */
+  private async retireKey(migration: WalletMigration): Promise<WalletMigration> {
+    // By address: the wallet is archived once the mapping is updated
+    const remaining = await this.funds.remainingFunds(migration.fromAddress);
+    if (remaining.length > 0) {
+      throw new Error(
+        `Funds remain in the wallet (${describeFunds(remaining)}); its key is kept until they are moved`
+      );
+    }
+
+    await getStellarWalletService().retireSecretKey(migration.userId, "wallet.migrate");
+    return migration;
+  }
+}
+
+/**
+ * The message the target key signs; the nonce makes each one unique
+ */
+function buildChallenge(userId: string, fromAddress: string, targetAddress: string): string {
+  return [
+    "Juby wallet migration",
+    `User: ${userId}`,
+    `From: ${fromAddress}`,
+    `To: ${targetAddress}`,
+    `Nonce: ${crypto.randomBytes(16).toString("hex")}`,
+  ].join("\n");
+}
+
+/**
+ * Check a signature of the challenge by the target account's key,
+ * over the raw message or as a SEP-53 signed message
+ */
+function verifyOwnershipSignature(address: string, message: string, signature: string): boolean {
+  const keypair = Keypair.fromPublicKey(address);
+  const signatureBytes = Buffer.from(signature, "base64");
+  const payload = Buffer.from(message, "utf8");
+  const signedMessageHash = hash(Buffer.concat([Buffer.from(SIGNED_MESSAGE_PREFIX, "utf8"), payload]));
+
+  try {
+    return keypair.verify(payload, signatureBytes) || keypair.verify(signedMessageHash, signatureBytes);
+  } catch {
+    return false;
+  }
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let walletMigrationServiceInstance: WalletMigrationService | null = null;
+
+/**
+ * Get singleton instance of WalletMigrationService
+ */
+export function getWalletMigrationService(): WalletMigrationService {
+  if (!walletMigrationServiceInstance) {
+    walletMigrationServiceInstance = new WalletMigrationService(initializeDefindexService());
+  }
+  return walletMigrationServiceInstance;
+}
+
+/**
+ * A migration with amounts as decimal-integer strings, for API responses
+ */
+export function toMigrationJson(migration: WalletMigration) {
+  return { ...migration };
+}
@@ -0,0 +1,108 @@
+/**
+ * Wallet Operation Queue
+ *
+ * Serializes work per Stellar account. Every transaction consumes the
+ * source account's next sequence number, so two custodial operations
+ * for the same wallet must not build, sign and submit concurrently:
+ * the second would reuse the first's sequence and fail with tx_bad_seq.
+ *
+ * Operations for one wallet run strictly one after another; different
+ * wallets run in parallel. The queue lives in process memory, so it
+ * protects a single server instance.
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface QueueOptions {
+  /** Give up if the operation has not started within this time */
+  maxWaitMs?: number;
+}
+
+/**
+ * An operation waited too long for its wallet and was dropped unexecuted
+ */
+export class StaleOperationError extends Error {
+  constructor(walletKey: string, waitedMs: number) {
+    super(
+      `Operation for wallet ${walletKey} expired after waiting ${Math.round(waitedMs / 1000)}s in queue`
+    );
+    this.name = "StaleOperationError";
+  }
+}
+
+const DEFAULT_MAX_WAIT_MS = 60_000;
+
+// ========================================
+// WALLET OPERATION QUEUE
+// ========================================
+
+export class WalletOperationQueue {
+  private tails: Map<string, Promise<void>> = new Map();
+  private depths: Map<string, number> = new Map();
+
+  /**
+   * Run an operation once every earlier operation for the wallet has finished
+   *
+   * @param walletKey - Wallet the operation uses (e.g. Stellar public key)
+   * @param operation - Work to run while holding the wallet
+   * @param options - Maximum time to wait for the wallet
+   * @returns The operation's result
+   * @throws StaleOperationError if the wait exceeded maxWaitMs
+   */
+  async run<T>(
+    walletKey: string,
+    operation: () => Promise<T>,
+    options: QueueOptions = {}
+  ): Promise<T> {
+    const maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    const enqueuedAt = Date.now();
+
+    const previous = this.tails.get(walletKey) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.tails.set(walletKey, tail);
+
+    const depth = (this.depths.get(walletKey) ?? 0) + 1;
+    this.depths.set(walletKey, depth);
+    if (depth > 1) {
+      console.log(`⏸️  Wallet ${walletKey} busy, queued behind ${depth - 1} operation(s)`);
+    }
+
+    try {
+      await previous;
+
+      const waitedMs = Date.now() - enqueuedAt;
+      if (waitedMs > maxWaitMs) {
+        throw new StaleOperationError(walletKey, waitedMs);
+      }
+
+      return await operation();
+    } finally {
+      release();
+
+      const remaining = (this.depths.get(walletKey) ?? 1) - 1;
+      if (remaining === 0) {
+        this.depths.delete(walletKey);
+      } else {
+        this.depths.set(walletKey, remaining);
+      }
+
+      // Drop the entry once nothing else is chained behind this operation
+      if (this.tails.get(walletKey) === tail) {
+        this.tails.delete(walletKey);
+      }
+    }
+  }
+
+  /**
+   * Number of operations running or waiting for a wallet
+   */
+  getQueueDepth(walletKey: string): number {
+    return this.depths.get(walletKey) ?? 0;
+  }
+}
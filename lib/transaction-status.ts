@@ -0,0 +1,55 @@
+/**
+ * Client helper for following a submitted transaction
+ *
+ * Deposit and withdraw endpoints answer with a PENDING handle as soon
+ * as the network accepts the transaction. This polls the handle's
+ * statusUrl until the ledger settles it.
+ */
+
+export type TransactionStatus = "PENDING" | "SUCCESS" | "FAILED" | "TIMEOUT";
+
+export interface TransactionStatusResponse {
+  success: boolean;
+  transactionHash: string;
+  status?: TransactionStatus;
+  statusUrl?: string;
+  ledger?: number;
+  feeCharged?: string; // Stroops of XLM
+  returnValue?: unknown;
+  error?: string;
+}
+
+/**
+ * Poll a transaction status URL until it is no longer PENDING
+ *
+ * @param statusUrl - URL returned with the pending handle
+ * @param options - Timeout and poll interval in milliseconds
+ * @returns Settled status (SUCCESS or FAILED), or TIMEOUT
+ */
+export async function waitForTransactionStatus(
+  statusUrl: string,
+  { timeoutMs = 90_000, intervalMs = 2_000 } = {}
+): Promise<TransactionStatusResponse> {
+  const deadline = Date.now() + timeoutMs;
+  let latest: TransactionStatusResponse | null = null;
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+
+    const response = await fetch(statusUrl);
+    // 404 only means the network has not indexed the hash yet
+    if (response.ok) {
+      latest = await response.json();
+      if (latest && latest.status !== "PENDING") {
+        return latest;
+      }
+    }
+  }
+
+  return {
+    success: false,
+    transactionHash: latest?.transactionHash ?? "",
+    status: "TIMEOUT",
+    error: "Transaction not confirmed in time",
+  };
+}
@@ -2,9 +2,49 @@
  * Database Model Types
  *
  * These types mirror the Prisma schema but can be used independently
- * of Prisma Client, allowing the app to work with mock or real database.
+ * of Prisma Client, so the Prisma and in-memory data stores share them.
  */
 
+export type BridgeStatus =
+  | "INITIATED"
+  | "ATTESTED"
+  | "MINTED"
+  | "DEPOSITED"
+  | "COMPLETED"
+  | "FAILED";
+
+export type WithdrawalStatus =
+  | "INITIATED"
+  | "WITHDRAWN"
+  | "BRIDGING"
+  | "COMPLETED"
+  | "FAILED";
+
+export type IdempotencyStatus = "IN_PROGRESS" | "COMPLETED";
+
+export type SigningAuditAction = "KEY_ACCESS" | "SIGN_TRANSACTION" | "KEY_RETIRED";
+
+export type AccountClosureStatus = "IN_PROGRESS" | "FAILED" | "COMPLETED";
+
+export type AccountClosureStep =
+  | "WITHDRAW"
+  | "TRANSFER"
+  | "ARCHIVE"
+  | "WIPE_KEYS"
+  | "STATEMENT";
+
+export type WalletMigrationTarget = "SELF_CUSTODY" | "CROSSMINT";
+
+export type WalletMigrationMethod = "TRANSFER_SHARES" | "WITHDRAW";
+
+export type WalletMigrationStatus = "AWAITING_PROOF" | "IN_PROGRESS" | "FAILED" | "COMPLETED";
+
+export type WalletMigrationStep =
+  | "MOVE_SHARES"
+  | "MOVE_ASSETS"
+  | "UPDATE_MAPPING"
+  | "RETIRE_KEY";
+
 export interface StellarWallet {
   id: string;
   userId: string;
@@ -12,17 +52,27 @@ export interface StellarWallet {
   encryptedSecretKey: string;
   encryptionIv: string;
   encryptionTag: string;
+  wrappedDataKey: string | null; // Null for legacy rows encrypted with a master key directly
+  encryptionKeyId: string | null;
+  encryptionKeyVersion: number;
   createdAt: Date;
   lastUsed: Date | null;
+  activatedAt: Date | null;
+  activationTx: string | null;
+  archivedAt: Date | null;
+  migratedTo: string | null; // Set once the user moved to a wallet they hold
+  secretWipedAt: Date | null;
 }
 
 export interface Deposit {
   id: string;
   userId: string;
-  stellarWalletId: string;
+  stellarWalletId: string | null; // Null for self-custody deposits
+  stellarPublicKey: string;
+  vaultAddress: string;
   worldchainTxHash: string | null;
   cctpAttestation: string | null;
-  bridgeStatus: string;
+  bridgeStatus: BridgeStatus;
   stellarMintTx: string | null;
   defindexDepositTx: string | null;
   amountUsdc: bigint;
@@ -45,31 +95,51 @@ export interface VaultBalance {
   updatedAt: Date;
 }
 
+export interface VaultBalanceDrift {
+  id: string;
+  runId: string;
+  userId: string;
+  stellarPublicKey: string;
+  vaultAddress: string;
+  storedShares: bigint;
+  onChainShares: bigint;
+  driftShares: bigint;
+  driftAssets: bigint;
+  flagged: boolean;
+  reviewedAt: Date | null;
+  reviewedBy: string | null;
+  reviewNote: string | null;
+  createdAt: Date;
+}
+
+export interface PortfolioSnapshot {
+  id: string;
+  userId: string;
+  vaultAddress: string;
+  snapshotDate: Date;
+  shares: bigint;
+  pricePerShare: number;
+  value: bigint;
+  createdAt: Date;
+}
+
 export interface Withdrawal {
   id: string;
   userId: string;
-  stellarWalletId: string;
+  stellarWalletId: string | null; // Null for self-custody withdrawals
+  stellarPublicKey: string;
+  vaultAddress: string;
   amountUsdc: bigint;
   vaultShares: bigint;
   slippageBps: number;
   defindexWithdrawTx: string | null;
   stellarBurnTx: string | null;
   worldchainMintTx: string | null;
-  status: string;
+  status: WithdrawalStatus;
   initiatedAt: Date;
   completedAt: Date | null;
 }
 
-export interface VaultDeposit {
-  id: string;
-  userId: string;
-  stellarPublicKey: string;
-  amount: number;
-  transactionHash: string;
-  vaultShares: string;
-  createdAt: Date;
-}
-
 export interface CrossmintWallet {
   id: string;
   userId: string;
@@ -79,4 +149,97 @@ export interface CrossmintWallet {
   walletAlias: string | null;
   createdAt: Date;
   lastUsed: Date | null;
+  archivedAt: Date | null;
+}
+
+export interface EmailVerification {
+  id: string;
+  userId: string;
+  email: string;
+  codeHash: string; // SHA-256 of the code sent; the code itself is never stored
+  attempts: number;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface IdempotencyKey {
+  id: string;
+  key: string;
+  scope: string;
+  requestHash: string;
+  status: IdempotencyStatus;
+  responseStatus: number | null;
+  responseBody: unknown;
+  createdAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date;
+}
+
+export interface FeeSponsorship {
+  id: string;
+  userId: string;
+  transactionHash: string;
+  innerTransactionHash: string;
+  sponsorPublicKey: string;
+  maxFee: bigint;
+  feeCharged: bigint | null;
+  createdAt: Date;
+  settledAt: Date | null;
+}
+
+export interface SigningAuditEntry {
+  id: string;
+  sequence: number;
+  userId: string;
+  stellarPublicKey: string;
+  action: SigningAuditAction;
+  operation: string;
+  contractAddress: string | null;
+  functionName: string | null;
+  amounts: string[];
+  transactionHash: string | null;
+  createdAt: Date;
+  previousHash: string;
+  entryHash: string;
+}
+
+export interface AccountClosure {
+  id: string;
+  userId: string;
+  stellarWalletId: string | null;
+  crossmintWalletId: string | null;
+  destinationAddress: string | null;
+  status: AccountClosureStatus;
+  step: AccountClosureStep;
+  lastError: string | null;
+  withdrawalTx: string | null;
+  transferTx: string | null;
+  transferredAmounts: Record<string, string>; // Asset contract → stroops sent
+  closingStatement: unknown;
+  requestedAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+export interface WalletMigration {
+  id: string;
+  userId: string;
+  stellarWalletId: string;
+  fromAddress: string;
+  targetType: WalletMigrationTarget;
+  targetAddress: string;
+  method: WalletMigrationMethod;
+  challenge: string;
+  proofSignature: string | null;
+  provedAt: Date | null;
+  status: WalletMigrationStatus;
+  step: WalletMigrationStep;
+  lastError: string | null;
+  sharesTx: string | null;
+  sharesMoved: Record<string, string>; // Vault contract → shares moved, in stroops
+  assetsTx: string | null;
+  assetsMoved: Record<string, string>; // Asset contract → stroops sent
+  requestedAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
 }
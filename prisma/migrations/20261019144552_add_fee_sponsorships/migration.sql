@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "fee_sponsorships" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "transaction_hash" VARCHAR(64) NOT NULL,
+    "inner_transaction_hash" VARCHAR(64) NOT NULL,
+    "sponsor_public_key" VARCHAR(56) NOT NULL,
+    "max_fee" BIGINT NOT NULL,
+    "fee_charged" BIGINT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "settled_at" TIMESTAMP(3),
+
+    CONSTRAINT "fee_sponsorships_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fee_sponsorships_transaction_hash_key" ON "fee_sponsorships"("transaction_hash");
+
+-- CreateIndex
+CREATE INDEX "fee_sponsorships_user_id_idx" ON "fee_sponsorships"("user_id");
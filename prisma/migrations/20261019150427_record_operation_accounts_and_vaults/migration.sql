@@ -0,0 +1,88 @@
+-- Deposits and withdrawals now record the account that signed and the
+-- vault they went to, and self-custody operations have no custodial
+-- wallet. Vault balances are kept per user and vault.
+--
+-- Existing rows predate multiple vaults: each user had one vault
+-- balance, so their deposits and withdrawals are backfilled from it.
+-- Rows of users without one are backfilled from the
+-- juby.legacy_vault_address setting, which should hold the
+-- DEFINDEX_VAULT_ADDRESS the app ran with:
+--
+--   ALTER DATABASE <name> SET juby.legacy_vault_address = 'C...';
+
+-- DropForeignKey
+ALTER TABLE "deposits" DROP CONSTRAINT "deposits_stellar_wallet_id_fkey";
+
+-- DropForeignKey
+ALTER TABLE "withdrawals" DROP CONSTRAINT "withdrawals_stellar_wallet_id_fkey";
+
+-- AlterTable
+ALTER TABLE "deposits" ADD COLUMN     "stellar_public_key" VARCHAR(56),
+ADD COLUMN     "vault_address" VARCHAR(56),
+ALTER COLUMN "stellar_wallet_id" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "withdrawals" ADD COLUMN     "stellar_public_key" VARCHAR(56),
+ADD COLUMN     "vault_address" VARCHAR(56),
+ALTER COLUMN "stellar_wallet_id" DROP NOT NULL;
+
+-- Backfill
+UPDATE "deposits" AS d
+SET "stellar_public_key" = w."stellar_public_key"
+FROM "stellar_wallets" AS w
+WHERE w."id" = d."stellar_wallet_id";
+
+UPDATE "withdrawals" AS o
+SET "stellar_public_key" = w."stellar_public_key"
+FROM "stellar_wallets" AS w
+WHERE w."id" = o."stellar_wallet_id";
+
+UPDATE "deposits" AS d
+SET "vault_address" = b."vault_address"
+FROM "vault_balances" AS b
+WHERE b."stellar_wallet_id" = d."stellar_wallet_id";
+
+UPDATE "withdrawals" AS o
+SET "vault_address" = b."vault_address"
+FROM "vault_balances" AS b
+WHERE b."stellar_wallet_id" = o."stellar_wallet_id";
+
+UPDATE "deposits"
+SET "vault_address" = NULLIF(current_setting('juby.legacy_vault_address', true), '')
+WHERE "vault_address" IS NULL;
+
+UPDATE "withdrawals"
+SET "vault_address" = NULLIF(current_setting('juby.legacy_vault_address', true), '')
+WHERE "vault_address" IS NULL;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM "deposits" WHERE "stellar_public_key" IS NULL OR "vault_address" IS NULL)
+        OR EXISTS (SELECT 1 FROM "withdrawals" WHERE "stellar_public_key" IS NULL OR "vault_address" IS NULL)
+    THEN
+        RAISE EXCEPTION 'Deposits or withdrawals could not be backfilled; set juby.legacy_vault_address and run the migration again';
+    END IF;
+END $$;
+
+-- AlterTable
+ALTER TABLE "deposits" ALTER COLUMN "stellar_public_key" SET NOT NULL,
+ALTER COLUMN "vault_address" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "withdrawals" ALTER COLUMN "stellar_public_key" SET NOT NULL,
+ALTER COLUMN "vault_address" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "vault_balances_stellar_wallet_id_key";
+
+-- DropIndex
+DROP INDEX "vault_balances_user_id_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vault_balances_user_id_vault_address_key" ON "vault_balances"("user_id", "vault_address");
+
+-- AddForeignKey
+ALTER TABLE "deposits" ADD CONSTRAINT "deposits_stellar_wallet_id_fkey" FOREIGN KEY ("stellar_wallet_id") REFERENCES "stellar_wallets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "withdrawals" ADD CONSTRAINT "withdrawals_stellar_wallet_id_fkey" FOREIGN KEY ("stellar_wallet_id") REFERENCES "stellar_wallets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
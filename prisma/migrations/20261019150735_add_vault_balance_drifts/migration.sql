@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "vault_balance_drifts" (
+    "id" TEXT NOT NULL,
+    "run_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "stellar_public_key" VARCHAR(56) NOT NULL,
+    "vault_address" VARCHAR(56) NOT NULL,
+    "stored_shares" BIGINT NOT NULL,
+    "on_chain_shares" BIGINT NOT NULL,
+    "drift_shares" BIGINT NOT NULL,
+    "drift_assets" BIGINT NOT NULL,
+    "flagged" BOOLEAN NOT NULL DEFAULT false,
+    "reviewed_at" TIMESTAMP(3),
+    "reviewed_by" TEXT,
+    "review_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vault_balance_drifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vault_balance_drifts_run_id_idx" ON "vault_balance_drifts"("run_id");
+
+-- CreateIndex
+CREATE INDEX "vault_balance_drifts_user_id_idx" ON "vault_balance_drifts"("user_id");
+
+-- CreateIndex
+CREATE INDEX "vault_balance_drifts_flagged_reviewed_at_idx" ON "vault_balance_drifts"("flagged", "reviewed_at");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "portfolio_snapshots" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "vault_address" VARCHAR(56) NOT NULL,
+    "snapshot_date" DATE NOT NULL,
+    "shares" BIGINT NOT NULL,
+    "price_per_share" DOUBLE PRECISION NOT NULL,
+    "value" BIGINT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "portfolio_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "portfolio_snapshots_user_id_vault_address_snapshot_date_key" ON "portfolio_snapshots"("user_id", "vault_address", "snapshot_date");
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "SigningAuditAction" AS ENUM ('KEY_ACCESS', 'SIGN_TRANSACTION');
+
+-- CreateTable
+CREATE TABLE "signing_audit_log" (
+    "id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "stellar_public_key" VARCHAR(56) NOT NULL,
+    "action" "SigningAuditAction" NOT NULL,
+    "operation" TEXT NOT NULL,
+    "contract_address" VARCHAR(56),
+    "function_name" TEXT,
+    "amounts" TEXT[],
+    "transaction_hash" VARCHAR(64),
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "previous_hash" VARCHAR(64) NOT NULL,
+    "entry_hash" VARCHAR(64) NOT NULL,
+
+    CONSTRAINT "signing_audit_log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signing_audit_log_sequence_key" ON "signing_audit_log"("sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signing_audit_log_entry_hash_key" ON "signing_audit_log"("entry_hash");
+
+-- CreateIndex
+CREATE INDEX "signing_audit_log_user_id_created_at_idx" ON "signing_audit_log"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "signing_audit_log_transaction_hash_idx" ON "signing_audit_log"("transaction_hash");
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "AccountClosureStatus" AS ENUM ('IN_PROGRESS', 'FAILED', 'COMPLETED');
+
+-- CreateEnum
+CREATE TYPE "AccountClosureStep" AS ENUM ('WITHDRAW', 'TRANSFER', 'ARCHIVE', 'WIPE_KEYS', 'STATEMENT');
+
+-- AlterTable
+ALTER TABLE "crossmint_wallets" ADD COLUMN     "archived_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "stellar_wallets" ADD COLUMN     "archived_at" TIMESTAMP(3),
+ADD COLUMN     "secret_wiped_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "account_closures" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "stellar_wallet_id" TEXT,
+    "crossmint_wallet_id" TEXT,
+    "destination_address" VARCHAR(56),
+    "status" "AccountClosureStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "step" "AccountClosureStep" NOT NULL DEFAULT 'WITHDRAW',
+    "last_error" TEXT,
+    "withdrawal_tx" VARCHAR(64),
+    "transfer_tx" VARCHAR(64),
+    "transferred_amounts" JSONB NOT NULL DEFAULT '{}',
+    "closing_statement" JSONB,
+    "requested_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "account_closures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_closures_user_id_key" ON "account_closures"("user_id");
+
+-- CreateIndex
+CREATE INDEX "account_closures_status_idx" ON "account_closures"("status");
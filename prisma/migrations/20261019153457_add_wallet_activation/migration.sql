@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "stellar_wallets" ADD COLUMN     "activated_at" TIMESTAMP(3),
+ADD COLUMN     "activation_tx" TEXT;
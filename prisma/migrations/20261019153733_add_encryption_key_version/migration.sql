@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "stellar_wallets" ADD COLUMN     "encryption_key_version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateIndex
+CREATE INDEX "stellar_wallets_encryption_key_version_idx" ON "stellar_wallets"("encryption_key_version");
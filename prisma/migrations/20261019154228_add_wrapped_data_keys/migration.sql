@@ -0,0 +1,9 @@
+-- DropIndex
+DROP INDEX "stellar_wallets_encryption_key_version_idx";
+
+-- AlterTable
+ALTER TABLE "stellar_wallets" ADD COLUMN     "encryption_key_id" TEXT,
+ADD COLUMN     "wrapped_data_key" TEXT;
+
+-- CreateIndex
+CREATE INDEX "stellar_wallets_encryption_key_id_idx" ON "stellar_wallets"("encryption_key_id");
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "WalletMigrationTarget" AS ENUM ('SELF_CUSTODY', 'CROSSMINT');
+
+-- CreateEnum
+CREATE TYPE "WalletMigrationMethod" AS ENUM ('TRANSFER_SHARES', 'WITHDRAW');
+
+-- CreateEnum
+CREATE TYPE "WalletMigrationStatus" AS ENUM ('AWAITING_PROOF', 'IN_PROGRESS', 'FAILED', 'COMPLETED');
+
+-- CreateEnum
+CREATE TYPE "WalletMigrationStep" AS ENUM ('MOVE_SHARES', 'MOVE_ASSETS', 'UPDATE_MAPPING', 'RETIRE_KEY');
+
+-- AlterEnum
+ALTER TYPE "SigningAuditAction" ADD VALUE 'KEY_RETIRED';
+
+-- AlterTable
+ALTER TABLE "stellar_wallets" ADD COLUMN     "migrated_to" VARCHAR(56);
+
+-- CreateTable
+CREATE TABLE "wallet_migrations" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "stellar_wallet_id" TEXT NOT NULL,
+    "from_address" VARCHAR(56) NOT NULL,
+    "target_type" "WalletMigrationTarget" NOT NULL,
+    "target_address" VARCHAR(56) NOT NULL,
+    "method" "WalletMigrationMethod" NOT NULL DEFAULT 'TRANSFER_SHARES',
+    "challenge" TEXT NOT NULL,
+    "proof_signature" TEXT,
+    "proved_at" TIMESTAMP(3),
+    "status" "WalletMigrationStatus" NOT NULL DEFAULT 'AWAITING_PROOF',
+    "step" "WalletMigrationStep" NOT NULL DEFAULT 'MOVE_SHARES',
+    "last_error" TEXT,
+    "shares_tx" VARCHAR(64),
+    "shares_moved" JSONB NOT NULL DEFAULT '{}',
+    "assets_tx" VARCHAR(64),
+    "assets_moved" JSONB NOT NULL DEFAULT '{}',
+    "requested_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "wallet_migrations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_migrations_user_id_key" ON "wallet_migrations"("user_id");
+
+-- CreateIndex
+CREATE INDEX "wallet_migrations_status_idx" ON "wallet_migrations"("status");
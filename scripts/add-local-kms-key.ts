@@ -0,0 +1,34 @@
+/**
+ * Add a Local KMS Key
+ *
+ * Adds a new random key to the local key management provider's key file
+ * (KMS_LOCAL_KEY_FILE, default .keys/local-kms.json) and makes it the
+ * active key, creating the file if needed. Older keys are kept so
+ * existing data keys can still be unwrapped; move them to the new key
+ * with scripts/rotate-master-key.ts.
+ *
+ * For development and tests; production uses a cloud KMS.
+ *   npx tsx scripts/add-local-kms-key.ts
+ */
+
+import "dotenv/config";
+import { getLocalKeyFilePath, LocalFileKeyProvider } from "../lib/kms";
+
+// ========================================
+// MAIN
+// ========================================
+
+function addLocalKmsKey() {
+  const filePath = getLocalKeyFilePath();
+  const keyId = LocalFileKeyProvider.addKey(filePath);
+
+  console.log(`🔐 Added key ${keyId} to ${filePath}; it is now the active key`);
+  console.log("   Restart the server, then run: npx tsx scripts/rotate-master-key.ts");
+}
+
+try {
+  addLocalKmsKey();
+} catch (error) {
+  console.error("❌ Failed to add local KMS key:", error);
+  process.exit(1);
+}
@@ -0,0 +1,73 @@
+/**
+ * Load a Demo Scenario
+ *
+ * Seeds the database with one of the scenarios in fixtures/scenarios/
+ * (new-user, long-time-saver, stuck-bridge), or with any JSON file in
+ * the same format. See lib/services/scenario.service.ts.
+ *
+ * Needs DATA_STORE=prisma: the in-memory store only lives inside the
+ * server process, so use POST /api/admin/scenarios/[name] there instead.
+ * Refused with STELLAR_NETWORK=MAINNET or NODE_ENV=production: the
+ * scenario wallets' keys are derived from seeds in the fixtures.
+ * The scenario's users must not exist yet, so start from an empty
+ * database:
+ *   npx prisma migrate reset
+ *   npx tsx scripts/load-scenario.ts long-time-saver
+ *   npx tsx scripts/load-scenario.ts ./my-scenario.json
+ */
+
+import "dotenv/config";
+import { readFileSync } from "fs";
+import {
+  getScenario,
+  getScenarioLoader,
+  listScenarios,
+  parseScenario,
+} from "../lib/services/scenario.service";
+
+// ========================================
+// MAIN
+// ========================================
+
+async function loadScenario() {
+  const target = process.argv[2];
+
+  if (!target) {
+    console.log("Usage: npx tsx scripts/load-scenario.ts <scenario | path/to/scenario.json>");
+    console.log();
+    for (const { name, description } of listScenarios()) {
+      console.log(`   ${name.padEnd(18)} ${description}`);
+    }
+    process.exit(1);
+  }
+
+  if (process.env.DATA_STORE !== "prisma") {
+    throw new Error("DATA_STORE=prisma is required; the in-memory store would be lost on exit");
+  }
+
+  const scenario = target.endsWith(".json")
+    ? parseScenario(JSON.parse(readFileSync(target, "utf8")))
+    : getScenario(target);
+
+  const report = await getScenarioLoader().load(scenario);
+
+  console.log();
+  console.log("=".repeat(70));
+  console.log(`SCENARIO ${report.scenario}`);
+  console.log("=".repeat(70));
+  console.log(`   Users:       ${report.users}`);
+  console.log(`   Wallets:     ${report.wallets}`);
+  console.log(`   Deposits:    ${report.deposits}`);
+  console.log(`   Withdrawals: ${report.withdrawals}`);
+  console.log(`   Snapshots:   ${report.snapshots}`);
+  console.log();
+}
+
+loadScenario()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ Loading scenario failed:", error);
+    process.exit(1);
+  });
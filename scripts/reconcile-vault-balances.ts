@@ -0,0 +1,97 @@
+/**
+ * Worker: VaultBalance Reconciliation
+ *
+ * Compares every custodial wallet's cached VaultBalance in each
+ * configured vault with that vault's contract, fixes the cached row and
+ * records a drift report. Drift above
+ * RECONCILIATION_DRIFT_THRESHOLD_STROOPS is flagged for admin review at
+ * GET /api/admin/reconciliation/drifts?flagged=true&reviewed=false.
+ *
+ * Needs DATA_STORE=prisma: the in-memory store only lives inside the
+ * server process, so use POST /api/admin/reconciliation there instead.
+ *
+ * Run once (e.g. from cron):
+ *   npx tsx scripts/reconcile-vault-balances.ts
+ * Keep running, reconciling every N minutes:
+ *   npx tsx scripts/reconcile-vault-balances.ts --every 60
+ *
+ * Exits with status 2 when a run flagged drift or found a vault stuck
+ * behind an operation that never settled, so cron can alert on it.
+ */
+
+import "dotenv/config";
+import {
+  getVaultReconciliationService,
+  type ReconciliationReport,
+} from "../lib/services/reconciliation.service";
+import { Money } from "../lib/money";
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+const EVERY_FLAG = "--every";
+const USDC_DECIMALS = 7;
+
+// ========================================
+// MAIN
+// ========================================
+
+async function reconcileOnce(): Promise<ReconciliationReport> {
+  const report = await getVaultReconciliationService().reconcileAll();
+
+  console.log();
+  console.log("=".repeat(70));
+  console.log(`RECONCILIATION ${report.runId}`);
+  console.log("=".repeat(70));
+  console.log(`   Checked:   ${report.checked}`);
+  console.log(`   Matched:   ${report.matched}`);
+  console.log(`   Corrected: ${report.corrected}`);
+  console.log(`   Flagged:   ${report.flagged} (threshold ${Money.fromUnits(report.driftThreshold, USDC_DECIMALS)} USDC)`);
+  console.log(`   Skipped:   ${report.skipped} (operation in flight, ${report.stuck} stuck)`);
+  console.log(`   Failed:    ${report.failed}`);
+
+  for (const result of report.results) {
+    if (result.outcome === "flagged" && result.drift) {
+      console.log(`🚩 ${result.userId} in ${result.vaultAddress}: ${result.drift.storedShares} → ${result.drift.onChainShares} shares (${Money.fromUnits(result.drift.driftAssets, USDC_DECIMALS)} USDC)`);
+    }
+    if (result.stuck && result.inFlightSince) {
+      console.log(`⏳ ${result.userId} in ${result.vaultAddress}: operation in flight since ${result.inFlightSince.toISOString()}`);
+    }
+    if (result.outcome === "failed") {
+      console.log(`❌ ${result.userId} in ${result.vaultAddress}: ${result.error}`);
+    }
+  }
+  console.log();
+
+  return report;
+}
+
+async function main() {
+  const everyIndex = process.argv.indexOf(EVERY_FLAG);
+  if (everyIndex === -1) {
+    const report = await reconcileOnce();
+    process.exit(report.flagged > 0 || report.stuck > 0 ? 2 : 0);
+  }
+
+  const minutes = Number(process.argv[everyIndex + 1]);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    throw new Error(`${EVERY_FLAG} needs a positive number of minutes`);
+  }
+
+  console.log(`⏰ Reconciling every ${minutes} minute(s)`);
+  for (;;) {
+    try {
+      await reconcileOnce();
+    } catch (error) {
+      // A failed run is retried on the next tick rather than ending the worker
+      console.error("❌ Reconciliation run failed:", error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, minutes * 60_000));
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Reconciliation failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+/**
+ * Rotate the Key Management Key
+ *
+ * Moves every custodial Stellar secret onto the KMS provider's active
+ * key, in batches, checking each row by decrypting it again: data keys
+ * wrapped by an older key are re-wrapped, and legacy rows encrypted
+ * directly with a master key are moved to envelope encryption. See
+ * lib/services/key-rotation.service.ts.
+ *
+ * To rotate the local provider's key:
+ * 1. Add a new key and make it active:
+ *      npx tsx scripts/add-local-kms-key.ts
+ *    and restart the server, so new wallets use the new key
+ * 2. Run:
+ *      npx tsx scripts/rotate-master-key.ts
+ *      npx tsx scripts/rotate-master-key.ts --batch-size 100
+ *    If it stops partway, run it again: it resumes with the rows still
+ *    on an older key.
+ * 3. Once it reports no failures, the older key can be removed from the
+ *    key file.
+ *
+ * To migrate legacy rows, run it once with the old master keys set for
+ * this command only (see lib/keyring.ts), then remove them everywhere:
+ *   ENCRYPTION_MASTER_KEY=<old key> npx tsx scripts/rotate-master-key.ts
+ *
+ * Needs DATA_STORE=prisma. Exits with status 1 if any wallet failed.
+ */
+
+import "dotenv/config";
+import { LegacyKeyring } from "../lib/keyring";
+import { getKeyRotationService } from "../lib/services/key-rotation.service";
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+const BATCH_SIZE_FLAG = "--batch-size";
+
+// ========================================
+// MAIN
+// ========================================
+
+async function rotateMasterKey() {
+  if (process.env.DATA_STORE !== "prisma") {
+    throw new Error("DATA_STORE=prisma is required; the in-memory store has nothing to rotate");
+  }
+
+  const flagIndex = process.argv.indexOf(BATCH_SIZE_FLAG);
+  const batchSize = flagIndex === -1 ? undefined : Number(process.argv[flagIndex + 1]);
+
+  const report = await getKeyRotationService(LegacyKeyring.fromEnv()).rotate({
+    batchSize,
+    onBatch: ({ batch, results }) => {
+      const done = results.filter((r) => r.outcome === "rotated" || r.outcome === "migrated").length;
+      console.log(`   Batch ${batch}: ${done}/${results.length} rotated or migrated`);
+    },
+  });
+
+  console.log();
+  console.log("=".repeat(70));
+  console.log(`KEY ROTATION TO ${report.activeKeyId}`);
+  console.log("=".repeat(70));
+  console.log(`   Batches:  ${report.batches}`);
+  console.log(`   Rotated:  ${report.rotated}`);
+  console.log(`   Migrated: ${report.migrated} (legacy master key rows)`);
+  console.log(`   Skipped:  ${report.skipped} (changed while rotating; run again)`);
+  console.log(`   Failed:   ${report.failed}`);
+
+  for (const failure of report.failures) {
+    console.log(`❌ ${failure.userId} (wallet ${failure.walletId}, key ${failure.fromKey}): ${failure.error}`);
+  }
+  console.log();
+
+  return report;
+}
+
+rotateMasterKey()
+  .then((report) => {
+    process.exit(report.failed > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error("❌ Key rotation failed:", error);
+    process.exit(1);
+  });
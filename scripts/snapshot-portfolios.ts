@@ -0,0 +1,45 @@
+/**
+ * Job: Daily Portfolio Snapshots
+ *
+ * Stores every custodial user's vault shares, price per share and value
+ * for the current UTC day. These snapshots are the series behind
+ * GET /api/portfolio/history and the dashboard's progress chart.
+ * Re-running on the same day replaces that day's snapshots.
+ *
+ * Needs DATA_STORE=prisma: the in-memory store only lives inside the
+ * server process, so use POST /api/admin/portfolio/snapshots there instead.
+ *
+ * Run once a day (e.g. from cron):
+ *   npx tsx scripts/snapshot-portfolios.ts
+ */
+
+import "dotenv/config";
+import { getPortfolioService } from "../lib/services/portfolio.service";
+
+// ========================================
+// MAIN
+// ========================================
+
+async function snapshotPortfolios() {
+  const report = await getPortfolioService().takeDailySnapshots();
+
+  console.log();
+  console.log("=".repeat(70));
+  console.log(`PORTFOLIO SNAPSHOTS ${report.snapshotDate.toISOString().slice(0, 10)}`);
+  console.log("=".repeat(70));
+  console.log(`   Taken:   ${report.taken}`);
+  console.log(`   Skipped: ${report.skipped} (no vault position)`);
+  console.log(`   Failed:  ${report.failed}`);
+  console.log();
+
+  return report;
+}
+
+snapshotPortfolios()
+  .then((report) => {
+    process.exit(report.failed > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error("❌ Snapshot job failed:", error);
+    process.exit(1);
+  });
@@ -12,15 +12,16 @@
 
 import "dotenv/config";
 import { initializeStellarWalletService } from "../lib/services/stellar-wallet.service";
-import { initializeDefindexService, DefindexService } from "../lib/services/defindex.service";
+import { initializeDefindexService } from "../lib/services/defindex.service";
+import { Money } from "../lib/money";
 
 // ========================================
 // TEST CONFIGURATION
 // ========================================
 
 const TEST_USER_ID = `test-user-${Date.now()}`;
-const DEPOSIT_AMOUNT_USDC = 10; // 10 USDC
-const DEPOSIT_AMOUNT_STROOPS = DefindexService.amountToStroops(DEPOSIT_AMOUNT_USDC);
+const DEPOSIT_AMOUNT_USDC = Money.parse("10", 7); // 10 USDC
+const DEPOSIT_AMOUNT_STROOPS = DEPOSIT_AMOUNT_USDC.units;
 
 // ========================================
 // MAIN TEST FUNCTION
@@ -109,11 +110,16 @@ async function testCustodialDeposit() {
     console.log("   4. Record in database");
     console.log();
 
-    const depositResult = await defindexService.depositForUser(
+    const submitted = await defindexService.depositForUser(
       TEST_USER_ID,
       DEPOSIT_AMOUNT_STROOPS
     );
 
+    // Wait for the ledger to settle the deposit
+    const depositResult = submitted.success
+      ? await defindexService.waitForTransaction(submitted.transactionHash)
+      : submitted;
+
     if (!depositResult.success) {
       console.error("❌ Deposit failed:", depositResult.error);
       console.log();
@@ -128,6 +134,7 @@ async function testCustodialDeposit() {
 
     console.log("✅ Deposit successful!");
     console.log(`   Transaction Hash: ${depositResult.transactionHash}`);
+    console.log(`   Ledger: ${depositResult.ledger} (fee ${depositResult.feeCharged} stroops)`);
     console.log(`   Vault Shares: ${depositResult.returnValue}`);
     console.log();
 
@@ -139,7 +146,7 @@ async function testCustodialDeposit() {
     const balance = await defindexService.getUserVaultBalance(TEST_USER_ID);
 
     console.log("✅ Vault balance:");
-    console.log(`   Total Deposited: ${DefindexService.stroopsToAmount(balance.balance || 0)} USDC`);
+    console.log(`   Total Deposited: ${Money.fromUnits(balance.balance || "0", 7)} USDC`);
     console.log(`   Vault Shares: ${balance.vaultShares || 0}`);
     console.log();
 
@@ -179,11 +186,10 @@ async function testCustodialDeposit() {
     if (error instanceof Error) {
       console.error("Error details:", error.message);
 
-      if (error.message.includes("ENCRYPTION_MASTER_KEY")) {
+      if (error.message.includes("Local KMS key file")) {
         console.log();
-        console.log("💡 Fix: Generate encryption key:");
-        console.log('   node -e "console.log(require(\'crypto\').randomBytes(32).toString(\'hex\'))"');
-        console.log("   Add to .env.local as ENCRYPTION_MASTER_KEY");
+        console.log("💡 Fix: Create the local encryption key file:");
+        console.log("   npx tsx scripts/add-local-kms-key.ts");
       }
 
       if (error.message.includes("DATABASE_URL")) {
@@ -17,17 +17,15 @@
 
 import "dotenv/config";
 import { Keypair, Networks, TransactionBuilder } from "@stellar/stellar-sdk";
-import {
-  initializeDefindexService,
-  DefindexService,
-} from "../lib/services/defindex.service";
+import { initializeDefindexService } from "../lib/services/defindex.service";
+import { Money } from "../lib/money";
 
 // ========================================
 // TEST CONFIGURATION
 // ========================================
 
-const DEPOSIT_AMOUNT_USDC = 10; // 10 USDC
-const DEPOSIT_AMOUNT_STROOPS = DefindexService.amountToStroops(DEPOSIT_AMOUNT_USDC);
+const DEPOSIT_AMOUNT_USDC = Money.parse("10", 7); // 10 USDC
+const DEPOSIT_AMOUNT_STROOPS = DEPOSIT_AMOUNT_USDC.units;
 
 // ========================================
 // HELPER FUNCTIONS
@@ -71,11 +69,13 @@ async function testDefindexIntegration() {
 
     const defindexService = initializeDefindexService();
     const config = defindexService.getConfig();
+    const vault = defindexService.getVault();
 
     console.log("✅ Defindex service initialized:");
-    console.log(`   Vault Address: ${config.vaultAddress}`);
+    console.log(`   Vault: ${vault.displayName} (${vault.id})`);
+    console.log(`   Vault Address: ${vault.address}`);
     console.log(`   Network: ${config.network}`);
-    console.log(`   Default Slippage: ${config.defaultSlippageBps / 100}%`);
+    console.log(`   Default Slippage: ${vault.defaultSlippageBps / 100}%`);
     console.log();
 
     // ========================================
@@ -179,10 +179,15 @@ async function testDefindexIntegration() {
     console.log("   ⏳ This may take a few seconds...");
     console.log();
 
-    const submitResponse = await defindexService.submitTransaction({
+    const submitted = await defindexService.submitTransaction({
       signedXdr,
     });
 
+    // Wait for the ledger to settle the transaction
+    const submitResponse = submitted.success
+      ? await defindexService.waitForTransaction(submitted.transactionHash)
+      : submitted;
+
     if (!submitResponse.success) {
       console.error("❌ Transaction failed:", submitResponse.error);
       console.log();
@@ -203,6 +208,7 @@ async function testDefindexIntegration() {
 
     console.log("✅ Transaction submitted successfully!");
     console.log(`   Transaction Hash: ${submitResponse.transactionHash}`);
+    console.log(`   Ledger: ${submitResponse.ledger} (fee ${submitResponse.feeCharged} stroops)`);
     console.log(`   Return Value: ${submitResponse.returnValue}`);
     console.log();
 
@@ -216,9 +222,7 @@ async function testDefindexIntegration() {
     if (balanceResponse.success) {
       console.log("✅ Vault balance:");
       console.log(
-        `   Balance: ${DefindexService.stroopsToAmount(
-          balanceResponse.balance || 0
-        )} USDC`
+        `   Balance: ${Money.fromUnits(balanceResponse.balance || "0", 7)} USDC`
       );
       console.log(`   Vault Shares: ${balanceResponse.vaultShares || 0}`);
     } else {